@@ -3,7 +3,46 @@ import { createServer } from '../src/server.js';
 import { createAuthenticatedClient } from '../src/auth/client-factory.js';
 import { GscApiClient } from '../src/api/client.js';
 import { CacheManager } from '../src/cache/cache-manager.js';
-import { RateLimiter } from '../src/utils/rate-limiter.js';
+import { FileCacheStore, DEFAULT_CACHE_DIR } from '../src/cache/file-cache-store.js';
+import { createApiRateLimiters } from '../src/utils/rate-limiter.js';
+import { WarehouseStore, DEFAULT_WAREHOUSE_DIR } from '../src/warehouse/warehouse-store.js';
+import { WarehouseSyncScheduler } from '../src/warehouse/sync.js';
+import { QuotaLedger, DEFAULT_QUOTA_PATH, QUOTA_APIS } from '../src/utils/quota-ledger.js';
+import type { QuotaApi } from '../src/utils/quota-ledger.js';
+import { SitemapHistory, DEFAULT_SITEMAP_HISTORY_DIR } from '../src/sitemaps/sitemap-history.js';
+import { InspectionHistory, DEFAULT_INSPECTION_HISTORY_DIR } from '../src/inspection/inspection-history.js';
+
+/**
+ * Parse `GSC_STALE_WHILE_REVALIDATE` ("analytics=60,sitemaps=30", minutes per
+ * cache namespace) into max-staleness windows in milliseconds.
+ */
+function parseStaleWindows(spec: string | undefined): Record<string, number> {
+  const windows: Record<string, number> = {};
+  for (const part of (spec ?? '').split(',')) {
+    const [namespace, minutes] = part.split('=').map((s) => s.trim());
+    const value = Number(minutes);
+    if (namespace && Number.isFinite(value) && value > 0) {
+      windows[namespace] = value * 60_000;
+    }
+  }
+  return windows;
+}
+
+/**
+ * Parse `GSC_QUOTA_LIMITS` ("urlInspection=1500,searchAnalytics=50000", calls
+ * per property per day) into ledger limits. Unknown APIs are ignored.
+ */
+function parseQuotaLimits(spec: string | undefined): Partial<Record<QuotaApi, number>> {
+  const limits: Partial<Record<QuotaApi, number>> = {};
+  for (const part of (spec ?? '').split(',')) {
+    const [api, calls] = part.split('=').map((s) => s.trim());
+    const value = Number(calls);
+    if ((QUOTA_APIS as readonly string[]).includes(api ?? '') && Number.isFinite(value) && value >= 0) {
+      limits[api as QuotaApi] = value;
+    }
+  }
+  return limits;
+}
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
@@ -11,15 +50,59 @@ async function main(): Promise<void> {
 
   try {
     // Create shared infrastructure
-    const cache = new CacheManager();
-    const rateLimiter = new RateLimiter(20, 30); // 20 req/s, burst of 30
+    const diskCacheEnabled = process.env['GSC_DISK_CACHE'] !== 'false';
+    const cache = new CacheManager(undefined, {
+      store: diskCacheEnabled
+        ? new FileCacheStore(process.env['GSC_CACHE_DIR'] ?? DEFAULT_CACHE_DIR, {
+            maxBytes: process.env['GSC_DISK_CACHE_MAX_MB']
+              ? parseFloat(process.env['GSC_DISK_CACHE_MAX_MB']) * 1024 * 1024
+              : undefined,
+          })
+        : undefined,
+      maxBytes: process.env['GSC_CACHE_MAX_MB']
+        ? parseFloat(process.env['GSC_CACHE_MAX_MB']) * 1024 * 1024
+        : undefined,
+      staleWhileRevalidate: parseStaleWindows(process.env['GSC_STALE_WHILE_REVALIDATE']),
+    });
+    const rateLimiters = createApiRateLimiters(); // one bucket per upstream API
 
     // Authenticate with Google
     const authResult = await createAuthenticatedClient();
     console.error(`[awesome-gsc-mcp] Authenticated via ${authResult.method} (${authResult.identity})`);
 
     // Create API client
-    const api = new GscApiClient(authResult.auth, cache, rateLimiter);
+    const warehouseEnabled = process.env['GSC_WAREHOUSE'] !== 'false';
+    const warehouse = warehouseEnabled
+      ? new WarehouseStore(process.env['GSC_WAREHOUSE_DIR'] ?? DEFAULT_WAREHOUSE_DIR)
+      : undefined;
+    const quotaEnabled = process.env['GSC_QUOTA_TRACKING'] !== 'false';
+    const quota = quotaEnabled
+      ? new QuotaLedger({
+          path: process.env['GSC_QUOTA_FILE'] ?? DEFAULT_QUOTA_PATH,
+          limits: parseQuotaLimits(process.env['GSC_QUOTA_LIMITS']),
+        })
+      : undefined;
+    const sitemapHistoryEnabled = process.env['GSC_SITEMAP_HISTORY'] !== 'false';
+    const sitemapHistory = sitemapHistoryEnabled
+      ? new SitemapHistory({ dir: process.env['GSC_SITEMAP_HISTORY_DIR'] ?? DEFAULT_SITEMAP_HISTORY_DIR })
+      : undefined;
+    const inspectionHistoryEnabled = process.env['GSC_INSPECTION_HISTORY'] !== 'false';
+    const inspectionHistory = inspectionHistoryEnabled
+      ? new InspectionHistory(process.env['GSC_INSPECTION_HISTORY_DIR'] ?? DEFAULT_INSPECTION_HISTORY_DIR)
+      : undefined;
+    const api = new GscApiClient(authResult.auth, cache, rateLimiters, {
+      warehouse,
+      quota,
+      sitemapHistory,
+      inspectionHistory,
+    });
+
+    // Keep synced properties current in the background
+    const syncHours = parseFloat(process.env['GSC_WAREHOUSE_SYNC_HOURS'] ?? '0');
+    if (warehouse && syncHours > 0) {
+      new WarehouseSyncScheduler(api, warehouse, syncHours * 3_600_000).start();
+      console.error(`[awesome-gsc-mcp] Warehouse sync scheduled every ${syncHours}h`);
+    }
 
     // Create MCP server
     const server = createServer(api);
@@ -0,0 +1,226 @@
+/**
+ * Content Lifespan Module
+ *
+ * Discover and Google News traffic arrives in bursts: an article is picked
+ * up, peaks within a day or two and fades. This module profiles each page's
+ * daily impressions -- how long it kept being shown, how fast it decayed
+ * after its peak, and whether it came back -- and rolls pages up into site
+ * sections so editorial areas can be compared.
+ */
+
+import type { SearchAnalyticsRow } from '../api/types.js';
+import { addDays, daysBetween } from '../utils/date-helpers.js';
+
+/**
+ * The shape of a page's impressions over time.
+ *
+ * - flash:       half or more of its impressions came on its peak day
+ * - resurfacing: it faded, then was picked up again
+ * - evergreen:   shown on most days of the window with no dominant peak
+ * - standard:    a peak followed by a gradual decay
+ */
+export type DecayProfile = 'flash' | 'resurfacing' | 'evergreen' | 'standard';
+
+/**
+ * One page's reach and lifespan within the analyzed window.
+ */
+export interface ArticleProfile {
+  page: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  /** First and last day with impressions (YYYY-MM-DD). */
+  firstSeen: string;
+  lastSeen: string;
+  /** Days from first to last impression, inclusive. */
+  lifespanDays: number;
+  /** Days that had any impressions. */
+  activeDays: number;
+  peakDate: string;
+  peakImpressions: number;
+  /** Share (0-1) of the page's impressions that came on its peak day. */
+  peakShare: number;
+  /** Days after the peak until daily impressions fell below half of it, or null if they had not by the window end. */
+  halfLifeDays: number | null;
+  /** Days after the peak until daily impressions fell below a tenth of it, or null if they had not by the window end. */
+  decayDays: number | null;
+  profile: DecayProfile;
+}
+
+/**
+ * Combined reach of the pages in one site section.
+ */
+export interface SectionSummary {
+  /** Leading path, e.g. `/news/`, or `/` for top-level pages. */
+  section: string;
+  pages: number;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  /** Median lifespan of the section's pages, in days. */
+  medianLifespanDays: number;
+}
+
+/** Daily impressions below this share of the peak count as decayed. */
+const DECAYED_SHARE = 0.1;
+
+/** A return to at least this share of the peak after decaying counts as resurfacing. */
+const RESURFACE_SHARE = 0.5;
+
+/** A peak day holding at least this share of all impressions is a flash. */
+const FLASH_PEAK_SHARE = 0.5;
+
+/** Evergreen pages are shown on at least this share of the window's days... */
+const EVERGREEN_ACTIVE_SHARE = 0.6;
+
+/** ...with no day holding more than this share of impressions. */
+const EVERGREEN_MAX_PEAK_SHARE = 0.2;
+
+/**
+ * Profile each page's daily impressions.
+ *
+ * @param rows     Rows grouped by `page` then `date`.
+ * @param endDate  Last day of the analyzed window; decay that has not
+ *                 happened by then is reported as null.
+ * @returns        One profile per page, most impressions first.
+ */
+export function profileArticles(rows: readonly SearchAnalyticsRow[], endDate: string): ArticleProfile[] {
+  const byPage = new Map<string, Map<string, SearchAnalyticsRow>>();
+  for (const row of rows) {
+    const [page, date] = row.keys;
+    if (page === undefined || date === undefined) continue;
+    const days = byPage.get(page) ?? new Map<string, SearchAnalyticsRow>();
+    days.set(date, row);
+    byPage.set(page, days);
+  }
+
+  const profiles: ArticleProfile[] = [];
+  for (const [page, days] of byPage) {
+    const profile = profilePage(page, days, endDate);
+    if (profile) {
+      profiles.push(profile);
+    }
+  }
+  return profiles.sort((a, b) => b.impressions - a.impressions);
+}
+
+/**
+ * The section a page belongs to: its first `depth` path segments, e.g.
+ * `https://example.com/news/world/story` -> `/news/` at depth 1.
+ */
+export function pageSection(pageUrl: string, depth: number = 1): string {
+  let path: string;
+  try {
+    path = new URL(pageUrl).pathname;
+  } catch {
+    path = pageUrl;
+  }
+  // The last segment is the page itself, not a section.
+  const segments = path.split('/').filter((s) => s.length > 0).slice(0, -1).slice(0, depth);
+  return segments.length > 0 ? `/${segments.join('/')}/` : '/';
+}
+
+/**
+ * Roll page profiles up into sections, most impressions first.
+ */
+export function summarizeSections(profiles: readonly ArticleProfile[], depth: number = 1): SectionSummary[] {
+  const bySection = new Map<string, ArticleProfile[]>();
+  for (const profile of profiles) {
+    const section = pageSection(profile.page, depth);
+    const list = bySection.get(section) ?? [];
+    list.push(profile);
+    bySection.set(section, list);
+  }
+
+  const summaries: SectionSummary[] = [];
+  for (const [section, pages] of bySection) {
+    const clicks = pages.reduce((s, p) => s + p.clicks, 0);
+    const impressions = pages.reduce((s, p) => s + p.impressions, 0);
+    summaries.push({
+      section,
+      pages: pages.length,
+      clicks,
+      impressions,
+      ctr: impressions > 0 ? clicks / impressions : 0,
+      medianLifespanDays: median(pages.map((p) => p.lifespanDays)),
+    });
+  }
+  return summaries.sort((a, b) => b.impressions - a.impressions);
+}
+
+/** Median of `values`, or 0 when there are none. */
+export function median(values: readonly number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function profilePage(page: string, days: Map<string, SearchAnalyticsRow>, endDate: string): ArticleProfile | undefined {
+  const dates = [...days.keys()].filter((d) => (days.get(d)?.impressions ?? 0) > 0).sort();
+  if (dates.length === 0) {
+    return undefined;
+  }
+
+  const firstSeen = dates[0]!;
+  const lastSeen = dates[dates.length - 1]!;
+  let clicks = 0;
+  let impressions = 0;
+  let peakDate = firstSeen;
+  let peakImpressions = 0;
+  for (const date of dates) {
+    const row = days.get(date)!;
+    clicks += row.clicks;
+    impressions += row.impressions;
+    if (row.impressions > peakImpressions) {
+      peakDate = date;
+      peakImpressions = row.impressions;
+    }
+  }
+
+  // Walk forward from the peak; days without a row had no impressions.
+  let halfLifeDays: number | null = null;
+  let decayDays: number | null = null;
+  let resurfaced = false;
+  for (let date = addDays(peakDate, 1); date <= endDate; date = addDays(date, 1)) {
+    const daily = days.get(date)?.impressions ?? 0;
+    if (halfLifeDays === null && daily < peakImpressions * 0.5) {
+      halfLifeDays = daysBetween(peakDate, date);
+    }
+    if (decayDays === null && daily < peakImpressions * DECAYED_SHARE) {
+      decayDays = daysBetween(peakDate, date);
+    } else if (decayDays !== null && daily >= peakImpressions * RESURFACE_SHARE) {
+      resurfaced = true;
+      break;
+    }
+  }
+
+  const peakShare = peakImpressions / impressions;
+  const windowDays = daysBetween(firstSeen, endDate) + 1;
+  const profile: DecayProfile =
+    resurfaced ? 'resurfacing'
+    : peakShare >= FLASH_PEAK_SHARE ? 'flash'
+    : dates.length >= windowDays * EVERGREEN_ACTIVE_SHARE && peakShare <= EVERGREEN_MAX_PEAK_SHARE ? 'evergreen'
+    : 'standard';
+
+  return {
+    page,
+    clicks,
+    impressions,
+    ctr: impressions > 0 ? clicks / impressions : 0,
+    firstSeen,
+    lastSeen,
+    lifespanDays: daysBetween(firstSeen, lastSeen) + 1,
+    activeDays: dates.length,
+    peakDate,
+    peakImpressions,
+    peakShare,
+    halfLifeDays,
+    decayDays,
+    profile,
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Country Targeting Module
+ *
+ * Names the ISO 3166-1 alpha-3 codes the `country` dimension reports, reads
+ * the countries a page targets from hreflang-style locale codes in its URL
+ * (`/de/`, `/en-gb/`, `fr.example.com`), and flags pages whose impressions
+ * come mostly from countries outside that target -- e.g. a `/de/` page that
+ * is mainly seen in the US, which usually means hreflang is missing or the
+ * wrong alternate is being served.
+ */
+
+import type { SearchAnalyticsRow } from '../api/types.js';
+
+/**
+ * ISO 3166-1 countries as [alpha-3, alpha-2, name]. Search Console reports
+ * the alpha-3 code in lower case; `zzz` marks traffic it cannot place.
+ */
+const COUNTRIES: ReadonlyArray<readonly [string, string, string]> = [
+  ['afg', 'af', 'Afghanistan'], ['ala', 'ax', 'Åland Islands'], ['alb', 'al', 'Albania'],
+  ['dza', 'dz', 'Algeria'], ['asm', 'as', 'American Samoa'], ['and', 'ad', 'Andorra'],
+  ['ago', 'ao', 'Angola'], ['aia', 'ai', 'Anguilla'], ['ata', 'aq', 'Antarctica'],
+  ['atg', 'ag', 'Antigua and Barbuda'], ['arg', 'ar', 'Argentina'], ['arm', 'am', 'Armenia'],
+  ['abw', 'aw', 'Aruba'], ['aus', 'au', 'Australia'], ['aut', 'at', 'Austria'],
+  ['aze', 'az', 'Azerbaijan'], ['bhs', 'bs', 'Bahamas'], ['bhr', 'bh', 'Bahrain'],
+  ['bgd', 'bd', 'Bangladesh'], ['brb', 'bb', 'Barbados'], ['blr', 'by', 'Belarus'],
+  ['bel', 'be', 'Belgium'], ['blz', 'bz', 'Belize'], ['ben', 'bj', 'Benin'],
+  ['bmu', 'bm', 'Bermuda'], ['btn', 'bt', 'Bhutan'], ['bol', 'bo', 'Bolivia'],
+  ['bes', 'bq', 'Caribbean Netherlands'], ['bih', 'ba', 'Bosnia and Herzegovina'], ['bwa', 'bw', 'Botswana'],
+  ['bvt', 'bv', 'Bouvet Island'], ['bra', 'br', 'Brazil'], ['iot', 'io', 'British Indian Ocean Territory'],
+  ['brn', 'bn', 'Brunei'], ['bgr', 'bg', 'Bulgaria'], ['bfa', 'bf', 'Burkina Faso'],
+  ['bdi', 'bi', 'Burundi'], ['cpv', 'cv', 'Cape Verde'], ['khm', 'kh', 'Cambodia'],
+  ['cmr', 'cm', 'Cameroon'], ['can', 'ca', 'Canada'], ['cym', 'ky', 'Cayman Islands'],
+  ['caf', 'cf', 'Central African Republic'], ['tcd', 'td', 'Chad'], ['chl', 'cl', 'Chile'],
+  ['chn', 'cn', 'China'], ['cxr', 'cx', 'Christmas Island'], ['cck', 'cc', 'Cocos (Keeling) Islands'],
+  ['col', 'co', 'Colombia'], ['com', 'km', 'Comoros'], ['cog', 'cg', 'Congo'],
+  ['cod', 'cd', 'Congo (DRC)'], ['cok', 'ck', 'Cook Islands'], ['cri', 'cr', 'Costa Rica'],
+  ['civ', 'ci', "Côte d'Ivoire"], ['hrv', 'hr', 'Croatia'], ['cub', 'cu', 'Cuba'],
+  ['cuw', 'cw', 'Curaçao'], ['cyp', 'cy', 'Cyprus'], ['cze', 'cz', 'Czechia'],
+  ['dnk', 'dk', 'Denmark'], ['dji', 'dj', 'Djibouti'], ['dma', 'dm', 'Dominica'],
+  ['dom', 'do', 'Dominican Republic'], ['ecu', 'ec', 'Ecuador'], ['egy', 'eg', 'Egypt'],
+  ['slv', 'sv', 'El Salvador'], ['gnq', 'gq', 'Equatorial Guinea'], ['eri', 'er', 'Eritrea'],
+  ['est', 'ee', 'Estonia'], ['swz', 'sz', 'Eswatini'], ['eth', 'et', 'Ethiopia'],
+  ['flk', 'fk', 'Falkland Islands'], ['fro', 'fo', 'Faroe Islands'], ['fji', 'fj', 'Fiji'],
+  ['fin', 'fi', 'Finland'], ['fra', 'fr', 'France'], ['guf', 'gf', 'French Guiana'],
+  ['pyf', 'pf', 'French Polynesia'], ['atf', 'tf', 'French Southern Territories'], ['gab', 'ga', 'Gabon'],
+  ['gmb', 'gm', 'Gambia'], ['geo', 'ge', 'Georgia'], ['deu', 'de', 'Germany'],
+  ['gha', 'gh', 'Ghana'], ['gib', 'gi', 'Gibraltar'], ['grc', 'gr', 'Greece'],
+  ['grl', 'gl', 'Greenland'], ['grd', 'gd', 'Grenada'], ['glp', 'gp', 'Guadeloupe'],
+  ['gum', 'gu', 'Guam'], ['gtm', 'gt', 'Guatemala'], ['ggy', 'gg', 'Guernsey'],
+  ['gin', 'gn', 'Guinea'], ['gnb', 'gw', 'Guinea-Bissau'], ['guy', 'gy', 'Guyana'],
+  ['hti', 'ht', 'Haiti'], ['hmd', 'hm', 'Heard Island and McDonald Islands'], ['vat', 'va', 'Vatican City'],
+  ['hnd', 'hn', 'Honduras'], ['hkg', 'hk', 'Hong Kong'], ['hun', 'hu', 'Hungary'],
+  ['isl', 'is', 'Iceland'], ['ind', 'in', 'India'], ['idn', 'id', 'Indonesia'],
+  ['irn', 'ir', 'Iran'], ['irq', 'iq', 'Iraq'], ['irl', 'ie', 'Ireland'],
+  ['imn', 'im', 'Isle of Man'], ['isr', 'il', 'Israel'], ['ita', 'it', 'Italy'],
+  ['jam', 'jm', 'Jamaica'], ['jpn', 'jp', 'Japan'], ['jey', 'je', 'Jersey'],
+  ['jor', 'jo', 'Jordan'], ['kaz', 'kz', 'Kazakhstan'], ['ken', 'ke', 'Kenya'],
+  ['kir', 'ki', 'Kiribati'], ['prk', 'kp', 'North Korea'], ['kor', 'kr', 'South Korea'],
+  ['xkk', 'xk', 'Kosovo'], ['kwt', 'kw', 'Kuwait'], ['kgz', 'kg', 'Kyrgyzstan'],
+  ['lao', 'la', 'Laos'], ['lva', 'lv', 'Latvia'], ['lbn', 'lb', 'Lebanon'],
+  ['lso', 'ls', 'Lesotho'], ['lbr', 'lr', 'Liberia'], ['lby', 'ly', 'Libya'],
+  ['lie', 'li', 'Liechtenstein'], ['ltu', 'lt', 'Lithuania'], ['lux', 'lu', 'Luxembourg'],
+  ['mac', 'mo', 'Macao'], ['mdg', 'mg', 'Madagascar'], ['mwi', 'mw', 'Malawi'],
+  ['mys', 'my', 'Malaysia'], ['mdv', 'mv', 'Maldives'], ['mli', 'ml', 'Mali'],
+  ['mlt', 'mt', 'Malta'], ['mhl', 'mh', 'Marshall Islands'], ['mtq', 'mq', 'Martinique'],
+  ['mrt', 'mr', 'Mauritania'], ['mus', 'mu', 'Mauritius'], ['myt', 'yt', 'Mayotte'],
+  ['mex', 'mx', 'Mexico'], ['fsm', 'fm', 'Micronesia'], ['mda', 'md', 'Moldova'],
+  ['mco', 'mc', 'Monaco'], ['mng', 'mn', 'Mongolia'], ['mne', 'me', 'Montenegro'],
+  ['msr', 'ms', 'Montserrat'], ['mar', 'ma', 'Morocco'], ['moz', 'mz', 'Mozambique'],
+  ['mmr', 'mm', 'Myanmar'], ['nam', 'na', 'Namibia'], ['nru', 'nr', 'Nauru'],
+  ['npl', 'np', 'Nepal'], ['nld', 'nl', 'Netherlands'], ['ncl', 'nc', 'New Caledonia'],
+  ['nzl', 'nz', 'New Zealand'], ['nic', 'ni', 'Nicaragua'], ['ner', 'ne', 'Niger'],
+  ['nga', 'ng', 'Nigeria'], ['niu', 'nu', 'Niue'], ['nfk', 'nf', 'Norfolk Island'],
+  ['mkd', 'mk', 'North Macedonia'], ['mnp', 'mp', 'Northern Mariana Islands'], ['nor', 'no', 'Norway'],
+  ['omn', 'om', 'Oman'], ['pak', 'pk', 'Pakistan'], ['plw', 'pw', 'Palau'],
+  ['pse', 'ps', 'Palestine'], ['pan', 'pa', 'Panama'], ['png', 'pg', 'Papua New Guinea'],
+  ['pry', 'py', 'Paraguay'], ['per', 'pe', 'Peru'], ['phl', 'ph', 'Philippines'],
+  ['pcn', 'pn', 'Pitcairn Islands'], ['pol', 'pl', 'Poland'], ['prt', 'pt', 'Portugal'],
+  ['pri', 'pr', 'Puerto Rico'], ['qat', 'qa', 'Qatar'], ['reu', 're', 'Réunion'],
+  ['rou', 'ro', 'Romania'], ['rus', 'ru', 'Russia'], ['rwa', 'rw', 'Rwanda'],
+  ['blm', 'bl', 'Saint Barthélemy'], ['shn', 'sh', 'Saint Helena'], ['kna', 'kn', 'Saint Kitts and Nevis'],
+  ['lca', 'lc', 'Saint Lucia'], ['maf', 'mf', 'Saint Martin'], ['spm', 'pm', 'Saint Pierre and Miquelon'],
+  ['vct', 'vc', 'Saint Vincent and the Grenadines'], ['wsm', 'ws', 'Samoa'], ['smr', 'sm', 'San Marino'],
+  ['stp', 'st', 'São Tomé and Príncipe'], ['sau', 'sa', 'Saudi Arabia'], ['sen', 'sn', 'Senegal'],
+  ['srb', 'rs', 'Serbia'], ['syc', 'sc', 'Seychelles'], ['sle', 'sl', 'Sierra Leone'],
+  ['sgp', 'sg', 'Singapore'], ['sxm', 'sx', 'Sint Maarten'], ['svk', 'sk', 'Slovakia'],
+  ['svn', 'si', 'Slovenia'], ['slb', 'sb', 'Solomon Islands'], ['som', 'so', 'Somalia'],
+  ['zaf', 'za', 'South Africa'], ['sgs', 'gs', 'South Georgia and the South Sandwich Islands'], ['ssd', 'ss', 'South Sudan'],
+  ['esp', 'es', 'Spain'], ['lka', 'lk', 'Sri Lanka'], ['sdn', 'sd', 'Sudan'],
+  ['sur', 'sr', 'Suriname'], ['sjm', 'sj', 'Svalbard and Jan Mayen'], ['swe', 'se', 'Sweden'],
+  ['che', 'ch', 'Switzerland'], ['syr', 'sy', 'Syria'], ['twn', 'tw', 'Taiwan'],
+  ['tjk', 'tj', 'Tajikistan'], ['tza', 'tz', 'Tanzania'], ['tha', 'th', 'Thailand'],
+  ['tls', 'tl', 'Timor-Leste'], ['tgo', 'tg', 'Togo'], ['tkl', 'tk', 'Tokelau'],
+  ['ton', 'to', 'Tonga'], ['tto', 'tt', 'Trinidad and Tobago'], ['tun', 'tn', 'Tunisia'],
+  ['tur', 'tr', 'Türkiye'], ['tkm', 'tm', 'Turkmenistan'], ['tca', 'tc', 'Turks and Caicos Islands'],
+  ['tuv', 'tv', 'Tuvalu'], ['uga', 'ug', 'Uganda'], ['ukr', 'ua', 'Ukraine'],
+  ['are', 'ae', 'United Arab Emirates'], ['gbr', 'gb', 'United Kingdom'], ['usa', 'us', 'United States'],
+  ['umi', 'um', 'U.S. Outlying Islands'], ['ury', 'uy', 'Uruguay'], ['uzb', 'uz', 'Uzbekistan'],
+  ['vut', 'vu', 'Vanuatu'], ['ven', 've', 'Venezuela'], ['vnm', 'vn', 'Vietnam'],
+  ['vgb', 'vg', 'British Virgin Islands'], ['vir', 'vi', 'U.S. Virgin Islands'], ['wlf', 'wf', 'Wallis and Futuna'],
+  ['esh', 'eh', 'Western Sahara'], ['yem', 'ye', 'Yemen'], ['zmb', 'zm', 'Zambia'],
+  ['zwe', 'zw', 'Zimbabwe'],
+];
+
+const NAME_BY_ALPHA3 = new Map(COUNTRIES.map(([a3, , name]) => [a3, name]));
+const ALPHA3_BY_ALPHA2 = new Map(COUNTRIES.map(([a3, a2]) => [a2, a3]));
+
+/**
+ * Countries each language is mainly read in, for locale codes without a
+ * region. English and Arabic are read too widely for a bare language code
+ * to target anywhere, so they are left out.
+ */
+const LANGUAGE_COUNTRIES: Record<string, readonly string[]> = {
+  de: ['deu', 'aut', 'che', 'lie', 'lux'],
+  fr: ['fra', 'bel', 'che', 'lux', 'mco', 'can'],
+  es: ['esp', 'mex', 'arg', 'col', 'chl', 'per', 'ven', 'ecu', 'gtm', 'bol', 'dom', 'hnd', 'pry', 'slv', 'nic', 'cri', 'pan', 'ury', 'pri', 'cub'],
+  pt: ['prt', 'bra', 'ago', 'moz'],
+  nl: ['nld', 'bel', 'sur'],
+  it: ['ita', 'che', 'smr', 'vat'],
+  pl: ['pol'],
+  cs: ['cze'],
+  sk: ['svk'],
+  hu: ['hun'],
+  ro: ['rou', 'mda'],
+  bg: ['bgr'],
+  el: ['grc', 'cyp'],
+  sv: ['swe', 'fin'],
+  da: ['dnk', 'grl', 'fro'],
+  nb: ['nor'],
+  no: ['nor'],
+  fi: ['fin'],
+  et: ['est'],
+  lv: ['lva'],
+  lt: ['ltu'],
+  sl: ['svn'],
+  hr: ['hrv', 'bih'],
+  sr: ['srb', 'bih', 'mne'],
+  ru: ['rus', 'blr', 'kaz', 'kgz'],
+  tr: ['tur', 'cyp'],
+  he: ['isr'],
+  ja: ['jpn'],
+  ko: ['kor'],
+  zh: ['chn', 'twn', 'hkg', 'mac', 'sgp'],
+  th: ['tha'],
+  vi: ['vnm'],
+  id: ['idn'],
+  ms: ['mys', 'brn', 'sgp'],
+  hi: ['ind'],
+};
+
+/**
+ * Bare country codes recognized as locale folders. Any ISO code is accepted
+ * as the region of a `xx-yy` locale, but on its own a two-letter segment is
+ * as likely to be a word (`/ai/`, `/me/`, `/tv/`), so only codes sites
+ * commonly use for country folders count. `uk` is the Ukrainian language
+ * code too, but as a folder it nearly always means the United Kingdom.
+ */
+const COUNTRY_FOLDERS: Record<string, string> = {
+  us: 'usa', uk: 'gbr', gb: 'gbr', ca: 'can', au: 'aus', nz: 'nzl',
+  ie: 'irl', za: 'zaf', sg: 'sgp', in: 'ind', at: 'aut', ch: 'che',
+  be: 'bel', mx: 'mex', br: 'bra', hk: 'hkg', ae: 'are',
+};
+
+/** The countries a page's locale code points at. */
+export interface PageLocale {
+  /** The locale code as it appears in the URL, lower-cased (e.g. `en-gb`). */
+  code: string;
+  /** Alpha-3 codes of the targeted countries. */
+  countries: string[];
+}
+
+/**
+ * A page whose impressions come mainly from countries its locale does not
+ * target.
+ */
+export interface TargetingMismatch {
+  page: string;
+  locale: PageLocale;
+  clicks: number;
+  impressions: number;
+  /** Share (0-1) of impressions from the targeted countries. */
+  targetedShare: number;
+  /** The country with the most impressions, outside the target. */
+  topCountry: string;
+  /** Share (0-1) of impressions from `topCountry`. */
+  topCountryShare: number;
+}
+
+export interface MismatchOptions {
+  /** Pages with fewer impressions are skipped as too noisy (default 100). */
+  minImpressions?: number;
+  /** A page is flagged when its targeted share is below this (default 0.5). */
+  maxTargetedShare?: number;
+}
+
+/**
+ * Display name for a `country` dimension value, e.g. `deu` -> `Germany`.
+ * Unknown codes are returned upper-cased.
+ */
+export function countryName(code: string): string {
+  const key = code.toLowerCase();
+  if (key === 'zzz') {
+    return 'Unknown region';
+  }
+  return NAME_BY_ALPHA3.get(key) ?? code.toUpperCase();
+}
+
+/**
+ * Read the locale a URL targets from its first path segment or, failing
+ * that, its leftmost subdomain. Segments such as `de`, `de-at`, `en_GB` and
+ * `uk` are recognized; a bare `en` is not, since it does not target any one
+ * country.
+ */
+export function detectPageLocale(pageUrl: string): PageLocale | undefined {
+  let url: URL;
+  try {
+    url = new URL(pageUrl);
+  } catch {
+    return undefined;
+  }
+
+  const segment = url.pathname.split('/').find((s) => s.length > 0);
+  const labels = url.hostname.split('.');
+  const candidates = [segment, labels.length > 2 ? labels[0] : undefined];
+
+  for (const candidate of candidates) {
+    const locale = candidate ? parseLocaleCode(candidate) : undefined;
+    if (locale) {
+      return locale;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find pages whose impressions come mainly from countries their URL locale
+ * does not target.
+ *
+ * @param rows  Rows grouped by `page` then `country`.
+ * @returns     Mismatched pages, most impressions first.
+ */
+export function findTargetingMismatches(
+  rows: readonly SearchAnalyticsRow[],
+  options: MismatchOptions = {},
+): TargetingMismatch[] {
+  const minImpressions = options.minImpressions ?? 100;
+  const maxTargetedShare = options.maxTargetedShare ?? 0.5;
+
+  const byPage = new Map<string, SearchAnalyticsRow[]>();
+  for (const row of rows) {
+    const page = row.keys[0];
+    if (page === undefined || row.keys[1] === undefined) continue;
+    const list = byPage.get(page) ?? [];
+    list.push(row);
+    byPage.set(page, list);
+  }
+
+  const mismatches: TargetingMismatch[] = [];
+  for (const [page, pageRows] of byPage) {
+    const locale = detectPageLocale(page);
+    if (!locale) continue;
+
+    const impressions = pageRows.reduce((s, r) => s + r.impressions, 0);
+    if (impressions < minImpressions) continue;
+
+    const targets = new Set(locale.countries);
+    const targeted = pageRows
+      .filter((r) => targets.has(r.keys[1]!.toLowerCase()))
+      .reduce((s, r) => s + r.impressions, 0);
+    const targetedShare = targeted / impressions;
+    if (targetedShare >= maxTargetedShare) continue;
+
+    const top = pageRows.reduce((best, r) => (r.impressions > best.impressions ? r : best));
+    if (targets.has(top.keys[1]!.toLowerCase())) continue;
+
+    mismatches.push({
+      page,
+      locale,
+      clicks: pageRows.reduce((s, r) => s + r.clicks, 0),
+      impressions,
+      targetedShare,
+      topCountry: top.keys[1]!.toLowerCase(),
+      topCountryShare: top.impressions / impressions,
+    });
+  }
+
+  return mismatches.sort((a, b) => b.impressions - a.impressions);
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function parseLocaleCode(raw: string): PageLocale | undefined {
+  const code = raw.toLowerCase().replace('_', '-');
+  const match = /^([a-z]{2})(?:-([a-z]{2}))?$/.exec(code);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, first, region] = match;
+  if (region) {
+    const country = ALPHA3_BY_ALPHA2.get(region === 'uk' ? 'gb' : region);
+    return country ? { code, countries: [country] } : undefined;
+  }
+
+  const country = COUNTRY_FOLDERS[first!];
+  if (country) {
+    return { code, countries: [country] };
+  }
+  const language = LANGUAGE_COUNTRIES[first!];
+  return language ? { code, countries: [...language] } : undefined;
+}
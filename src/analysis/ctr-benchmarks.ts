@@ -58,17 +58,47 @@ const PAGE_TWO_CTR = 0.015;
 /** Average CTR for positions 21+. */
 const DEEP_CTR = 0.005;
 
+/**
+ * Expected CTR for search types whose results are cards in a feed rather
+ * than a ranked list. Discover and Google News report no position, so a
+ * single rough average stands in for the position curve.
+ */
+const FEED_CTR_BENCHMARKS: ReadonlyMap<string, number> = new Map<string, number>([
+  ['discover', 0.05],
+  ['googleNews', 0.04],
+]);
+
+/**
+ * Whether results of a search type have a ranking position. Discover and
+ * Google News do not: their reported position is meaningless, and they
+ * have no `query` dimension either.
+ *
+ * @param searchType - The search type (defaults to web).
+ */
+export function hasRankingPosition(searchType?: string): boolean {
+  return searchType === undefined || !FEED_CTR_BENCHMARKS.has(searchType);
+}
+
 /**
  * Returns the expected organic CTR for a given search position.
  *
  * Uses industry-average benchmarks for positions 1-10, a flat average
  * for positions 11-20, and a minimal rate for positions beyond 20.
+ * For search types without a ranking position the position is ignored and
+ * a flat feed benchmark is returned instead.
  *
  * @param position - The search result position (1-based). Fractional
  *   positions are rounded to the nearest integer.
+ * @param searchType - The search type the position comes from (defaults
+ *   to web).
  * @returns The expected CTR as a decimal (e.g., 0.317 for 31.7%).
  */
-export function getExpectedCtr(position: number): number {
+export function getExpectedCtr(position: number, searchType?: string): number {
+  const feedBenchmark = searchType === undefined ? undefined : FEED_CTR_BENCHMARKS.get(searchType);
+  if (feedBenchmark !== undefined) {
+    return feedBenchmark;
+  }
+
   const roundedPosition = Math.max(1, Math.round(position));
 
   const benchmark = CTR_BENCHMARKS.get(roundedPosition);
@@ -111,10 +141,12 @@ export function getCtrPerformanceLabel(
  *
  * @param position - The search result position (1-based).
  * @param actualCtr - The actual observed CTR as a decimal.
+ * @param searchType - The search type (defaults to web). Types without a
+ *   ranking position are compared against a flat feed benchmark.
  * @returns A full CTR analysis including gap, ratio, and performance label.
  */
-export function analyzeCtr(position: number, actualCtr: number): CtrAnalysis {
-  const expectedCtr = getExpectedCtr(position);
+export function analyzeCtr(position: number, actualCtr: number, searchType?: string): CtrAnalysis {
+  const expectedCtr = getExpectedCtr(position, searchType);
   const ctrGap = actualCtr - expectedCtr;
   const ctrRatio = expectedCtr > 0 ? actualCtr / expectedCtr : 0;
   const performance = getCtrPerformanceLabel(ctrRatio);
@@ -133,10 +165,12 @@ export function analyzeCtr(position: number, actualCtr: number): CtrAnalysis {
  * Analyzes multiple rows of position/CTR data against benchmarks.
  *
  * @param rows - An array of objects containing `position` and `ctr` fields.
+ * @param searchType - The search type the rows come from (defaults to web).
  * @returns An array of CTR analyses, one per input row.
  */
 export function batchAnalyzeCtr(
-  rows: ReadonlyArray<{ position: number; ctr: number }>
+  rows: ReadonlyArray<{ position: number; ctr: number }>,
+  searchType?: string
 ): CtrAnalysis[] {
-  return rows.map((row) => analyzeCtr(row.position, row.ctr));
+  return rows.map((row) => analyzeCtr(row.position, row.ctr, searchType));
 }
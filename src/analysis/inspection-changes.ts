@@ -0,0 +1,129 @@
+/**
+ * Inspection Changes Module
+ *
+ * Turns recorded URL Inspection results into what changed between them: a
+ * per-URL timeline of verdict, coverage and canonical changes with the crawl
+ * dates in between, and a diff of every URL whose status moved between two
+ * inspection runs.
+ */
+
+import type { InspectionRecord, UrlInspectionHistory } from '../inspection/inspection-history.js';
+
+/** Index status fields compared between inspections. */
+export const TRACKED_FIELDS = [
+  'verdict',
+  'coverageState',
+  'indexingState',
+  'robotsTxtState',
+  'pageFetchState',
+  'googleCanonical',
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export interface FieldChange {
+  field: TrackedField;
+  /** Undefined when the earlier result did not report the field. */
+  from?: string;
+  /** Undefined when the later result does not report the field. */
+  to?: string;
+}
+
+export interface TimelineEntry {
+  inspectedAt: string;
+  verdict?: string;
+  coverageState?: string;
+  googleCanonical?: string;
+  lastCrawlTime?: string;
+  /** Differences from the previous inspection; empty for the first. */
+  changes: FieldChange[];
+  /** True when Google crawled the page again since the previous inspection. */
+  recrawled: boolean;
+}
+
+export interface InspectionStatusChange {
+  url: string;
+  before: InspectionRecord;
+  after: InspectionRecord;
+  changes: FieldChange[];
+  recrawled: boolean;
+}
+
+/**
+ * One entry per recorded inspection, oldest first, each compared with the
+ * one before it.
+ */
+export function buildInspectionTimeline(records: readonly InspectionRecord[]): TimelineEntry[] {
+  return records.map((record, i) => {
+    const index = record.result.indexStatusResult;
+    const previous = records[i - 1];
+    return {
+      inspectedAt: record.inspectedAt,
+      ...(index?.verdict ? { verdict: index.verdict } : {}),
+      ...(index?.coverageState ? { coverageState: index.coverageState } : {}),
+      ...(index?.googleCanonical ? { googleCanonical: index.googleCanonical } : {}),
+      ...(index?.lastCrawlTime ? { lastCrawlTime: index.lastCrawlTime } : {}),
+      changes: previous ? compareRecords(previous, record) : [],
+      recrawled: previous ? wasRecrawled(previous, record) : false,
+    };
+  });
+}
+
+/**
+ * URLs whose index status changed between two runs, in the order given.
+ *
+ * Without `since`, each URL's latest inspection is compared with the one
+ * before it. With `since` (a date or ISO timestamp), it is compared with the
+ * last inspection made before then, and URLs not inspected again since are
+ * left out.
+ */
+export function diffInspections(
+  histories: readonly UrlInspectionHistory[],
+  since?: string,
+): InspectionStatusChange[] {
+  const cutoff = since === undefined ? undefined : Date.parse(since);
+  const diffs: InspectionStatusChange[] = [];
+
+  for (const { url, records } of histories) {
+    const after = records[records.length - 1];
+    if (!after) continue;
+
+    let before: InspectionRecord | undefined;
+    if (cutoff === undefined) {
+      before = records[records.length - 2];
+    } else {
+      if (Date.parse(after.inspectedAt) < cutoff) continue;
+      before = records.filter((r) => Date.parse(r.inspectedAt) < cutoff).pop();
+    }
+    if (!before) continue;
+
+    const changes = compareRecords(before, after);
+    if (changes.length > 0) {
+      diffs.push({ url, before, after, changes, recrawled: wasRecrawled(before, after) });
+    }
+  }
+  return diffs;
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function compareRecords(before: InspectionRecord, after: InspectionRecord): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of TRACKED_FIELDS) {
+    const from = before.result.indexStatusResult?.[field];
+    const to = after.result.indexStatusResult?.[field];
+    if (from !== to) {
+      changes.push({ field, ...(from !== undefined ? { from } : {}), ...(to !== undefined ? { to } : {}) });
+    }
+  }
+  return changes;
+}
+
+function wasRecrawled(before: InspectionRecord, after: InspectionRecord): boolean {
+  const from = before.result.indexStatusResult?.lastCrawlTime;
+  const to = after.result.indexStatusResult?.lastCrawlTime;
+  if (to === undefined) return false;
+  return from === undefined || Date.parse(to) > Date.parse(from);
+}
@@ -0,0 +1,150 @@
+/**
+ * Intraday Comparison Module
+ *
+ * Lines up hourly Search Analytics rows for one day against the same hours
+ * a week earlier, and flags hours that dropped or spiked sharply -- the
+ * signature of an outage or a launch. Comparing to the same weekday keeps
+ * normal weekly patterns from reading as anomalies.
+ */
+
+import type { SearchAnalyticsRow } from '../api/types.js';
+import { addDays } from '../utils/date-helpers.js';
+
+/**
+ * One hour of a day next to the same hour one week earlier.
+ */
+export interface HourlyComparison {
+  /** Hour of the day in Pacific Time (0-23). */
+  hour: number;
+  clicks: number;
+  impressions: number;
+  /** Clicks in the same hour one week earlier (0 when none were reported). */
+  baselineClicks: number;
+  baselineImpressions: number;
+  /** Percentage change in clicks, or null when the baseline is 0. */
+  changePercent: number | null;
+}
+
+/**
+ * A day's hourly clicks compared to the same weekday one week earlier.
+ */
+export interface IntradayComparison {
+  /** The day being compared (YYYY-MM-DD, Pacific Time). */
+  date: string;
+  /** The same weekday one week earlier. */
+  baselineDate: string;
+  /** Hours reported so far for `date`, in order. */
+  hours: HourlyComparison[];
+  /** Clicks across the reported hours. */
+  clicks: number;
+  /** Clicks across the same hours of the baseline day. */
+  baselineClicks: number;
+  /** Percentage change across the reported hours, or null when the baseline is 0. */
+  changePercent: number | null;
+}
+
+/**
+ * An hour whose clicks moved sharply against last week.
+ */
+export interface HourlyAnomaly {
+  date: string;
+  hour: number;
+  kind: 'drop' | 'spike';
+  changePercent: number;
+}
+
+/** Hours with fewer baseline clicks than this are too noisy to flag. */
+const MIN_BASELINE_CLICKS = 10;
+
+/** A drop at least this large (percent) is flagged. */
+const DROP_THRESHOLD = -50;
+
+/** A rise at least this large (percent) is flagged. */
+const SPIKE_THRESHOLD = 100;
+
+/**
+ * Split an `hour` dimension key into its Pacific date and hour.
+ * Keys look like `2025-04-07T14:00:00-07:00`.
+ */
+export function parseHourKey(key: string): { date: string; hour: number } | undefined {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2})/.exec(key);
+  if (!match) {
+    return undefined;
+  }
+  return { date: match[1]!, hour: Number(match[2]) };
+}
+
+/**
+ * Compare the hours reported for `date` against the same hours seven days
+ * earlier.
+ *
+ * @param rows  Rows grouped by the `hour` dimension, covering both days.
+ */
+export function compareHourly(rows: SearchAnalyticsRow[], date: string): IntradayComparison {
+  const baselineDate = addDays(date, -7);
+  const current = new Map<number, SearchAnalyticsRow>();
+  const baseline = new Map<number, SearchAnalyticsRow>();
+
+  for (const row of rows) {
+    const parsed = parseHourKey(row.keys[0] ?? '');
+    if (parsed?.date === date) {
+      current.set(parsed.hour, row);
+    } else if (parsed?.date === baselineDate) {
+      baseline.set(parsed.hour, row);
+    }
+  }
+
+  const hours: HourlyComparison[] = [...current.keys()]
+    .sort((a, b) => a - b)
+    .map((hour) => {
+      const row = current.get(hour)!;
+      const before = baseline.get(hour);
+      const baselineClicks = before?.clicks ?? 0;
+      return {
+        hour,
+        clicks: row.clicks,
+        impressions: row.impressions,
+        baselineClicks,
+        baselineImpressions: before?.impressions ?? 0,
+        changePercent: percentChange(row.clicks, baselineClicks),
+      };
+    });
+
+  const clicks = hours.reduce((sum, h) => sum + h.clicks, 0);
+  const baselineClicks = hours.reduce((sum, h) => sum + h.baselineClicks, 0);
+
+  return {
+    date,
+    baselineDate,
+    hours,
+    clicks,
+    baselineClicks,
+    changePercent: percentChange(clicks, baselineClicks),
+  };
+}
+
+/**
+ * Hours that dropped or spiked sharply against last week. Hours with a
+ * small baseline are skipped because a handful of clicks swings wildly.
+ */
+export function findHourlyAnomalies(comparison: IntradayComparison): HourlyAnomaly[] {
+  const anomalies: HourlyAnomaly[] = [];
+
+  for (const h of comparison.hours) {
+    if (h.baselineClicks < MIN_BASELINE_CLICKS || h.changePercent === null) {
+      continue;
+    }
+    if (h.changePercent <= DROP_THRESHOLD) {
+      anomalies.push({ date: comparison.date, hour: h.hour, kind: 'drop', changePercent: h.changePercent });
+    } else if (h.changePercent >= SPIKE_THRESHOLD) {
+      anomalies.push({ date: comparison.date, hour: h.hour, kind: 'spike', changePercent: h.changePercent });
+    }
+  }
+
+  return anomalies;
+}
+
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
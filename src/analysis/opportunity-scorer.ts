@@ -50,6 +50,12 @@ export interface OpportunityParams {
   trend?: number;
   /** Number of distinct queries driving impressions to this page. */
   queryCount?: number;
+  /**
+   * Whether the surface has ranking positions (default true). Discover and
+   * Google News do not; without one, position carries no weight and the
+   * CTR gap is only scored when `expectedCtr` is given.
+   */
+  hasPosition?: boolean;
 }
 
 /** Factor weights (must sum to 1.0). */
@@ -201,6 +207,8 @@ export function getPriority(score: number): OpportunityScore['priority'] {
  * - **Query Count (10%)**: Breadth -- more queries = broader opportunity.
  *
  * Each factor is normalized to 0-100, then combined via weighted sum.
+ * When `hasPosition` is false the position factor is reported with zero
+ * weight and the remaining weights are scaled up to sum to 1.
  *
  * @param params - The input parameters describing the opportunity.
  * @returns The scored opportunity with factor breakdown.
@@ -213,46 +221,53 @@ export function scoreOpportunity(params: OpportunityParams): OpportunityScore {
     expectedCtr,
     trend = 0,
     queryCount = 1,
+    hasPosition = true,
   } = params;
 
-  const resolvedExpectedCtr = expectedCtr ?? getDefaultExpectedCtr(position);
+  const resolvedExpectedCtr = expectedCtr ?? (hasPosition ? getDefaultExpectedCtr(position) : 0);
 
   const impressionsValue = normalizeImpressions(impressions);
   const ctrGapValue = normalizeCtrGap(ctr, resolvedExpectedCtr);
-  const positionValue = normalizePosition(position);
+  const positionValue = hasPosition ? normalizePosition(position) : 0;
   const trendValue = normalizeTrend(trend);
   const queryCountValue = normalizeQueryCount(queryCount);
 
+  // Without a position, spread its weight over the other factors.
+  const positionWeight = hasPosition ? WEIGHTS.position : 0;
+  const scale = 1 / (1 - WEIGHTS.position + positionWeight);
+  const weight = (name: keyof typeof WEIGHTS): number =>
+    name === 'position' ? positionWeight : WEIGHTS[name] * scale;
+
   const factors: ScoreFactor[] = [
     {
       name: 'impressions',
-      weight: WEIGHTS.impressions,
+      weight: weight('impressions'),
       value: impressionsValue,
-      contribution: WEIGHTS.impressions * impressionsValue,
+      contribution: weight('impressions') * impressionsValue,
     },
     {
       name: 'ctrGap',
-      weight: WEIGHTS.ctrGap,
+      weight: weight('ctrGap'),
       value: ctrGapValue,
-      contribution: WEIGHTS.ctrGap * ctrGapValue,
+      contribution: weight('ctrGap') * ctrGapValue,
     },
     {
       name: 'position',
-      weight: WEIGHTS.position,
+      weight: weight('position'),
       value: positionValue,
-      contribution: WEIGHTS.position * positionValue,
+      contribution: weight('position') * positionValue,
     },
     {
       name: 'trend',
-      weight: WEIGHTS.trend,
+      weight: weight('trend'),
       value: trendValue,
-      contribution: WEIGHTS.trend * trendValue,
+      contribution: weight('trend') * trendValue,
     },
     {
       name: 'queryCount',
-      weight: WEIGHTS.queryCount,
+      weight: weight('queryCount'),
       value: queryCountValue,
-      contribution: WEIGHTS.queryCount * queryCountValue,
+      contribution: weight('queryCount') * queryCountValue,
     },
   ];
 
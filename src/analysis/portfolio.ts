@@ -0,0 +1,109 @@
+/**
+ * Portfolio Module
+ *
+ * Ranks a set of properties by how urgently they need attention, so an
+ * account with dozens of sites can start with the ones that are failing
+ * their health check or losing traffic rather than reading every row.
+ */
+
+/**
+ * One property's totals for a period and the period before it.
+ */
+export interface PropertySnapshot {
+  siteUrl: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+  previousClicks: number;
+  previousImpressions: number;
+  previousPosition: number;
+  /** seo_health_check letter grade, when one was computed. */
+  grade?: string;
+  /** seo_health_check overall score (0-100), when one was computed. */
+  healthScore?: number;
+}
+
+/**
+ * A property with the reasons it needs attention.
+ */
+export interface PortfolioEntry extends PropertySnapshot {
+  /** Why the property was flagged; empty when it looks fine. */
+  reasons: string[];
+  /** Higher means more urgent; 0 when nothing was flagged. */
+  urgency: number;
+}
+
+/** Clicks in the previous period below this are too few to judge a drop. */
+const MIN_PREVIOUS_CLICKS = 50;
+
+/** Impressions in the previous period below this are too few to judge a drop. */
+const MIN_PREVIOUS_IMPRESSIONS = 500;
+
+/**
+ * Work out why a property needs attention and how urgently.
+ */
+export function assessProperty(snapshot: PropertySnapshot): { reasons: string[]; urgency: number } {
+  const reasons: string[] = [];
+  let urgency = 0;
+
+  if (snapshot.impressions === 0 && snapshot.previousImpressions > 0) {
+    reasons.push('No impressions this period (there were some last period)');
+    urgency += 3;
+  } else {
+    const clickChange = percentChange(snapshot.clicks, snapshot.previousClicks);
+    if (clickChange !== null && snapshot.previousClicks >= MIN_PREVIOUS_CLICKS) {
+      if (clickChange <= -20) {
+        reasons.push(`Clicks down ${Math.abs(clickChange).toFixed(0)}%`);
+        urgency += 2;
+      } else if (clickChange <= -10) {
+        reasons.push(`Clicks down ${Math.abs(clickChange).toFixed(0)}%`);
+        urgency += 1;
+      }
+    }
+
+    const impressionChange = percentChange(snapshot.impressions, snapshot.previousImpressions);
+    if (impressionChange !== null && impressionChange <= -20 && snapshot.previousImpressions >= MIN_PREVIOUS_IMPRESSIONS) {
+      reasons.push(`Impressions down ${Math.abs(impressionChange).toFixed(0)}%`);
+      urgency += 1;
+    }
+
+    if (snapshot.previousPosition > 0 && snapshot.position - snapshot.previousPosition >= 2) {
+      reasons.push(`Average position worsened by ${(snapshot.position - snapshot.previousPosition).toFixed(1)}`);
+      urgency += 1;
+    }
+  }
+
+  if (snapshot.grade === 'F') {
+    reasons.push('Health check grade F');
+    urgency += 3;
+  } else if (snapshot.grade === 'D') {
+    reasons.push('Health check grade D');
+    urgency += 2;
+  }
+
+  return { reasons, urgency };
+}
+
+/**
+ * Assess every property and order them most urgent first. Ties go to the
+ * larger click drop, then to the property with more clicks.
+ */
+export function rankPortfolio(snapshots: readonly PropertySnapshot[]): PortfolioEntry[] {
+  return snapshots
+    .map((snapshot) => ({ ...snapshot, ...assessProperty(snapshot) }))
+    .sort((a, b) =>
+      b.urgency - a.urgency
+      || (a.clicks - a.previousClicks) - (b.clicks - b.previousClicks)
+      || b.clicks - a.clicks,
+    );
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
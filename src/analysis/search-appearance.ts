@@ -0,0 +1,116 @@
+/**
+ * Search Appearance Module
+ *
+ * Labels the `searchAppearance` types Search Console reports and measures
+ * what a rich result is worth: the CTR of a page's impressions that carried
+ * the appearance against the CTR of the same page's other impressions.
+ * Comparing within the same pages keeps a site's strongest pages from
+ * making every appearance look good.
+ */
+
+import type { SearchAnalyticsRow } from '../api/types.js';
+
+/** Readable names for the appearance types Search Console reports. */
+const APPEARANCE_LABELS: Record<string, string> = {
+  AMP_BLUE_LINK: 'AMP (non-rich result)',
+  AMP_TOP_STORIES: 'AMP top stories',
+  EVENT: 'Event rich result',
+  EVENT_DETAILS: 'Event details',
+  FAQ_RICH_RESULT: 'FAQ rich result',
+  HOWTO_RICH_RESULT: 'How-to rich result',
+  JOB_DETAILS: 'Job details',
+  JOB_LISTING: 'Job listing',
+  LEARNING_VIDEOS: 'Education videos',
+  MERCHANT_LISTINGS: 'Merchant listings',
+  ORGANIC_SHOPPING: 'Shopping listings',
+  PRODUCT_SNIPPETS: 'Product snippets',
+  RECIPE_FEATURE: 'Recipe feature',
+  RECIPE_RICH_SNIPPET: 'Recipe rich result',
+  REVIEW_SNIPPET: 'Review snippet',
+  SPECIAL_ANNOUNCEMENT: 'Special announcement',
+  TRANSLATED_RESULT: 'Translated result',
+  VIDEO: 'Video',
+  WEBLITE: 'Web Light result',
+};
+
+/** One page's clicks and impressions with and without an appearance. */
+export interface PageUplift {
+  page: string;
+  clicks: number;
+  impressions: number;
+  /** Clicks from the page's impressions without the appearance. */
+  otherClicks: number;
+  otherImpressions: number;
+}
+
+/** CTR with an appearance compared to the same pages without it. */
+export interface AppearanceUplift {
+  /** Pages shown with the appearance, most impressions first. */
+  pages: PageUplift[];
+  /** CTR of impressions that carried the appearance. */
+  ctr: number;
+  /** CTR of the same pages' other impressions, or null when they had none. */
+  otherCtr: number | null;
+  /** Percentage difference of `ctr` over `otherCtr`, or null when it cannot be computed. */
+  upliftPercent: number | null;
+}
+
+/**
+ * Display name for a search appearance type, e.g. `REVIEW_SNIPPET` ->
+ * `Review snippet`. Unknown types are title-cased from their code.
+ */
+export function appearanceLabel(type: string): string {
+  const label = APPEARANCE_LABELS[type.toUpperCase()];
+  if (label) {
+    return label;
+  }
+  const words = type.toLowerCase().split('_').filter((w) => w.length > 0);
+  const text = words.join(' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Compare pages' CTR with an appearance to their CTR without it.
+ *
+ * @param appearanceRows  Rows grouped by `page`, filtered to one appearance.
+ * @param pageTotals      Rows grouped by `page` with no appearance filter.
+ *                        Pages missing here count as having no other
+ *                        impressions.
+ */
+export function computeAppearanceUplift(
+  appearanceRows: readonly SearchAnalyticsRow[],
+  pageTotals: readonly SearchAnalyticsRow[],
+): AppearanceUplift {
+  const totals = new Map<string, SearchAnalyticsRow>();
+  for (const row of pageTotals) {
+    totals.set(row.keys[0] ?? '', row);
+  }
+
+  const pages: PageUplift[] = appearanceRows.map((row) => {
+    const page = row.keys[0] ?? '';
+    const total = totals.get(page);
+    // A page can carry several appearances at once, so its totals are not
+    // a strict sum; clamp rather than report negative remainders.
+    return {
+      page,
+      clicks: row.clicks,
+      impressions: row.impressions,
+      otherClicks: total ? Math.max(0, total.clicks - row.clicks) : 0,
+      otherImpressions: total ? Math.max(0, total.impressions - row.impressions) : 0,
+    };
+  });
+  pages.sort((a, b) => b.impressions - a.impressions);
+
+  const clicks = pages.reduce((s, p) => s + p.clicks, 0);
+  const impressions = pages.reduce((s, p) => s + p.impressions, 0);
+  const otherClicks = pages.reduce((s, p) => s + p.otherClicks, 0);
+  const otherImpressions = pages.reduce((s, p) => s + p.otherImpressions, 0);
+
+  const ctr = impressions > 0 ? clicks / impressions : 0;
+  const otherCtr = otherImpressions > 0 ? otherClicks / otherImpressions : null;
+  const upliftPercent = otherCtr !== null && otherCtr > 0 && impressions > 0
+    ? ((ctr - otherCtr) / otherCtr) * 100
+    : null;
+
+  return { pages, ctr, otherCtr, upliftPercent };
+}
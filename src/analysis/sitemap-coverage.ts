@@ -0,0 +1,154 @@
+/**
+ * Sitemap Coverage Module
+ *
+ * Compares the URLs a site lists in its sitemaps with the pages Search
+ * Console reports traffic for. Listed URLs that never get an impression are
+ * candidates for removal or a closer look, pages with traffic that no
+ * sitemap lists are easy to miss in audits, and `<lastmod>` values tell
+ * Google which pages to recrawl -- so ones that are years old, in the
+ * future, or identical across the whole file undermine it.
+ */
+
+import type { SearchAnalyticsRow } from '../api/types.js';
+import type { SitemapEntry } from '../sitemaps/sitemap-reader.js';
+import { daysBetween } from '../utils/date-helpers.js';
+
+export interface CoverageOptions {
+  /** Today's date (YYYY-MM-DD), for lastmod ages. */
+  today: string;
+  /** A lastmod older than this many days is stale. Default 365. */
+  staleDays?: number;
+  /** Pages need at least this many clicks to count as getting traffic. Default 1. */
+  minClicks?: number;
+}
+
+export interface StaleEntry extends SitemapEntry {
+  lastmod: string;
+  ageDays: number;
+  impressions: number;
+}
+
+export interface SitemapCoverage {
+  sitemapUrls: number;
+  /** Sitemap URLs with at least one impression. */
+  withImpressions: number;
+  /** Sitemap URLs that had no impressions, in sitemap order. */
+  zeroImpressions: SitemapEntry[];
+  /** Pages with traffic that no sitemap lists, most clicks first. */
+  missing: SearchAnalyticsRow[];
+  /** Sitemap URLs whose lastmod is older than `staleDays`, most impressions first. */
+  stale: StaleEntry[];
+  /** Sitemap URLs whose lastmod cannot be read or is in the future. */
+  invalidLastmod: SitemapEntry[];
+  /** Set when nearly every URL has this same lastmod, which usually means it is the generation time. */
+  uniformLastmod?: string;
+}
+
+/** Below this many dated URLs a shared lastmod is not suspicious. */
+const UNIFORM_MIN_URLS = 20;
+
+/** Share of dated URLs that must share one lastmod to flag it. */
+const UNIFORM_SHARE = 0.9;
+
+/**
+ * Audit sitemap URLs against `page` rows for the same property.
+ *
+ * URLs are compared with their fragment removed and the scheme and host
+ * lower-cased, so `https://Example.com/a#top` matches `https://example.com/a`.
+ */
+export function auditSitemapCoverage(
+  entries: Iterable<SitemapEntry>,
+  pageRows: readonly SearchAnalyticsRow[],
+  options: CoverageOptions,
+): SitemapCoverage {
+  const staleDays = options.staleDays ?? 365;
+  const minClicks = options.minClicks ?? 1;
+
+  const impressionsByUrl = new Map<string, number>();
+  for (const row of pageRows) {
+    const key = normalizeUrl(row.keys[0] ?? '');
+    impressionsByUrl.set(key, (impressionsByUrl.get(key) ?? 0) + row.impressions);
+  }
+
+  const listed = new Set<string>();
+  const zeroImpressions: SitemapEntry[] = [];
+  const stale: StaleEntry[] = [];
+  const invalidLastmod: SitemapEntry[] = [];
+  const lastmodCounts = new Map<string, number>();
+  let sitemapUrls = 0;
+  let dated = 0;
+
+  for (const entry of entries) {
+    sitemapUrls++;
+    const key = normalizeUrl(entry.loc);
+    listed.add(key);
+    const impressions = impressionsByUrl.get(key) ?? 0;
+    if (impressions === 0) {
+      zeroImpressions.push(entry);
+    }
+
+    if (entry.lastmod === undefined) continue;
+    const date = lastmodDate(entry.lastmod);
+    if (date === undefined || date > options.today) {
+      invalidLastmod.push(entry);
+      continue;
+    }
+    dated++;
+    lastmodCounts.set(date, (lastmodCounts.get(date) ?? 0) + 1);
+    const ageDays = daysBetween(date, options.today);
+    if (ageDays > staleDays) {
+      stale.push({ loc: entry.loc, lastmod: entry.lastmod, ageDays, impressions });
+    }
+  }
+
+  const missing = pageRows
+    .filter((row) => row.clicks >= minClicks && !listed.has(normalizeUrl(row.keys[0] ?? '')))
+    .sort((a, b) => b.clicks - a.clicks);
+
+  let uniformLastmod: string | undefined;
+  if (dated >= UNIFORM_MIN_URLS) {
+    for (const [date, count] of lastmodCounts) {
+      if (count >= dated * UNIFORM_SHARE) {
+        uniformLastmod = date;
+      }
+    }
+  }
+
+  return {
+    sitemapUrls,
+    withImpressions: sitemapUrls - zeroImpressions.length,
+    zeroImpressions,
+    missing,
+    stale: stale.sort((a, b) => b.impressions - a.impressions || b.ageDays - a.ageDays),
+    invalidLastmod,
+    ...(uniformLastmod !== undefined ? { uniformLastmod } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * The calendar date of a W3C datetime lastmod (`2024`, `2024-05`,
+ * `2024-05-01` or `2024-05-01T10:00:00+00:00`), or undefined if unreadable.
+ */
+function lastmodDate(lastmod: string): string | undefined {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/.exec(lastmod.trim());
+  if (!match) return undefined;
+
+  const [, year, month = '01', day = '01'] = match;
+  const date = `${year}-${month}-${day}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? date : undefined;
+}
@@ -0,0 +1,116 @@
+/**
+ * Sitemap Trends Module
+ *
+ * Turns a sitemap's snapshot history into the changes worth acting on: how
+ * its submitted and indexed counts moved over a window, per content type,
+ * and whether errors or warnings appeared since the previous snapshot.
+ */
+
+import type { SitemapSnapshot } from '../sitemaps/sitemap-history.js';
+
+export interface ContentTypeTrend {
+  type: string;
+  submitted: number;
+  indexed: number;
+  submittedChange: number;
+  indexedChange: number;
+}
+
+export interface SitemapTrend {
+  path: string;
+  /** Snapshots available for the sitemap. */
+  snapshots: number;
+  latest: SitemapSnapshot;
+  /** The snapshot changes are measured from, or undefined with only one snapshot. */
+  baseline?: SitemapSnapshot;
+  /** The snapshot before the latest, which new errors and warnings are counted against. */
+  previous?: SitemapSnapshot;
+  submitted: number;
+  indexed: number;
+  submittedChange: number;
+  indexedChange: number;
+  /** Indexed change relative to the baseline, or null when there is none or it was 0. */
+  indexedChangePercent: number | null;
+  contentTypes: ContentTypeTrend[];
+  /** Errors and warnings added since the snapshot before the latest (never negative). */
+  newErrors: number;
+  newWarnings: number;
+}
+
+/**
+ * Summarize one sitemap's history. Changes are measured from the oldest
+ * snapshot within `windowDays` of the latest one, or from the snapshot just
+ * before the latest when none is that recent.
+ *
+ * @param snapshots  Oldest first, as {@link SitemapHistory.snapshots} returns them.
+ * @returns          Undefined when there are no snapshots.
+ */
+export function analyzeSitemapTrend(
+  path: string,
+  snapshots: readonly SitemapSnapshot[],
+  windowDays: number = 28,
+): SitemapTrend | undefined {
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest) {
+    return undefined;
+  }
+  const previous = snapshots[snapshots.length - 2];
+
+  const windowStart = Date.parse(latest.takenAt) - windowDays * 86_400_000;
+  const inWindow = snapshots.find((s) => Date.parse(s.takenAt) >= windowStart);
+  const baseline = inWindow && inWindow !== latest ? inWindow : previous;
+
+  const types = new Set([...latest.contents, ...(baseline?.contents ?? [])].map((c) => c.type));
+  const contentTypes: ContentTypeTrend[] = [...types].map((type) => {
+    const now = latest.contents.find((c) => c.type === type);
+    const before = baseline?.contents.find((c) => c.type === type);
+    return {
+      type,
+      submitted: now?.submitted ?? 0,
+      indexed: now?.indexed ?? 0,
+      submittedChange: baseline ? (now?.submitted ?? 0) - (before?.submitted ?? 0) : 0,
+      indexedChange: baseline ? (now?.indexed ?? 0) - (before?.indexed ?? 0) : 0,
+    };
+  });
+
+  const submitted = totalOf(latest, 'submitted');
+  const indexed = totalOf(latest, 'indexed');
+  const baselineIndexed = baseline ? totalOf(baseline, 'indexed') : 0;
+
+  return {
+    path,
+    snapshots: snapshots.length,
+    latest,
+    ...(baseline ? { baseline } : {}),
+    ...(previous ? { previous } : {}),
+    submitted,
+    indexed,
+    submittedChange: baseline ? submitted - totalOf(baseline, 'submitted') : 0,
+    indexedChange: baseline ? indexed - baselineIndexed : 0,
+    indexedChangePercent: baseline && baselineIndexed > 0 ? ((indexed - baselineIndexed) / baselineIndexed) * 100 : null,
+    contentTypes,
+    newErrors: previous ? Math.max(0, latest.errors - previous.errors) : 0,
+    newWarnings: previous ? Math.max(0, latest.warnings - previous.warnings) : 0,
+  };
+}
+
+/**
+ * Summarize every sitemap of a property, in path order.
+ */
+export function analyzeSitemapTrends(
+  history: ReadonlyMap<string, readonly SitemapSnapshot[]>,
+  windowDays: number = 28,
+): SitemapTrend[] {
+  return [...history.keys()]
+    .sort()
+    .map((path) => analyzeSitemapTrend(path, history.get(path)!, windowDays))
+    .filter((trend): trend is SitemapTrend => trend !== undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function totalOf(snapshot: SitemapSnapshot, field: 'submitted' | 'indexed'): number {
+  return snapshot.contents.reduce((sum, c) => sum + c[field], 0);
+}
@@ -2,26 +2,35 @@
  * Unified API client for Google Search Console.
  *
  * Holds the webmasters v3 client, searchconsole v1 client, cache manager,
- * and rate limiter, and exposes every GSC operation as a typed method.
+ * and per-API rate limiters, and exposes every GSC operation as a typed
+ * method.
  */
 
 import { google } from 'googleapis';
 import type { webmasters_v3, searchconsole_v1 } from 'googleapis';
 import type { AuthClient } from '../auth/client-factory.js';
 import { CacheManager } from '../cache/cache-manager.js';
-import { RateLimiter } from '../utils/rate-limiter.js';
+import { RateLimiter, createApiRateLimiters } from '../utils/rate-limiter.js';
+import type { ApiRateLimiters } from '../utils/rate-limiter.js';
+import type { QuotaLedger } from '../utils/quota-ledger.js';
+import type { SitemapHistory } from '../sitemaps/sitemap-history.js';
+import type { InspectionHistory } from '../inspection/inspection-history.js';
 import type {
   SearchAnalyticsRequest,
   SearchAnalyticsResponse,
+  SearchAnalyticsRow,
   SiteInfo,
   SitemapInfo,
   InspectionResult,
+  BatchInspectionResult,
 } from './types.js';
 import {
   querySearchAnalytics,
   querySearchAnalyticsAllRows,
+  streamSearchAnalyticsPages,
 } from './search-analytics.js';
 import { listSites, getSite, addSite, deleteSite } from './sites.js';
+import { resolveSiteUrl } from './site-resolver.js';
 import {
   listSitemaps,
   getSitemap,
@@ -29,6 +38,33 @@ import {
   deleteSitemap,
 } from './sitemaps.js';
 import { inspectUrl, batchInspectUrls } from './url-inspection.js';
+import type { WarehouseStore } from '../warehouse/warehouse-store.js';
+import { queryWithWarehouse } from '../warehouse/warehouse-query.js';
+import { QueryPlanner } from './query-planner.js';
+import { NotFoundError } from '../errors/gsc-error.js';
+
+export interface GscApiClientOptions {
+  /**
+   * Local historical store. When set, analytics requests that start before
+   * the API's 16-month window are answered from it.
+   */
+  warehouse?: WarehouseStore;
+  /**
+   * Daily per-property call budget. When set, Search Analytics and URL
+   * Inspection calls are counted and refused before a limit is reached.
+   */
+  quota?: QuotaLedger;
+  /**
+   * Sitemap snapshot store. When set, every sitemap read from the API is
+   * recorded so counts and errors can be compared over time.
+   */
+  sitemapHistory?: SitemapHistory;
+  /**
+   * URL Inspection result store. When set, every inspection fetched from
+   * the API is kept so status changes can be traced later.
+   */
+  inspectionHistory?: InspectionHistory;
+}
 
 // ---------------------------------------------------------------------------
 // Client class
@@ -38,13 +74,40 @@ export class GscApiClient {
   readonly webmasters: webmasters_v3.Webmasters;
   readonly searchconsole: searchconsole_v1.Searchconsole;
   readonly cache: CacheManager;
+  /** One token bucket per upstream API, so each throttles independently. */
+  readonly rateLimiters: ApiRateLimiters;
+  /** @deprecated Use `rateLimiters.searchAnalytics`. */
   readonly rateLimiter: RateLimiter;
+  readonly warehouse: WarehouseStore | undefined;
+  readonly planner: QueryPlanner;
+  readonly quota: QuotaLedger | undefined;
+  readonly sitemapHistory: SitemapHistory | undefined;
+  readonly inspectionHistory: InspectionHistory | undefined;
 
-  constructor(auth: AuthClient, cache?: CacheManager, rateLimiter?: RateLimiter) {
+  constructor(
+    auth: AuthClient,
+    cache?: CacheManager,
+    rateLimiter?: RateLimiter | Partial<ApiRateLimiters>,
+    options: GscApiClientOptions = {},
+  ) {
     this.webmasters = google.webmasters({ version: 'v3', auth: auth as any });
     this.searchconsole = google.searchconsole({ version: 'v1', auth: auth as any });
     this.cache = cache ?? new CacheManager();
-    this.rateLimiter = rateLimiter ?? new RateLimiter(20, 30);
+    // A single limiter is shared by every API; otherwise each gets its own.
+    this.rateLimiters = rateLimiter instanceof RateLimiter
+      ? createApiRateLimiters({
+          searchAnalytics: rateLimiter,
+          urlInspection: rateLimiter,
+          sites: rateLimiter,
+          sitemaps: rateLimiter,
+        })
+      : createApiRateLimiters(rateLimiter);
+    this.rateLimiter = this.rateLimiters.searchAnalytics;
+    this.warehouse = options.warehouse;
+    this.planner = new QueryPlanner(this.cache);
+    this.quota = options.quota;
+    this.sitemapHistory = options.sitemapHistory;
+    this.inspectionHistory = options.inspectionHistory;
   }
 
   // -------------------------------------------------------------------------
@@ -53,16 +116,21 @@ export class GscApiClient {
 
   /**
    * Query search analytics with automatic pagination when `rowLimit` > 25 000.
+   * Ranges older than the API's 16-month window are read from the warehouse
+   * when one is configured; totals and daily rows already covered by a
+   * cached daily series are derived locally.
    */
   async querySearchAnalytics(
     request: SearchAnalyticsRequest,
   ): Promise<SearchAnalyticsResponse> {
-    return querySearchAnalytics(
-      this.webmasters,
-      request,
-      this.cache,
-      this.rateLimiter,
-    );
+    const fetchLive = (req: SearchAnalyticsRequest) =>
+      querySearchAnalytics(this.webmasters, req, this.cache, this.rateLimiters.searchAnalytics, this.planner, this.quota);
+
+    if (this.warehouse) {
+      const historical = await queryWithWarehouse(this.warehouse, request, fetchLive);
+      if (historical) return historical;
+    }
+    return fetchLive(request);
   }
 
   /**
@@ -72,12 +140,50 @@ export class GscApiClient {
   async querySearchAnalyticsAllRows(
     request: SearchAnalyticsRequest,
   ): Promise<SearchAnalyticsResponse> {
-    return querySearchAnalyticsAllRows(
-      this.webmasters,
-      request,
-      this.cache,
-      this.rateLimiter,
-    );
+    const fetchLive = (req: SearchAnalyticsRequest) =>
+      querySearchAnalyticsAllRows(this.webmasters, req, this.cache, this.rateLimiters.searchAnalytics, this.quota);
+
+    if (this.warehouse) {
+      const historical = await queryWithWarehouse(
+        this.warehouse,
+        { ...request, rowLimit: Number.MAX_SAFE_INTEGER },
+        fetchLive,
+      );
+      if (historical) return historical;
+    }
+    return fetchLive(request);
+  }
+
+  /**
+   * Yield every row of a search analytics query a page at a time, without
+   * caching. Ranges answered by the warehouse come back as a single page.
+   */
+  async *streamSearchAnalytics(
+    request: SearchAnalyticsRequest,
+  ): AsyncGenerator<SearchAnalyticsResponse> {
+    const stream = (req: SearchAnalyticsRequest) =>
+      streamSearchAnalyticsPages(this.webmasters, req, this.rateLimiters.searchAnalytics, this.quota);
+
+    if (this.warehouse) {
+      const historical = await queryWithWarehouse(
+        this.warehouse,
+        { ...request, rowLimit: Number.MAX_SAFE_INTEGER },
+        async (req) => {
+          const rows: SearchAnalyticsRow[] = [];
+          let responseAggregationType = 'auto';
+          for await (const page of stream(req)) {
+            rows.push(...page.rows);
+            responseAggregationType = page.responseAggregationType;
+          }
+          return { rows, responseAggregationType };
+        },
+      );
+      if (historical) {
+        yield historical;
+        return;
+      }
+    }
+    yield* stream(request);
   }
 
   // -------------------------------------------------------------------------
@@ -86,22 +192,65 @@ export class GscApiClient {
 
   /** List all sites the authenticated account has access to. */
   async listSites(): Promise<SiteInfo[]> {
-    return listSites(this.webmasters, this.cache, this.rateLimiter);
+    return listSites(this.webmasters, this.cache, this.rateLimiters.sites);
+  }
+
+  /**
+   * Map a URL, hostname or property onto the property that should serve it
+   * (see {@link resolveSiteUrl}). Throws when none of the account's
+   * properties covers it, naming the ones that could.
+   *
+   * A `sc-domain:` property is returned as is without listing the account's
+   * properties, and so is a URL-prefix property when the list cannot be
+   * fetched, so a failing `sites.list` does not take every tool down.
+   */
+  async resolveSiteUrl(input: string): Promise<string> {
+    if (input.startsWith('sc-domain:')) {
+      return input;
+    }
+
+    let sites: SiteInfo[];
+    try {
+      sites = await this.listSites();
+    } catch (error) {
+      if (/^https?:\/\/[^/]+\/$/i.test(input)) {
+        return input;
+      }
+      throw error;
+    }
+    const resolved = resolveSiteUrl(input, sites);
+    if (resolved) {
+      return resolved.siteUrl;
+    }
+
+    // A listed but unverified property is passed through unchanged so its
+    // status can still be looked up; data calls against it fail with a 403.
+    if (sites.some((site) => site.siteUrl === input)) {
+      return input;
+    }
+    const available = sites
+      .filter((site) => site.permissionLevel !== 'siteUnverifiedUser')
+      .map((site) => site.siteUrl);
+    throw new NotFoundError(`No Search Console property covers "${input}".`, {
+      recoveryHint: available.length > 0
+        ? `Accessible properties: ${available.join(', ')}`
+        : 'This account has no verified properties. Add one with add_property and verify it in Search Console.',
+    });
   }
 
   /** Get metadata for a single site. */
   async getSite(siteUrl: string): Promise<SiteInfo> {
-    return getSite(this.webmasters, siteUrl, this.cache, this.rateLimiter);
+    return getSite(this.webmasters, siteUrl, this.cache, this.rateLimiters.sites);
   }
 
   /** Add a site to Search Console. */
   async addSite(siteUrl: string): Promise<void> {
-    return addSite(this.webmasters, siteUrl, this.cache, this.rateLimiter);
+    return addSite(this.webmasters, siteUrl, this.cache, this.rateLimiters.sites);
   }
 
   /** Remove a site from Search Console. */
   async deleteSite(siteUrl: string): Promise<void> {
-    return deleteSite(this.webmasters, siteUrl, this.cache, this.rateLimiter);
+    return deleteSite(this.webmasters, siteUrl, this.cache, this.rateLimiters.sites);
   }
 
   // -------------------------------------------------------------------------
@@ -110,7 +259,7 @@ export class GscApiClient {
 
   /** List all sitemaps for a site. */
   async listSitemaps(siteUrl: string): Promise<SitemapInfo[]> {
-    return listSitemaps(this.webmasters, siteUrl, this.cache, this.rateLimiter);
+    return listSitemaps(this.webmasters, siteUrl, this.cache, this.rateLimiters.sitemaps, this.sitemapHistory);
   }
 
   /** Get details for a specific sitemap. */
@@ -120,7 +269,8 @@ export class GscApiClient {
       siteUrl,
       feedpath,
       this.cache,
-      this.rateLimiter,
+      this.rateLimiters.sitemaps,
+      this.sitemapHistory,
     );
   }
 
@@ -131,7 +281,7 @@ export class GscApiClient {
       siteUrl,
       feedpath,
       this.cache,
-      this.rateLimiter,
+      this.rateLimiters.sitemaps,
     );
   }
 
@@ -142,7 +292,7 @@ export class GscApiClient {
       siteUrl,
       feedpath,
       this.cache,
-      this.rateLimiter,
+      this.rateLimiters.sitemaps,
     );
   }
 
@@ -160,24 +310,31 @@ export class GscApiClient {
       siteUrl,
       inspectionUrl,
       this.cache,
-      this.rateLimiter,
+      this.rateLimiters.urlInspection,
+      this.quota,
+      this.inspectionHistory,
     );
   }
 
   /**
-   * Inspect multiple URLs sequentially (max 50).
-   * Each URL is rate-limited individually.
+   * Inspect multiple URLs (max 50) a few at a time.
+   * Each URL is rate-limited individually; failures are returned per URL
+   * instead of aborting the batch.
    */
   async batchInspectUrls(
     siteUrl: string,
     urls: string[],
-  ): Promise<InspectionResult[]> {
+    concurrency?: number,
+  ): Promise<BatchInspectionResult[]> {
     return batchInspectUrls(
       this.searchconsole,
       siteUrl,
       urls,
       this.cache,
-      this.rateLimiter,
+      this.rateLimiters.urlInspection,
+      this.quota,
+      this.inspectionHistory,
+      concurrency,
     );
   }
 }
@@ -0,0 +1,323 @@
+/**
+ * Filter compiler for Search Analytics.
+ *
+ * The API only ANDs filters together: every `dimensionFilterGroups` entry is
+ * an AND group, and the groups are ANDed too. This module accepts richer
+ * filters -- nested AND/OR groups with negation -- and compiles them into
+ * requests the API understands:
+ *
+ * - Negation is pushed down to single filters by flipping their operator
+ *   (`contains` <-> `notContains`, and so on).
+ * - An OR of `equals` / `contains` / `includingRegex` filters on the same
+ *   dimension collapses into one `includingRegex` filter. Regexes that open
+ *   with inline flags such as `(?i)` are left out, since the flags would no
+ *   longer lead the merged pattern.
+ * - Anything else is expanded into a list of AND-only branches, one request
+ *   each, whose rows are merged afterwards.
+ *
+ * When every filtered dimension is also grouped by, a row either matches a
+ * branch or not, so rows repeated across branches are identical and kept
+ * once; each branch's top rows are enough for the merged top rows. Otherwise
+ * rows are aggregates over values that may match several branches, so the
+ * branches are first made disjoint and their rows summed. That is only exact
+ * when every branch is fetched in full, since a row below one branch's cut
+ * may still rank once its parts are added up.
+ */
+
+import { ValidationError } from '../errors/gsc-error.js';
+import { rollUpRows, sortAndPage } from './row-utils.js';
+import type { DimensionFilter, DimensionFilterGroup, SearchAnalyticsRow } from './types.js';
+
+/**
+ * A filter group that may OR its members, nest other groups and be negated.
+ * A list of groups is ANDed, as in the API.
+ */
+export interface FilterGroup {
+  groupType: 'and' | 'or';
+  /** Match rows that do NOT satisfy the group. */
+  negate?: boolean;
+  filters: Array<DimensionFilter | FilterGroup>;
+}
+
+export interface FilterPlan {
+  /**
+   * Filter groups for each request to send. A single entry means the API
+   * can express the filter directly; an empty group list means no filter.
+   */
+  requests: DimensionFilterGroup[][];
+  /** How rows from several requests are combined. */
+  merge: 'dedupe' | 'sum';
+}
+
+/** Most requests a single filter may expand into. */
+export const MAX_FILTER_REQUESTS = 10;
+
+/** Dimensions whose values Google compares case-insensitively for `equals`. */
+const CASE_INSENSITIVE_DIMENSIONS = new Set(['country', 'device']);
+
+const NEGATED_OPERATORS: Record<DimensionFilter['operator'], DimensionFilter['operator']> = {
+  contains: 'notContains',
+  notContains: 'contains',
+  equals: 'notEquals',
+  notEquals: 'equals',
+  includingRegex: 'excludingRegex',
+  excludingRegex: 'includingRegex',
+};
+
+/** Negation-free filter tree. */
+type Node =
+  | { kind: 'leaf'; filter: DimensionFilter }
+  | { kind: 'and' | 'or'; children: Node[] };
+
+/** A conjunction of filters: one AND-only request. */
+type Branch = DimensionFilter[];
+
+/**
+ * Compile filter groups into the requests needed to answer them.
+ *
+ * @param groups      Groups to AND together.
+ * @param dimensions  Dimensions the request groups by; decides how rows from
+ *                    several requests can be merged.
+ * @throws ValidationError when the filter needs more than
+ *         {@link MAX_FILTER_REQUESTS} requests.
+ */
+export function compileFilterGroups(
+  groups: FilterGroup[],
+  dimensions: readonly string[] = [],
+): FilterPlan {
+  const root = toNode({ groupType: 'and', filters: groups }, false);
+  let branches = expand(root);
+
+  if (branches.length <= 1) {
+    return { requests: branches.map(toRequestGroups), merge: 'dedupe' };
+  }
+
+  const filtered = new Set(branches.flatMap((b) => b.map((f) => f.dimension)));
+  if ([...filtered].every((d) => dimensions.includes(d))) {
+    return { requests: branches.map(toRequestGroups), merge: 'dedupe' };
+  }
+
+  // Branch i keeps only rows no earlier branch matched.
+  const disjoint: Branch[] = [];
+  branches.forEach((branch, i) => {
+    let pieces: Branch[] = [branch];
+    for (const earlier of branches.slice(0, i)) {
+      pieces = pieces.flatMap((piece) => subtract(piece, earlier));
+    }
+    disjoint.push(...pieces);
+    checkBranchCount(disjoint.length);
+  });
+  branches = disjoint;
+
+  return { requests: branches.map(toRequestGroups), merge: 'sum' };
+}
+
+/**
+ * Combine the rows returned for each request of `plan`, ordered the way
+ * the API orders them and cut to `rowLimit`. For a `sum` plan with several
+ * requests, pass every row of each branch, not just its top `rowLimit`.
+ */
+export function mergeFilterResults(
+  plan: FilterPlan,
+  rowsPerRequest: SearchAnalyticsRow[][],
+  rowLimit: number,
+): SearchAnalyticsRow[] {
+  if (rowsPerRequest.length === 1) {
+    return rowsPerRequest[0]!;
+  }
+
+  let rows: SearchAnalyticsRow[];
+  if (plan.merge === 'sum') {
+    rows = rollUpRows(rowsPerRequest.flat());
+  } else {
+    const seen = new Map<string, SearchAnalyticsRow>();
+    for (const row of rowsPerRequest.flat()) {
+      const id = row.keys.join('\u0000');
+      if (!seen.has(id)) {
+        seen.set(id, row);
+      }
+    }
+    rows = [...seen.values()];
+  }
+  return sortAndPage(rows, rowLimit);
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function isGroup(filter: DimensionFilter | FilterGroup): filter is FilterGroup {
+  return 'groupType' in filter;
+}
+
+/** Build the negation-free tree, pushing `negate` down to the leaves. */
+function toNode(filter: DimensionFilter | FilterGroup, negated: boolean): Node {
+  if (!isGroup(filter)) {
+    return {
+      kind: 'leaf',
+      filter: negated ? negateFilter(filter) : filter,
+    };
+  }
+
+  const flip = negated !== (filter.negate ?? false);
+  // De Morgan: NOT (a AND b) = NOT a OR NOT b, and vice versa.
+  const kind = flip ? (filter.groupType === 'and' ? 'or' : 'and') : filter.groupType;
+  return { kind, children: filter.filters.map((f) => toNode(f, flip)) };
+}
+
+function negateFilter(filter: DimensionFilter): DimensionFilter {
+  return { ...filter, operator: NEGATED_OPERATORS[filter.operator] };
+}
+
+/**
+ * `branch AND NOT other`, as pairwise-disjoint branches: for
+ * `other = a AND b AND c` these are `branch AND NOT a`,
+ * `branch AND a AND NOT b` and `branch AND a AND b AND NOT c`.
+ */
+function subtract(branch: Branch, other: Branch): Branch[] {
+  const ids = new Set(branch.map(filterId));
+  if (other.some((f) => ids.has(filterId(negateFilter(f))))) {
+    return [branch]; // already disjoint
+  }
+
+  const pieces: Branch[] = [];
+  const prefix: Branch = [];
+  for (const filter of other) {
+    if (ids.has(filterId(filter))) {
+      continue; // `branch AND NOT filter` cannot match
+    }
+    pieces.push([...branch, ...prefix, negateFilter(filter)]);
+    prefix.push(filter);
+  }
+  return pieces;
+}
+
+/** Expand a tree into AND-only branches, dropping ones that cannot match. */
+function expand(node: Node): Branch[] {
+  const branches = toBranches(collapseOrs(node)).filter((b) => !isContradiction(b));
+  checkBranchCount(branches.length);
+  return branches;
+}
+
+function toBranches(node: Node): Branch[] {
+  switch (node.kind) {
+    case 'leaf':
+      return [[node.filter]];
+    case 'or':
+      return node.children.flatMap(toBranches);
+    case 'and': {
+      let branches: Branch[] = [[]];
+      for (const child of node.children) {
+        const childBranches = toBranches(child);
+        branches = branches.flatMap((b) => childBranches.map((c) => [...b, ...c]));
+        // Keep expansion bounded even when contradictions would prune it later.
+        checkBranchCount(branches.length, MAX_FILTER_REQUESTS * 10);
+      }
+      return branches;
+    }
+  }
+}
+
+/**
+ * Replace OR'ed positive filters on the same dimension with a single
+ * `includingRegex` filter, so they fit in one request.
+ */
+function collapseOrs(node: Node): Node {
+  if (node.kind === 'leaf') {
+    return node;
+  }
+
+  const children = node.children.map(collapseOrs);
+  if (node.kind === 'and') {
+    return { kind: 'and', children };
+  }
+
+  const byDimension = new Map<string, DimensionFilter[]>();
+  const rest: Node[] = [];
+  for (const child of children) {
+    const pattern = child.kind === 'leaf' ? toRegexSource(child.filter) : undefined;
+    if (child.kind === 'leaf' && pattern !== undefined) {
+      const list = byDimension.get(child.filter.dimension) ?? [];
+      list.push(child.filter);
+      byDimension.set(child.filter.dimension, list);
+    } else {
+      rest.push(child);
+    }
+  }
+
+  const merged: Node[] = [...byDimension.entries()].map(([dimension, filters]) => ({
+    kind: 'leaf',
+    filter: filters.length === 1
+      ? filters[0]!
+      : { dimension, operator: 'includingRegex', expression: filters.map((f) => toRegexSource(f)!).join('|') },
+  }));
+  const all = [...merged, ...rest];
+  return all.length === 1 ? all[0]! : { kind: 'or', children: all };
+}
+
+/** A regex that opens with RE2 inline flags, e.g. `(?i)` or `(?is)`. */
+const INLINE_FLAGS = /^\(\?[a-zA-Z-]+\)/;
+
+/**
+ * RE2 source matching exactly the rows `filter` matches, for positive
+ * operators, or `undefined` when the filter cannot be merged into a regex.
+ */
+function toRegexSource(filter: DimensionFilter): string | undefined {
+  switch (filter.operator) {
+    case 'contains':
+      return anyCase(filter.expression);
+    case 'equals':
+      return CASE_INSENSITIVE_DIMENSIONS.has(filter.dimension)
+        ? `^${anyCase(filter.expression)}$`
+        : `^${escapeRegex(filter.expression)}$`;
+    case 'includingRegex':
+      // Leading inline flags such as `(?i)` would land mid-pattern once
+      // wrapped, which the warehouse cannot evaluate; keep them separate.
+      return INLINE_FLAGS.test(filter.expression) ? undefined : `(?:${filter.expression})`;
+    default:
+      return undefined;
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Case-insensitive literal as `[bB][lL][oO][gG]`. Inline `(?i)` flags are
+ * RE2-only, and the same pattern must also run as a JavaScript `RegExp`
+ * when the warehouse answers the request.
+ */
+function anyCase(value: string): string {
+  return [...value]
+    .map((ch) => {
+      const lower = ch.toLowerCase();
+      const upper = ch.toUpperCase();
+      return lower !== upper && lower.length === 1 && upper.length === 1 ? `[${lower}${upper}]` : escapeRegex(ch);
+    })
+    .join('');
+}
+
+/** Whether a branch contains a filter together with its exact negation. */
+function isContradiction(branch: Branch): boolean {
+  const ids = new Set(branch.map(filterId));
+  return branch.some((f) => ids.has(filterId(negateFilter(f))));
+}
+
+function filterId(filter: DimensionFilter): string {
+  return `${filter.dimension}\u0000${filter.operator}\u0000${filter.expression}`;
+}
+
+function toRequestGroups(branch: Branch): DimensionFilterGroup[] {
+  return branch.length === 0 ? [] : [{ groupType: 'and', filters: branch }];
+}
+
+function checkBranchCount(count: number, max: number = MAX_FILTER_REQUESTS): void {
+  if (count > max) {
+    throw new ValidationError(`This filter would need more than ${MAX_FILTER_REQUESTS} separate API requests.`, {
+      recoveryHint:
+        'Simplify the filter: OR together filters on the same dimension (they become one regex), group by the filtered dimensions, or use includingRegex directly.',
+      fieldErrors: { filterGroups: ['Too many OR branches after expansion.'] },
+    });
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Preflight checks for Search Analytics dimension filters.
+ *
+ * The API evaluates `includingRegex` / `excludingRegex` with RE2, which has
+ * no lookaround, backreferences, atomic groups or possessive quantifiers.
+ * Patterns written for JavaScript or PCRE come back as a bare 400 from the
+ * API, so they are caught here instead, together with unknown dimension
+ * names and over-long expressions. Each problem is reported against the
+ * input field it came from, with a corrected filter when one can be derived.
+ */
+
+import { ValidationError } from '../errors/gsc-error.js';
+import type { FilterGroup } from './filter-compiler.js';
+import type { DimensionFilter, SearchAnalyticsRequest } from './types.js';
+
+/** Dimensions the API can filter on. */
+export const FILTER_DIMENSIONS = ['query', 'page', 'country', 'device', 'searchAppearance'] as const;
+
+/** Longest filter expression the API accepts. */
+export const MAX_FILTER_EXPRESSION_LENGTH = 4096;
+
+/** Common names for filter dimensions, keyed by normalized spelling. */
+const DIMENSION_ALIASES: Record<string, (typeof FILTER_DIMENSIONS)[number]> = {
+  query: 'query',
+  queries: 'query',
+  keyword: 'query',
+  keywords: 'query',
+  searchterm: 'query',
+  page: 'page',
+  pages: 'page',
+  url: 'page',
+  urls: 'page',
+  landingpage: 'page',
+  country: 'country',
+  countries: 'country',
+  device: 'device',
+  devices: 'device',
+  searchappearance: 'searchAppearance',
+  appearance: 'searchAppearance',
+};
+
+export interface FilterIssue {
+  /** Input path of the offending value, e.g. `filters[0].expression`. */
+  field: string;
+  message: string;
+  /** The filter rewritten so the API accepts it, when that is possible. */
+  suggestion?: DimensionFilter;
+}
+
+/**
+ * Check one filter, returning every problem found (empty when valid).
+ *
+ * @param path  Input path of the filter, used to name the offending fields.
+ */
+export function checkDimensionFilter(filter: DimensionFilter, path: string): FilterIssue[] {
+  const issues: FilterIssue[] = [];
+
+  if (!(FILTER_DIMENSIONS as readonly string[]).includes(filter.dimension)) {
+    const dimension = suggestDimension(filter.dimension);
+    issues.push({
+      field: `${path}.dimension`,
+      message: `"${filter.dimension}" is not a filterable dimension. Use one of: ${FILTER_DIMENSIONS.join(', ')}.`
+        + (filter.dimension === 'date' || filter.dimension === 'hour' ? ' Narrow dates with startDate and endDate instead.' : ''),
+      suggestion: dimension ? { ...filter, dimension } : undefined,
+    });
+  }
+
+  if (filter.expression.length > MAX_FILTER_EXPRESSION_LENGTH) {
+    issues.push({
+      field: `${path}.expression`,
+      message: `Expression is ${filter.expression.length} characters; the API accepts at most ${MAX_FILTER_EXPRESSION_LENGTH}.`,
+    });
+  }
+
+  if (filter.operator === 'includingRegex' || filter.operator === 'excludingRegex') {
+    issues.push(...checkRe2Pattern(filter, `${path}.expression`));
+  }
+
+  return issues;
+}
+
+/**
+ * Validate the filters of a tool's input.
+ *
+ * @throws ValidationError listing every problem, keyed by input path.
+ */
+export function validateFilterInput(filters: DimensionFilter[] = [], filterGroups: FilterGroup[] = []): void {
+  const issues = [
+    ...filters.flatMap((filter, i) => checkDimensionFilter(filter, `filters[${i}]`)),
+    ...filterGroups.flatMap((group, i) => checkGroup(group, `filterGroups[${i}]`)),
+  ];
+  throwIfInvalid(issues);
+}
+
+/**
+ * Validate the filters of an API request before it is sent.
+ *
+ * @throws ValidationError listing every problem, keyed by request path.
+ */
+export function validateRequestFilters(request: SearchAnalyticsRequest): void {
+  const issues = (request.dimensionFilterGroups ?? []).flatMap((group, i) =>
+    group.filters.flatMap((filter, j) => checkDimensionFilter(filter, `dimensionFilterGroups[${i}].filters[${j}]`)),
+  );
+  throwIfInvalid(issues);
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function checkGroup(group: FilterGroup, path: string): FilterIssue[] {
+  return group.filters.flatMap((filter, i) =>
+    'groupType' in filter
+      ? checkGroup(filter, `${path}.filters[${i}]`)
+      : checkDimensionFilter(filter, `${path}.filters[${i}]`),
+  );
+}
+
+function throwIfInvalid(issues: FilterIssue[]): void {
+  if (issues.length === 0) {
+    return;
+  }
+
+  const fieldErrors: Record<string, string[]> = {};
+  for (const issue of issues) {
+    (fieldErrors[issue.field] ??= []).push(issue.message);
+  }
+
+  const fix = issues.find((i) => i.suggestion !== undefined);
+  const recoveryHint = fix
+    ? `Try ${fix.field.replace(/\.\w+$/, '')} = ${JSON.stringify(fix.suggestion)}.`
+    : 'Regex filters use RE2 syntax (https://github.com/google/re2/wiki/Syntax): no lookarounds, backreferences, atomic groups or possessive quantifiers.';
+
+  throw new ValidationError(
+    issues.length === 1 ? `Invalid filter: ${issues[0]!.message}` : `${issues.length} problems found in the filters.`,
+    { recoveryHint, fieldErrors },
+  );
+}
+
+/** Closest valid dimension name for a misspelt one. */
+function suggestDimension(name: string): DimensionFilter['dimension'] | undefined {
+  return DIMENSION_ALIASES[name.toLowerCase().replace(/[^a-z]/g, '')];
+}
+
+/**
+ * Find constructs RE2 rejects. Scans the pattern once, skipping escaped
+ * characters and the contents of character classes.
+ */
+function checkRe2Pattern(filter: DimensionFilter, field: string): FilterIssue[] {
+  const pattern = filter.expression;
+  const issues: FilterIssue[] = [];
+  const report = (message: string, suggestion?: DimensionFilter): void => {
+    issues.push({ field, message, suggestion });
+  };
+
+  // A JavaScript regex literal such as /blog/i.
+  const literal = /^\/(.+)\/([gimsuy]+)$/.exec(pattern);
+  if (literal) {
+    // Spell out case-insensitivity rather than suggest (?i), which the
+    // warehouse's JavaScript RegExp cannot compile.
+    report('Pass the pattern without JavaScript /.../flags delimiters.', {
+      ...filter,
+      expression: literal[2]!.includes('i') ? caseFoldPattern(literal[1]!) : literal[1]!,
+    });
+    return issues;
+  }
+
+  // ^(?!...).*$ is "does not match ...": flip the operator instead.
+  const negative = /^\^\(\?!(?:\.\*)?([^()]*)\)(?:\.\*)?\$?$/.exec(pattern);
+  if (negative) {
+    report('Negative lookahead (?!...) is not supported by RE2.', {
+      ...filter,
+      operator: filter.operator === 'includingRegex' ? 'excludingRegex' : 'includingRegex',
+      expression: negative[1]!,
+    });
+    return issues;
+  }
+
+  // Same-index copy of the pattern, edited where a construct has an RE2 equivalent.
+  const fixed = pattern.split('');
+  let fixable = true;
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]!;
+    const next = pattern[i + 1];
+
+    if (ch === '\\') {
+      if (next !== undefined && /[1-9]/.test(next)) {
+        report(`Backreference \\${next} is not supported by RE2.`);
+        fixable = false;
+      } else if (next === 'k' && pattern[i + 2] === '<') {
+        report('Named backreference \\k<...> is not supported by RE2.');
+        fixable = false;
+      } else if (next === 'Z' && !inClass) {
+        report('\\Z is not supported by RE2; use $ for end of text.');
+        fixed[i] = '';
+        fixed[i + 1] = '$';
+      }
+      i++;
+      continue;
+    }
+
+    if (inClass) {
+      if (ch === ']') inClass = false;
+      continue;
+    }
+
+    if (ch === '[') {
+      inClass = true;
+      if (next === '^') i++;
+      if (pattern[i + 1] === ']') i++; // a leading ] is literal
+      continue;
+    }
+
+    if (ch === '(' && next === '?') {
+      const rest = pattern.slice(i + 2);
+      if (rest.startsWith('=') || rest.startsWith('!')) {
+        report(`Lookahead (?${rest[0]}...) is not supported by RE2. Split it into separate filters instead.`);
+        fixable = false;
+      } else if (rest.startsWith('<=') || rest.startsWith('<!')) {
+        report(`Lookbehind (?${rest.slice(0, 2)}...) is not supported by RE2. Split it into separate filters instead.`);
+        fixable = false;
+      } else if (rest.startsWith('>')) {
+        report('Atomic group (?>...) is not supported by RE2; use a plain group (?:...).');
+        fixed[i + 2] = ':';
+      } else if (rest.startsWith('(') || /^(R|\d)/.test(rest)) {
+        report('Conditionals and recursion are not supported by RE2.');
+        fixable = false;
+      }
+      i++; // the ? is not a quantifier
+      continue;
+    }
+
+    if ((ch === '*' || ch === '+' || ch === '?' || ch === '}') && next === '+') {
+      report(`Possessive quantifier ${ch}+ is not supported by RE2; use ${ch} instead.`);
+      fixed[i + 1] = '';
+      i++;
+    }
+  }
+
+  if (fixable && issues.length > 0) {
+    issues[0]!.suggestion = { ...filter, expression: fixed.join('') };
+  }
+  return issues;
+}
+
+/**
+ * Case-insensitive form of a pattern, with each letter as `[bB]` and each
+ * letter range in a class doubled (`[a-z]` to `[a-zA-Z]`), the way the
+ * filter compiler spells case-insensitive literals.
+ */
+function caseFoldPattern(pattern: string): string {
+  let out = '';
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]!;
+    if (ch === '\\') {
+      out += pattern.slice(i, i + 2);
+      i++;
+      continue;
+    }
+
+    if (inClass) {
+      const end = pattern[i + 2];
+      if (pattern[i + 1] === '-' && end !== undefined && end !== ']' && isLetter(ch) && isLetter(end)) {
+        out += `${ch}-${end}${otherCase(ch)}-${otherCase(end)}`;
+        i += 2;
+      } else if (ch === ']') {
+        inClass = false;
+        out += ch;
+      } else {
+        out += isLetter(ch) ? `${ch}${otherCase(ch)}` : ch;
+      }
+      continue;
+    }
+
+    if (ch === '[') {
+      inClass = true;
+      out += ch;
+      if (pattern[i + 1] === '^') out += pattern[++i];
+      if (pattern[i + 1] === ']') out += pattern[++i]; // a leading ] is literal
+      continue;
+    }
+
+    if (ch === '{') {
+      // Repetition counts have no letters worth folding.
+      const close = pattern.indexOf('}', i);
+      if (close !== -1 && /^\{\d*,?\d*\}$/.test(pattern.slice(i, close + 1))) {
+        out += pattern.slice(i, close + 1);
+        i = close;
+        continue;
+      }
+    }
+
+    out += isLetter(ch) ? `[${ch.toLowerCase()}${ch.toUpperCase()}]` : ch;
+  }
+  return out;
+}
+
+function isLetter(ch: string): boolean {
+  return /^[a-zA-Z]$/.test(ch);
+}
+
+function otherCase(ch: string): string {
+  return ch === ch.toLowerCase() ? ch.toUpperCase() : ch.toLowerCase();
+}
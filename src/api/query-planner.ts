@@ -0,0 +1,151 @@
+/**
+ * Query planner for Search Analytics.
+ *
+ * Remembers which cached responses are complete `date` series and answers
+ * later requests that are exact roll-ups of one -- property totals, or the
+ * daily rows for a sub-range -- without calling the API.
+ *
+ * Only `date` series qualify as a source. Rows grouped by query or page omit
+ * anonymized queries, so summing them undercounts; a daily series carries
+ * the same totals Google reports for the range.
+ */
+
+import type { CacheManager } from '../cache/cache-manager.js';
+import { buildAnalyticsKey } from '../cache/cache-keys.js';
+import { daysBetween } from '../utils/date-helpers.js';
+import { rollUpRows } from './row-utils.js';
+import type { SearchAnalyticsRequest, SearchAnalyticsResponse } from './types.js';
+
+/** Row limit applied by `querySearchAnalytics` when a request omits one. */
+const DEFAULT_FETCH_ROW_LIMIT = 25_000;
+
+interface SeriesEntry {
+  cacheKey: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface QueryPlannerStats {
+  /** Cached `date` series currently available as sources. */
+  series: number;
+  /** Requests answered from a cached series instead of the API. */
+  derived: number;
+}
+
+export class QueryPlanner {
+  private readonly cache: CacheManager;
+  /** Series entries grouped by everything except dimensions and dates. */
+  private readonly series = new Map<string, SeriesEntry[]>();
+  private derived = 0;
+
+  constructor(cache: CacheManager) {
+    this.cache = cache;
+  }
+
+  /**
+   * Register a freshly fetched response. Only complete `date` series are
+   * kept; a response that may have been cut off by `rowLimit` is ignored.
+   */
+  record(request: SearchAnalyticsRequest, cacheKey: string, rowLimit: number = request.rowLimit ?? DEFAULT_FETCH_ROW_LIMIT): void {
+    if (!isDateSeries(request) || (request.startRow ?? 0) > 0) {
+      return;
+    }
+    if (rowLimit < daysBetween(request.startDate, request.endDate) + 1) {
+      return;
+    }
+
+    const shape = shapeKey(request);
+    const entries = (this.series.get(shape) ?? []).filter((e) => e.cacheKey !== cacheKey);
+    entries.push({ cacheKey, startDate: request.startDate, endDate: request.endDate });
+    this.series.set(shape, entries);
+  }
+
+  /**
+   * Answer `request` from a cached `date` series covering its range.
+   *
+   * @returns The derived response, or `undefined` when no exact source is
+   *          cached and the request must go to the API.
+   */
+  derive(request: SearchAnalyticsRequest): SearchAnalyticsResponse | undefined {
+    const wantsTotals = (request.dimensions ?? []).length === 0;
+    if (!wantsTotals && !isDateSeries(request)) {
+      return undefined;
+    }
+
+    const shape = shapeKey(request);
+    const entries = this.series.get(shape);
+    if (entries === undefined) {
+      return undefined;
+    }
+
+    for (const entry of [...entries]) {
+      if (entry.startDate > request.startDate || entry.endDate < request.endDate) {
+        continue;
+      }
+
+      const source = this.cache.get<SearchAnalyticsResponse>(entry.cacheKey);
+      if (source === undefined) {
+        // Evicted, expired or invalidated -- forget it.
+        this.forget(shape, entry.cacheKey);
+        continue;
+      }
+
+      const rows = source.rows.filter((row) => {
+        const date = row.keys[0] ?? '';
+        return date >= request.startDate && date <= request.endDate;
+      });
+
+      this.derived++;
+
+      if (wantsTotals) {
+        return {
+          rows: rollUpRows(rows.map((row) => ({ ...row, keys: [] }))),
+          responseAggregationType: source.responseAggregationType,
+        };
+      }
+
+      const startRow = request.startRow ?? 0;
+      return {
+        rows: rows.slice(startRow, startRow + (request.rowLimit ?? DEFAULT_FETCH_ROW_LIMIT)),
+        responseAggregationType: source.responseAggregationType,
+      };
+    }
+
+    return undefined;
+  }
+
+  stats(): QueryPlannerStats {
+    let series = 0;
+    for (const entries of this.series.values()) {
+      series += entries.length;
+    }
+    return { series, derived: this.derived };
+  }
+
+  private forget(shape: string, cacheKey: string): void {
+    const remaining = (this.series.get(shape) ?? []).filter((e) => e.cacheKey !== cacheKey);
+    if (remaining.length === 0) {
+      this.series.delete(shape);
+    } else {
+      this.series.set(shape, remaining);
+    }
+  }
+}
+
+function isDateSeries(request: SearchAnalyticsRequest): boolean {
+  const dims = request.dimensions ?? [];
+  return dims.length === 1 && dims[0] === 'date';
+}
+
+/**
+ * Everything that must match between a source series and a derived request:
+ * the property, search type, filters, data state and aggregation type.
+ */
+function shapeKey(request: SearchAnalyticsRequest): string {
+  return buildAnalyticsKey(request.siteUrl, {
+    searchType: request.searchType ?? 'web',
+    dimensionFilterGroups: request.dimensionFilterGroups,
+    dataState: request.dataState ?? 'all',
+    aggregationType: request.aggregationType ?? 'auto',
+  });
+}
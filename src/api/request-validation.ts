@@ -0,0 +1,128 @@
+/**
+ * Preflight validation for Search Analytics requests.
+ *
+ * Runs before a request is sent so that requests the API would reject --
+ * or answer with an empty result that looks like "no traffic" -- fail fast
+ * with a `ValidationError` naming the offending fields, without spending
+ * rate-limit tokens or quota. Checks cover the date range, the API's
+ * 16-month data window and dimension combinations the API does not support.
+ */
+
+import { ValidationError } from '../errors/gsc-error.js';
+import { getDateRange, getPacificDate, parseDate } from '../utils/date-helpers.js';
+import { validateRequestFilters } from './filter-validation.js';
+import type { SearchAnalyticsRequest } from './types.js';
+
+/** Search types without query-level data. */
+const NO_QUERY_SEARCH_TYPES = new Set(['discover', 'googleNews']);
+
+/**
+ * Validate `request`, throwing on anything the API would reject or answer
+ * with nothing.
+ *
+ * @param now  Current time, for the future-date and window checks.
+ * @returns Notices about parts of the request that cannot be fully answered,
+ *          such as days before the 16-month window.
+ * @throws ValidationError listing every problem, keyed by request field.
+ */
+export function validateSearchAnalyticsRequest(
+  request: SearchAnalyticsRequest,
+  now: Date = new Date(),
+): string[] {
+  validateRequestFilters(request);
+
+  const fieldErrors: Record<string, string[]> = {};
+  const hints: string[] = [];
+  const notices: string[] = [];
+  const fail = (field: string, message: string, hint: string): void => {
+    (fieldErrors[field] ??= []).push(message);
+    if (!hints.includes(hint)) hints.push(hint);
+  };
+
+  // ── Dates ──────────────────────────────────────────────────────────────
+  const validDates = (['startDate', 'endDate'] as const).every((field) => {
+    try {
+      parseDate(request[field]);
+      return true;
+    } catch (error) {
+      fail(field, (error as Error).message, 'Pass dates as real calendar days in YYYY-MM-DD format.');
+      return false;
+    }
+  });
+
+  if (validDates) {
+    const today = getPacificDate(now);
+    const windowStart = getDateRange('last16m', now).startDate;
+
+    if (request.startDate > request.endDate) {
+      fail('startDate', `startDate ${request.startDate} is after endDate ${request.endDate}.`, 'Swap startDate and endDate.');
+    }
+    for (const field of ['startDate', 'endDate'] as const) {
+      if (request[field] > today) {
+        fail(field, `${request[field]} is in the future (today is ${today} Pacific Time).`, `Use dates up to ${today}.`);
+      }
+    }
+
+    if (request.endDate < windowStart) {
+      fail(
+        'endDate',
+        `The whole range is older than ${windowStart}; Google keeps 16 months of data and would return no rows.`,
+        `Use a range ending on or after ${windowStart} (or a shorter period when comparing periods), or run sync_search_analytics so older ranges can be read from the local warehouse.`,
+      );
+    } else if (request.startDate < windowStart) {
+      notices.push(
+        `Google keeps 16 months of data, so days from ${request.startDate} to the day before ${windowStart} are missing from these results.`,
+      );
+    }
+  }
+
+  // ── Dimension combinations ─────────────────────────────────────────────
+  const dimensions = request.dimensions ?? [];
+  const filteredDimensions = (request.dimensionFilterGroups ?? []).flatMap((g) => g.filters.map((f) => f.dimension));
+
+  if (dimensions.includes('hour') && request.dataState !== 'hourly_all') {
+    fail('dataState', 'The hour dimension requires dataState "hourly_all".', 'Set dataState to "hourly_all" when grouping by hour.');
+  }
+
+  if (dimensions.includes('searchAppearance') && dimensions.length > 1) {
+    fail(
+      'dimensions',
+      'searchAppearance cannot be grouped together with other dimensions.',
+      'Group by searchAppearance alone to list appearance types, then filter by one (dimension "searchAppearance") while grouping by the other dimensions.',
+    );
+  }
+
+  if (request.searchType !== undefined && NO_QUERY_SEARCH_TYPES.has(request.searchType)) {
+    if (dimensions.includes('query')) {
+      fail('dimensions', `${request.searchType} data has no query dimension.`, `Group ${request.searchType} data by page, country, device or date instead of query.`);
+    }
+    if (filteredDimensions.includes('query')) {
+      fail('dimensionFilterGroups', `${request.searchType} data cannot be filtered by query.`, `Filter ${request.searchType} data by page, country or device instead of query.`);
+    }
+  }
+
+  if (request.aggregationType === 'byProperty' && (dimensions.includes('page') || filteredDimensions.includes('page'))) {
+    fail(
+      'aggregationType',
+      'byProperty aggregation is not allowed when grouping or filtering by page.',
+      'Use aggregationType "auto" (or "byPage") when the request involves pages.',
+    );
+  }
+
+  if (request.startRow !== undefined && request.startRow < 0) {
+    fail('startRow', 'startRow must be zero or more.', 'Pass a non-negative startRow.');
+  }
+
+  const fields = Object.keys(fieldErrors);
+  if (fields.length > 0) {
+    const first = fieldErrors[fields[0]!]![0]!;
+    throw new ValidationError(
+      fields.length === 1 && fieldErrors[fields[0]!]!.length === 1
+        ? `Invalid search analytics request: ${first}`
+        : `Invalid search analytics request: ${first} (and ${Object.values(fieldErrors).flat().length - 1} more problem(s)).`,
+      { recoveryHint: hints.join(' '), fieldErrors },
+    );
+  }
+
+  return notices;
+}
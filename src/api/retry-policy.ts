@@ -0,0 +1,208 @@
+/**
+ * Retry policy for transient Google API failures.
+ *
+ * Calls that fail with a rate limit (429, or a 403 whose reason is a
+ * per-minute rate limit) or a server error (500, 502, 503, 504) are retried
+ * with exponential backoff and full jitter. A `Retry-After` header from the
+ * API takes precedence over the computed delay. An exhausted daily limit is
+ * not retried: it only resets the next day.
+ *
+ * Only safe calls -- reads, and read-only POSTs like searchanalytics.query
+ * and urlInspection.index.inspect -- are retried on server errors. A server
+ * error on a mutation (submitting a sitemap, adding a site) may have been
+ * applied before it failed, so mutations are retried only when the API
+ * refused them outright with a rate limit.
+ *
+ * Errors raised locally (validation, the quota ledger) are never retried.
+ *
+ * Calls given a `label` report their retries to the enclosing
+ * {@link collectRetryNotices} scope, so tools can list them in their
+ * limitations.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { GscError } from '../errors/gsc-error.js';
+import type { GscErrorCode } from '../errors/gsc-error.js';
+import { handleApiError } from '../errors/error-handler.js';
+
+/** Error codes that may succeed on a later attempt. */
+const RETRYABLE_CODES: ReadonlySet<GscErrorCode> = new Set(['QUOTA_EXCEEDED', 'API_ERROR']);
+
+/** HTTP statuses that mark an `API_ERROR` as transient. */
+const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([500, 502, 503, 504]);
+
+/** Google error reasons for a short-term rate limit. */
+const RATE_LIMIT_REASONS: ReadonlySet<string> = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+
+/** Google error reasons for a limit that only resets the next day. */
+const DAILY_LIMIT_REASONS: ReadonlySet<string> = new Set(['dailyLimitExceeded', 'dailyLimitExceededUnreg']);
+
+/** Notices for the current {@link collectRetryNotices} scope. */
+const noticeScope = new AsyncLocalStorage<string[]>();
+
+export const DEFAULT_MAX_ATTEMPTS = 4;
+export const DEFAULT_BASE_DELAY_MS = 500;
+export const DEFAULT_MAX_DELAY_MS = 30_000;
+
+export interface RetryAttempt {
+  /** The attempt that failed (1 for the first call). */
+  attempt: number;
+  /** How long the policy waits before the next attempt. */
+  delayMs: number;
+  error: GscError;
+}
+
+export interface RetryOptions {
+  /**
+   * Whether repeating the call cannot change anything server-side.
+   * Unsafe calls are only retried after a rate-limit refusal. Default `true`.
+   */
+  safe?: boolean;
+  /** Total attempts including the first. Default {@link DEFAULT_MAX_ATTEMPTS}. */
+  maxAttempts?: number;
+  /** Delay ceiling for the first retry; doubles on each later one. */
+  baseDelayMs?: number;
+  /** Longest wait between attempts. A longer `Retry-After` ends retrying. */
+  maxDelayMs?: number;
+  /** Called before each wait, e.g. to record the retry in a response. */
+  onRetry?: (retry: RetryAttempt) => void;
+  /**
+   * Describes the call, e.g. "Inspecting https://example.com/". When set, a
+   * call that succeeds after retrying adds a notice to the enclosing
+   * {@link collectRetryNotices} scope.
+   */
+  label?: string;
+}
+
+/**
+ * Run `fn` and collect a notice for every labelled call in it that only
+ * succeeded after retrying.
+ */
+export async function collectRetryNotices<T>(fn: () => Promise<T>): Promise<{ result: T; notices: string[] }> {
+  const notices: string[] = [];
+  const result = await noticeScope.run(notices, fn);
+  return { result, notices };
+}
+
+/**
+ * Run `fn`, retrying transient failures according to `options`.
+ *
+ * `fn` is called afresh on each attempt, so it should include the rate
+ * limiter and quota checks for the call. The last error is rethrown as-is;
+ * callers convert it with `handleApiError` as before.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = {},
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const retries: RetryAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await fn();
+      if (options.label !== undefined && retries.length > 0) {
+        noticeScope.getStore()?.push(describeRetries(options.label, retries));
+      }
+      return result;
+    } catch (raw) {
+      if (attempt >= maxAttempts || raw instanceof GscError) {
+        throw raw;
+      }
+
+      const error = handleApiError(raw);
+      if (!isRetryable(error, options.safe ?? true)) {
+        throw raw;
+      }
+
+      const retryAfterMs = parseRetryAfter(raw);
+      if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) {
+        throw raw;
+      }
+      const delayMs = retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs);
+
+      console.error(
+        `[awesome-gsc-mcp] Retrying after ${error.statusCode} ${error.code} (attempt ${attempt} of ${maxAttempts}) in ${delayMs}ms`,
+      );
+      const retry = { attempt, delayMs, error };
+      retries.push(retry);
+      options.onRetry?.(retry);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Whether `error` is worth another attempt. Unsafe calls are retried only
+ * on a rate-limit refusal, which guarantees nothing was applied.
+ */
+export function isRetryable(error: GscError, safe: boolean): boolean {
+  if (!RETRYABLE_CODES.has(error.code)) {
+    return false;
+  }
+  if (error.code === 'QUOTA_EXCEEDED') {
+    return isRateLimit(error);
+  }
+  return safe && RETRYABLE_STATUSES.has(error.statusCode);
+}
+
+/**
+ * Whether a quota error is a short-term rate limit rather than an exhausted
+ * daily limit. Google reports both as 429 or 403; a 403 is only taken as a
+ * rate limit when its reason or message says so.
+ */
+function isRateLimit(error: GscError): boolean {
+  const raw = error.cause as {
+    code?: number;
+    errors?: Array<{ reason?: string }>;
+    response?: { status?: number; data?: { error?: { errors?: Array<{ reason?: string }> } } };
+  } | undefined;
+  const reasons = [...(raw?.errors ?? []), ...(raw?.response?.data?.error?.errors ?? [])]
+    .map((e) => e.reason ?? '');
+
+  if (reasons.some((r) => DAILY_LIMIT_REASONS.has(r)) || /\b(per day|daily)\b/i.test(error.message)) {
+    return false;
+  }
+  if ((raw?.response?.status ?? raw?.code) === 403) {
+    return reasons.some((r) => RATE_LIMIT_REASONS.has(r)) || /per minute|rate limit/i.test(error.message);
+  }
+  return true;
+}
+
+/**
+ * Read the `Retry-After` header from a Google API error, as milliseconds
+ * from `now`. Accepts both delta-seconds and HTTP-date forms.
+ */
+export function parseRetryAfter(raw: unknown, now: number = Date.now()): number | undefined {
+  const headers = (raw as { response?: { headers?: Record<string, unknown> } } | null)?.response?.headers;
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1_000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Exponential backoff with full jitter: a random delay up to the attempt's ceiling. */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** One-line description of a retried call, for tool limitations. */
+export function describeRetries(label: string, retries: RetryAttempt[]): string {
+  const last = retries[retries.length - 1]!;
+  return `${label} succeeded after ${retries.length} retr${retries.length === 1 ? 'y' : 'ies'} (last error: ${last.error.statusCode} ${last.error.code}).`;
+}
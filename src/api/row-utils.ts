@@ -0,0 +1,221 @@
+/**
+ * Local operations on Search Analytics rows.
+ *
+ * Used wherever the server has to answer a query from rows it already holds
+ * (the historical warehouse, derived cache answers) instead of asking the
+ * API: filter evaluation that mirrors Google's operator semantics, metric
+ * roll-up, and the API's default row ordering.
+ */
+
+import { ValidationError } from '../errors/gsc-error.js';
+import type { DimensionFilter, SearchAnalyticsRow } from './types.js';
+
+/** Dimensions whose values Google compares case-insensitively for `equals`. */
+const CASE_INSENSITIVE_DIMENSIONS = new Set(['country', 'device']);
+
+/**
+ * Evaluate a single dimension filter against a row value. For many values,
+ * compile the filter once with {@link compileDimensionFilter} instead.
+ */
+export function matchesDimensionFilter(value: string, filter: DimensionFilter): boolean {
+  return compileDimensionFilter(filter)(value);
+}
+
+/**
+ * Build a predicate for a dimension filter, mirroring the API's semantics.
+ *
+ * `contains` / `notContains` are case-insensitive, as in the API. Regex
+ * operators are evaluated by RE2 in the API and by JavaScript `RegExp` here,
+ * so RE2-only syntax (leading `(?i)` flags, `(?P<name>...)`, `\A`, `\z`,
+ * `\Q...\E`, `\pL` and `[[:alpha:]]` classes) is translated first.
+ *
+ * @throws ValidationError when a regex cannot be evaluated locally.
+ */
+export function compileDimensionFilter(filter: DimensionFilter): (value: string) => boolean {
+  const caseInsensitive = CASE_INSENSITIVE_DIMENSIONS.has(filter.dimension);
+  const expression = filter.expression;
+  const lowered = expression.toLowerCase();
+
+  switch (filter.operator) {
+    case 'equals':
+      return caseInsensitive ? (value) => value.toLowerCase() === lowered : (value) => value === expression;
+    case 'notEquals':
+      return caseInsensitive ? (value) => value.toLowerCase() !== lowered : (value) => value !== expression;
+    case 'contains':
+      return (value) => value.toLowerCase().includes(lowered);
+    case 'notContains':
+      return (value) => !value.toLowerCase().includes(lowered);
+    case 'includingRegex': {
+      const regex = toJavaScriptRegExp(expression);
+      return (value) => regex.test(value);
+    }
+    case 'excludingRegex': {
+      const regex = toJavaScriptRegExp(expression);
+      return (value) => !regex.test(value);
+    }
+  }
+}
+
+/**
+ * Merge rows that share the same `keys`, summing clicks and impressions and
+ * averaging position weighted by impressions. CTR is recomputed from the
+ * summed totals.
+ */
+export function rollUpRows(rows: Iterable<SearchAnalyticsRow>): SearchAnalyticsRow[] {
+  const groups = new Map<string, { keys: string[]; clicks: number; impressions: number; weightedPosition: number }>();
+
+  for (const row of rows) {
+    const id = row.keys.join('\u0000');
+    let group = groups.get(id);
+    if (!group) {
+      group = { keys: row.keys, clicks: 0, impressions: 0, weightedPosition: 0 };
+      groups.set(id, group);
+    }
+    group.clicks += row.clicks;
+    group.impressions += row.impressions;
+    group.weightedPosition += row.position * row.impressions;
+  }
+
+  return [...groups.values()].map((g) => ({
+    keys: g.keys,
+    clicks: g.clicks,
+    impressions: g.impressions,
+    ctr: g.impressions > 0 ? g.clicks / g.impressions : 0,
+    position: g.impressions > 0 ? g.weightedPosition / g.impressions : 0,
+  }));
+}
+
+/**
+ * Order rows the way the API does (clicks, then impressions, descending)
+ * and apply `startRow` / `rowLimit` paging.
+ */
+export function sortAndPage(
+  rows: SearchAnalyticsRow[],
+  rowLimit: number,
+  startRow: number = 0,
+): SearchAnalyticsRow[] {
+  return [...rows]
+    .sort((a, b) => b.clicks - a.clicks || b.impressions - a.impressions)
+    .slice(startRow, startRow + rowLimit);
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/** RE2 POSIX classes, as the contents of a JavaScript character class. */
+const POSIX_CLASSES = new Map([
+  ['alnum', '0-9A-Za-z'],
+  ['alpha', 'A-Za-z'],
+  ['ascii', '\\x00-\\x7F'],
+  ['blank', '\\t '],
+  ['cntrl', '\\x00-\\x1F\\x7F'],
+  ['digit', '0-9'],
+  ['graph', '!-~'],
+  ['lower', 'a-z'],
+  ['print', ' -~'],
+  ['punct', '!-\\/:-@\\[-`{-~'],
+  ['space', '\\t\\n\\v\\f\\r '],
+  ['upper', 'A-Z'],
+  ['word', '0-9A-Za-z_'],
+  ['xdigit', '0-9A-Fa-f'],
+]);
+
+/** Compile an RE2 pattern as an equivalent JavaScript `RegExp`. */
+function toJavaScriptRegExp(pattern: string): RegExp {
+  let source = pattern;
+  let flags = '';
+
+  // A leading (?flags) group applies to the whole pattern, like RegExp flags.
+  const leading = /^\(\?([a-zA-Z]+)\)/.exec(source);
+  if (leading && /^[ims]+$/.test(leading[1]!)) {
+    flags = [...new Set(leading[1]!)].join('');
+    source = source.slice(leading[0].length);
+  }
+
+  let out = '';
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]!;
+    const next = source[i + 1];
+
+    if (ch === '\\') {
+      if (next === 'Q') {
+        const end = source.indexOf('\\E', i + 2);
+        const literal = source.slice(i + 2, end === -1 ? undefined : end);
+        out += literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        i = end === -1 ? source.length : end + 1;
+      } else if (next === 'A' && !inClass) {
+        out += '(?<![\\s\\S])';
+        i++;
+      } else if (next === 'z' && !inClass) {
+        out += '(?![\\s\\S])';
+        i++;
+      } else if (next === 'C') {
+        throw unsupportedRegex(pattern, '\\C (any byte)');
+      } else if ((next === 'p' || next === 'P') && source[i + 2] !== '{' && source[i + 2] !== undefined) {
+        out += `\\${next}{${source[i + 2]}}`;
+        flags += flags.includes('u') ? '' : 'u';
+        i += 2;
+      } else {
+        if (next === 'p' || next === 'P') flags += flags.includes('u') ? '' : 'u';
+        out += source.slice(i, i + 2);
+        i++;
+      }
+      continue;
+    }
+
+    if (inClass) {
+      const posix = /^\[:(\^?)([a-z]+):\]/.exec(source.slice(i));
+      if (posix) {
+        const members = POSIX_CLASSES.get(posix[2]!);
+        if (members === undefined || posix[1]) {
+          throw unsupportedRegex(pattern, posix[0]);
+        }
+        out += members;
+        i += posix[0].length - 1;
+        continue;
+      }
+      if (ch === ']') inClass = false;
+      out += ch;
+      continue;
+    }
+
+    if (ch === '[') {
+      inClass = true;
+      out += ch;
+      if (source[i + 1] === '^') out += source[++i];
+      if (source[i + 1] === ']') {
+        out += '\\]'; // a leading ] is literal in RE2
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === '(' && next === '?') {
+      if (source[i + 2] === 'P' && source[i + 3] === '<') {
+        out += '(?<';
+        i += 3;
+        continue;
+      }
+      if (/^[a-zA-Z-]/.test(source[i + 2] ?? '')) {
+        throw unsupportedRegex(pattern, 'inline flags after the start of the pattern');
+      }
+    }
+
+    out += ch;
+  }
+
+  try {
+    return new RegExp(out, flags);
+  } catch (error) {
+    throw unsupportedRegex(pattern, error instanceof Error ? error.message : String(error));
+  }
+}
+
+function unsupportedRegex(pattern: string, detail: string): ValidationError {
+  return new ValidationError(`The regex "${pattern}" cannot be evaluated against warehouse data: ${detail}.`, {
+    recoveryHint:
+      'Rewrite it without RE2-only syntax (case-insensitive letters can be written as [aA]), or query a date range within the last 16 months so the API evaluates it.',
+  });
+}
@@ -9,9 +9,15 @@ import type { webmasters_v3 } from 'googleapis';
 import type { CacheManager } from '../cache/cache-manager.js';
 import { CACHE_TTL } from '../cache/cache-manager.js';
 import { buildAnalyticsKey } from '../cache/cache-keys.js';
+import { withPriority } from '../utils/rate-limiter.js';
 import type { RateLimiter } from '../utils/rate-limiter.js';
 import { handleApiError } from '../errors/error-handler.js';
 import { isDateFresh } from '../utils/date-helpers.js';
+import type { QuotaLedger } from '../utils/quota-ledger.js';
+import type { QueryPlanner } from './query-planner.js';
+import { validateSearchAnalyticsRequest } from './request-validation.js';
+import { withRetry, describeRetries } from './retry-policy.js';
+import type { RetryAttempt } from './retry-policy.js';
 import type {
   SearchAnalyticsRequest,
   SearchAnalyticsRow,
@@ -26,31 +32,40 @@ const API_MAX_ROW_LIMIT = 25_000;
 // ---------------------------------------------------------------------------
 
 /**
- * Execute a single searchanalytics.query call against the API.
+ * Execute a single searchanalytics.query call against the API, counting it
+ * against the property's daily quota when a ledger is given.
+ *
+ * Transient failures are retried; a page that needed retries carries a
+ * notice saying so.
  */
 async function executeSingleQuery(
   client: webmasters_v3.Webmasters,
   request: SearchAnalyticsRequest,
   rateLimiter: RateLimiter,
+  quota?: QuotaLedger,
 ): Promise<SearchAnalyticsResponse> {
-  await rateLimiter.acquire();
-
   const { siteUrl, ...requestBody } = request;
+  const retries: RetryAttempt[] = [];
 
-  const response = await client.searchanalytics.query({
-    siteUrl,
-    requestBody: {
-      startDate: requestBody.startDate,
-      endDate: requestBody.endDate,
-      dimensions: requestBody.dimensions,
-      searchType: requestBody.searchType,
-      dimensionFilterGroups: requestBody.dimensionFilterGroups,
-      rowLimit: requestBody.rowLimit,
-      startRow: requestBody.startRow,
-      dataState: requestBody.dataState,
-      aggregationType: requestBody.aggregationType,
-    },
-  });
+  const response = await withRetry(async () => {
+    quota?.consume(siteUrl, 'searchAnalytics');
+    await rateLimiter.acquire();
+
+    return client.searchanalytics.query({
+      siteUrl,
+      requestBody: {
+        startDate: requestBody.startDate,
+        endDate: requestBody.endDate,
+        dimensions: requestBody.dimensions,
+        searchType: requestBody.searchType,
+        dimensionFilterGroups: requestBody.dimensionFilterGroups,
+        rowLimit: requestBody.rowLimit,
+        startRow: requestBody.startRow,
+        dataState: requestBody.dataState,
+        aggregationType: requestBody.aggregationType,
+      },
+    });
+  }, { onRetry: (retry) => retries.push(retry) });
 
   const data = response.data;
 
@@ -65,14 +80,43 @@ async function executeSingleQuery(
   return {
     rows,
     responseAggregationType: data.responseAggregationType ?? 'auto',
+    ...(retries.length > 0
+      ? { notices: [describeRetries(`The API page starting at row ${requestBody.startRow ?? 0}`, retries)] }
+      : {}),
   };
 }
 
+/**
+ * Cache `result` without its notices -- they describe this fetch (such as
+ * retries) and would be misleading on a later cache hit.
+ */
+function cacheResult(
+  cache: CacheManager,
+  cacheKey: string,
+  request: SearchAnalyticsRequest,
+  result: SearchAnalyticsResponse,
+): void {
+  const { notices: _notices, ...cacheable } = result;
+  cache.set(cacheKey, cacheable, chooseTtl(request), choosePersistTtl(request));
+}
+
+/** Prepend preflight notices to a response without mutating a cached one. */
+function withNotices(response: SearchAnalyticsResponse, notices: string[]): SearchAnalyticsResponse {
+  if (notices.length === 0) {
+    return response;
+  }
+  return { ...response, notices: [...notices, ...(response.notices ?? [])] };
+}
+
 /**
  * Choose the appropriate cache TTL based on whether the queried date range
  * contains recent (potentially still changing) data.
  */
 function chooseTtl(request: SearchAnalyticsRequest): number {
+  // Hourly rows for the current day grow every hour.
+  if (request.dataState === 'hourly_all' || request.dimensions?.includes('hour')) {
+    return CACHE_TTL.ANALYTICS_HOURLY;
+  }
   // Data within the last 2 days is considered "fresh" and may still update.
   if (isDateFresh(request.endDate, 2)) {
     return CACHE_TTL.ANALYTICS_FRESH;
@@ -80,6 +124,51 @@ function chooseTtl(request: SearchAnalyticsRequest): number {
   return CACHE_TTL.ANALYTICS_FINAL;
 }
 
+/**
+ * Choose how long a result may live in the persistent cache tier.
+ * Finalized data never changes, so it is kept far longer than in memory.
+ */
+function choosePersistTtl(request: SearchAnalyticsRequest): number {
+  const ttl = chooseTtl(request);
+  return ttl === CACHE_TTL.ANALYTICS_FINAL
+    ? CACHE_TTL.ANALYTICS_FINAL_PERSISTED
+    : ttl;
+}
+
+/**
+ * Serve an expired-but-allowed cache entry immediately and refresh it in the
+ * background, or fetch (coalesced) when there is nothing stale to serve.
+ * The refresh goes through `fetchFresh`, so it waits on the rate limiter
+ * like any other call, behind everything but other background work.
+ */
+function serveStaleOrFetch(
+  cache: CacheManager,
+  cacheKey: string,
+  fetchFresh: () => Promise<SearchAnalyticsResponse>,
+): Promise<SearchAnalyticsResponse> {
+  const stale = cache.getStale<SearchAnalyticsResponse>(cacheKey);
+  if (stale === undefined) {
+    return cache.coalesce(cacheKey, fetchFresh);
+  }
+
+  cache.coalesce(cacheKey, () => withPriority('background', fetchFresh)).catch((error: unknown) => {
+    // The stale entry stays in place; the next call retries the refresh.
+    console.error(
+      '[awesome-gsc-mcp] Background cache refresh failed:',
+      error instanceof Error ? error.message : error,
+    );
+  });
+
+  const minutes = Math.max(1, Math.round(stale.staleForMs / 60_000));
+  return Promise.resolve({
+    ...stale.value,
+    notices: [
+      ...(stale.value.notices ?? []),
+      `Served from cache ${minutes} min past its refresh time; updated data is being fetched in the background.`,
+    ],
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -88,7 +177,15 @@ function chooseTtl(request: SearchAnalyticsRequest): number {
  * Query search analytics data with automatic pagination.
  *
  * If the requested `rowLimit` exceeds 25 000, multiple API calls are made
- * using `startRow` offsets and the results are concatenated.
+ * using `startRow` offsets and the results are concatenated. Identical
+ * requests made while one is already in flight share its result.
+ *
+ * When a `planner` is given, totals and daily rows that can be derived
+ * exactly from a cached `date` series are answered without an API call.
+ * When a `quota` ledger is given, every page fetched is counted against the
+ * property's daily budget and a call past it throws `QuotaExceededError`.
+ * Requests are checked by {@link validateSearchAnalyticsRequest} first, so
+ * invalid ones throw `ValidationError` without reaching the API.
  *
  * @returns A merged {@link SearchAnalyticsResponse}.
  */
@@ -97,65 +194,85 @@ export async function querySearchAnalytics(
   request: SearchAnalyticsRequest,
   cache: CacheManager,
   rateLimiter: RateLimiter,
+  planner?: QueryPlanner,
+  quota?: QuotaLedger,
 ): Promise<SearchAnalyticsResponse> {
+  const preflightNotices = validateSearchAnalyticsRequest(request);
+
   const cacheKey = buildAnalyticsKey(
     request.siteUrl,
     request as unknown as Record<string, unknown>,
   );
   const cached = cache.get<SearchAnalyticsResponse>(cacheKey);
   if (cached !== undefined) {
-    return cached;
+    return withNotices(cached, preflightNotices);
   }
 
-  try {
-    const desiredLimit = request.rowLimit ?? API_MAX_ROW_LIMIT;
+  const derived = planner?.derive(request);
+  if (derived !== undefined) {
+    return withNotices(derived, preflightNotices);
+  }
 
-    // If within a single page, just fetch directly.
-    if (desiredLimit <= API_MAX_ROW_LIMIT) {
-      const result = await executeSingleQuery(
-        client,
-        { ...request, rowLimit: desiredLimit },
-        rateLimiter,
-      );
-      cache.set(cacheKey, result, chooseTtl(request));
-      return result;
-    }
+  const fetchFresh = async (): Promise<SearchAnalyticsResponse> => {
+    try {
+      const desiredLimit = request.rowLimit ?? API_MAX_ROW_LIMIT;
 
-    // Multi-page fetch: iterate with startRow offsets.
-    const allRows: SearchAnalyticsRow[] = [];
-    let startRow = request.startRow ?? 0;
-    let responseAggregationType = 'auto';
+      // If within a single page, just fetch directly.
+      if (desiredLimit <= API_MAX_ROW_LIMIT) {
+        const result = await executeSingleQuery(
+          client,
+          { ...request, rowLimit: desiredLimit },
+          rateLimiter,
+          quota,
+        );
+        cacheResult(cache, cacheKey, request, result);
+        planner?.record(request, cacheKey, desiredLimit);
+        return result;
+      }
 
-    while (allRows.length < desiredLimit) {
-      const pageSize = Math.min(API_MAX_ROW_LIMIT, desiredLimit - allRows.length);
+      // Multi-page fetch: iterate with startRow offsets.
+      const allRows: SearchAnalyticsRow[] = [];
+      const notices: string[] = [];
+      let startRow = request.startRow ?? 0;
+      let responseAggregationType = 'auto';
 
-      const page = await executeSingleQuery(
-        client,
-        { ...request, rowLimit: pageSize, startRow },
-        rateLimiter,
-      );
+      while (allRows.length < desiredLimit) {
+        const pageSize = Math.min(API_MAX_ROW_LIMIT, desiredLimit - allRows.length);
 
-      responseAggregationType = page.responseAggregationType;
-      allRows.push(...page.rows);
+        const page = await executeSingleQuery(
+          client,
+          { ...request, rowLimit: pageSize, startRow },
+          rateLimiter,
+          quota,
+        );
 
-      // If the API returned fewer rows than requested, we have reached the end.
-      if (page.rows.length < pageSize) {
-        break;
+        responseAggregationType = page.responseAggregationType;
+        allRows.push(...page.rows);
+        notices.push(...(page.notices ?? []));
+
+        // If the API returned fewer rows than requested, we have reached the end.
+        if (page.rows.length < pageSize) {
+          break;
+        }
+
+        startRow += page.rows.length;
       }
 
-      startRow += page.rows.length;
-    }
+      const result: SearchAnalyticsResponse = {
+        rows: allRows,
+        responseAggregationType,
+        ...(notices.length > 0 ? { notices } : {}),
+      };
 
-    const result: SearchAnalyticsResponse = {
-      rows: allRows,
-      responseAggregationType,
-    };
+      cacheResult(cache, cacheKey, request, result);
+      planner?.record(request, cacheKey, desiredLimit);
+      return result;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  };
 
-    cache.set(cacheKey, result, chooseTtl(request));
-    return result;
-  } catch (error) {
-    throw handleApiError(error);
-  }
+  return withNotices(await serveStaleOrFetch(cache, cacheKey, fetchFresh), preflightNotices);
 }
 
 /**
@@ -171,47 +288,96 @@ export async function querySearchAnalyticsAllRows(
   request: SearchAnalyticsRequest,
   cache: CacheManager,
   rateLimiter: RateLimiter,
+  quota?: QuotaLedger,
 ): Promise<SearchAnalyticsResponse> {
+  const preflightNotices = validateSearchAnalyticsRequest(request);
+
   const cacheKey = buildAnalyticsKey(request.siteUrl, {
     ...(request as unknown as Record<string, unknown>),
     _allRows: true,
   });
   const cached = cache.get<SearchAnalyticsResponse>(cacheKey);
   if (cached !== undefined) {
-    return cached;
+    return withNotices(cached, preflightNotices);
   }
 
-  try {
-    const allRows: SearchAnalyticsRow[] = [];
-    let startRow = request.startRow ?? 0;
-    let responseAggregationType = 'auto';
+  const fetchFresh = async (): Promise<SearchAnalyticsResponse> => {
+    try {
+      const allRows: SearchAnalyticsRow[] = [];
+      const notices: string[] = [];
+      let startRow = request.startRow ?? 0;
+      let responseAggregationType = 'auto';
 
-    while (true) {
-      const page = await executeSingleQuery(
-        client,
-        { ...request, rowLimit: API_MAX_ROW_LIMIT, startRow },
-        rateLimiter,
-      );
+      while (true) {
+        const page = await executeSingleQuery(
+          client,
+          { ...request, rowLimit: API_MAX_ROW_LIMIT, startRow },
+          rateLimiter,
+          quota,
+        );
+
+        responseAggregationType = page.responseAggregationType;
+        allRows.push(...page.rows);
+        notices.push(...(page.notices ?? []));
 
-      responseAggregationType = page.responseAggregationType;
-      allRows.push(...page.rows);
+        // An empty or partial page signals the end of data.
+        if (page.rows.length < API_MAX_ROW_LIMIT) {
+          break;
+        }
 
-      // An empty or partial page signals the end of data.
-      if (page.rows.length < API_MAX_ROW_LIMIT) {
-        break;
+        startRow += page.rows.length;
       }
 
-      startRow += page.rows.length;
+      const result: SearchAnalyticsResponse = {
+        rows: allRows,
+        responseAggregationType,
+        ...(notices.length > 0 ? { notices } : {}),
+      };
+
+      cacheResult(cache, cacheKey, request, result);
+      return result;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  };
+
+  return withNotices(await serveStaleOrFetch(cache, cacheKey, fetchFresh), preflightNotices);
+}
+
+/**
+ * Yield every page of a search analytics query as it arrives, without
+ * caching anything. For pulls too large to hold in memory, such as file
+ * exports. The first page carries the request's preflight notices.
+ */
+export async function* streamSearchAnalyticsPages(
+  client: webmasters_v3.Webmasters,
+  request: SearchAnalyticsRequest,
+  rateLimiter: RateLimiter,
+  quota?: QuotaLedger,
+): AsyncGenerator<SearchAnalyticsResponse> {
+  let notices = validateSearchAnalyticsRequest(request);
+  let startRow = request.startRow ?? 0;
+
+  while (true) {
+    let page: SearchAnalyticsResponse;
+    try {
+      page = await executeSingleQuery(
+        client,
+        { ...request, rowLimit: API_MAX_ROW_LIMIT, startRow },
+        rateLimiter,
+        quota,
+      );
+    } catch (error) {
+      throw handleApiError(error);
     }
 
-    const result: SearchAnalyticsResponse = {
-      rows: allRows,
-      responseAggregationType,
-    };
+    yield withNotices(page, notices);
+    notices = [];
 
-    cache.set(cacheKey, result, chooseTtl(request));
-    return result;
-  } catch (error) {
-    throw handleApiError(error);
+    // An empty or partial page signals the end of data.
+    if (page.rows.length < API_MAX_ROW_LIMIT) {
+      return;
+    }
+    startRow += page.rows.length;
   }
 }
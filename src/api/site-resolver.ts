@@ -0,0 +1,134 @@
+/**
+ * Property resolution for Google Search Console.
+ *
+ * Tools accept whatever the user has at hand -- `example.com`, a page URL,
+ * `www.example.com/blog` -- and this module maps it onto one of the account's
+ * properties: the most specific URL-prefix property that covers it, then the
+ * closest domain property. Unverified properties are never chosen, since
+ * every data call against them is refused.
+ */
+
+import type { SiteInfo } from './types.js';
+
+/** How an input was matched to a property. */
+export type SiteMatch = 'exact' | 'url-prefix' | 'domain';
+
+export interface SiteResolution {
+  siteUrl: string;
+  matchedBy: SiteMatch;
+}
+
+/**
+ * Pick the property that best covers `input`.
+ *
+ * `input` may be a property exactly as listed, a full page URL, a bare
+ * hostname or a `sc-domain:` property. Without a scheme either `http` or
+ * `https` properties match, and a bare hostname also tries its `www.` form.
+ *
+ * @returns The chosen property, or `undefined` when none covers the input.
+ */
+export function resolveSiteUrl(input: string, sites: readonly SiteInfo[]): SiteResolution | undefined {
+  const usable = sites.filter((site) => site.permissionLevel !== 'siteUnverifiedUser');
+  const trimmed = input.trim();
+
+  const exact = usable.find((site) => site.siteUrl === trimmed);
+  if (exact) {
+    return { siteUrl: exact.siteUrl, matchedBy: 'exact' };
+  }
+
+  const target = parseTarget(trimmed);
+  if (!target) {
+    return undefined;
+  }
+
+  const hosts = target.bareHost && !target.host.startsWith('www.')
+    ? [target.host, `www.${target.host}`]
+    : [target.host];
+  for (const host of hosts) {
+    const match = matchUrlPrefix({ ...target, host }, usable);
+    if (match) {
+      return { siteUrl: match, matchedBy: 'url-prefix' };
+    }
+  }
+
+  const domain = matchDomain(target.host, usable);
+  return domain ? { siteUrl: domain, matchedBy: 'domain' } : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+interface Target {
+  /** `http:` or `https:`, or null when the input had no scheme. */
+  protocol: string | null;
+  host: string;
+  /** Path including the leading slash. */
+  path: string;
+  /** True when the input was just a hostname, e.g. `example.com`. */
+  bareHost: boolean;
+}
+
+function parseTarget(input: string): Target | undefined {
+  if (input.toLowerCase().startsWith('sc-domain:')) {
+    const host = input.slice('sc-domain:'.length).toLowerCase();
+    return host.length > 0 ? { protocol: null, host, path: '/', bareHost: true } : undefined;
+  }
+
+  const hasScheme = /^https?:\/\//i.test(input);
+  let url: URL;
+  try {
+    url = new URL(hasScheme ? input : `https://${input}`);
+  } catch {
+    return undefined;
+  }
+  if (!url.hostname.includes('.') && url.hostname !== 'localhost') {
+    return undefined;
+  }
+
+  return {
+    protocol: hasScheme ? url.protocol : null,
+    host: url.host.toLowerCase(),
+    path: url.pathname,
+    bareHost: !hasScheme && url.pathname === '/',
+  };
+}
+
+/** The longest URL-prefix property that covers the target. */
+function matchUrlPrefix(target: Target, sites: readonly SiteInfo[]): string | undefined {
+  let best: { siteUrl: string; length: number } | undefined;
+  for (const site of sites) {
+    if (site.siteUrl.startsWith('sc-domain:')) continue;
+    let property: URL;
+    try {
+      property = new URL(site.siteUrl);
+    } catch {
+      continue;
+    }
+    if (target.protocol !== null && property.protocol !== target.protocol) continue;
+    if (property.host.toLowerCase() !== target.host) continue;
+    if (!target.path.startsWith(property.pathname)) continue;
+
+    // Prefer the deeper path; with no scheme given, https over http.
+    const length = property.pathname.length * 2 + (property.protocol === 'https:' ? 1 : 0);
+    if (!best || length > best.length) {
+      best = { siteUrl: site.siteUrl, length };
+    }
+  }
+  return best?.siteUrl;
+}
+
+/** The closest domain property for the host, e.g. `sc-domain:blog.example.com` over `sc-domain:example.com`. */
+function matchDomain(host: string, sites: readonly SiteInfo[]): string | undefined {
+  const hostname = host.replace(/:\d+$/, '');
+  let best: string | undefined;
+  for (const site of sites) {
+    if (!site.siteUrl.startsWith('sc-domain:')) continue;
+    const domain = site.siteUrl.slice('sc-domain:'.length).toLowerCase();
+    if (hostname !== domain && !hostname.endsWith(`.${domain}`)) continue;
+    if (!best || domain.length > best.length - 'sc-domain:'.length) {
+      best = site.siteUrl;
+    }
+  }
+  return best;
+}
@@ -1,8 +1,10 @@
 /**
  * Sitemaps endpoints for Google Search Console.
  *
- * Wraps the webmasters v3 `sitemaps` resource with caching and rate limiting.
+ * Wraps the webmasters v3 `sitemaps` resource with caching, rate limiting and
+ * retries of transient failures (mutations only after a rate-limit refusal).
  * Mutation operations (submit / delete) invalidate relevant cache entries.
+ * Every live read is recorded in the sitemap history when one is given.
  */
 
 import type { webmasters_v3 } from 'googleapis';
@@ -12,6 +14,8 @@ import { buildSitemapsKey } from '../cache/cache-keys.js';
 import type { RateLimiter } from '../utils/rate-limiter.js';
 import { handleApiError } from '../errors/error-handler.js';
 import type { SitemapInfo, SitemapContent } from './types.js';
+import type { SitemapHistory } from '../sitemaps/sitemap-history.js';
+import { withRetry } from './retry-policy.js';
 
 // ---------------------------------------------------------------------------
 // Internal helpers
@@ -52,6 +56,7 @@ export async function listSitemaps(
   siteUrl: string,
   cache: CacheManager,
   rateLimiter: RateLimiter,
+  history?: SitemapHistory,
 ): Promise<SitemapInfo[]> {
   const cacheKey = buildSitemapsKey(siteUrl);
   const cached = cache.get<SitemapInfo[]>(cacheKey);
@@ -59,17 +64,22 @@ export async function listSitemaps(
     return cached;
   }
 
-  try {
-    await rateLimiter.acquire();
-    const response = await client.sitemaps.list({ siteUrl });
-
-    const sitemaps: SitemapInfo[] = (response.data.sitemap ?? []).map(toSitemapInfo);
-
-    cache.set(cacheKey, sitemaps, CACHE_TTL.SITEMAPS);
-    return sitemaps;
-  } catch (error) {
-    throw handleApiError(error);
-  }
+  return cache.coalesce(cacheKey, async () => {
+    try {
+      const response = await withRetry(async () => {
+        await rateLimiter.acquire();
+        return client.sitemaps.list({ siteUrl });
+      }, { label: `Listing sitemaps of ${siteUrl}` });
+
+      const sitemaps: SitemapInfo[] = (response.data.sitemap ?? []).map(toSitemapInfo);
+      await history?.record(siteUrl, sitemaps);
+
+      cache.set(cacheKey, sitemaps, CACHE_TTL.SITEMAPS);
+      return sitemaps;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  });
 }
 
 /**
@@ -81,6 +91,7 @@ export async function getSitemap(
   feedpath: string,
   cache: CacheManager,
   rateLimiter: RateLimiter,
+  history?: SitemapHistory,
 ): Promise<SitemapInfo> {
   const cacheKey = buildSitemapsKey(siteUrl, feedpath);
   const cached = cache.get<SitemapInfo>(cacheKey);
@@ -88,17 +99,22 @@ export async function getSitemap(
     return cached;
   }
 
-  try {
-    await rateLimiter.acquire();
-    const response = await client.sitemaps.get({ siteUrl, feedpath });
-
-    const sitemap = toSitemapInfo(response.data);
-
-    cache.set(cacheKey, sitemap, CACHE_TTL.SITEMAPS);
-    return sitemap;
-  } catch (error) {
-    throw handleApiError(error);
-  }
+  return cache.coalesce(cacheKey, async () => {
+    try {
+      const response = await withRetry(async () => {
+        await rateLimiter.acquire();
+        return client.sitemaps.get({ siteUrl, feedpath });
+      }, { label: `Fetching sitemap ${feedpath}` });
+
+      const sitemap = toSitemapInfo(response.data);
+      await history?.record(siteUrl, [sitemap]);
+
+      cache.set(cacheKey, sitemap, CACHE_TTL.SITEMAPS);
+      return sitemap;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  });
 }
 
 /**
@@ -113,8 +129,10 @@ export async function submitSitemap(
   rateLimiter: RateLimiter,
 ): Promise<void> {
   try {
-    await rateLimiter.acquire();
-    await client.sitemaps.submit({ siteUrl, feedpath });
+    await withRetry(async () => {
+      await rateLimiter.acquire();
+      await client.sitemaps.submit({ siteUrl, feedpath });
+    }, { safe: false, label: `Submitting sitemap ${feedpath}` });
 
     // Invalidate list and the specific sitemap entry.
     cache.delete(buildSitemapsKey(siteUrl));
@@ -136,8 +154,10 @@ export async function deleteSitemap(
   rateLimiter: RateLimiter,
 ): Promise<void> {
   try {
-    await rateLimiter.acquire();
-    await client.sitemaps.delete({ siteUrl, feedpath });
+    await withRetry(async () => {
+      await rateLimiter.acquire();
+      await client.sitemaps.delete({ siteUrl, feedpath });
+    }, { safe: false, label: `Deleting sitemap ${feedpath}` });
 
     // Invalidate list and the specific sitemap entry.
     cache.delete(buildSitemapsKey(siteUrl));
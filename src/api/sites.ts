@@ -1,7 +1,8 @@
 /**
  * Sites endpoints for Google Search Console.
  *
- * Wraps the webmasters v3 `sites` resource with caching and rate limiting.
+ * Wraps the webmasters v3 `sites` resource with caching, rate limiting and
+ * retries of transient failures (mutations only after a rate-limit refusal).
  * Mutation operations (add / delete) invalidate relevant cache entries.
  */
 
@@ -12,6 +13,7 @@ import { buildSitesKey } from '../cache/cache-keys.js';
 import type { RateLimiter } from '../utils/rate-limiter.js';
 import { handleApiError } from '../errors/error-handler.js';
 import type { SiteInfo } from './types.js';
+import { withRetry } from './retry-policy.js';
 
 // ---------------------------------------------------------------------------
 // Public API
@@ -32,8 +34,10 @@ export async function listSites(
   }
 
   try {
-    await rateLimiter.acquire();
-    const response = await client.sites.list();
+    const response = await withRetry(async () => {
+      await rateLimiter.acquire();
+      return client.sites.list();
+    }, { label: 'Listing properties' });
 
     const sites: SiteInfo[] = (response.data.siteEntry ?? []).map((entry) => ({
       siteUrl: entry.siteUrl ?? '',
@@ -63,8 +67,10 @@ export async function getSite(
   }
 
   try {
-    await rateLimiter.acquire();
-    const response = await client.sites.get({ siteUrl });
+    const response = await withRetry(async () => {
+      await rateLimiter.acquire();
+      return client.sites.get({ siteUrl });
+    }, { label: `Fetching ${siteUrl}` });
 
     const site: SiteInfo = {
       siteUrl: response.data.siteUrl ?? siteUrl,
@@ -89,8 +95,10 @@ export async function addSite(
   rateLimiter: RateLimiter,
 ): Promise<void> {
   try {
-    await rateLimiter.acquire();
-    await client.sites.add({ siteUrl });
+    await withRetry(async () => {
+      await rateLimiter.acquire();
+      await client.sites.add({ siteUrl });
+    }, { safe: false, label: `Adding ${siteUrl}` });
 
     // Invalidate both the full list and the specific site entry.
     cache.delete(buildSitesKey());
@@ -111,8 +119,10 @@ export async function deleteSite(
   rateLimiter: RateLimiter,
 ): Promise<void> {
   try {
-    await rateLimiter.acquire();
-    await client.sites.delete({ siteUrl });
+    await withRetry(async () => {
+      await rateLimiter.acquire();
+      await client.sites.delete({ siteUrl });
+    }, { safe: false, label: `Removing ${siteUrl}` });
 
     // Invalidate both the full list and the specific site entry.
     cache.delete(buildSitesKey());
@@ -1,14 +1,16 @@
+import type { GscError } from '../errors/gsc-error.js';
+
 // SearchAnalyticsRequest - matches Google's searchanalytics.query API
 export interface SearchAnalyticsRequest {
   siteUrl: string;
   startDate: string; // YYYY-MM-DD
   endDate: string;
-  dimensions?: ('date' | 'query' | 'page' | 'country' | 'device' | 'searchAppearance')[];
+  dimensions?: ('date' | 'hour' | 'query' | 'page' | 'country' | 'device' | 'searchAppearance')[];
   searchType?: 'web' | 'image' | 'video' | 'news' | 'discover' | 'googleNews';
   dimensionFilterGroups?: DimensionFilterGroup[];
   rowLimit?: number; // max 25000
   startRow?: number;
-  dataState?: 'all' | 'final';
+  dataState?: 'all' | 'final' | 'hourly_all'; // 'hourly_all' is required with the 'hour' dimension
   aggregationType?: 'auto' | 'byPage' | 'byProperty';
 }
 
@@ -34,6 +36,8 @@ export interface SearchAnalyticsRow {
 export interface SearchAnalyticsResponse {
   rows: SearchAnalyticsRow[];
   responseAggregationType: string;
+  /** Caveats about how this response was produced, surfaced as tool limitations. */
+  notices?: string[];
 }
 
 // SiteInfo, SitemapInfo, InspectionResult types too
@@ -84,3 +88,8 @@ export interface InspectionResult {
     detectedItems?: { richResultType: string; items: any[] }[];
   };
 }
+
+/** Outcome of inspecting one URL in a batch: its result, or why it failed. */
+export type BatchInspectionResult =
+  | { url: string; ok: true; result: InspectionResult }
+  | { url: string; ok: false; error: GscError };
@@ -10,13 +10,20 @@ import type { CacheManager } from '../cache/cache-manager.js';
 import { CACHE_TTL } from '../cache/cache-manager.js';
 import { buildInspectionKey } from '../cache/cache-keys.js';
 import type { RateLimiter } from '../utils/rate-limiter.js';
+import type { QuotaLedger } from '../utils/quota-ledger.js';
+import type { InspectionHistory } from '../inspection/inspection-history.js';
 import { handleApiError } from '../errors/error-handler.js';
 import { ValidationError } from '../errors/gsc-error.js';
-import type { InspectionResult } from './types.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import type { BatchInspectionResult, InspectionResult } from './types.js';
+import { withRetry } from './retry-policy.js';
 
 /** Maximum URLs accepted by `batchInspectUrls`. */
 const MAX_BATCH_SIZE = 50;
 
+/** Inspections `batchInspectUrls` runs at once by default. */
+export const DEFAULT_INSPECTION_CONCURRENCY = 5;
+
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
@@ -76,6 +83,9 @@ function toInspectionResult(
 
 /**
  * Inspect a single URL using the Search Console URL Inspection API.
+ * Cache misses are counted against the property's daily inspection quota
+ * when a ledger is given, and recorded in the inspection history when one
+ * is given.
  */
 export async function inspectUrl(
   client: searchconsole_v1.Searchconsole,
@@ -83,6 +93,8 @@ export async function inspectUrl(
   inspectionUrl: string,
   cache: CacheManager,
   rateLimiter: RateLimiter,
+  quota?: QuotaLedger,
+  history?: InspectionHistory,
 ): Promise<InspectionResult> {
   const cacheKey = buildInspectionKey(siteUrl, inspectionUrl);
   const cached = cache.get<InspectionResult>(cacheKey);
@@ -90,39 +102,52 @@ export async function inspectUrl(
     return cached;
   }
 
-  try {
-    await rateLimiter.acquire();
+  return cache.coalesce(cacheKey, async () => {
+    try {
+      const response = await withRetry(async () => {
+        quota?.consume(siteUrl, 'urlInspection');
+        await rateLimiter.acquire();
 
-    const response = await client.urlInspection.index.inspect({
-      requestBody: {
-        inspectionUrl,
-        siteUrl,
-      },
-    });
+        return client.urlInspection.index.inspect({
+          requestBody: {
+            inspectionUrl,
+            siteUrl,
+          },
+        });
+      }, { label: `Inspecting ${inspectionUrl}` });
 
-    const raw = response.data.inspectionResult;
-    if (!raw) {
-      throw new Error(
-        `URL Inspection API returned no result for "${inspectionUrl}".`,
-      );
-    }
+      const raw = response.data.inspectionResult;
+      if (!raw) {
+        throw new Error(
+          `URL Inspection API returned no result for "${inspectionUrl}".`,
+        );
+      }
 
-    const result = toInspectionResult(raw);
-    cache.set(cacheKey, result, CACHE_TTL.URL_INSPECTION);
-    return result;
-  } catch (error) {
-    throw handleApiError(error);
-  }
+      const result = toInspectionResult(raw);
+      cache.set(cacheKey, result, CACHE_TTL.URL_INSPECTION);
+      await history?.record(siteUrl, inspectionUrl, result);
+      return result;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  });
 }
 
 /**
- * Inspect multiple URLs sequentially with rate limiting.
+ * Inspect multiple URLs with bounded concurrency.
  *
  * The Search Console URL Inspection API does not support batch requests
- * natively, so each URL is inspected individually. A maximum of
+ * natively, so each URL is inspected individually -- up to `concurrency` at
+ * a time, each still waiting on the rate limiter. A maximum of
  * {@link MAX_BATCH_SIZE} URLs can be inspected in a single call.
  *
+ * A URL that fails does not abort the batch: every URL gets a
+ * {@link BatchInspectionResult}, in input order, holding either its result
+ * or the error it failed with.
+ *
  * @throws {ValidationError} if more than 50 URLs are provided.
+ * @throws {QuotaExceededError} if the uncached URLs would exceed the
+ *         property's remaining daily inspection quota.
  */
 export async function batchInspectUrls(
   client: searchconsole_v1.Searchconsole,
@@ -130,7 +155,10 @@ export async function batchInspectUrls(
   urls: string[],
   cache: CacheManager,
   rateLimiter: RateLimiter,
-): Promise<InspectionResult[]> {
+  quota?: QuotaLedger,
+  history?: InspectionHistory,
+  concurrency: number = DEFAULT_INSPECTION_CONCURRENCY,
+): Promise<BatchInspectionResult[]> {
   if (urls.length > MAX_BATCH_SIZE) {
     throw new ValidationError(
       `batchInspectUrls accepts at most ${MAX_BATCH_SIZE} URLs, but ${urls.length} were provided.`,
@@ -143,12 +171,16 @@ export async function batchInspectUrls(
     );
   }
 
-  const results: InspectionResult[] = [];
-
-  for (const url of urls) {
-    const result = await inspectUrl(client, siteUrl, url, cache, rateLimiter);
-    results.push(result);
-  }
+  // Refuse the whole batch up front rather than failing part-way through.
+  const uncached = new Set(urls.filter((url) => !cache.has(buildInspectionKey(siteUrl, url))));
+  quota?.assertAvailable(siteUrl, 'urlInspection', uncached.size);
 
-  return results;
+  return mapWithConcurrency(urls, concurrency, async (url): Promise<BatchInspectionResult> => {
+    try {
+      const result = await inspectUrl(client, siteUrl, url, cache, rateLimiter, quota, history);
+      return { url, ok: true, result };
+    } catch (error) {
+      return { url, ok: false, error: handleApiError(error) };
+    }
+  });
 }
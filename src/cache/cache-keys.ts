@@ -35,6 +35,36 @@ function stableStringify(value: unknown): string {
   return JSON.stringify(value);
 }
 
+// ---------------------------------------------------------------------------
+// Namespaces
+// ---------------------------------------------------------------------------
+
+/** Leading key segment for each kind of cached GSC data. */
+export const CACHE_NAMESPACES = [
+  "analytics",
+  "sites",
+  "sitemaps",
+  "inspection",
+  "cursors",
+] as const;
+
+export type CacheNamespace = (typeof CACHE_NAMESPACES)[number];
+
+/**
+ * Build the prefix matching every key in `namespace`, optionally narrowed to
+ * one property. The `sites` namespace keys a property without a trailing
+ * segment, so use {@link buildSitesKey} to target a single site there.
+ */
+export function buildNamespacePrefix(
+  namespace: CacheNamespace,
+  siteUrl?: string,
+): string {
+  if (siteUrl !== undefined) {
+    return `${namespace}|${siteUrl}|`;
+  }
+  return `${namespace}|`;
+}
+
 // ---------------------------------------------------------------------------
 // Key builders
 // ---------------------------------------------------------------------------
@@ -89,3 +119,13 @@ export function buildInspectionKey(
 ): string {
   return `inspection|${siteUrl}|${inspectionUrl}`;
 }
+
+/**
+ * Build a cache key for a paged tool result.
+ *
+ * @param siteUrl  The GSC property URL the result belongs to.
+ * @param id       Random identifier carried in the result's cursor.
+ */
+export function buildCursorKey(siteUrl: string, id: string): string {
+  return `cursors|${siteUrl}|${id}`;
+}
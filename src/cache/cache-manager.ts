@@ -1,29 +1,62 @@
 /**
- * In-memory TTL + LRU cache with configurable max entries.
+ * In-memory TTL + LRU cache with configurable max entries, a byte budget,
+ * and an optional persistent backing {@link CacheStore}.
  *
  * Eviction strategy:
  *  1. Expired entries are removed on access and during eviction sweeps.
- *  2. When the cache exceeds `maxEntries`, the least-recently-used
- *     non-expired entry is evicted first.
+ *  2. When the cache exceeds `maxEntries` or `maxBytes`, the
+ *     least-recently-used non-expired entries are evicted first.
+ *
+ * Entry sizes are estimated from their serialized (JSON) length. A value
+ * larger than the whole byte budget is not held in memory at all; it is
+ * still written to the persistent store when one is configured.
+ *
+ * When a store is configured, writes go through to it and memory misses
+ * fall back to it, so entries evicted from memory (or lost on restart) can
+ * still be served until their persisted TTL runs out.
+ *
+ * {@link CacheManager.coalesce} lets concurrent misses for the same key share
+ * a single pending load instead of each calling the API.
+ *
+ * Namespaces can opt into stale-while-revalidate: an expired entry is kept
+ * for up to the namespace's max staleness and handed out by
+ * {@link CacheManager.getStale} while the caller refreshes it.
  */
 
+import type { CacheEntry, CacheStore } from "./cache-store.js";
+
 /** TTL presets (milliseconds) for common GSC data types. */
 export const CACHE_TTL = {
   /** Analytics data older than 2 days is finalized by Google. */
   ANALYTICS_FINAL: 3_600_000, // 1 hour
   /** Recent analytics data that may still change. */
   ANALYTICS_FRESH: 900_000, // 15 minutes
+  /** Hourly analytics, which fills in through the day. */
+  ANALYTICS_HOURLY: 300_000, // 5 minutes
   /** Site list / site metadata. */
   SITES: 1_800_000, // 30 minutes
   /** Sitemap data. */
   SITEMAPS: 900_000, // 15 minutes
   /** URL inspection results (stable once fetched). */
   URL_INSPECTION: 3_600_000, // 1 hour
+  /**
+   * How long finalized analytics may live in a persistent store. Google does
+   * not revise finalized data, so it can outlive the in-memory TTL by far.
+   */
+  ANALYTICS_FINAL_PERSISTED: 2_592_000_000, // 30 days
 } as const;
 
-interface CacheEntry<T = unknown> {
-  value: T;
-  expiresAt: number;
+export interface CacheManagerOptions {
+  /** Persistent backing tier. Omit for a purely in-memory cache. */
+  store?: CacheStore;
+  /** Budget for the estimated size of all in-memory entries, in bytes. */
+  maxBytes?: number;
+  /**
+   * Stale-while-revalidate windows: how long (ms) past expiry an entry in
+   * each namespace may still be served by `getStale`. Namespaces not listed
+   * expire normally.
+   */
+  staleWhileRevalidate?: Partial<Record<string, number>>;
 }
 
 interface CacheStats {
@@ -31,9 +64,54 @@ interface CacheStats {
   hits: number;
   misses: number;
   hitRate: number;
+  /** Loads currently pending in {@link CacheManager.coalesce}. */
+  inFlight: number;
+  /** Calls that joined an already-pending load instead of starting their own. */
+  coalesced: number;
+  /** Expired entries served by `getStale` while a refresh ran. */
+  staleServed: number;
+  /** Estimated size of all in-memory entries, in bytes. */
+  bytes: number;
+  /** Configured byte budget. */
+  maxBytes: number;
+  /** The largest in-memory entries, biggest first. */
+  largestEntries: Array<{ key: string; bytes: number }>;
+}
+
+/** An expired entry still inside its namespace's stale window. */
+export interface StaleValue<T> {
+  value: T;
+  /** How long ago the entry expired. */
+  staleForMs: number;
+}
+
+/** Per-namespace breakdown; the namespace is the key segment before the first `|`. */
+export interface NamespaceStats {
+  namespace: string;
+  /** Live entries held in memory. */
+  entries: number;
+  /** Estimated size of this namespace's in-memory entries, in bytes. */
+  bytes: number;
+  /** Entries held in the persistent store, if one is configured. */
+  persisted: number;
+  hits: number;
+  misses: number;
+}
+
+/** An in-memory entry with its estimated size. */
+interface MemoryEntry extends CacheEntry {
+  bytes: number;
 }
 
 const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024; // 256 MiB
+const LARGEST_ENTRIES_REPORTED = 5;
+
+/**
+ * Namespaces never written to the persistent store. Cursor tables are large
+ * and only live for minutes, so persisting them would only churn the disk.
+ */
+const MEMORY_ONLY_NAMESPACES = new Set(["cursors"]);
 
 export class CacheManager {
   /**
@@ -41,17 +119,34 @@ export class CacheManager {
    * re-insert entries on access so that the *first* key returned by the
    * iterator is always the least-recently-used entry.
    */
-  private readonly store = new Map<string, CacheEntry>();
+  private readonly store = new Map<string, MemoryEntry>();
   private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private totalBytes = 0;
+  private readonly persistent: CacheStore | undefined;
+  private readonly pending = new Map<string, Promise<unknown>>();
+  private readonly staleWindows: Partial<Record<string, number>>;
 
   private hits = 0;
   private misses = 0;
+  private coalesced = 0;
+  private staleServed = 0;
+  private readonly namespaceCounters = new Map<string, { hits: number; misses: number }>();
 
-  constructor(maxEntries: number = DEFAULT_MAX_ENTRIES) {
+  constructor(
+    maxEntries: number = DEFAULT_MAX_ENTRIES,
+    options: CacheManagerOptions = {},
+  ) {
     if (maxEntries < 1) {
       throw new RangeError("maxEntries must be at least 1");
     }
+    if (options.maxBytes !== undefined && options.maxBytes < 1) {
+      throw new RangeError("maxBytes must be at least 1");
+    }
     this.maxEntries = maxEntries;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.persistent = options.store;
+    this.staleWindows = options.staleWhileRevalidate ?? {};
   }
 
   // ---------------------------------------------------------------------------
@@ -63,116 +158,343 @@ export class CacheManager {
    * A successful hit refreshes the entry's LRU position.
    */
   get<T>(key: string): T | undefined {
-    const entry = this.store.get(key);
+    let entry = this.store.get(key);
 
-    if (entry === undefined) {
-      this.misses++;
-      return undefined;
+    if (entry === undefined || this.isExpired(entry)) {
+      const expired = entry;
+      // Keep an expired entry that may still be served stale.
+      if (expired === undefined || !this.isWithinStaleWindow(key, expired)) {
+        this.remove(key);
+      }
+      entry = this.loadPersisted(key);
     }
 
-    if (this.isExpired(entry)) {
-      this.store.delete(key);
+    if (entry === undefined) {
       this.misses++;
+      this.countersFor(key).misses++;
       return undefined;
     }
 
-    // Move to end (most-recently-used) by re-inserting.
-    this.store.delete(key);
-    this.store.set(key, entry);
+    // Move to end (most-recently-used) by re-inserting. Oversized entries
+    // served straight from the persistent store are not held in memory.
+    if (this.store.delete(key)) {
+      this.store.set(key, entry);
+    }
     this.hits++;
+    this.countersFor(key).hits++;
 
     return entry.value as T;
   }
 
+  /**
+   * Whether `key` holds a live value in memory or the store. Unlike `get`,
+   * this does not count a hit or miss or change the entry's LRU position.
+   */
+  has(key: string): boolean {
+    const entry = this.store.get(key) ?? this.persistent?.get(key);
+    return entry !== undefined && !this.isExpired(entry);
+  }
+
   /**
    * Store a value with a time-to-live in milliseconds.
-   * If the cache is full the least-recently-used entry is evicted first.
+   * If the cache is full (by count or bytes) least-recently-used entries
+   * are evicted first.
+   *
+   * @param persistTtlMs  TTL for the persistent store, when one is
+   *                      configured. Defaults to `ttlMs`. Keys in
+   *                      memory-only namespaces are never persisted.
    */
-  set<T>(key: string, value: T, ttlMs: number): void {
-    // If the key already exists, delete first so re-insertion moves it to the end.
-    if (this.store.has(key)) {
-      this.store.delete(key);
+  set<T>(key: string, value: T, ttlMs: number, persistTtlMs: number = ttlMs): void {
+    this.insert(key, {
+      value,
+      expiresAt: Date.now() + ttlMs,
+    });
+    if (MEMORY_ONLY_NAMESPACES.has(namespaceOf(key))) {
+      return;
     }
+    this.persistent?.set(key, {
+      value,
+      expiresAt: Date.now() + Math.max(ttlMs, persistTtlMs),
+    });
+  }
 
-    // Evict if necessary *before* inserting.
-    this.evictIfNeeded();
+  /**
+   * Return an expired value that is still within its namespace's
+   * stale-while-revalidate window, or `undefined`. Callers use this after a
+   * `get` miss and refresh the key in the background.
+   */
+  getStale<T>(key: string): StaleValue<T> | undefined {
+    const entry = this.store.get(key);
+    if (
+      entry === undefined ||
+      !this.isExpired(entry) ||
+      !this.isWithinStaleWindow(key, entry)
+    ) {
+      return undefined;
+    }
 
-    const entry: CacheEntry<T> = {
-      value,
-      expiresAt: Date.now() + ttlMs,
-    };
+    this.staleServed++;
+    return { value: entry.value as T, staleForMs: Date.now() - entry.expiresAt };
+  }
+
+  /**
+   * Run `load` for `key`, or join the load already running for it.
+   *
+   * Callers check the cache first and call this on a miss; every caller that
+   * arrives before the first load settles receives the same promise. The
+   * entry is released once it settles, so a rejected load is not reused.
+   * Invalidating the key also releases it, so later callers start afresh.
+   */
+  coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const existing = this.pending.get(key);
+    if (existing !== undefined) {
+      this.coalesced++;
+      return existing as Promise<T>;
+    }
 
-    this.store.set(key, entry);
+    const promise = load().finally(() => {
+      if (this.pending.get(key) === promise) {
+        this.pending.delete(key);
+      }
+    });
+    this.pending.set(key, promise);
+    return promise;
   }
 
-  /** Remove a single key. */
-  delete(key: string): void {
-    this.store.delete(key);
+  /**
+   * Remove a single key.
+   *
+   * @returns Whether the key was held in memory or in the store.
+   */
+  delete(key: string): boolean {
+    const inMemory = this.remove(key);
+    const persisted = this.persistent?.get(key) !== undefined;
+    this.pending.delete(key);
+    this.persistent?.delete(key);
+    return inMemory || persisted;
   }
 
   /**
    * Invalidate every key that starts with `prefix`.
    * Useful for busting all analytics entries for a specific site, etc.
+   *
+   * @returns The number of distinct keys removed from memory or the store.
    */
-  invalidatePrefix(prefix: string): void {
-    for (const key of this.store.keys()) {
+  invalidatePrefix(prefix: string): number {
+    const removed = new Set<string>();
+
+    for (const key of [...this.store.keys()]) {
       if (key.startsWith(prefix)) {
-        this.store.delete(key);
+        this.remove(key);
+        removed.add(key);
       }
     }
+
+    for (const key of this.pending.keys()) {
+      if (key.startsWith(prefix)) {
+        this.pending.delete(key);
+      }
+    }
+
+    if (this.persistent) {
+      for (const key of this.persistent.keys()) {
+        if (key.startsWith(prefix)) {
+          this.persistent.delete(key);
+          removed.add(key);
+        }
+      }
+    }
+
+    return removed.size;
   }
 
-  /** Drop all entries and reset statistics. */
+  /** Drop all entries (including persisted ones) and reset statistics. */
   clear(): void {
     this.store.clear();
+    this.totalBytes = 0;
+    this.pending.clear();
+    this.persistent?.clear();
     this.hits = 0;
     this.misses = 0;
+    this.coalesced = 0;
+    this.staleServed = 0;
+    this.namespaceCounters.clear();
   }
 
   /** Return current cache statistics. */
   stats(): CacheStats {
     const total = this.hits + this.misses;
+    const largestEntries = [...this.store]
+      .map(([key, entry]) => ({ key, bytes: entry.bytes }))
+      .sort((a, b) => b.bytes - a.bytes)
+      .slice(0, LARGEST_ENTRIES_REPORTED);
     return {
       size: this.store.size,
       hits: this.hits,
       misses: this.misses,
       hitRate: total === 0 ? 0 : this.hits / total,
+      inFlight: this.pending.size,
+      coalesced: this.coalesced,
+      staleServed: this.staleServed,
+      bytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+      largestEntries,
     };
   }
 
+  /** Entry counts and hit/miss totals per key namespace, sorted by namespace. */
+  namespaceStats(): NamespaceStats[] {
+    const byNamespace = new Map<string, NamespaceStats>();
+    const statsFor = (namespace: string): NamespaceStats => {
+      let stats = byNamespace.get(namespace);
+      if (stats === undefined) {
+        stats = { namespace, entries: 0, bytes: 0, persisted: 0, hits: 0, misses: 0 };
+        byNamespace.set(namespace, stats);
+      }
+      return stats;
+    };
+
+    for (const [key, entry] of this.store) {
+      if (!this.isExpired(entry)) {
+        const stats = statsFor(namespaceOf(key));
+        stats.entries++;
+        stats.bytes += entry.bytes;
+      }
+    }
+    for (const key of this.persistent?.keys() ?? []) {
+      statsFor(namespaceOf(key)).persisted++;
+    }
+    for (const [namespace, counters] of this.namespaceCounters) {
+      const stats = statsFor(namespace);
+      stats.hits = counters.hits;
+      stats.misses = counters.misses;
+    }
+
+    return [...byNamespace.values()].sort((a, b) => a.namespace.localeCompare(b.namespace));
+  }
+
   // ---------------------------------------------------------------------------
   // Internals
   // ---------------------------------------------------------------------------
 
+  /**
+   * Put an entry in memory (as most-recently-used), evicting to make room.
+   * Entries bigger than the whole budget are not kept in memory.
+   */
+  private insert(key: string, entry: CacheEntry): MemoryEntry {
+    // Remove any previous version first so its bytes are released.
+    this.remove(key);
+
+    const sized: MemoryEntry = { ...entry, bytes: estimateBytes(key, entry.value) };
+    if (sized.bytes > this.maxBytes) {
+      return sized;
+    }
+
+    this.evictIfNeeded(sized.bytes);
+    this.store.set(key, sized);
+    this.totalBytes += sized.bytes;
+    return sized;
+  }
+
+  /** Remove a key from memory, releasing its bytes. */
+  private remove(key: string): boolean {
+    const entry = this.store.get(key);
+    if (entry === undefined) {
+      return false;
+    }
+    this.store.delete(key);
+    this.totalBytes -= entry.bytes;
+    return true;
+  }
+
+  private isWithinStaleWindow(key: string, entry: CacheEntry): boolean {
+    const window = this.staleWindows[namespaceOf(key)];
+    return window !== undefined && Date.now() < entry.expiresAt + window;
+  }
+
+  private countersFor(key: string): { hits: number; misses: number } {
+    const namespace = namespaceOf(key);
+    let counters = this.namespaceCounters.get(namespace);
+    if (counters === undefined) {
+      counters = { hits: 0, misses: 0 };
+      this.namespaceCounters.set(namespace, counters);
+    }
+    return counters;
+  }
+
   private isExpired(entry: CacheEntry): boolean {
     return Date.now() >= entry.expiresAt;
   }
 
   /**
-   * Ensure there is room for at least one new entry.
-   * First purges any expired entries; if still over capacity, evicts the
-   * least-recently-used (first key in the Map).
+   * Read-through from the persistent store. A live persisted entry is
+   * promoted back into memory; an expired one is removed from the store.
    */
-  private evictIfNeeded(): void {
-    if (this.store.size < this.maxEntries) {
+  private loadPersisted(key: string): MemoryEntry | undefined {
+    const entry = this.persistent?.get(key);
+    if (entry === undefined) {
+      return undefined;
+    }
+
+    if (this.isExpired(entry)) {
+      this.persistent?.delete(key);
+      return undefined;
+    }
+
+    return this.insert(key, entry);
+  }
+
+  /**
+   * Ensure there is room for one new entry of `incomingBytes`.
+   * First purges any expired entries; if still over capacity (by count or
+   * bytes), evicts the least-recently-used (first key in the Map).
+   */
+  private evictIfNeeded(incomingBytes: number = 0): void {
+    if (!this.isOverCapacity(incomingBytes)) {
       return;
     }
 
     // Pass 1 – remove expired entries.
-    for (const [key, entry] of this.store) {
+    for (const [key, entry] of [...this.store]) {
       if (this.isExpired(entry)) {
-        this.store.delete(key);
+        this.remove(key);
       }
     }
 
     // Pass 2 – if still at capacity, evict LRU entries.
-    while (this.store.size >= this.maxEntries) {
+    while (this.isOverCapacity(incomingBytes)) {
       const oldestKey = this.store.keys().next().value;
       if (oldestKey !== undefined) {
-        this.store.delete(oldestKey);
+        this.remove(oldestKey);
       } else {
         break;
       }
     }
   }
+
+  private isOverCapacity(incomingBytes: number): boolean {
+    return (
+      this.store.size >= this.maxEntries ||
+      this.totalBytes + incomingBytes > this.maxBytes
+    );
+  }
+}
+
+function namespaceOf(key: string): string {
+  const separator = key.indexOf("|");
+  return separator === -1 ? key : key.slice(0, separator);
+}
+
+/**
+ * Estimate the memory held by an entry from the length of its JSON form.
+ * Values that cannot be serialized are counted by their key alone.
+ */
+function estimateBytes(key: string, value: unknown): number {
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(value);
+  } catch {
+    json = undefined;
+  }
+  return Buffer.byteLength(key, "utf8") + Buffer.byteLength(json ?? "", "utf8");
 }
@@ -0,0 +1,31 @@
+/**
+ * Pluggable persistence layer for {@link CacheManager}.
+ *
+ * The manager keeps its hot working set in memory; a `CacheStore` sits
+ * behind it as a write-through / read-through backing tier so that cached
+ * GSC data survives server restarts.
+ *
+ * All methods are synchronous because the manager's public API is
+ * synchronous. Implementations must never throw for I/O failures — a cache
+ * that cannot persist should degrade to memory-only rather than break a
+ * tool call.
+ */
+
+/** A single cached value with its absolute expiry timestamp (epoch ms). */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface CacheStore {
+  /** Return the stored entry for `key`, expired or not, or `undefined`. */
+  get(key: string): CacheEntry | undefined;
+  /** Insert or replace the entry for `key`. */
+  set(key: string, entry: CacheEntry): void;
+  /** Remove a single key. No-op when the key is absent. */
+  delete(key: string): void;
+  /** List every key currently held by the store. */
+  keys(): string[];
+  /** Remove every entry. */
+  clear(): void;
+}
@@ -0,0 +1,309 @@
+/**
+ * File-backed {@link CacheStore}.
+ *
+ * Layout on disk:
+ *
+ *   <dir>/entries/<hash>.json one file per entry
+ *
+ * Entry file names are a SHA-1 of the cache key, so arbitrary keys (which
+ * contain URLs and JSON) map to safe file names. Each file starts with a
+ * one-line header holding the key and expiry, followed by the value on the
+ * second line, so `keys()` and pruning only read headers.
+ *
+ * There is no shared index: several server processes may use the same
+ * directory, and each reads other processes' entries straight from their
+ * files. Writes go to a temporary file first and are then renamed into
+ * place so a crash mid-write never leaves a truncated entry behind.
+ *
+ * The directory is capped at a byte budget. Expired entries are pruned when
+ * the store is opened and whenever the budget is exceeded; if that is not
+ * enough, the least recently written entries are removed.
+ */
+
+import { createHash } from 'crypto';
+import {
+  closeSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { CacheEntry, CacheStore } from './cache-store.js';
+
+/** Default on-disk location, next to the OAuth token. */
+export const DEFAULT_CACHE_DIR = join(homedir(), '.awesome-gsc-mcp', 'cache');
+
+/** Default disk budget for persisted entries. */
+export const DEFAULT_MAX_DISK_BYTES = 512 * 1024 * 1024;
+
+/** Fraction of the budget kept after eviction, so eviction does not run on every write. */
+const EVICTION_TARGET = 0.9;
+
+/** Age after which a temporary file is treated as left over from a crash. */
+const STALE_TMP_MS = 60 * 60 * 1000;
+
+const ENTRIES_DIR = 'entries';
+
+/** Written by earlier versions, which kept a single shared index. */
+const LEGACY_INDEX_FILE = 'index.json';
+
+export interface FileCacheStoreOptions {
+  /** Disk budget in bytes for all entry files. */
+  maxBytes?: number;
+}
+
+interface EntryHeader {
+  key: string;
+  expiresAt: number;
+}
+
+interface EntryFile extends EntryHeader {
+  path: string;
+  bytes: number;
+  mtimeMs: number;
+}
+
+export class FileCacheStore implements CacheStore {
+  private readonly dir: string;
+  private readonly entriesDir: string;
+  private readonly maxBytes: number;
+
+  /**
+   * Estimated bytes on disk: exact after a scan, then grown by every write.
+   * Other processes' writes are only seen at the next scan.
+   */
+  private bytes = 0;
+
+  /** Set once an I/O failure disables persistence for this process. */
+  private disabled = false;
+
+  constructor(dir: string = DEFAULT_CACHE_DIR, options: FileCacheStoreOptions = {}) {
+    if (options.maxBytes !== undefined && !(options.maxBytes >= 1)) {
+      throw new RangeError('maxBytes must be at least 1');
+    }
+    this.dir = dir;
+    this.entriesDir = join(dir, ENTRIES_DIR);
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_DISK_BYTES;
+
+    this.guard('open', () => {
+      mkdirSync(this.entriesDir, { recursive: true });
+      rmSync(join(dir, LEGACY_INDEX_FILE), { force: true });
+      this.prune(this.maxBytes);
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // CacheStore
+  // ---------------------------------------------------------------------------
+
+  get(key: string): CacheEntry | undefined {
+    if (this.disabled) {
+      return undefined;
+    }
+
+    let raw: string;
+    try {
+      raw = readFileSync(this.entryPath(key), 'utf-8');
+    } catch {
+      return undefined; // not persisted, or removed by another process
+    }
+
+    let entry: CacheEntry | undefined;
+    this.guard('read', () => {
+      const newline = raw.indexOf('\n');
+      if (newline === -1) {
+        return;
+      }
+      const header = JSON.parse(raw.slice(0, newline)) as EntryHeader;
+      // A hash collision (or a stale file) must not serve another key's data.
+      if (header.key === key) {
+        entry = { value: JSON.parse(raw.slice(newline + 1)) as unknown, expiresAt: header.expiresAt };
+      }
+    });
+
+    if (entry === undefined) {
+      this.delete(key);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    if (this.disabled) {
+      return;
+    }
+
+    const header: EntryHeader = { key, expiresAt: entry.expiresAt };
+    const contents = `${JSON.stringify(header)}\n${JSON.stringify(entry.value)}`;
+    const size = Buffer.byteLength(contents);
+    if (size > this.maxBytes * EVICTION_TARGET) {
+      // Too large to persist without evicting everything else.
+      this.delete(key);
+      return;
+    }
+
+    this.guard('write', () => {
+      this.writeAtomic(this.entryPath(key), contents);
+      this.bytes += size;
+      if (this.bytes > this.maxBytes) {
+        this.prune(this.maxBytes * EVICTION_TARGET);
+      }
+    });
+  }
+
+  delete(key: string): void {
+    if (this.disabled) {
+      return;
+    }
+
+    this.guard('delete', () => {
+      rmSync(this.entryPath(key), { force: true });
+    });
+  }
+
+  keys(): string[] {
+    if (this.disabled) {
+      return [];
+    }
+
+    let keys: string[] = [];
+    this.guard('read', () => {
+      keys = this.scan().map((file) => file.key);
+    });
+    return keys;
+  }
+
+  clear(): void {
+    this.guard('clear', () => {
+      rmSync(this.entriesDir, { recursive: true, force: true });
+      mkdirSync(this.entriesDir, { recursive: true });
+      this.bytes = 0;
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private entryPath(key: string): string {
+    const hash = createHash('sha1').update(key).digest('hex');
+    return join(this.entriesDir, `${hash}.json`);
+  }
+
+  /**
+   * Remove expired and unreadable entries, then the least recently written
+   * ones until at most `targetBytes` remain.
+   */
+  private prune(targetBytes: number): void {
+    const now = Date.now();
+    const live: EntryFile[] = [];
+    for (const file of this.scan(true)) {
+      if (now >= file.expiresAt) {
+        rmSync(file.path, { force: true });
+      } else {
+        live.push(file);
+      }
+    }
+
+    let total = live.reduce((sum, file) => sum + file.bytes, 0);
+    live.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const file of live) {
+      if (total <= targetBytes) {
+        break;
+      }
+      rmSync(file.path, { force: true });
+      total -= file.bytes;
+    }
+    this.bytes = total;
+  }
+
+  /**
+   * Read the header of every entry file. Files without a valid header are
+   * skipped, or removed when `removeInvalid` is set.
+   */
+  private scan(removeInvalid = false): EntryFile[] {
+    const files: EntryFile[] = [];
+    for (const name of readdirSync(this.entriesDir)) {
+      const path = join(this.entriesDir, name);
+      try {
+        if (!name.endsWith('.json')) {
+          // A temporary file: another process may still be writing it, so
+          // only leftovers from an interrupted write are removed.
+          if (removeInvalid && Date.now() - statSync(path).mtimeMs > STALE_TMP_MS) {
+            rmSync(path, { force: true });
+          }
+          continue;
+        }
+        const header = readHeader(path);
+        const stats = statSync(path);
+        files.push({ ...header, path, bytes: stats.size, mtimeMs: stats.mtimeMs });
+      } catch {
+        // Removed by another process since the listing, or not an entry.
+        if (removeInvalid && name.endsWith('.json')) rmSync(path, { force: true });
+      }
+    }
+    return files;
+  }
+
+  private writeAtomic(path: string, contents: string): void {
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, contents, 'utf-8');
+    renameSync(tmpPath, path);
+  }
+
+  /**
+   * Run an I/O operation. On failure, log once and switch the store off so
+   * the cache keeps working from memory alone.
+   */
+  private guard(operation: string, fn: () => void): void {
+    if (this.disabled) {
+      return;
+    }
+    try {
+      fn();
+    } catch (error) {
+      if (operation === 'read') {
+        // A single unreadable entry is treated as a miss, not a dead store.
+        return;
+      }
+      this.disabled = true;
+      console.error(
+        `[awesome-gsc-mcp] Disk cache disabled after ${operation} failure in ${this.dir}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+}
+
+/** Read and parse the first line of an entry file without loading its value. */
+function readHeader(path: string): EntryHeader {
+  const fd = openSync(path, 'r');
+  try {
+    const chunks: Buffer[] = [];
+    const chunk = Buffer.alloc(4096);
+    for (;;) {
+      const read = readSync(fd, chunk, 0, chunk.length, null);
+      if (read === 0) {
+        throw new Error('Entry file has no header');
+      }
+      const newline = chunk.subarray(0, read).indexOf(0x0a);
+      chunks.push(Buffer.from(chunk.subarray(0, newline === -1 ? read : newline)));
+      if (newline !== -1) {
+        break;
+      }
+    }
+    const header = JSON.parse(Buffer.concat(chunks).toString('utf-8')) as EntryHeader;
+    if (typeof header.key !== 'string' || typeof header.expiresAt !== 'number') {
+      throw new Error('Malformed entry header');
+    }
+    return header;
+  } finally {
+    closeSync(fd);
+  }
+}
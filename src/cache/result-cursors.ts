@@ -0,0 +1,141 @@
+/**
+ * Continuation cursors for large tool results.
+ *
+ * A tool that renders more rows than fit comfortably in a model's context
+ * returns the first page plus an opaque cursor. The full set of rendered rows
+ * is kept in memory under the `cursors` cache namespace, which is never
+ * written to the persistent store; the cursor names the entry and the offset
+ * of the next page, so following it never repeats the API call. Cursors expire with their cache entry, and invalidating a
+ * property's cache drops its cursors too.
+ */
+
+import { randomUUID } from 'crypto';
+import { ValidationError } from '../errors/gsc-error.js';
+import type { CacheManager } from './cache-manager.js';
+import { buildCursorKey } from './cache-keys.js';
+
+/** How long a cursor stays valid after the result was produced. */
+export const CURSOR_TTL_MS = 30 * 60_000;
+
+/** Rows per page when a tool does not ask for a size. */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/** A rendered markdown table whose rows can be paged through. */
+export interface PagedTable {
+  siteUrl: string;
+  /** Describes the result; shown above every page. */
+  title: string;
+  /** Markdown header and separator lines. */
+  header: string[];
+  /** One markdown line per row. */
+  rows: string[];
+}
+
+export interface TablePage {
+  title: string;
+  /** Header lines followed by this page's rows. */
+  lines: string[];
+  /** Zero-based index of the first row on this page. */
+  start: number;
+  /** Index after the last row on this page. */
+  end: number;
+  total: number;
+  /** Cursor for the next page; absent on the last page. */
+  cursor?: string;
+}
+
+interface CursorState {
+  siteUrl: string;
+  id: string;
+  offset: number;
+  pageSize: number;
+}
+
+export class ResultCursors {
+  private readonly cache: CacheManager;
+  private readonly ttlMs: number;
+
+  constructor(cache: CacheManager, ttlMs: number = CURSOR_TTL_MS) {
+    this.cache = cache;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Return the first page of `table`. When rows remain, the table is cached
+   * and the page carries a cursor for the next one.
+   */
+  paginate(table: PagedTable, pageSize: number = DEFAULT_PAGE_SIZE): TablePage {
+    if (table.rows.length <= pageSize) {
+      return toPage(table, 0, pageSize);
+    }
+
+    const id = randomUUID();
+    this.cache.set(buildCursorKey(table.siteUrl, id), table, this.ttlMs);
+    return toPage(table, 0, pageSize, { siteUrl: table.siteUrl, id });
+  }
+
+  /**
+   * Return the page a cursor points at.
+   *
+   * @param pageSize  Rows for this and later pages. Defaults to the size
+   *                  the cursor was created with.
+   * @throws ValidationError if the cursor is malformed or has expired.
+   */
+  next(cursor: string, pageSize?: number): TablePage {
+    const state = decodeCursor(cursor);
+    const table = this.cache.get<PagedTable>(buildCursorKey(state.siteUrl, state.id));
+    if (table === undefined) {
+      throw new ValidationError('This cursor has expired.', {
+        recoveryHint: `Cursors last ${Math.round(this.ttlMs / 60_000)} minutes and are dropped when the cache is invalidated. Run the original tool call again for a fresh cursor.`,
+        fieldErrors: { cursor: ['Expired or unknown cursor.'] },
+      });
+    }
+    return toPage(table, state.offset, pageSize ?? state.pageSize, state);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function toPage(
+  table: PagedTable,
+  start: number,
+  pageSize: number,
+  stored?: Pick<CursorState, 'siteUrl' | 'id'>,
+): TablePage {
+  const end = Math.min(table.rows.length, start + pageSize);
+  return {
+    title: table.title,
+    lines: [...table.header, ...table.rows.slice(start, end)],
+    start,
+    end,
+    total: table.rows.length,
+    cursor: stored && end < table.rows.length
+      ? encodeCursor({ ...stored, offset: end, pageSize })
+      : undefined,
+  };
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify([state.siteUrl, state.id, state.offset, state.pageSize])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorState {
+  try {
+    const [siteUrl, id, offset, pageSize] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as unknown[];
+    if (
+      typeof siteUrl === 'string' && typeof id === 'string'
+      && Number.isInteger(offset) && (offset as number) >= 0
+      && Number.isInteger(pageSize) && (pageSize as number) > 0
+    ) {
+      return { siteUrl, id, offset: offset as number, pageSize: pageSize as number };
+    }
+  } catch {
+    // fall through
+  }
+  throw new ValidationError('This is not a valid cursor.', {
+    recoveryHint: 'Pass the cursor string exactly as a previous result returned it.',
+    fieldErrors: { cursor: ['Malformed cursor.'] },
+  });
+}
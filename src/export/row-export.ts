@@ -0,0 +1,128 @@
+/**
+ * Writes Search Analytics rows to local files.
+ *
+ * Large pulls are useless as markdown inside a tool response, so the export
+ * tool writes them to disk instead. Rows are streamed to a temporary file
+ * that is renamed into place once complete, so a failed export never leaves
+ * a truncated file under the final name.
+ *
+ * Formats:
+ *   - csv   RFC 4180: fields with commas, quotes or line breaks are quoted
+ *   - tsv   tabs and line breaks inside values are replaced with spaces
+ *   - jsonl one JSON object per row, keyed by column name
+ */
+
+import { createWriteStream, mkdirSync, renameSync, rmSync } from 'fs';
+import { once } from 'events';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { SearchAnalyticsRow } from '../api/types.js';
+
+export const EXPORT_FORMATS = ['csv', 'tsv', 'jsonl'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Default directory for exports, next to the cache and warehouse. */
+export const DEFAULT_EXPORT_DIR = join(homedir(), '.awesome-gsc-mcp', 'exports');
+
+export interface ExportResult {
+  path: string;
+  rows: number;
+  bytes: number;
+}
+
+/** Metric columns written after the dimension columns. */
+const METRIC_COLUMNS = ['clicks', 'impressions', 'ctr', 'position'] as const;
+
+/**
+ * A file name for an export, e.g. `example.com_2025-01-01_2025-01-31_20250201T101500.csv`.
+ */
+export function exportFileName(
+  siteUrl: string,
+  startDate: string,
+  endDate: string,
+  format: ExportFormat,
+  now: Date = new Date(),
+): string {
+  const site = siteUrl
+    .replace(/^sc-domain:/, '')
+    .replace(/^https?:\/\//, '')
+    .replace(/[^a-zA-Z0-9.-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '');
+  return `${site}_${startDate}_${endDate}_${stamp}.${format}`;
+}
+
+/**
+ * Stream `rows` to `path` in `format`, creating parent directories. An
+ * async iterable is written as it yields, so rows fetched page by page
+ * never need to be held in memory together.
+ *
+ * @param dimensions  Names for the row keys, in order; they become the
+ *                    leading columns.
+ */
+export async function writeRowsToFile(
+  path: string,
+  format: ExportFormat,
+  dimensions: readonly string[],
+  rows: Iterable<SearchAnalyticsRow> | AsyncIterable<SearchAnalyticsRow>,
+): Promise<ExportResult> {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmpPath = `${path}.partial`;
+  const out = createWriteStream(tmpPath, { encoding: 'utf-8' });
+  const columns = [...dimensions, ...METRIC_COLUMNS];
+
+  let count = 0;
+  let bytes = 0;
+  const write = async (line: string): Promise<void> => {
+    bytes += Buffer.byteLength(line);
+    if (!out.write(line)) {
+      await once(out, 'drain');
+    }
+  };
+
+  try {
+    if (format !== 'jsonl') {
+      await write(formatLine(format, columns));
+    }
+    for await (const row of rows) {
+      const values = [...row.keys, row.clicks, row.impressions, row.ctr, row.position];
+      await write(
+        format === 'jsonl'
+          ? JSON.stringify(Object.fromEntries(columns.map((c, i) => [c, values[i]]))) + '\n'
+          : formatLine(format, values),
+      );
+      count++;
+    }
+    out.end();
+    await once(out, 'finish');
+    renameSync(tmpPath, path);
+  } catch (error) {
+    // Wait for the file to be opened and closed before removing it.
+    if (!out.closed) {
+      out.destroy();
+      await once(out, 'close');
+    }
+    rmSync(tmpPath, { force: true });
+    throw error;
+  }
+
+  return { path, rows: count, bytes };
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function formatLine(format: 'csv' | 'tsv', values: Array<string | number>): string {
+  const fields = values.map((v) => (format === 'csv' ? csvField(String(v)) : tsvField(String(v))));
+  return fields.join(format === 'csv' ? ',' : '\t') + '\n';
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function tsvField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
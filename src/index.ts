@@ -2,4 +2,17 @@ export { createServer } from './server.js';
 export { createAuthenticatedClient } from './auth/client-factory.js';
 export { GscApiClient } from './api/client.js';
 export { CacheManager, CACHE_TTL } from './cache/cache-manager.js';
-export { RateLimiter } from './utils/rate-limiter.js';
+export type { CacheStore, CacheEntry } from './cache/cache-store.js';
+export { FileCacheStore } from './cache/file-cache-store.js';
+export { RateLimiter, createApiRateLimiters, withPriority } from './utils/rate-limiter.js';
+export type { RequestPriority, RateLimitedApi, ApiRateLimiters } from './utils/rate-limiter.js';
+export { QuotaLedger, DEFAULT_QUOTA_LIMITS } from './utils/quota-ledger.js';
+export type { QuotaApi, QuotaUsage, QuotaLedgerOptions } from './utils/quota-ledger.js';
+export { SitemapHistory } from './sitemaps/sitemap-history.js';
+export type { SitemapSnapshot, SitemapHistoryOptions } from './sitemaps/sitemap-history.js';
+export { InspectionHistory } from './inspection/inspection-history.js';
+export type { InspectionRecord, UrlInspectionHistory } from './inspection/inspection-history.js';
+export { WarehouseStore } from './warehouse/warehouse-store.js';
+export type { WarehouseCoverage } from './warehouse/warehouse-store.js';
+export { syncProperty, WarehouseSyncScheduler } from './warehouse/sync.js';
+export type { SyncOptions, SyncResult } from './warehouse/sync.js';
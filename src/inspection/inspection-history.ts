@@ -0,0 +1,134 @@
+/**
+ * Local history of URL Inspection results.
+ *
+ * Inspection results are only cached for an hour, so questions like "when
+ * did this page drop out of the index" or "did Google recrawl after the fix"
+ * cannot be answered from the API alone. This store keeps every result the
+ * server fetches, with the time it was fetched.
+ *
+ * Records are kept per URL rather than per property, since the same URL can
+ * be inspected under a domain property one day and a URL-prefix property the
+ * next. Layout on disk (one file per URL):
+ *
+ *   <dir>/<hash of url>.json   { url, records }
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, readdir, rename, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { resolveSiteUrl } from '../api/site-resolver.js';
+import type { InspectionResult } from '../api/types.js';
+
+/** Default on-disk location, next to the cache and warehouse. */
+export const DEFAULT_INSPECTION_HISTORY_DIR = join(homedir(), '.awesome-gsc-mcp', 'inspections');
+
+/** Records kept per URL; the oldest are dropped first. */
+const RETAINED_RECORDS = 200;
+
+/** One inspection of a URL. */
+export interface InspectionRecord {
+  /** When the result was fetched from the API (ISO timestamp). */
+  inspectedAt: string;
+  /** The property the URL was inspected under. */
+  siteUrl: string;
+  result: InspectionResult;
+}
+
+/** Every recorded inspection of one URL, oldest first. */
+export interface UrlInspectionHistory {
+  url: string;
+  records: InspectionRecord[];
+}
+
+export class InspectionHistory {
+  private readonly dir: string;
+
+  /** Set once an I/O failure disables recording for this process. */
+  private disabled = false;
+
+  constructor(dir: string = DEFAULT_INSPECTION_HISTORY_DIR) {
+    this.dir = dir;
+  }
+
+  /**
+   * Append a result to the URL's history. Failures are logged once and
+   * recording stops, so a read-only disk never fails an inspection.
+   */
+  async record(siteUrl: string, url: string, result: InspectionResult, inspectedAt: Date = new Date()): Promise<void> {
+    if (this.disabled) {
+      return;
+    }
+    try {
+      const history = (await this.history(url)) ?? { url, records: [] };
+      history.records.push({ inspectedAt: inspectedAt.toISOString(), siteUrl, result });
+      if (history.records.length > RETAINED_RECORDS) {
+        history.records.splice(0, history.records.length - RETAINED_RECORDS);
+      }
+
+      await mkdir(this.dir, { recursive: true });
+      await writeAtomic(this.urlPath(url), JSON.stringify(history));
+    } catch (error) {
+      this.disabled = true;
+      console.error(
+        `[awesome-gsc-mcp] Inspection history disabled after write failure in ${this.dir}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  /** The URL's recorded inspections, or `undefined` if it was never inspected. */
+  async history(url: string): Promise<UrlInspectionHistory | undefined> {
+    try {
+      return JSON.parse(await readFile(this.urlPath(url), 'utf-8')) as UrlInspectionHistory;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Histories of every inspected URL the property `siteUrl` covers, whichever
+   * property each inspection ran under, in URL order.
+   */
+  async listHistories(siteUrl: string): Promise<UrlInspectionHistory[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+    const property = [{ siteUrl, permissionLevel: 'siteFullUser' }];
+
+    const histories: UrlInspectionHistory[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      try {
+        const history = JSON.parse(await readFile(join(this.dir, entry), 'utf-8')) as UrlInspectionHistory;
+        if (resolveSiteUrl(history.url, property) !== undefined) {
+          histories.push(history);
+        }
+      } catch {
+        // Half-written or corrupted file -- skip.
+      }
+    }
+    return histories.sort((a, b) => a.url.localeCompare(b.url));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private urlPath(url: string): string {
+    return join(this.dir, `${hash(url)}.json`);
+  }
+}
+
+function hash(value: string): string {
+  return createHash('sha1').update(value).digest('hex').slice(0, 16);
+}
+
+async function writeAtomic(path: string, contents: string): Promise<void> {
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tmpPath, contents, 'utf-8');
+  await rename(tmpPath, path);
+}
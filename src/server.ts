@@ -7,6 +7,13 @@ import { registerOpportunityTools } from './tools/opportunities/index.js';
 import { registerIndexingTools } from './tools/indexing/index.js';
 import { registerQueryTools } from './tools/queries/index.js';
 import { registerReportTools } from './tools/reports/index.js';
+import { registerWarehouseTools } from './tools/warehouse/index.js';
+import { registerCacheTools } from './tools/cache/index.js';
+import { registerQuotaTools } from './tools/quota/index.js';
+import { registerExportTools } from './tools/export/index.js';
+import { registerPaginationTools } from './tools/pagination/index.js';
+import { registerDiscoverTools } from './tools/discover/index.js';
+import { registerPortfolioTools } from './tools/portfolio/index.js';
 
 export function createServer(api: GscApiClient): McpServer {
   const server = new McpServer({
@@ -22,6 +29,13 @@ export function createServer(api: GscApiClient): McpServer {
   registerIndexingTools(server, api);
   registerQueryTools(server, api);
   registerReportTools(server, api);
+  registerWarehouseTools(server, api);
+  registerCacheTools(server, api);
+  registerQuotaTools(server, api);
+  registerExportTools(server, api);
+  registerPaginationTools(server, api);
+  registerDiscoverTools(server, api);
+  registerPortfolioTools(server, api);
 
   return server;
 }
@@ -0,0 +1,197 @@
+/**
+ * Sitemap state history.
+ *
+ * Search Console only reports a sitemap's current errors, warnings and
+ * submitted/indexed counts, so a drop in indexed URLs is invisible unless
+ * someone noticed the old number. This store keeps a snapshot of every
+ * sitemap each time the API is asked for it -- one per sitemap per UTC day,
+ * the latest fetch of the day winning -- so trends and new errors can be
+ * reported later.
+ *
+ * Each property's snapshots are loaded on first use and written back to
+ * their own file after every change, so a read only rewrites that
+ * property's history. Layout on disk (one file per property):
+ *
+ *   <dir>/<hash of siteUrl>.json   { siteUrl, sitemaps: { path: snapshots } }
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { SitemapInfo } from '../api/types.js';
+
+/** Default on-disk location, next to the cache and quota ledger. */
+export const DEFAULT_SITEMAP_HISTORY_DIR = join(homedir(), '.awesome-gsc-mcp', 'sitemap-history');
+
+/** Snapshots kept per sitemap; with one a day, a little over a year. */
+const RETAINED_SNAPSHOTS = 400;
+
+/** URL counts for one content type (web, image, video, ...). */
+export interface SitemapContentSnapshot {
+  type: string;
+  submitted: number;
+  indexed: number;
+}
+
+/** A sitemap's state as reported by Search Console at one point in time. */
+export interface SitemapSnapshot {
+  /** When the snapshot was taken (ISO timestamp). */
+  takenAt: string;
+  lastSubmitted?: string;
+  lastDownloaded?: string;
+  isPending: boolean;
+  errors: number;
+  warnings: number;
+  contents: SitemapContentSnapshot[];
+}
+
+export interface SitemapHistoryOptions {
+  /** Directory the per-property files are kept in. Omit to keep snapshots in memory only. */
+  dir?: string;
+}
+
+/** One property's file: `sitemap path → snapshots, oldest first`. */
+interface SiteHistoryFile {
+  siteUrl: string;
+  sitemaps: Record<string, SitemapSnapshot[]>;
+}
+
+export class SitemapHistory {
+  private readonly dir: string | undefined;
+
+  /** Each property's history, loaded on first use. */
+  private readonly sites = new Map<string, Promise<SiteHistoryFile>>();
+
+  /** The pending write per property, so writes land in order. */
+  private readonly writes = new Map<string, Promise<void>>();
+
+  /** Set once an I/O failure disables persistence for this process. */
+  private disabled = false;
+
+  constructor(options: SitemapHistoryOptions = {}) {
+    this.dir = options.dir;
+  }
+
+  /**
+   * Record the current state of `sitemaps`, replacing any snapshot from the
+   * same day. Write failures are logged once and persistence stops, so a
+   * read-only disk never fails a sitemap read.
+   */
+  async record(siteUrl: string, sitemaps: readonly SitemapInfo[], now: Date = new Date()): Promise<void> {
+    if (sitemaps.length === 0) {
+      return;
+    }
+
+    const takenAt = now.toISOString();
+    const site = await this.load(siteUrl);
+    for (const sitemap of sitemaps) {
+      const snapshots = (site.sitemaps[sitemap.path] ??= []);
+      const last = snapshots[snapshots.length - 1];
+      if (last && last.takenAt.slice(0, 10) === takenAt.slice(0, 10)) {
+        snapshots.pop();
+      }
+      snapshots.push(toSnapshot(sitemap, takenAt));
+      if (snapshots.length > RETAINED_SNAPSHOTS) {
+        snapshots.splice(0, snapshots.length - RETAINED_SNAPSHOTS);
+      }
+    }
+    await this.save(site);
+  }
+
+  /** Snapshots of one sitemap, oldest first. */
+  async snapshots(siteUrl: string, path: string): Promise<SitemapSnapshot[]> {
+    return [...((await this.load(siteUrl)).sitemaps[path] ?? [])];
+  }
+
+  /** Snapshots of every sitemap recorded for `siteUrl`, keyed by sitemap path. */
+  async forSite(siteUrl: string): Promise<Map<string, SitemapSnapshot[]>> {
+    const site = await this.load(siteUrl);
+    return new Map(Object.entries(site.sitemaps).map(([path, snapshots]) => [path, [...snapshots]]));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private load(siteUrl: string): Promise<SiteHistoryFile> {
+    let site = this.sites.get(siteUrl);
+    if (site === undefined) {
+      site = this.read(siteUrl);
+      this.sites.set(siteUrl, site);
+    }
+    return site;
+  }
+
+  private async read(siteUrl: string): Promise<SiteHistoryFile> {
+    if (this.dir !== undefined) {
+      try {
+        const parsed = JSON.parse(await readFile(this.sitePath(siteUrl), 'utf-8')) as SiteHistoryFile;
+        if (parsed.siteUrl === siteUrl && typeof parsed.sitemaps === 'object' && parsed.sitemaps !== null) {
+          return parsed;
+        }
+      } catch {
+        // Missing or corrupted history -- start a new one.
+      }
+    }
+    return { siteUrl, sitemaps: {} };
+  }
+
+  private async save(site: SiteHistoryFile): Promise<void> {
+    if (this.dir === undefined || this.disabled) {
+      return;
+    }
+    const dir = this.dir;
+    const write = (this.writes.get(site.siteUrl) ?? Promise.resolve()).then(async () => {
+      if (this.disabled) return;
+      try {
+        await mkdir(dir, { recursive: true });
+        await writeAtomic(this.sitePath(site.siteUrl), JSON.stringify(site));
+      } catch (error) {
+        this.disabled = true;
+        console.error(
+          `[awesome-gsc-mcp] Sitemap history persistence disabled after write failure in ${dir}:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    });
+    this.writes.set(site.siteUrl, write);
+    await write;
+  }
+
+  private sitePath(siteUrl: string): string {
+    return join(this.dir!, `${hash(siteUrl)}.json`);
+  }
+}
+
+function hash(value: string): string {
+  return createHash('sha1').update(value).digest('hex').slice(0, 16);
+}
+
+async function writeAtomic(path: string, contents: string): Promise<void> {
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tmpPath, contents, 'utf-8');
+  await rename(tmpPath, path);
+}
+
+/** The API reports counts as int64 strings. */
+function toCount(value: string | undefined): number {
+  const n = parseInt(value ?? '0', 10);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function toSnapshot(sitemap: SitemapInfo, takenAt: string): SitemapSnapshot {
+  return {
+    takenAt,
+    ...(sitemap.lastSubmitted ? { lastSubmitted: sitemap.lastSubmitted } : {}),
+    ...(sitemap.lastDownloaded ? { lastDownloaded: sitemap.lastDownloaded } : {}),
+    isPending: sitemap.isPending,
+    errors: toCount(sitemap.errors),
+    warnings: toCount(sitemap.warnings),
+    contents: (sitemap.contents ?? []).map((c) => ({
+      type: c.type,
+      submitted: toCount(c.submitted),
+      indexed: toCount(c.indexed),
+    })),
+  };
+}
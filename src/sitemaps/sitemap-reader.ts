@@ -0,0 +1,264 @@
+/**
+ * Reads sitemap files and sitemap indexes.
+ *
+ * Search Console only reports how many URLs a sitemap holds, so audits that
+ * need the URLs themselves read the XML directly -- over HTTP(S) or from a
+ * local file, gzipped or not -- and follow sitemap indexes down to the
+ * `<urlset>` files they list.
+ */
+
+import { readFile, stat } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { gunzipSync } from 'zlib';
+
+/** One `<url>` entry (or, in an index, one `<sitemap>` entry). */
+export interface SitemapEntry {
+  loc: string;
+  /** `<lastmod>` exactly as written, when present. */
+  lastmod?: string;
+}
+
+export interface ParsedSitemap {
+  kind: 'urlset' | 'sitemapindex';
+  entries: SitemapEntry[];
+}
+
+/** What happened to one file while collecting. */
+export interface SitemapFileResult {
+  source: string;
+  kind?: ParsedSitemap['kind'];
+  /** Entries in the file: URLs for a urlset, child sitemaps for an index. */
+  entries: number;
+  error?: string;
+}
+
+export interface CollectedSitemapUrls {
+  /** Every page URL found, keyed by `<loc>`; a URL listed twice keeps its latest lastmod. */
+  urls: Map<string, SitemapEntry>;
+  files: SitemapFileResult[];
+  /** True when `maxFiles` stopped the walk before every child was read. */
+  truncated: boolean;
+}
+
+export interface CollectOptions {
+  /** Most files to read, indexes included. Default 200. */
+  maxFiles?: number;
+  /**
+   * Hosts (with their subdomains) child sitemaps may be on besides the
+   * index's own host, e.g. the property's hosts.
+   */
+  followHosts?: readonly string[];
+  /** Reads a source; defaults to {@link readSitemapSource}. */
+  read?: (source: string) => Promise<string>;
+}
+
+/** Time allowed for one sitemap download. */
+const FETCH_TIMEOUT_MS = 30_000;
+
+/** Largest sitemap read, compressed or not: the protocol's 50 MB limit. */
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Parse a `<urlset>` or `<sitemapindex>` document.
+ *
+ * @throws Error when the document is neither.
+ */
+export function parseSitemapXml(xml: string): ParsedSitemap {
+  const body = xml.replace(/<!--[\s\S]*?-->/g, '');
+
+  let kind: ParsedSitemap['kind'];
+  let entryTag: string;
+  if (/<(?:\w+:)?sitemapindex[\s>]/.test(body)) {
+    kind = 'sitemapindex';
+    entryTag = 'sitemap';
+  } else if (/<(?:\w+:)?urlset[\s>]/.test(body)) {
+    kind = 'urlset';
+    entryTag = 'url';
+  } else {
+    throw new Error('Not a sitemap: expected a <urlset> or <sitemapindex> root element.');
+  }
+
+  const entries: SitemapEntry[] = [];
+  const entryPattern = new RegExp(`<(?:\\w+:)?${entryTag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${entryTag}>`, 'g');
+  for (const match of body.matchAll(entryPattern)) {
+    const loc = childText(match[1]!, 'loc');
+    if (!loc) continue;
+    const lastmod = childText(match[1]!, 'lastmod');
+    entries.push(lastmod ? { loc, lastmod } : { loc });
+  }
+  return { kind, entries };
+}
+
+/**
+ * Read a sitemap from an `http(s)://` URL, a `file://` URL or a local path.
+ * Gzipped content is decompressed whatever the file is called.
+ *
+ * @throws Error when the file, or its decompressed content, is larger than
+ *         {@link MAX_SITEMAP_BYTES}.
+ */
+export async function readSitemapSource(source: string): Promise<string> {
+  let bytes: Buffer;
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source, {
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { 'User-Agent': 'awesome-gsc-mcp sitemap audit' },
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+    }
+    bytes = await readLimited(response);
+  } else {
+    const path = source.startsWith('file://') ? fileURLToPath(source) : source;
+    if ((await stat(path)).size > MAX_SITEMAP_BYTES) {
+      throw tooLarge();
+    }
+    bytes = await readFile(path);
+  }
+
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    try {
+      bytes = gunzipSync(bytes, { maxOutputLength: MAX_SITEMAP_BYTES });
+    } catch (error) {
+      throw error instanceof RangeError ? tooLarge() : error;
+    }
+  }
+  return bytes.toString('utf-8');
+}
+
+/**
+ * Read each source and every sitemap its indexes point to, breadth first.
+ * A file that cannot be read or parsed is recorded and the rest continue.
+ */
+export async function collectSitemapUrls(
+  sources: readonly string[],
+  options: CollectOptions = {},
+): Promise<CollectedSitemapUrls> {
+  const maxFiles = options.maxFiles ?? 200;
+  const read = options.read ?? readSitemapSource;
+
+  const urls = new Map<string, SitemapEntry>();
+  const files: SitemapFileResult[] = [];
+  const queue = [...sources];
+  const seen = new Set<string>();
+  let truncated = false;
+
+  while (queue.length > 0) {
+    const source = queue.shift()!;
+    if (seen.has(source)) continue;
+    if (files.length >= maxFiles) {
+      truncated = true;
+      break;
+    }
+    seen.add(source);
+
+    let parsed: ParsedSitemap;
+    try {
+      parsed = parseSitemapXml(await read(source));
+    } catch (error) {
+      files.push({ source, entries: 0, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    files.push({ source, kind: parsed.kind, entries: parsed.entries.length });
+    if (parsed.kind === 'sitemapindex') {
+      for (const { loc } of parsed.entries) {
+        if (mayFollow(source, loc, options.followHosts ?? [])) {
+          queue.push(loc);
+        } else if (!seen.has(loc)) {
+          seen.add(loc);
+          files.push({ source: loc, entries: 0, error: 'Skipped: child sitemaps must be http(s) URLs on the index\'s host or the property\'s hosts.' });
+        }
+      }
+      continue;
+    }
+    for (const entry of parsed.entries) {
+      const existing = urls.get(entry.loc);
+      if (!existing || (entry.lastmod && (!existing.lastmod || entry.lastmod > existing.lastmod))) {
+        urls.set(entry.loc, entry);
+      }
+    }
+  }
+
+  return { urls, files, truncated };
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a child listed in the index at `parent` may be read: only http(s)
+ * URLs on the parent's host or one of `followHosts`, so an index cannot point
+ * the server at local files or internal addresses.
+ */
+function mayFollow(parent: string, child: string, followHosts: readonly string[]): boolean {
+  let childHost: string;
+  try {
+    const url = new URL(child);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+    childHost = url.hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  const hosts = followHosts.map((h) => h.toLowerCase());
+  if (/^https?:\/\//i.test(parent)) {
+    hosts.push(new URL(parent).hostname.toLowerCase());
+  }
+  return hosts.some((host) => childHost === host || childHost.endsWith(`.${host}`));
+}
+
+/** Read a response body, giving up once it passes {@link MAX_SITEMAP_BYTES}. */
+async function readLimited(response: Response): Promise<Buffer> {
+  if (Number(response.headers.get('content-length') ?? 0) > MAX_SITEMAP_BYTES) {
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_SITEMAP_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+function tooLarge(): Error {
+  return new Error(`Sitemap is larger than the ${MAX_SITEMAP_BYTES / 1024 / 1024} MB limit.`);
+}
+
+const XML_ENTITIES = new Map([
+  ['amp', '&'],
+  ['lt', '<'],
+  ['gt', '>'],
+  ['quot', '"'],
+  ['apos', "'"],
+]);
+
+/** Text of the first `<tag>` child, with CDATA unwrapped and entities decoded. */
+function childText(xml: string, tag: string): string | undefined {
+  // Unprefixed only, so extension tags such as <image:loc> are skipped.
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`).exec(xml);
+  if (!match) return undefined;
+
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(match[1]!);
+  const text = cdata
+    ? cdata[1]!
+    : match[1]!.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+        if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+        if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+        return XML_ENTITIES.get(name) ?? entity;
+      });
+  const trimmed = text.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
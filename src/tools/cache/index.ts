@@ -0,0 +1,248 @@
+/**
+ * Cache administration tools.
+ *
+ * Provides three tools:
+ *   - get_cache_stats: Hit rates and entry counts broken down by key namespace
+ *   - invalidate_cache: Drop cached entries for a property and/or namespace
+ *   - prewarm_cache: Fetch the data the report tools need ahead of time
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { GscApiClient } from '../../api/client.js';
+import { siteUrlSchema, searchTypeSchema, createToolResponse, formatToolResponse } from '../schemas.js';
+import { GscError, ValidationError } from '../../errors/gsc-error.js';
+import {
+  CACHE_NAMESPACES,
+  buildNamespacePrefix,
+  buildSitesKey,
+  buildAnalyticsKey,
+  buildSitemapsKey,
+} from '../../cache/cache-keys.js';
+import type { SearchAnalyticsRequest } from '../../api/types.js';
+import { buildReportRequests } from '../reports/index.js';
+import { formatBytes, formatNumber, formatPercent } from '../../utils/formatting.js';
+import { withPriority } from '../../utils/rate-limiter.js';
+
+/**
+ * Format an error into an MCP tool error response.
+ */
+function errorResponse(error: unknown) {
+  const message =
+    error instanceof GscError
+      ? `${error.message}${error.recoveryHint ? `\n\nHint: ${error.recoveryHint}` : ''}`
+      : error instanceof Error
+        ? error.message
+        : 'An unexpected error occurred.';
+
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true,
+  };
+}
+
+const namespaceSchema = z.enum(CACHE_NAMESPACES).describe(
+  'Cache namespace: analytics (search analytics), sites (property metadata), sitemaps, inspection (URL inspection), or cursors (paged tool results)',
+);
+
+type SearchType = 'web' | 'image' | 'video' | 'news' | 'discover' | 'googleNews';
+
+/** Shorten long analytics keys (which embed the whole request) for display. */
+function truncateKey(key: string, max: number = 80): string {
+  return key.length > max ? key.slice(0, max - 3) + '...' : key;
+}
+
+export function registerCacheTools(server: McpServer, api: GscApiClient): void {
+  // ── get_cache_stats ──────────────────────────────────────────────────
+  server.tool(
+    'get_cache_stats',
+    'Show cache hit rates, entry counts per namespace (analytics, sites, sitemaps, inspection), and how many calls were coalesced or derived from cached daily rows',
+    {},
+    async () => {
+      try {
+        const overall = api.cache.stats();
+        const namespaces = api.cache.namespaceStats();
+        const planner = api.planner.stats();
+
+        const lines = [
+          `| Namespace | In Memory | Memory Size | Persisted | Hits | Misses | Hit Rate |`,
+          `| --- | ---: | ---: | ---: | ---: | ---: | ---: |`,
+          ...namespaces.map((ns) => {
+            const total = ns.hits + ns.misses;
+            return `| ${ns.namespace} | ${formatNumber(ns.entries)} | ${formatBytes(ns.bytes)} | ${formatNumber(ns.persisted)} | ${formatNumber(ns.hits)} | ${formatNumber(ns.misses)} | ${total === 0 ? '—' : formatPercent(ns.hits / total)} |`;
+          }),
+          `| **Total** | ${formatNumber(overall.size)} | ${formatBytes(overall.bytes)} | | ${formatNumber(overall.hits)} | ${formatNumber(overall.misses)} | ${formatPercent(overall.hitRate)} |`,
+          '',
+          `**Memory:** ${formatBytes(overall.bytes)} of ${formatBytes(overall.maxBytes)} (${formatPercent(overall.bytes / overall.maxBytes, 1)})  `,
+          `**Requests in flight:** ${formatNumber(overall.inFlight)}  `,
+          `**Coalesced calls:** ${formatNumber(overall.coalesced)}  `,
+          `**Stale entries served while refreshing:** ${formatNumber(overall.staleServed)}  `,
+          `**Answered from cached daily rows:** ${formatNumber(planner.derived)} (${formatNumber(planner.series)} daily series available)`,
+        ];
+        if (overall.largestEntries.length > 0) {
+          lines.push(
+            '',
+            '**Largest entries:**',
+            '',
+            `| Key | Size |`,
+            `| --- | ---: |`,
+            ...overall.largestEntries.map((e) => `| \`${truncateKey(e.key)}\` | ${formatBytes(e.bytes)} |`),
+          );
+        }
+        const data = lines.join('\n');
+
+        const summary = `The cache holds ${formatNumber(overall.size)} entr${overall.size === 1 ? 'y' : 'ies'} (${formatBytes(overall.bytes)}) in memory with a ${formatPercent(overall.hitRate)} hit rate; ${formatNumber(overall.coalesced)} call(s) shared an in-flight request.`;
+
+        const recommendations: string[] = [];
+        if (overall.bytes > overall.maxBytes * 0.9) {
+          recommendations.push('The cache is near its memory budget. Raise GSC_CACHE_MAX_MB or narrow large all-rows queries to reduce evictions.');
+        }
+        if (overall.hits + overall.misses > 0 && overall.hitRate < 0.3) {
+          recommendations.push('The hit rate is low. Run prewarm_cache before generating reports to reuse data across tools.');
+        }
+
+        const limitations = [
+          'Hit and miss counts cover the current server process only.',
+        ];
+
+        const text = formatToolResponse(createToolResponse(data, summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+
+  // ── invalidate_cache ─────────────────────────────────────────────────
+  server.tool(
+    'invalidate_cache',
+    'Drop cached entries for a property and/or namespace so the next call fetches fresh data (e.g. after publishing content or fixing an indexing issue)',
+    {
+      siteUrl: siteUrlSchema.optional().describe('Only drop entries for this property. Omit to target every property.'),
+      namespaces: z.array(namespaceSchema).optional().describe('Namespaces to drop. Omit to target every namespace.'),
+    },
+    async ({ siteUrl, namespaces }) => {
+      try {
+        if (siteUrl !== undefined) {
+          siteUrl = await api.resolveSiteUrl(siteUrl);
+        }
+        if (siteUrl === undefined && (namespaces === undefined || namespaces.length === 0)) {
+          throw new ValidationError('Specify a siteUrl, one or more namespaces, or both.', {
+            recoveryHint: 'To drop everything for a property pass only siteUrl; to drop a namespace across all properties pass only namespaces.',
+            fieldErrors: { siteUrl: ['Required when namespaces is empty.'] },
+          });
+        }
+
+        const targets = namespaces && namespaces.length > 0 ? namespaces : [...CACHE_NAMESPACES];
+        const removed: Array<{ namespace: string; count: number }> = [];
+
+        for (const namespace of targets) {
+          let count: number;
+          if (namespace === 'sites' && siteUrl !== undefined) {
+            count = api.cache.delete(buildSitesKey(siteUrl)) ? 1 : 0;
+          } else {
+            count = api.cache.invalidatePrefix(buildNamespacePrefix(namespace, siteUrl));
+          }
+          removed.push({ namespace, count });
+        }
+
+        const total = removed.reduce((sum, r) => sum + r.count, 0);
+        const lines = [
+          `| Namespace | Entries Removed |`,
+          `| --- | ---: |`,
+          ...removed.map((r) => `| ${r.namespace} | ${formatNumber(r.count)} |`),
+        ];
+        const data = lines.join('\n');
+
+        const scope = siteUrl ? ` for ${siteUrl}` : '';
+        const summary = `Removed ${formatNumber(total)} cached entr${total === 1 ? 'y' : 'ies'}${scope}.`;
+
+        const limitations = [
+          'Requests already in flight complete normally but are not reused by later calls.',
+        ];
+
+        const text = formatToolResponse(createToolResponse(data, summary, [], limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+
+  // ── prewarm_cache ────────────────────────────────────────────────────
+  server.tool(
+    'prewarm_cache',
+    'Pre-fetch the search analytics and sitemap data that weekly_seo_report and seo_health_check use, so those reports return from cache',
+    {
+      siteUrl: siteUrlSchema,
+      searchType: searchTypeSchema,
+    },
+    async ({ siteUrl, searchType }) => {
+      try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
+        const type = (searchType ?? 'web') as SearchType;
+        // Daily series go first so totals that fall inside them are derived
+        // locally instead of costing their own API calls.
+        const isSeries = (r: SearchAnalyticsRequest) => r.dimensions?.length === 1 && r.dimensions[0] === 'date';
+        const all = buildReportRequests(siteUrl, type);
+        const series = all.filter(isSeries);
+        const others = all.filter((r) => !isSeries(r));
+
+        // Check each request's own key, so calls made by other tools while
+        // warming do not skew the counts.
+        const keys = [
+          ...[...series, ...others].map((r) => buildAnalyticsKey(siteUrl, r as unknown as Record<string, unknown>)),
+          buildSitemapsKey(siteUrl),
+        ];
+        const cachedBefore = keys.map((key) => api.cache.has(key));
+
+        // Warming runs in the background lane so it never holds up a user's
+        // own requests.
+        const results = await withPriority('background', async () => {
+          const seriesResults = await Promise.allSettled(series.map((request) => api.querySearchAnalytics(request)));
+          const otherResults = await Promise.allSettled([
+            ...others.map((request) => api.querySearchAnalytics(request)),
+            api.listSitemaps(siteUrl),
+          ]);
+          return [...seriesResults, ...otherResults];
+        });
+
+        const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        const alreadyCached = cachedBefore.filter(Boolean).length;
+        // A derived response is answered from a cached series and not
+        // cached itself.
+        const derived = results.filter((r, i) =>
+          r.status === 'fulfilled' && !cachedBefore[i] && !api.cache.has(keys[i]!),
+        ).length;
+
+        const lines = [
+          `| Field | Value |`,
+          `| --- | --- |`,
+          `| **Requests** | ${results.length} |`,
+          `| **Already cached** | ${alreadyCached} |`,
+          `| **Derived from daily rows** | ${derived} |`,
+          `| **Fetched** | ${results.length - alreadyCached - derived - failures.length} |`,
+          `| **Failed** | ${failures.length} |`,
+        ];
+        const data = lines.join('\n');
+
+        const summary = failures.length === 0
+          ? `Cache warmed for ${siteUrl} (${type}): ${results.length} request(s) ready for the report tools.`
+          : `Cache partially warmed for ${siteUrl} (${type}): ${failures.length} of ${results.length} request(s) failed.`;
+
+        const recommendations = failures.map((f) =>
+          `Failed: ${f.reason instanceof Error ? f.reason.message : String(f.reason)}`,
+        );
+
+        const limitations = [
+          'Warmed analytics for recent days expire after 15 minutes because Google may still revise them.',
+        ];
+
+        const text = formatToolResponse(createToolResponse(data, summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+}
@@ -0,0 +1,230 @@
+/**
+ * Discover and Google News tools.
+ *
+ * Provides two tools:
+ *   - get_discover_performance: Page reach, content lifespan, spike-and-decay profiles and section performance in Google Discover
+ *   - get_google_news_performance: The same analysis for Google News (news.google.com and the News app)
+ *
+ * Neither surface has queries or ranking positions, so these tools work from
+ * page and date rows only.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { GscApiClient } from '../../api/client.js';
+import { siteUrlSchema, periodSchema, createToolResponse, formatToolResponse, collectNotices } from '../schemas.js';
+import { GscError } from '../../errors/gsc-error.js';
+import { analyzeCtr } from '../../analysis/ctr-benchmarks.js';
+import { median, profileArticles, summarizeSections } from '../../analysis/content-lifespan.js';
+import type { ArticleProfile, DecayProfile } from '../../analysis/content-lifespan.js';
+import { getDateRange, type DatePeriod } from '../../utils/date-helpers.js';
+import { formatNumber, formatPercent, truncate } from '../../utils/formatting.js';
+import { withPriority } from '../../utils/rate-limiter.js';
+
+type FeedType = 'discover' | 'googleNews';
+
+const FEED_LABELS: Record<FeedType, string> = {
+  discover: 'Google Discover',
+  googleNews: 'Google News',
+};
+
+const PROFILE_LABELS: Record<DecayProfile, string> = {
+  flash: 'Flash',
+  resurfacing: 'Resurfacing',
+  evergreen: 'Evergreen',
+  standard: 'Standard decay',
+};
+
+/**
+ * Format an error into an MCP tool error response.
+ */
+function errorResponse(error: unknown) {
+  const message =
+    error instanceof GscError
+      ? `${error.message}${error.recoveryHint ? `\n\nHint: ${error.recoveryHint}` : ''}`
+      : error instanceof Error
+        ? error.message
+        : 'An unexpected error occurred.';
+
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true,
+  };
+}
+
+/** Format a day count, or "-" when it has not happened yet. */
+function formatDays(days: number | null): string {
+  return days === null ? '-' : `${days}d`;
+}
+
+const feedParams = {
+  siteUrl: siteUrlSchema,
+  period: periodSchema.optional().default('last28d'),
+  limit: z.number().min(1).max(200).optional().default(25).describe('Number of pages to list'),
+  sectionDepth: z.number().min(1).max(3).optional().default(1).describe('Path segments that make up a section (1 = /news/, 2 = /news/world/)'),
+};
+
+export function registerDiscoverTools(server: McpServer, api: GscApiClient): void {
+  async function feedReport(
+    type: FeedType,
+    params: { siteUrl: string; period: DatePeriod; limit: number; sectionDepth: number },
+  ) {
+    params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
+    const label = FEED_LABELS[type];
+    const dateRange = getDateRange(params.period);
+
+    // Every page's daily series; a long period can take several pages.
+    const response = await withPriority('normal', () =>
+      api.querySearchAnalyticsAllRows({
+        siteUrl: params.siteUrl,
+        startDate: dateRange.startDate,
+        endDate: dateRange.endDate,
+        dimensions: ['page', 'date'],
+        searchType: type,
+        dataState: 'all',
+      }),
+    );
+
+    const profiles = profileArticles(response.rows, dateRange.endDate);
+
+    if (profiles.length === 0) {
+      return formatToolResponse(createToolResponse(
+        `_No ${label} data found for the specified parameters._`,
+        `${params.siteUrl} had no ${label} impressions during ${params.period}.`,
+        [
+          type === 'discover'
+            ? 'Discover favors fresh, visual content: use large images (1200px+ wide) with max-image-preview:large and publish timely articles.'
+            : 'Make sure articles follow the Google News content policies and have clear dates, bylines and author information.',
+        ],
+        [`${label} data only appears once a property reaches a minimum number of impressions on the surface.`, ...collectNotices(response)],
+      ));
+    }
+
+    const clicks = profiles.reduce((s, p) => s + p.clicks, 0);
+    const impressions = profiles.reduce((s, p) => s + p.impressions, 0);
+    const ctr = impressions > 0 ? clicks / impressions : 0;
+    const ctrAnalysis = analyzeCtr(0, ctr, type);
+    const medianLifespan = median(profiles.map((p) => p.lifespanDays));
+    const halfLives = profiles.map((p) => p.halfLifeDays).filter((d): d is number => d !== null);
+
+    const profileCounts = new Map<DecayProfile, ArticleProfile[]>();
+    for (const p of profiles) {
+      profileCounts.set(p.profile, [...(profileCounts.get(p.profile) ?? []), p]);
+    }
+
+    const parts = [
+      `## ${label} Overview\n`,
+      '| Metric | Value |',
+      '| --- | ---: |',
+      `| Clicks | ${formatNumber(clicks)} |`,
+      `| Impressions | ${formatNumber(impressions)} |`,
+      `| CTR | ${formatPercent(ctr)} (benchmark ~${formatPercent(ctrAnalysis.expectedCtr, 0)}) |`,
+      `| Pages with impressions | ${formatNumber(profiles.length)} |`,
+      `| Median lifespan | ${medianLifespan} day(s) |`,
+      `| Median half-life | ${halfLives.length > 0 ? `${median(halfLives)} day(s)` : '-'} |`,
+      '',
+      `*Period: ${dateRange.startDate} to ${dateRange.endDate}*`,
+      '',
+      '## Page Reach\n',
+      '| Page | Clicks | Impressions | CTR | First Seen | Lifespan | Peak | Half-life | Profile |',
+      '| --- | ---: | ---: | ---: | --- | ---: | --- | ---: | --- |',
+      ...profiles.slice(0, params.limit).map((p) =>
+        `| ${truncate(p.page, 80)} | ${formatNumber(p.clicks)} | ${formatNumber(p.impressions)} | ${formatPercent(p.ctr)} | ${p.firstSeen} | ${p.lifespanDays}d | ${p.peakDate} (${formatPercent(p.peakShare, 0)}) | ${formatDays(p.halfLifeDays)} | ${PROFILE_LABELS[p.profile]} |`,
+      ),
+      '',
+      '## Spike-and-Decay Profiles\n',
+      '| Profile | Pages | Impressions | Median Lifespan | Median Half-life |',
+      '| --- | ---: | ---: | ---: | ---: |',
+      ...(['flash', 'standard', 'resurfacing', 'evergreen'] as const)
+        .filter((profile) => profileCounts.has(profile))
+        .map((profile) => {
+          const pages = profileCounts.get(profile)!;
+          const pageHalfLives = pages.map((p) => p.halfLifeDays).filter((d): d is number => d !== null);
+          return `| ${PROFILE_LABELS[profile]} | ${formatNumber(pages.length)} | ${formatNumber(pages.reduce((s, p) => s + p.impressions, 0))} | ${median(pages.map((p) => p.lifespanDays))}d | ${pageHalfLives.length > 0 ? `${median(pageHalfLives)}d` : '-'} |`;
+        }),
+    ];
+
+    const sections = summarizeSections(profiles, params.sectionDepth);
+    parts.push(
+      '',
+      '## Section Performance\n',
+      '| Section | Pages | Clicks | Impressions | CTR | Median Lifespan |',
+      '| --- | ---: | ---: | ---: | ---: | ---: |',
+      ...sections.slice(0, 20).map((s) =>
+        `| ${s.section} | ${formatNumber(s.pages)} | ${formatNumber(s.clicks)} | ${formatNumber(s.impressions)} | ${formatPercent(s.ctr)} | ${s.medianLifespanDays}d |`,
+      ),
+    );
+
+    const flashShare = (profileCounts.get('flash')?.length ?? 0) / profiles.length;
+    const summary = [
+      `${formatNumber(profiles.length)} page(s) earned ${formatNumber(impressions)} ${label} impressions and ${formatNumber(clicks)} clicks (${formatPercent(ctr)} CTR) during ${params.period}.`,
+      `Half of them stayed visible for ${medianLifespan} day(s) or less.`,
+      sections.length > 1 ? `${sections[0]!.section} is the largest section.` : '',
+    ].filter((s) => s.length > 0).join(' ');
+
+    const recommendations: string[] = [];
+    if (ctrAnalysis.performance === 'poor' || ctrAnalysis.performance === 'below_average') {
+      recommendations.push(type === 'discover'
+        ? `CTR (${formatPercent(ctr)}) is below the typical Discover rate. Use large, high-quality images (1200px+ wide, max-image-preview:large) and titles that convey the story without clickbait.`
+        : `CTR (${formatPercent(ctr)}) is below the typical Google News rate. Make headlines specific and make sure each article has a representative image.`);
+    }
+    if (flashShare >= 0.5) {
+      recommendations.push(`${formatPercent(flashShare, 0)} of pages got most of their impressions on a single day. Plan follow-ups and updates for stories that take off, while they still have momentum.`);
+    }
+    const resurfacing = profileCounts.get('resurfacing') ?? [];
+    if (resurfacing.length > 0) {
+      recommendations.push(`${resurfacing.length} page(s) were picked up again after fading (e.g. ${resurfacing[0]!.page}). Keep them updated; their topics have recurring interest.`);
+    }
+    if (sections.length > 1) {
+      const qualifying = sections.filter((s) => s.impressions >= 1000);
+      const best = [...qualifying].sort((a, b) => b.ctr - a.ctr)[0];
+      const worst = [...qualifying].sort((a, b) => a.ctr - b.ctr)[0];
+      if (best && worst && best !== worst && best.ctr > worst.ctr * 1.5) {
+        recommendations.push(`${best.section} converts impressions to clicks best (${formatPercent(best.ctr)} CTR) and ${worst.section} worst (${formatPercent(worst.ctr)}). Compare their headlines and images.`);
+      }
+    }
+    if (recommendations.length === 0) {
+      recommendations.push(`${label} performance looks healthy. Keep publishing timely content in your strongest sections.`);
+    }
+
+    const limitations = [
+      `${label} has no queries or ranking positions; CTR is compared against a rough surface-wide average rather than a position benchmark.`,
+      `Lifespans are measured within the period, so pages first seen on ${dateRange.startDate} may be older and pages still shown on ${dateRange.endDate} may run longer.`,
+      'Days without a row are treated as having no impressions.',
+      ...(type === 'googleNews'
+        ? ['This covers news.google.com and the Google News app. The News tab in Google Search is the "news" search type.']
+        : []),
+      ...collectNotices(response),
+    ];
+
+    return formatToolResponse(createToolResponse(parts.join('\n'), summary, recommendations, limitations));
+  }
+
+  // ── get_discover_performance ─────────────────────────────────────────
+  server.tool(
+    'get_discover_performance',
+    'Analyze Google Discover traffic: page reach, how many days each article kept getting impressions, spike-and-decay profiles, and performance by site section',
+    feedParams,
+    async (params) => {
+      try {
+        return { content: [{ type: 'text' as const, text: await feedReport('discover', params) }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+
+  // ── get_google_news_performance ──────────────────────────────────────
+  server.tool(
+    'get_google_news_performance',
+    'Analyze Google News traffic: page reach, how many days each article kept getting impressions, spike-and-decay profiles, and performance by site section',
+    feedParams,
+    async (params) => {
+      try {
+        return { content: [{ type: 'text' as const, text: await feedReport('googleNews', params) }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+}
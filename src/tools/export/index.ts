@@ -0,0 +1,205 @@
+/**
+ * Data export tools.
+ *
+ * Provides one tool:
+ *   - export_search_analytics: Write every matching search analytics row to a local CSV, TSV or JSONL file
+ */
+
+import { existsSync } from 'fs';
+import { isAbsolute, join } from 'path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { GscApiClient } from '../../api/client.js';
+import {
+  siteUrlSchema,
+  searchTypeSchema,
+  dimensionSchema,
+  dimensionFilterSchema,
+  filterGroupsSchema,
+  dataStateSchema,
+  aggregationTypeSchema,
+  createToolResponse,
+  formatToolResponse,
+} from '../schemas.js';
+import { compileFilterGroups, mergeFilterResults } from '../../api/filter-compiler.js';
+import { validateFilterInput } from '../../api/filter-validation.js';
+import { GscError, ValidationError } from '../../errors/gsc-error.js';
+import type { DimensionFilterGroup, SearchAnalyticsRow } from '../../api/types.js';
+import { EXPORT_FORMATS, DEFAULT_EXPORT_DIR, exportFileName, writeRowsToFile } from '../../export/row-export.js';
+import { formatBytes, formatNumber, formatPercent, formatPosition, truncate } from '../../utils/formatting.js';
+import { withPriority } from '../../utils/rate-limiter.js';
+
+/** Rows shown in the response as a sample of the file. */
+const PREVIEW_ROWS = 10;
+
+/**
+ * Format an error into an MCP tool error response.
+ */
+function errorResponse(error: unknown) {
+  const message =
+    error instanceof GscError
+      ? `${error.message}${error.recoveryHint ? `\n\nHint: ${error.recoveryHint}` : ''}`
+      : error instanceof Error
+        ? error.message
+        : 'An unexpected error occurred.';
+
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true,
+  };
+}
+
+export function registerExportTools(server: McpServer, api: GscApiClient): void {
+  // ── export_search_analytics ──────────────────────────────────────────
+  server.tool(
+    'export_search_analytics',
+    'Export every search analytics row matching a query to a local CSV, TSV or JSONL file and return its path with a short preview',
+    {
+      siteUrl: siteUrlSchema,
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Start date in YYYY-MM-DD format'),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('End date in YYYY-MM-DD format'),
+      dimensions: z.array(dimensionSchema).optional().describe('Dimensions to group by (e.g. query, page, date, hour, country, device, searchAppearance)'),
+      searchType: searchTypeSchema.optional().default('web'),
+      filters: z.array(dimensionFilterSchema).optional().describe('Dimension filters to apply (all must match)'),
+      filterGroups: filterGroupsSchema.optional(),
+      dataState: dataStateSchema.optional().default('all'),
+      aggregationType: aggregationTypeSchema.optional().default('auto'),
+      format: z.enum(EXPORT_FORMATS).optional().default('csv').describe('File format'),
+      outputPath: z.string().optional().describe(`File to write. Relative paths are resolved against ${DEFAULT_EXPORT_DIR}. Defaults to a generated name in that directory.`),
+    },
+    async (params) => {
+      try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
+        validateFilterInput(params.filters, params.filterGroups);
+
+        const dimensions = params.dimensions ?? [];
+        const hourly = dimensions.includes('hour');
+        if (hourly && params.dataState === 'final') {
+          throw new ValidationError('The hour dimension cannot be combined with dataState "final".', {
+            recoveryHint: 'Hourly data is never finalized. Omit dataState or pass "hourly_all".',
+            fieldErrors: { dataState: ['Must be "hourly_all" (or omitted) when grouping by hour.'] },
+          });
+        }
+
+        const fileName = params.outputPath
+          ?? exportFileName(params.siteUrl, params.startDate, params.endDate, params.format);
+        const path = isAbsolute(fileName) ? fileName : join(DEFAULT_EXPORT_DIR, fileName);
+        if (existsSync(path)) {
+          throw new ValidationError(`${path} already exists.`, {
+            recoveryHint: 'Choose another outputPath, or omit it to generate a new file name.',
+            fieldErrors: { outputPath: ['File already exists.'] },
+          });
+        }
+
+        const filterPlan = compileFilterGroups(
+          [{ groupType: 'and', filters: [...(params.filters ?? []), ...(params.filterGroups ?? [])] }],
+          dimensions,
+        );
+
+        const notices = new Set<string>();
+        const pages = (dimensionFilterGroups: DimensionFilterGroup[]) =>
+          api.streamSearchAnalytics({
+            siteUrl: params.siteUrl,
+            startDate: params.startDate,
+            endDate: params.endDate,
+            dimensions,
+            searchType: params.searchType,
+            dimensionFilterGroups: dimensionFilterGroups.length > 0 ? dimensionFilterGroups : undefined,
+            dataState: hourly ? 'hourly_all' : params.dataState,
+            aggregationType: params.aggregationType,
+          });
+
+        // Rows are written page by page as the API returns them. Summed
+        // branches are the exception: no row is final until every branch
+        // has been read.
+        async function* exportRows(): AsyncGenerator<SearchAnalyticsRow> {
+          if (filterPlan.merge === 'sum' && filterPlan.requests.length > 1) {
+            const branches: SearchAnalyticsRow[][] = [];
+            for (const dimensionFilterGroups of filterPlan.requests) {
+              const rows: SearchAnalyticsRow[] = [];
+              for await (const page of pages(dimensionFilterGroups)) {
+                page.notices?.forEach((n) => notices.add(n));
+                rows.push(...page.rows);
+              }
+              branches.push(rows);
+            }
+            yield* mergeFilterResults(filterPlan, branches, Number.MAX_SAFE_INTEGER);
+            return;
+          }
+
+          // Rows repeated across branches are identical; keep the first.
+          const seen = new Set<string>();
+          for (const dimensionFilterGroups of filterPlan.requests) {
+            for await (const page of pages(dimensionFilterGroups)) {
+              page.notices?.forEach((n) => notices.add(n));
+              for (const row of page.rows) {
+                if (filterPlan.requests.length > 1) {
+                  const id = row.keys.join('\u0000');
+                  if (seen.has(id)) continue;
+                  seen.add(id);
+                }
+                yield row;
+              }
+            }
+          }
+        }
+
+        const previewRows: SearchAnalyticsRow[] = [];
+        let totalClicks = 0;
+        async function* tally(rows: AsyncIterable<SearchAnalyticsRow>): AsyncGenerator<SearchAnalyticsRow> {
+          for await (const row of rows) {
+            if (previewRows.length < PREVIEW_ROWS) previewRows.push(row);
+            totalClicks += row.clicks;
+            yield row;
+          }
+        }
+
+        // A full pull can take many pages; let interactive calls go first.
+        const result = await withPriority('normal', () =>
+          writeRowsToFile(path, params.format, dimensions, tally(exportRows())),
+        );
+
+        const headerCols = [...dimensions.map((d) => d.charAt(0).toUpperCase() + d.slice(1)), 'Clicks', 'Impressions', 'CTR', 'Position'];
+        const preview = previewRows.map((row) =>
+          `| ${[...row.keys.map((k) => truncate(k, 60)), formatNumber(row.clicks), formatNumber(row.impressions), formatPercent(row.ctr), formatPosition(row.position)].join(' | ')} |`,
+        );
+
+        const sections = [
+          `**File:** \`${result.path}\`  `,
+          `**Format:** ${params.format.toUpperCase()} · **Rows:** ${formatNumber(result.rows)} · **Size:** ${formatBytes(result.bytes)}`,
+        ];
+        if (preview.length > 0) {
+          sections.push(
+            '',
+            `### Preview (first ${preview.length} of ${formatNumber(result.rows)} rows)\n`,
+            `| ${headerCols.join(' | ')} |`,
+            `| ${headerCols.map(() => '---').join(' | ')} |`,
+            ...preview,
+          );
+        }
+
+        const summary = `Exported ${formatNumber(result.rows)} row(s) (${formatNumber(totalClicks)} clicks) for ${params.siteUrl} from ${params.startDate} to ${params.endDate} to ${result.path}.`;
+
+        const recommendations: string[] = [];
+        if (result.rows === 0) {
+          recommendations.push('No rows matched. Try broadening the date range or removing filters.');
+        }
+
+        const limitations = [
+          'Rows grouped by query omit anonymized queries, so totals can be lower than property totals.',
+          ...(filterPlan.requests.length > 1
+            ? [filterPlan.merge === 'sum'
+              ? `The filter logic was answered with ${filterPlan.requests.length} queries whose rows were summed (position is impression-weighted).`
+              : `The filter logic was answered with ${filterPlan.requests.length} queries whose rows were merged; rows are ordered by clicks within each query, not across them.`]
+            : []),
+          ...notices,
+        ];
+
+        const text = formatToolResponse(createToolResponse(sections.join('\n'), summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+}
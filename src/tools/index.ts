@@ -5,3 +5,10 @@ export { registerOpportunityTools } from './opportunities/index.js';
 export { registerIndexingTools } from './indexing/index.js';
 export { registerQueryTools } from './queries/index.js';
 export { registerReportTools } from './reports/index.js';
+export { registerWarehouseTools } from './warehouse/index.js';
+export { registerCacheTools } from './cache/index.js';
+export { registerQuotaTools } from './quota/index.js';
+export { registerExportTools } from './export/index.js';
+export { registerPaginationTools } from './pagination/index.js';
+export { registerDiscoverTools } from './discover/index.js';
+export { registerPortfolioTools } from './portfolio/index.js';
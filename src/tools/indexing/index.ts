@@ -1,8 +1,15 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { GscApiClient } from '../../api/client.js';
-import { siteUrlSchema, createToolResponse, formatToolResponse } from '../schemas.js';
-import { GscError } from '../../errors/gsc-error.js';
+import { siteUrlSchema, createToolResponse, formatToolResponse, collectNotices } from '../schemas.js';
+import { GscError, ValidationError } from '../../errors/gsc-error.js';
+import { handleApiError } from '../../errors/error-handler.js';
+import type { BatchInspectionResult } from '../../api/types.js';
+import { resolveSiteUrl } from '../../api/site-resolver.js';
+import { buildInspectionTimeline, diffInspections, type FieldChange } from '../../analysis/inspection-changes.js';
+import type { InspectionHistory } from '../../inspection/inspection-history.js';
+import { withPriority } from '../../utils/rate-limiter.js';
+import { collectRetryNotices } from '../../api/retry-policy.js';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -59,6 +66,19 @@ function errorResponse(error: unknown) {
   };
 }
 
+function requireInspectionHistory(api: GscApiClient): InspectionHistory {
+  if (!api.inspectionHistory) {
+    throw new ValidationError('Inspection history is not enabled on this server.', {
+      recoveryHint: 'Start the server without GSC_INSPECTION_HISTORY=false to keep every inspection result.',
+    });
+  }
+  return api.inspectionHistory;
+}
+
+function formatFieldChange(change: FieldChange): string {
+  return `${change.field}: ${change.from ?? '-'} → ${change.to ?? '-'}`;
+}
+
 function formatVerdict(verdict: string): string {
   switch (verdict) {
     case 'PASS': return 'PASS';
@@ -255,6 +275,11 @@ function categorizeResult(result: InspectionResult): 'indexed' | 'not_indexed' |
   return 'not_indexed';
 }
 
+/** One-line description of why an inspection failed, for table cells. */
+function formatInspectionError(error: GscError): string {
+  return `${error.code}: ${error.message.replace(/\|/g, '\\|').replace(/\s+/g, ' ')}`;
+}
+
 // ── Tool Registration ────────────────────────────────────────────────────────
 
 export function registerIndexingTools(server: McpServer, api: GscApiClient): void {
@@ -265,12 +290,15 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
     'inspect_url',
     'Inspect a single URL for indexing status, mobile usability, and rich results',
     {
-      siteUrl: siteUrlSchema,
+      siteUrl: siteUrlSchema.optional().describe('The property to inspect under. Omit, or give one that does not cover the URL, to use the most specific accessible property that does'),
       url: z.string().url().describe('The fully qualified URL to inspect'),
     },
     async ({ siteUrl, url }) => {
       try {
-        const result = await api.inspectUrl(siteUrl, url);
+        // Inspection only works under a property that covers the URL.
+        const covers = siteUrl !== undefined && resolveSiteUrl(url, [{ siteUrl, permissionLevel: 'siteFullUser' }]) !== undefined;
+        const property = covers ? siteUrl : await api.resolveSiteUrl(url);
+        const { result, notices } = await collectRetryNotices(() => api.inspectUrl(property, url));
         const formatted = formatSingleInspection(url, result);
 
         const recommendations = result.indexStatusResult
@@ -280,10 +308,11 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
         const limitations = [
           'URL Inspection API has a quota of 2,000 inspections per day per property',
           'Results reflect the last crawl, not real-time page state',
+          ...notices,
         ];
 
         const text = formatToolResponse(
-          createToolResponse(formatted, `Inspection complete for ${url}`, recommendations, limitations),
+          createToolResponse(formatted, `Inspection complete for ${url} (property ${property}).`, recommendations, limitations),
         );
 
         return { content: [{ type: 'text' as const, text }] };
@@ -304,6 +333,7 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
     },
     async ({ siteUrl, urls }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
         if (urls.length > 50) {
           return {
             content: [{ type: 'text' as const, text: 'Error: Maximum of 50 URLs can be inspected in a single batch.' }],
@@ -311,16 +341,23 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
           };
         }
 
-        const results = await api.batchInspectUrls(siteUrl, urls);
+        const { result: results, notices } = await collectRetryNotices(() =>
+          withPriority('normal', () => api.batchInspectUrls(siteUrl, urls)),
+        );
 
         // Categorize results
         const indexed: { url: string; result: InspectionResult }[] = [];
         const notIndexed: { url: string; result: InspectionResult }[] = [];
         const errors: { url: string; result: InspectionResult }[] = [];
+        const failed: { url: string; error: GscError }[] = [];
 
-        for (let i = 0; i < urls.length; i++) {
-          const entry = { url: urls[i]!, result: results[i]! };
-          switch (categorizeResult(results[i]!)) {
+        for (const outcome of results) {
+          if (!outcome.ok) {
+            failed.push({ url: outcome.url, error: outcome.error });
+            continue;
+          }
+          const entry = { url: outcome.url, result: outcome.result };
+          switch (categorizeResult(outcome.result)) {
             case 'indexed': indexed.push(entry); break;
             case 'not_indexed': notIndexed.push(entry); break;
             case 'error': errors.push(entry); break;
@@ -336,6 +373,7 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
         parts.push(`| Indexed | ${indexed.length} |`);
         parts.push(`| Not indexed | ${notIndexed.length} |`);
         parts.push(`| Errors | ${errors.length} |`);
+        parts.push(`| Inspection failed | ${failed.length} |`);
 
         // Indexed URLs
         if (indexed.length > 0) {
@@ -371,6 +409,16 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
           }
         }
 
+        // URLs whose inspection call failed
+        if (failed.length > 0) {
+          parts.push('\n### Failed Inspections\n');
+          parts.push('| URL | Error |');
+          parts.push('| --- | --- |');
+          for (const { url, error } of failed) {
+            parts.push(`| ${url} | ${formatInspectionError(error)} |`);
+          }
+        }
+
         // Collect recommendations from common issues
         const recommendations: string[] = [];
         const coverageStates = new Map<string, number>();
@@ -398,11 +446,19 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
           );
         }
 
-        const summary = `${indexed.length} of ${urls.length} URLs are indexed, ${notIndexed.length} are not indexed, ${errors.length} returned errors.`;
+        if (failed.length > 0) {
+          recommendations.push(
+            `${failed.length} URL${failed.length > 1 ? 's' : ''} could not be inspected. Re-run batch_inspect_urls for just those URLs; results for the others are cached.`,
+          );
+        }
+
+        const summary = `${indexed.length} of ${urls.length} URLs are indexed, ${notIndexed.length} are not indexed, ${errors.length} returned errors` +
+          (failed.length > 0 ? `, ${failed.length} could not be inspected.` : '.');
 
         const limitations = [
           'URL Inspection API has a quota of 2,000 inspections per day per property',
           'Results reflect the last crawl, not real-time page state',
+          ...notices,
         ];
 
         const data = parts.join('\n');
@@ -425,6 +481,7 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
     },
     async ({ siteUrl, limit }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
         // Step 1: Fetch top pages by impressions
         const analyticsResponse = await api.querySearchAnalytics({
           siteUrl,
@@ -462,13 +519,26 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
           }
         }
 
-        // Step 2: Batch inspect the URLs (in chunks of 50 if needed)
-        const allResults: InspectionResult[] = [];
-        for (let i = 0; i < urls.length; i += 50) {
-          const chunk = urls.slice(i, i + 50);
-          const chunkResults = await api.batchInspectUrls(siteUrl, chunk);
-          allResults.push(...chunkResults);
-        }
+        // Step 2: Batch inspect the URLs (in chunks of 50 if needed). Bulk
+        // inspection queues behind single interactive calls. A chunk refused
+        // up front (e.g. the daily quota ran out) keeps the earlier chunks'
+        // results and lists its URLs, and the rest, as failed.
+        const allResults: BatchInspectionResult[] = [];
+        const { notices } = await collectRetryNotices(async () => {
+          for (let i = 0; i < urls.length; i += 50) {
+            const chunk = urls.slice(i, i + 50);
+            try {
+              allResults.push(...(await withPriority('normal', () => api.batchInspectUrls(siteUrl, chunk))));
+            } catch (error) {
+              const refusal = handleApiError(error);
+              allResults.push(...urls.slice(i).map((url) => ({ url, ok: false as const, error: refusal })));
+              break;
+            }
+          }
+        });
+        const failed = allResults.filter(
+          (r): r is Extract<BatchInspectionResult, { ok: false }> => !r.ok,
+        );
 
         // Step 3: Categorize issues
         interface PageIssue {
@@ -487,9 +557,11 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
         let mobileIssueCount = 0;
         let richResultIssueCount = 0;
 
-        for (let i = 0; i < urls.length; i++) {
-          const url = urls[i]!;
-          const result = allResults[i]!;
+        for (const outcome of allResults) {
+          if (!outcome.ok) {
+            continue;
+          }
+          const { url, result } = outcome;
           const analytics = pageAnalytics.get(url) ?? { impressions: 0, clicks: 0 };
           const issues: string[] = [];
           const index = result.indexStatusResult;
@@ -557,13 +629,16 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
         parts.push('### Audit Overview\n');
         parts.push('| Metric | Value |');
         parts.push('| --- | --- |');
-        parts.push(`| **Pages checked** | ${urls.length} |`);
+        parts.push(`| **Pages checked** | ${urls.length - failed.length} |`);
         parts.push(`| **Indexed** | ${indexedCount} |`);
         parts.push(`| **Not indexed** | ${notIndexedCount} |`);
         parts.push(`| **Canonical mismatches** | ${canonicalMismatchCount} |`);
         parts.push(`| **Mobile issues** | ${mobileIssueCount} |`);
         parts.push(`| **Rich result issues** | ${richResultIssueCount} |`);
         parts.push(`| **Total pages with issues** | ${pageIssues.length} |`);
+        if (failed.length > 0) {
+          parts.push(`| **Inspection failed** | ${failed.length} |`);
+        }
 
         // Issue breakdown
         if (issueCounts.size > 0) {
@@ -589,6 +664,17 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
           }
         }
 
+        // Pages whose inspection call failed
+        if (failed.length > 0) {
+          parts.push('\n### Pages That Could Not Be Inspected\n');
+          parts.push('| URL | Impressions | Error |');
+          parts.push('| --- | --- | --- |');
+          for (const { url, error } of failed) {
+            const impressions = pageAnalytics.get(url)?.impressions ?? 0;
+            parts.push(`| ${url} | ${impressions.toLocaleString()} | ${formatInspectionError(error)} |`);
+          }
+        }
+
         // Build recommendations
         const recommendations: string[] = [];
         const topIssue = issueCounts.size > 0
@@ -619,17 +705,24 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
           );
         }
 
-        if (pageIssues.length === 0) {
+        if (failed.length > 0) {
+          recommendations.push(
+            `${failed.length} page${failed.length > 1 ? 's' : ''} could not be inspected. Run batch_inspect_urls on them later to complete the audit.`,
+          );
+        } else if (pageIssues.length === 0) {
           recommendations.push('All checked pages are properly indexed with no detected issues.');
         }
 
         const topIssueLabel = topIssue ? topIssue[0] : 'None';
-        const summary = `Checked ${urls.length} top pages. ${pageIssues.length} have indexing issues. Top issue: ${topIssueLabel}.`;
+        const inspected = urls.length - failed.length;
+        const summary = `Checked ${inspected} of ${urls.length} top pages. ${pageIssues.length} have indexing issues. Top issue: ${topIssueLabel}.`;
 
         const limitations = [
           'URL Inspection API has a quota of 2,000 inspections per day per property',
           'Results reflect the last crawl, not real-time page state',
           'Only pages with recent search impressions are checked; pages with zero impressions are not included',
+          ...collectNotices(analyticsResponse),
+          ...notices,
         ];
 
         const data = parts.join('\n');
@@ -640,6 +733,146 @@ export function registerIndexingTools(server: McpServer, api: GscApiClient): voi
       }
     },
   );
+
+  // ── get_inspection_history ───────────────────────────────────────────────
+
+  server.tool(
+    'get_inspection_history',
+    'Show how URL Inspection results changed over time: a timeline of verdict, coverage state and Google canonical changes with crawl dates for one URL, or a diff of every URL whose status changed between two inspection runs',
+    {
+      siteUrl: siteUrlSchema,
+      mode: z.enum(['timeline', 'diff']).optional().default('timeline').describe('"timeline" for one URL, "diff" for every inspected URL of the property'),
+      url: z.string().url().optional().describe('The URL to show (required for timeline mode)'),
+      since: z.string().optional().describe('Diff mode: compare with the last inspection before this date or ISO timestamp (e.g., "2025-01-15"). Omit to compare each URL\'s last two inspections'),
+      limit: z.number().int().min(1).max(200).optional().default(50).describe('Inspections (timeline) or URLs (diff) to list'),
+    },
+    async ({ siteUrl, mode, url, since, limit }) => {
+      try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
+        const history = requireInspectionHistory(api);
+
+        if (mode === 'timeline') {
+          if (!url) {
+            throw new ValidationError('Timeline mode needs the url to show.', {
+              recoveryHint: 'Pass url, or use mode "diff" to list changes across every inspected URL.',
+            });
+          }
+
+          // Looked up by URL alone: inspect_url may have run under a more
+          // specific property than siteUrl.
+          const records = (await history.history(url))?.records ?? [];
+          if (records.length === 0) {
+            const text = formatToolResponse(createToolResponse(
+              '_No inspections recorded for this URL._',
+              `${url} has not been inspected since history was enabled.`,
+              ['Run inspect_url on it; every inspection from then on is recorded.'],
+              [],
+            ));
+            return { content: [{ type: 'text' as const, text }] };
+          }
+
+          const timeline = buildInspectionTimeline(records);
+          const shown = timeline.slice(-limit).reverse();
+          const parts = [
+            '| Inspected | Verdict | Coverage | Google Canonical | Last Crawl | Changes |',
+            '| --- | --- | --- | --- | --- | --- |',
+            ...shown.map((entry) => {
+              const changes = [
+                ...entry.changes.map(formatFieldChange),
+                ...(entry.recrawled ? ['recrawled'] : []),
+              ];
+              return `| ${entry.inspectedAt.slice(0, 16).replace('T', ' ')} | ${formatVerdict(entry.verdict ?? '-')} | ${entry.coverageState ?? '-'} | ${entry.googleCanonical ?? '-'} | ${entry.lastCrawlTime?.slice(0, 10) ?? '-'} | ${changes.length > 0 ? changes.join('; ') : '-'} |`;
+            }),
+          ];
+
+          const latest = timeline[timeline.length - 1]!;
+          const verdictFlips = timeline.filter((e) => e.changes.some((c) => c.field === 'verdict')).length;
+          const canonicalChanges = timeline.filter((e) => e.changes.some((c) => c.field === 'googleCanonical')).length;
+          const crawls = new Set(timeline.map((e) => e.lastCrawlTime).filter((t) => t !== undefined)).size;
+          const summary = `${timeline.length} inspection(s) of ${url} since ${timeline[0]!.inspectedAt.slice(0, 10)}. Latest verdict ${latest.verdict ?? 'unknown'} (${latest.coverageState ?? 'no coverage state'}); ${verdictFlips} verdict change(s), ${canonicalChanges} Google canonical change(s), ${crawls} distinct crawl(s).`;
+
+          const recommendations: string[] = [];
+          if (timeline.length === 1) {
+            recommendations.push('Only one inspection so far. Inspect the URL again later to see how it changes.');
+          } else if (latest.changes.some((c) => c.field === 'verdict') && latest.verdict !== 'PASS') {
+            recommendations.push('The URL lost its indexed verdict at the latest inspection. Check the coverage state above and fix the cause before requesting reindexing.');
+          } else if (latest.changes.some((c) => c.field === 'googleCanonical')) {
+            recommendations.push('Google chose a different canonical at the latest inspection. Make sure canonical tags, internal links and sitemaps all point to the preferred URL.');
+          } else if (!timeline.slice(1).some((e) => e.recrawled)) {
+            recommendations.push('Google has not recrawled the page between recorded inspections. Resubmit it or link to it from frequently crawled pages if it changed.');
+          } else {
+            recommendations.push('No status changes needing action.');
+          }
+
+          const limitations = [
+            'Inspections are only recorded when this server calls the URL Inspection API; cached results are not recorded again.',
+            `Up to 200 inspections per URL are kept${timeline.length > limit ? `; the latest ${limit} are listed` : ''}.`,
+          ];
+
+          const text = formatToolResponse(createToolResponse(parts.join('\n'), summary, recommendations, limitations));
+          return { content: [{ type: 'text' as const, text }] };
+        }
+
+        if (since !== undefined && Number.isNaN(Date.parse(since))) {
+          throw new ValidationError(`Invalid since value: "${since}".`, {
+            recoveryHint: 'Use a date such as "2025-01-15" or an ISO timestamp.',
+          });
+        }
+
+        const histories = await history.listHistories(siteUrl);
+        const diffs = diffInspections(histories, since);
+        const verdictFlips = diffs.filter((d) => d.changes.some((c) => c.field === 'verdict'));
+        const dropped = verdictFlips.filter((d) => d.before.result.indexStatusResult?.verdict === 'PASS');
+        const gained = verdictFlips.filter((d) => d.after.result.indexStatusResult?.verdict === 'PASS');
+        const otherFlips = verdictFlips.length - dropped.length - gained.length;
+
+        // Lost indexing first, then other verdict flips, then the rest.
+        const rank = (d: (typeof diffs)[number]) => (dropped.includes(d) ? 0 : verdictFlips.includes(d) ? 1 : 2);
+        const shown = [...diffs].sort((a, b) => rank(a) - rank(b)).slice(0, limit);
+
+        const baseline = since !== undefined ? `the last inspection before ${since}` : 'the previous inspection';
+        const data = diffs.length === 0
+          ? `_No status changes between the latest inspection and ${baseline}._`
+          : [
+              '| URL | Before | After | Changes |',
+              '| --- | --- | --- | --- |',
+              ...shown.map((d) => {
+                const changes = [...d.changes.map(formatFieldChange), ...(d.recrawled ? ['recrawled'] : [])];
+                return `| ${d.url} | ${d.before.inspectedAt.slice(0, 10)} | ${d.after.inspectedAt.slice(0, 10)} | ${changes.join('; ')} |`;
+              }),
+            ].join('\n');
+
+        const summary = histories.length === 0
+          ? `No inspections recorded for ${siteUrl} yet.`
+          : `${diffs.length} of ${histories.length} inspected URL(s) changed status compared with ${baseline}: ${dropped.length} lost the indexed verdict, ${gained.length} gained it${otherFlips > 0 ? `, ${otherFlips} moved between other verdicts` : ''}.`;
+
+        const recommendations: string[] = [];
+        if (histories.length === 0) {
+          recommendations.push('Run inspect_url, batch_inspect_urls or check_indexing_issues; every inspection from then on is recorded.');
+        }
+        if (dropped.length > 0) {
+          recommendations.push(`${dropped.length} URL(s) dropped out of the index. Start with ${dropped[0]!.url} and use get_inspection_history in timeline mode to see when it changed.`);
+        }
+        if (diffs.some((d) => d.changes.some((c) => c.field === 'googleCanonical'))) {
+          recommendations.push('Google changed its chosen canonical for some URLs. Check for duplicate content and inconsistent canonical signals.');
+        }
+        if (histories.length > 0 && recommendations.length === 0) {
+          recommendations.push('No URLs lost their indexed status.');
+        }
+
+        const limitations = [
+          'Only URLs inspected at least twice, and again after since when it is given, can be compared.',
+          'Inspections are only recorded when this server calls the URL Inspection API; cached results are not recorded again.',
+          ...(diffs.length > limit ? [`Showing ${limit} of ${diffs.length} changed URLs.`] : []),
+        ];
+
+        const text = formatToolResponse(createToolResponse(data, summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
 }
 
 // ── Utility ──────────────────────────────────────────────────────────────────
@@ -10,13 +10,13 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { GscApiClient } from '../../api/client.js';
 import type { SearchAnalyticsRow, SearchAnalyticsRequest } from '../../api/types.js';
-import { getExpectedCtr, analyzeCtr } from '../../analysis/ctr-benchmarks.js';
+import { getExpectedCtr, analyzeCtr, hasRankingPosition } from '../../analysis/ctr-benchmarks.js';
 import { detectTrend, type TrendPoint } from '../../analysis/trend-detector.js';
 import { classifyQuery, classifyQueries } from '../../analysis/query-classifier.js';
 import { getDateRange, getPreviousPeriod, type DatePeriod } from '../../utils/date-helpers.js';
 import { formatNumber, formatPercent, formatPosition, formatChange } from '../../utils/formatting.js';
-import { siteUrlSchema, periodSchema, searchTypeSchema } from '../schemas.js';
-import { GscError } from '../../errors/gsc-error.js';
+import { siteUrlSchema, periodSchema, searchTypeSchema, collectNotices } from '../schemas.js';
+import { GscError, ValidationError } from '../../errors/gsc-error.js';
 
 // ---------------------------------------------------------------------------
 // Shared helpers
@@ -155,6 +155,14 @@ export function registerOpportunityTools(server: McpServer, api: GscApiClient):
     },
     async ({ siteUrl, period, searchType, minImpressions }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
+        if (!hasRankingPosition(searchType)) {
+          throw new ValidationError(`find_quick_wins scores queries by ranking position, and ${searchType} results have neither queries nor positions.`, {
+            recoveryHint: `Use weekly_seo_report with searchType "${searchType}" for pages with a CTR below the surface's benchmark.`,
+            fieldErrors: { searchType: ['Must be a search type with ranking positions (web, image, video or news).'] },
+          });
+        }
+
         const dateRange = resolveDateRange(period as DatePeriod);
         const request = buildRequest({
           siteUrl,
@@ -301,6 +309,9 @@ export function registerOpportunityTools(server: McpServer, api: GscApiClient):
         for (const limitation of SHARED_LIMITATIONS) {
           parts.push(`- ${limitation}`);
         }
+        for (const notice of collectNotices(response)) {
+          parts.push(`- ${notice}`);
+        }
         parts.push(`- "Additional clicks" estimates assume CTR would match industry benchmarks; actual results depend on SERP features, competition, and user intent.`);
 
         return { content: [{ type: 'text' as const, text: parts.join('\n') }] };
@@ -324,6 +335,7 @@ export function registerOpportunityTools(server: McpServer, api: GscApiClient):
     },
     async ({ siteUrl, period, searchType, minClicksInPrevious }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
         const currentRange = resolveDateRange(period as DatePeriod);
         const previousRange = getPreviousPeriod(currentRange.startDate, currentRange.endDate);
 
@@ -486,6 +498,9 @@ export function registerOpportunityTools(server: McpServer, api: GscApiClient):
         for (const limitation of SHARED_LIMITATIONS) {
           parts.push(`- ${limitation}`);
         }
+        for (const notice of collectNotices(currentResponse, previousResponse)) {
+          parts.push(`- ${notice}`);
+        }
         parts.push(`- Period-over-period comparison assumes equal-length periods. Seasonal effects are not adjusted for.`);
         parts.push(`- Pages that did not exist in the previous period are excluded from this analysis.`);
 
@@ -510,6 +525,14 @@ export function registerOpportunityTools(server: McpServer, api: GscApiClient):
     },
     async ({ siteUrl, period, searchType, minImpressions }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
+        if (!hasRankingPosition(searchType)) {
+          throw new ValidationError(`find_ctr_opportunities compares CTR to position benchmarks, and ${searchType} results have no ranking position.`, {
+            recoveryHint: `Use ${searchType === 'discover' ? 'get_discover_performance' : 'get_google_news_performance'} for page reach, lifespan and CTR on this surface.`,
+            fieldErrors: { searchType: ['Must be a search type with ranking positions (web, image, video or news).'] },
+          });
+        }
+
         const dateRange = resolveDateRange(period as DatePeriod);
         const request = buildRequest({
           siteUrl,
@@ -673,6 +696,9 @@ export function registerOpportunityTools(server: McpServer, api: GscApiClient):
         for (const limitation of SHARED_LIMITATIONS) {
           parts.push(`- ${limitation}`);
         }
+        for (const notice of collectNotices(response)) {
+          parts.push(`- ${notice}`);
+        }
         parts.push(`- CTR benchmarks are industry averages. Some queries naturally have lower CTR due to SERP features (maps, images, knowledge panels).`);
         parts.push(`- Branded queries often have higher CTR than benchmarks; non-branded queries may naturally be lower.`);
 
@@ -697,6 +723,7 @@ export function registerOpportunityTools(server: McpServer, api: GscApiClient):
     },
     async ({ siteUrl, period, searchType, minImpressions }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
         const currentRange = resolveDateRange(period as DatePeriod);
         const previousRange = getPreviousPeriod(currentRange.startDate, currentRange.endDate);
 
@@ -971,6 +998,9 @@ export function registerOpportunityTools(server: McpServer, api: GscApiClient):
         for (const limitation of SHARED_LIMITATIONS) {
           parts.push(`- ${limitation}`);
         }
+        for (const notice of collectNotices(currentResponse, previousQueryResponse)) {
+          parts.push(`- ${notice}`);
+        }
         parts.push(`- "New queries" may include queries that simply fell below the reporting threshold in the previous period.`);
         parts.push(`- Homepage detection uses URL path heuristics and may not be accurate for all site structures.`);
         parts.push(`- Topic clustering uses simple prefix matching. Manual review is recommended for accurate topic grouping.`);
@@ -996,6 +1026,7 @@ export function registerOpportunityTools(server: McpServer, api: GscApiClient):
     },
     async ({ siteUrl, period, searchType, minImpressions }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
         const dateRange = resolveDateRange(period as DatePeriod);
         const request = buildRequest({
           siteUrl,
@@ -1263,6 +1294,9 @@ export function registerOpportunityTools(server: McpServer, api: GscApiClient):
         for (const limitation of SHARED_LIMITATIONS) {
           parts.push(`- ${limitation}`);
         }
+        for (const notice of collectNotices(response)) {
+          parts.push(`- ${notice}`);
+        }
         parts.push(`- Query intent classification uses pattern-based rules and may misclassify ambiguous queries.`);
         parts.push(`- Topic clustering uses simplified keyword matching. Manual review and refinement of topic groups is recommended.`);
         parts.push(`- This analysis shows what users search for, not what they ultimately need. Complement with customer research and competitor analysis.`);
@@ -0,0 +1,49 @@
+/**
+ * Result paging tools.
+ *
+ * Provides one tool:
+ *   - get_next_page: Continue a paged result from the cursor a previous tool call returned
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { GscApiClient } from '../../api/client.js';
+import { cursorSchema, formatCursorPage } from '../schemas.js';
+import { GscError } from '../../errors/gsc-error.js';
+import { ResultCursors } from '../../cache/result-cursors.js';
+
+/**
+ * Format an error into an MCP tool error response.
+ */
+function errorResponse(error: unknown) {
+  const message =
+    error instanceof GscError
+      ? `${error.message}${error.recoveryHint ? `\n\nHint: ${error.recoveryHint}` : ''}`
+      : error instanceof Error
+        ? error.message
+        : 'An unexpected error occurred.';
+
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true,
+  };
+}
+
+export function registerPaginationTools(server: McpServer, api: GscApiClient): void {
+  const cursors = new ResultCursors(api.cache);
+
+  // ── get_next_page ────────────────────────────────────────────────────
+  server.tool(
+    'get_next_page',
+    'Return the next page of a large tool result, using the cursor that result ended with',
+    {
+      cursor: cursorSchema,
+    },
+    async ({ cursor }) => {
+      try {
+        return { content: [{ type: 'text' as const, text: formatCursorPage(cursors.next(cursor)) }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+}
@@ -9,28 +9,41 @@ import {
   dimensionSchema,
   filterOperatorSchema,
   dimensionFilterSchema,
+  filterGroupsSchema,
   dataStateSchema,
   rowLimitSchema,
   aggregationTypeSchema,
+  pageSizeSchema,
+  cursorSchema,
   dateRangeSchema,
   createToolResponse,
   formatToolResponse,
+  collectNotices,
+  formatTablePage,
+  formatCursorPage,
 } from '../schemas.js';
-import { getDateRange, getPreviousPeriod } from '../../utils/date-helpers.js';
+import { addDays, getDateRange, getPacificDate, getPreviousPeriod } from '../../utils/date-helpers.js';
 import {
   formatNumber,
   formatPercent,
   formatPosition,
   formatChange,
+  formatPositionChange,
 } from '../../utils/formatting.js';
-import { getExpectedCtr, analyzeCtr } from '../../analysis/ctr-benchmarks.js';
+import { getExpectedCtr, analyzeCtr, hasRankingPosition } from '../../analysis/ctr-benchmarks.js';
+import { compareHourly, findHourlyAnomalies } from '../../analysis/intraday.js';
+import type { IntradayComparison } from '../../analysis/intraday.js';
+import { countryName, findTargetingMismatches } from '../../analysis/country-targeting.js';
+import { appearanceLabel, computeAppearanceUplift } from '../../analysis/search-appearance.js';
+import { compileFilterGroups, mergeFilterResults } from '../../api/filter-compiler.js';
+import { validateFilterInput } from '../../api/filter-validation.js';
 import type {
   SearchAnalyticsRequest,
   SearchAnalyticsRow,
   DimensionFilter,
-  DimensionFilterGroup,
 } from '../../api/types.js';
-import { GscError } from '../../errors/gsc-error.js';
+import { GscError, ValidationError } from '../../errors/gsc-error.js';
+import { ResultCursors, DEFAULT_PAGE_SIZE } from '../../cache/result-cursors.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -40,13 +53,18 @@ import { GscError } from '../../errors/gsc-error.js';
  * Format an error into an MCP tool error response.
  */
 function errorResponse(error: unknown) {
-  const message =
+  let message =
     error instanceof GscError
       ? `${error.message}${error.recoveryHint ? `\n\nHint: ${error.recoveryHint}` : ''}`
       : error instanceof Error
         ? error.message
         : 'An unexpected error occurred.';
 
+  if (error instanceof ValidationError && Object.keys(error.fieldErrors).length > 0) {
+    const fields = Object.entries(error.fieldErrors).map(([field, errors]) => `- ${field}: ${errors.join('; ')}`);
+    message += `\n\nField errors:\n${fields.join('\n')}`;
+  }
+
   return {
     content: [{ type: 'text' as const, text: message }],
     isError: true,
@@ -76,11 +94,40 @@ function performanceEmoji(perf: string): string {
   }
 }
 
+/** Format an hour of the day (0-23) as "14:00". */
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+/** Weekday name of a YYYY-MM-DD date, e.g. "Monday". */
+function weekdayName(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+}
+
+/** Markdown section for one day of an intraday comparison. */
+function formatIntradayDay(label: string, day: IntradayComparison): string[] {
+  const lines = [`### ${label} (${day.date}) vs ${weekdayName(day.baselineDate)} ${day.baselineDate}\n`];
+  if (day.hours.length === 0) {
+    lines.push('_No hourly data reported yet._');
+    return lines;
+  }
+  lines.push('| Hour (PT) | Clicks | Last Week | Change | Impressions | Last Week |');
+  lines.push('| --- | ---: | ---: | ---: | ---: | ---: |');
+  for (const h of day.hours) {
+    lines.push(
+      `| ${formatHour(h.hour)} | ${formatNumber(h.clicks)} | ${formatNumber(h.baselineClicks)} | ${formatChange(h.clicks, h.baselineClicks)} | ${formatNumber(h.impressions)} | ${formatNumber(h.baselineImpressions)} |`,
+    );
+  }
+  lines.push(`| **Total** | **${formatNumber(day.clicks)}** | **${formatNumber(day.baselineClicks)}** | **${formatChange(day.clicks, day.baselineClicks)}** | | |`);
+  return lines;
+}
+
 // ---------------------------------------------------------------------------
 // Registration
 // ---------------------------------------------------------------------------
 
 export function registerPerformanceTools(server: McpServer, api: GscApiClient): void {
+  const cursors = new ResultCursors(api.cache);
 
   // ========================================================================
   // Tool 1: get_search_analytics
@@ -89,22 +136,50 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
     'get_search_analytics',
     'Query raw Google Search Console search analytics data with flexible parameters',
     {
-      siteUrl: siteUrlSchema,
-      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Start date in YYYY-MM-DD format'),
-      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('End date in YYYY-MM-DD format'),
-      dimensions: z.array(dimensionSchema).optional().describe('Dimensions to group by (e.g. query, page, date, country, device, searchAppearance)'),
+      siteUrl: siteUrlSchema.optional().describe(`${siteUrlSchema.description}. Required unless cursor is passed`),
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Start date in YYYY-MM-DD format. Required unless cursor is passed'),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('End date in YYYY-MM-DD format. Required unless cursor is passed'),
+      dimensions: z.array(dimensionSchema).optional().describe('Dimensions to group by (e.g. query, page, date, hour, country, device, searchAppearance)'),
       searchType: searchTypeSchema.optional().default('web'),
-      filters: z.array(dimensionFilterSchema).optional().describe('Dimension filters to apply'),
+      filters: z.array(dimensionFilterSchema).optional().describe('Dimension filters to apply (all must match)'),
+      filterGroups: filterGroupsSchema.optional(),
       rowLimit: rowLimitSchema.optional().default(1000),
       dataState: dataStateSchema.optional().default('all'),
       aggregationType: aggregationTypeSchema.optional().default('auto'),
+      pageSize: pageSizeSchema.optional().describe(`Rows to show per page (1-1000, default ${DEFAULT_PAGE_SIZE}); a cursor is returned when more rows remain. With a cursor, changes the page size from that page on`),
+      cursor: cursorSchema.optional().describe('Cursor from a previous get_search_analytics result; returns its next page. The query parameters are then not needed and are ignored'),
     },
-    async (params) => {
+    async (input) => {
       try {
-        const dimensionFilterGroups: DimensionFilterGroup[] | undefined =
-          params.filters && params.filters.length > 0
-            ? [{ groupType: 'and' as const, filters: params.filters }]
-            : undefined;
+        if (input.cursor) {
+          return { content: [{ type: 'text' as const, text: formatCursorPage(cursors.next(input.cursor, input.pageSize)) }] };
+        }
+        const { siteUrl, startDate, endDate } = input;
+        if (siteUrl === undefined || startDate === undefined || endDate === undefined) {
+          const missing = Object.entries({ siteUrl, startDate, endDate }).filter(([, value]) => value === undefined);
+          throw new ValidationError('siteUrl, startDate and endDate are required unless a cursor is passed.', {
+            recoveryHint: 'Pass siteUrl, startDate and endDate to run a query, or pass only cursor to continue a previous result.',
+            fieldErrors: Object.fromEntries(missing.map(([field]) => [field, ['Required unless cursor is passed.']])),
+          });
+        }
+        const params = { ...input, siteUrl: await api.resolveSiteUrl(siteUrl), startDate, endDate };
+
+        validateFilterInput(params.filters, params.filterGroups);
+
+        // Logic the API cannot express may take several requests.
+        const filterPlan = compileFilterGroups(
+          [{ groupType: 'and', filters: [...(params.filters ?? []), ...(params.filterGroups ?? [])] }],
+          params.dimensions,
+        );
+
+        // Hourly rows only exist in the hourly_all data state.
+        const hourly = params.dimensions?.includes('hour') ?? false;
+        if (hourly && params.dataState === 'final') {
+          throw new ValidationError('The hour dimension cannot be combined with dataState "final".', {
+            recoveryHint: 'Hourly data is never finalized. Omit dataState or pass "hourly_all".',
+            fieldErrors: { dataState: ['Must be "hourly_all" (or omitted) when grouping by hour.'] },
+          });
+        }
 
         const request: SearchAnalyticsRequest = {
           siteUrl: params.siteUrl,
@@ -112,14 +187,24 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
           endDate: params.endDate,
           dimensions: params.dimensions,
           searchType: params.searchType,
-          dimensionFilterGroups,
           rowLimit: params.rowLimit,
-          dataState: params.dataState,
+          dataState: hourly ? 'hourly_all' : params.dataState,
           aggregationType: params.aggregationType,
         };
 
-        const response = await api.querySearchAnalytics(request);
-        const rows = response.rows;
+        // Summed branches need every row: a row cut from one branch's top
+        // rowLimit may still rank in the combined top once its parts add up.
+        const fetchAll = filterPlan.merge === 'sum' && filterPlan.requests.length > 1;
+        const responses = await Promise.all(
+          filterPlan.requests.map((dimensionFilterGroups) => {
+            const branch: SearchAnalyticsRequest = {
+              ...request,
+              dimensionFilterGroups: dimensionFilterGroups.length > 0 ? dimensionFilterGroups : undefined,
+            };
+            return fetchAll ? api.querySearchAnalyticsAllRows(branch) : api.querySearchAnalytics(branch);
+          }),
+        );
+        const rows = mergeFilterResults(filterPlan, responses.map((r) => r.rows), params.rowLimit);
 
         if (rows.length === 0) {
           const text = formatToolResponse(createToolResponse(
@@ -154,7 +239,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
           ];
 
           if (hasCtrRelevantDim) {
-            const analysis = analyzeCtr(row.position, row.ctr);
+            const analysis = analyzeCtr(row.position, row.ctr, params.searchType);
             metricCols.push(formatPercent(analysis.expectedCtr));
             metricCols.push(performanceEmoji(analysis.performance));
           }
@@ -162,7 +247,13 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
           return `| ${[...keyCols, ...metricCols].join(' | ')} |`;
         });
 
-        const table = [tableHeader, tableSep, ...tableRows].join('\n');
+        const page = cursors.paginate({
+          siteUrl: params.siteUrl,
+          title: `**${params.siteUrl}**, ${params.startDate} to ${params.endDate}${dims.length > 0 ? ` by ${dims.join(', ')}` : ''}`,
+          header: [tableHeader, tableSep],
+          rows: tableRows,
+        }, params.pageSize ?? DEFAULT_PAGE_SIZE);
+        const table = formatTablePage(page);
 
         // Totals
         const totalClicks = rows.reduce((s, r) => s + r.clicks, 0);
@@ -178,6 +269,11 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
         const limitations = [
           'GSC data may be delayed by 2-3 days.',
           'Position and CTR are averages and may not reflect individual query performance.',
+          ...(hourly ? ['Hourly data covers only the last few days, is reported in Pacific Time, and keeps updating for the current day.'] : []),
+          ...(filterPlan.requests.length > 1
+            ? [`The filter logic was answered with ${filterPlan.requests.length} API requests whose rows were ${filterPlan.merge === 'sum' ? 'summed (position is impression-weighted)' : 'merged'}.`]
+            : []),
+          ...collectNotices(...responses),
         ];
 
         const text = formatToolResponse(createToolResponse(table, summary, recommendations, limitations));
@@ -201,6 +297,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
     },
     async (params) => {
       try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
         const currentRange = getDateRange(params.period);
         const previousRange = getPreviousPeriod(currentRange.startDate, currentRange.endDate);
 
@@ -277,6 +374,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
           'Totals are aggregated across all queries and pages.',
           'GSC data may be delayed by 2-3 days; recent data may still update.',
           'Position is an average and can be skewed by low-impression queries.',
+          ...collectNotices(currentResponse, previousResponse),
         ];
 
         const text = formatToolResponse(createToolResponse(table, summary, recommendations, limitations));
@@ -304,6 +402,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
     },
     async (params) => {
       try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
         const baseRequest = {
           siteUrl: params.siteUrl,
           searchType: params.searchType,
@@ -325,6 +424,10 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
         ]);
 
         const dims = params.dimensions ?? [];
+        const sourceNotices = [
+          ...(response1.notices ?? []).map((n) => `Period 1: ${n}`),
+          ...(response2.notices ?? []).map((n) => `Period 2: ${n}`),
+        ];
 
         if (dims.length === 0) {
           // Aggregate comparison (no dimensions)
@@ -348,6 +451,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
           const text = formatToolResponse(createToolResponse(table, summary, [], [
             'GSC data may be delayed by 2-3 days.',
             'Periods of different lengths may produce misleading comparisons.',
+            ...sourceNotices,
           ]));
           return { content: [{ type: 'text' as const, text }] };
         }
@@ -420,6 +524,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
           'GSC data may be delayed by 2-3 days.',
           'Periods of different lengths may produce misleading comparisons.',
           'Results capped at 50 rows sorted by absolute click change.',
+          ...sourceNotices,
         ]));
         return { content: [{ type: 'text' as const, text }] };
       } catch (error) {
@@ -445,6 +550,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
     },
     async (params) => {
       try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
         const dateRange = getDateRange(params.period);
 
         // Build dimension filters
@@ -525,6 +631,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
           'GSC data may be delayed by 2-3 days.',
           'CTR benchmarks are industry averages and may vary by query type, SERP features, and industry.',
           'Anonymous or rare queries may be grouped or omitted by Google.',
+          ...collectNotices(queryResponse, totalsResponse),
         ];
 
         const text = formatToolResponse(createToolResponse(table, summary, recommendations, limitations));
@@ -551,6 +658,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
     },
     async (params) => {
       try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
         const dateRange = getDateRange(params.period);
 
         // Build dimension filters
@@ -601,7 +709,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
 
         const tableRows = rows.map((row, i) => {
           const page = row.keys[0] ?? '';
-          const analysis = analyzeCtr(row.position, row.ctr);
+          const analysis = analyzeCtr(row.position, row.ctr, params.searchType);
 
           return `| ${i + 1} | ${page} | ${formatNumber(row.clicks)} | ${formatNumber(row.impressions)} | ${formatPercent(row.ctr)} | ${formatPosition(row.position)} | ${formatPercent(analysis.expectedCtr)} | ${performanceEmoji(analysis.performance)} |`;
         });
@@ -623,7 +731,9 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
         }
 
         // Find pages with good position but poor CTR
-        const goodPositionPoorCtr = rows.filter(r => r.position <= 5 && r.ctr < getExpectedCtr(r.position) * 0.5);
+        const goodPositionPoorCtr = hasRankingPosition(params.searchType)
+          ? rows.filter(r => r.position <= 5 && r.ctr < getExpectedCtr(r.position) * 0.5)
+          : [];
         if (goodPositionPoorCtr.length > 0) {
           recommendations.push('Pages ranking well (top 5) but underperforming on CTR -- consider rich snippets or better meta descriptions:');
           goodPositionPoorCtr.slice(0, 3).forEach(r => {
@@ -635,6 +745,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
           'GSC data may be delayed by 2-3 days.',
           'Page URLs are reported as they appear in the index and may differ from canonical URLs.',
           'CTR benchmarks are industry averages and vary by SERP features present.',
+          ...collectNotices(pageResponse, totalsResponse),
         ];
 
         const text = formatToolResponse(createToolResponse(table, summary, recommendations, limitations));
@@ -658,6 +769,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
     },
     async (params) => {
       try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
         const dateRange = getDateRange(params.period);
 
         const response = await api.querySearchAnalytics({
@@ -761,6 +873,7 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
           'GSC data may be delayed by 2-3 days.',
           'Device categorization is determined by Google and may not perfectly match your analytics tool.',
           'Position is averaged across all queries per device and may not reflect individual query performance.',
+          ...collectNotices(response),
         ];
 
         const text = formatToolResponse(createToolResponse(table, summary, recommendations, limitations));
@@ -770,4 +883,391 @@ export function registerPerformanceTools(server: McpServer, api: GscApiClient):
       }
     },
   );
+
+  // ========================================================================
+  // Tool 7: get_intraday_performance
+  // ========================================================================
+  server.tool(
+    'get_intraday_performance',
+    "Show today's and yesterday's hourly clicks against the same hours last week, flagging sudden drops (outages) and spikes (launches)",
+    {
+      siteUrl: siteUrlSchema,
+      searchType: searchTypeSchema.optional().default('web'),
+    },
+    async (params) => {
+      try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
+        // Hourly data is keyed on the Pacific calendar. One query covers
+        // yesterday's baseline (8 days ago) through today.
+        const today = getPacificDate();
+        const yesterday = addDays(today, -1);
+
+        const response = await api.querySearchAnalytics({
+          siteUrl: params.siteUrl,
+          startDate: addDays(today, -8),
+          endDate: today,
+          dimensions: ['hour'],
+          searchType: params.searchType,
+          dataState: 'hourly_all',
+          rowLimit: 25_000,
+        });
+
+        const todayCmp = compareHourly(response.rows, today);
+        const yesterdayCmp = compareHourly(response.rows, yesterday);
+
+        if (todayCmp.hours.length === 0 && yesterdayCmp.hours.length === 0) {
+          const text = formatToolResponse(createToolResponse(
+            '_No hourly data found for today or yesterday._',
+            'No hourly search analytics data returned.',
+            ['Hourly data can lag by a few hours. Try again later, or check that the property has recent search traffic.'],
+            ['Hourly data is reported in Pacific Time.'],
+          ));
+          return { content: [{ type: 'text' as const, text }] };
+        }
+
+        const parts = [
+          ...formatIntradayDay('Today', todayCmp),
+          '',
+          ...formatIntradayDay('Yesterday', yesterdayCmp),
+        ];
+
+        const anomalies = [...findHourlyAnomalies(todayCmp), ...findHourlyAnomalies(yesterdayCmp)];
+
+        const summaryParts: string[] = [];
+        if (todayCmp.hours.length > 0) {
+          summaryParts.push(`Today through ${formatHour(todayCmp.hours[todayCmp.hours.length - 1]!.hour)} PT: ${formatNumber(todayCmp.clicks)} clicks (${formatChange(todayCmp.clicks, todayCmp.baselineClicks)} vs the same hours last ${weekdayName(todayCmp.baselineDate)}).`);
+        } else {
+          summaryParts.push('No hourly data has been reported for today yet.');
+        }
+        if (yesterdayCmp.hours.length > 0) {
+          summaryParts.push(`Yesterday: ${formatNumber(yesterdayCmp.clicks)} clicks (${formatChange(yesterdayCmp.clicks, yesterdayCmp.baselineClicks)} vs the week before).`);
+        }
+        summaryParts.push(anomalies.length > 0
+          ? `${anomalies.length} hour(s) moved sharply against last week.`
+          : 'No hour moved sharply against last week.');
+        const summary = summaryParts.join(' ');
+
+        const recommendations: string[] = [];
+        for (const a of anomalies) {
+          const when = `${a.date === today ? 'Today' : 'Yesterday'} at ${formatHour(a.hour)} PT`;
+          recommendations.push(a.kind === 'drop'
+            ? `${when} clicks fell ${Math.abs(a.changePercent).toFixed(0)}% vs last week. Check for outages, deploys, robots.txt or noindex changes around that time.`
+            : `${when} clicks rose ${a.changePercent.toFixed(0)}% vs last week. If this follows a launch or news coverage, check which pages and queries drove it with get_search_analytics.`);
+        }
+
+        const limitations = [
+          'Hourly data is reported in Pacific Time and the latest hours keep updating for a while.',
+          'Only the last few days of hourly data are available from the API.',
+          'Hours with fewer than 10 clicks last week are not flagged, to avoid noise.',
+          ...collectNotices(response),
+        ];
+
+        const text = formatToolResponse(createToolResponse(parts.join('\n'), summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+
+  // ========================================================================
+  // Tool 8: get_traffic_by_country
+  // ========================================================================
+  server.tool(
+    'get_traffic_by_country',
+    'Get traffic by country with period-over-period change, and flag pages that rank mainly in countries their URL locale does not target',
+    {
+      siteUrl: siteUrlSchema,
+      period: periodSchema.optional().default('last28d'),
+      searchType: searchTypeSchema.optional().default('web'),
+      limit: z.number().min(1).max(250).optional().default(25).describe('Number of top countries to list'),
+    },
+    async (params) => {
+      try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
+        const currentRange = getDateRange(params.period);
+        const previousRange = getPreviousPeriod(currentRange.startDate, currentRange.endDate);
+        const baseRequest = {
+          siteUrl: params.siteUrl,
+          searchType: params.searchType,
+          dataState: 'all' as const,
+        };
+
+        const [currentResponse, previousResponse, pageResponse] = await Promise.all([
+          api.querySearchAnalytics({
+            ...baseRequest,
+            ...currentRange,
+            dimensions: ['country'],
+            rowLimit: 1000,
+          }),
+          api.querySearchAnalytics({
+            ...baseRequest,
+            ...previousRange,
+            dimensions: ['country'],
+            rowLimit: 1000,
+          }),
+          api.querySearchAnalytics({
+            ...baseRequest,
+            ...currentRange,
+            dimensions: ['page', 'country'],
+            rowLimit: 25_000,
+          }),
+        ]);
+
+        const rows = [...currentResponse.rows].sort((a, b) => b.clicks - a.clicks);
+
+        if (rows.length === 0) {
+          const text = formatToolResponse(createToolResponse(
+            '_No country data found for the specified parameters._',
+            'No country data returned.',
+            ['Try broadening your date range.'],
+            [],
+          ));
+          return { content: [{ type: 'text' as const, text }] };
+        }
+
+        const previousByCountry = new Map<string, SearchAnalyticsRow>();
+        for (const row of previousResponse.rows) {
+          previousByCountry.set((row.keys[0] ?? '').toLowerCase(), row);
+        }
+
+        const totalClicks = rows.reduce((s, r) => s + r.clicks, 0);
+
+        const tableRows = rows.slice(0, params.limit).map((row) => {
+          const code = (row.keys[0] ?? '').toLowerCase();
+          const prev = previousByCountry.get(code);
+          const clickPct = totalClicks > 0 ? ((row.clicks / totalClicks) * 100).toFixed(1) + '%' : '0%';
+          const clicksChange = prev ? formatChange(row.clicks, prev.clicks) : 'new';
+          const impressionsChange = prev ? formatChange(row.impressions, prev.impressions) : 'new';
+          const positionChange = prev ? formatPositionChange(row.position, prev.position) : '-';
+
+          return `| ${countryName(code)} (${code.toUpperCase()}) | ${formatNumber(row.clicks)} | ${clickPct} | ${clicksChange} | ${formatNumber(row.impressions)} | ${impressionsChange} | ${formatPercent(row.ctr)} | ${formatPosition(row.position)} | ${positionChange} |`;
+        });
+
+        const parts = [
+          '| Country | Clicks | % of Clicks | Clicks Change | Impressions | Impressions Change | CTR | Avg Position | Position Change |',
+          '| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+          ...tableRows,
+          '',
+          `*Current period: ${currentRange.startDate} to ${currentRange.endDate}*`,
+          `*Previous period: ${previousRange.startDate} to ${previousRange.endDate}*`,
+        ];
+
+        const mismatches = findTargetingMismatches(pageResponse.rows);
+        if (mismatches.length > 0) {
+          parts.push(
+            '',
+            '### Pages Ranking Outside Their Target Countries',
+            '',
+            '| Page | Locale | Targets | Impressions | Top Country | Targeted Share |',
+            '| --- | --- | --- | ---: | --- | ---: |',
+            ...mismatches.slice(0, 20).map((m) => {
+              const targets = m.locale.countries.map((c) => c.toUpperCase()).join(', ');
+              return `| ${m.page} | ${m.locale.code} | ${targets} | ${formatNumber(m.impressions)} | ${countryName(m.topCountry)} (${formatPercent(m.topCountryShare, 0)}) | ${formatPercent(m.targetedShare, 0)} |`;
+            }),
+          );
+        }
+
+        const top = rows[0]!;
+        const topShare = totalClicks > 0 ? top.clicks / totalClicks : 0;
+        const summary = [
+          `${params.siteUrl} appeared in search results in ${rows.length} countries during ${params.period}.`,
+          `${countryName(top.keys[0] ?? '')} leads with ${formatNumber(top.clicks)} clicks (${formatPercent(topShare)} of the total).`,
+          mismatches.length > 0
+            ? `${mismatches.length} page(s) get most of their impressions outside the countries their URL targets.`
+            : 'No localized page ranks mainly outside its target countries.',
+        ].join(' ');
+
+        const recommendations: string[] = [];
+
+        for (const row of rows.slice(0, params.limit)) {
+          const code = (row.keys[0] ?? '').toLowerCase();
+          const prev = previousByCountry.get(code);
+          const change = prev ? pctChange(row.clicks, prev.clicks) : null;
+          if (prev && prev.clicks >= 50 && change !== null && change < -25) {
+            recommendations.push(
+              `Clicks from ${countryName(code)} fell ${Math.abs(change).toFixed(0)}% vs the previous period. Check whether rankings dropped there specifically with get_search_analytics filtered to country "${code}".`,
+            );
+          }
+        }
+
+        if (mismatches.length > 0) {
+          const worst = mismatches[0]!;
+          recommendations.push(
+            `${worst.page} targets ${worst.locale.code} but ${formatPercent(worst.topCountryShare, 0)} of its impressions come from ${countryName(worst.topCountry)}. ` +
+            'Check its hreflang annotations (including the return links and an x-default) so Google can serve the right alternate in each country.',
+          );
+        }
+
+        if (topShare > 0.8 && rows.length > 1) {
+          recommendations.push(
+            `${countryName(top.keys[0] ?? '')} drives ${formatPercent(topShare)} of clicks. If you want to grow elsewhere, localized content and hreflang are the main levers.`,
+          );
+        }
+
+        if (recommendations.length === 0) {
+          recommendations.push('Country performance is stable. Continue monitoring for shifts in where your traffic comes from.');
+        }
+
+        const limitations = [
+          'GSC data may be delayed by 2-3 days.',
+          'Country is inferred by Google from the searcher\'s location, not their language.',
+          'Target countries are read from locale codes in the URL path or subdomain; Search Console does not report hreflang annotations, and bare /en/ folders target no single country.',
+          ...(pageResponse.rows.length === 25_000
+            ? ['The targeting check covers the first 25,000 page and country rows.']
+            : []),
+          ...collectNotices(currentResponse, previousResponse, pageResponse),
+        ];
+
+        const text = formatToolResponse(createToolResponse(parts.join('\n'), summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+
+  // ========================================================================
+  // Tool 9: get_search_appearance_performance
+  // ========================================================================
+  server.tool(
+    'get_search_appearance_performance',
+    'List every search appearance (rich result) type the site earns, with the pages and queries behind each and the CTR uplift over the same pages without it',
+    {
+      siteUrl: siteUrlSchema,
+      period: periodSchema.optional().default('last28d'),
+      searchType: searchTypeSchema.optional().default('web'),
+      maxTypes: z.number().min(1).max(20).optional().default(10).describe('Maximum number of appearance types to drill into'),
+      limit: z.number().min(1).max(100).optional().default(10).describe('Pages and queries to list per appearance type'),
+    },
+    async (params) => {
+      try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
+        const dateRange = getDateRange(params.period);
+        const baseRequest = {
+          siteUrl: params.siteUrl,
+          startDate: dateRange.startDate,
+          endDate: dateRange.endDate,
+          searchType: params.searchType,
+          dataState: 'all' as const,
+        };
+
+        // Step 1: list the appearance types, alongside every page's totals
+        // for the uplift baseline.
+        const [typesResponse, pageTotalsResponse] = await Promise.all([
+          api.querySearchAnalytics({ ...baseRequest, dimensions: ['searchAppearance'] }),
+          api.querySearchAnalytics({ ...baseRequest, dimensions: ['page'], rowLimit: 25_000 }),
+        ]);
+
+        const types = [...typesResponse.rows].sort((a, b) => b.impressions - a.impressions);
+
+        if (types.length === 0) {
+          const text = formatToolResponse(createToolResponse(
+            '_No search appearance data found for the specified parameters._',
+            `${params.siteUrl} earned no rich results or special search appearances during ${params.period}.`,
+            [
+              'Add structured data (Product, Review, FAQ, Video, Recipe, Event...) to eligible pages and validate it with the Rich Results Test.',
+            ],
+            ['Only appearance types Google reports in Search Console are listed.', ...collectNotices(typesResponse)],
+          ));
+          return { content: [{ type: 'text' as const, text }] };
+        }
+
+        // Step 2: filter on each type to find the pages and queries behind it.
+        const drilled = types.slice(0, params.maxTypes);
+        const details = await Promise.all(
+          drilled.map(async (typeRow) => {
+            const type = typeRow.keys[0] ?? '';
+            const filters: DimensionFilter[] = [{ dimension: 'searchAppearance', operator: 'equals', expression: type }];
+            const dimensionFilterGroups = [{ groupType: 'and' as const, filters }];
+            const [pageResponse, queryResponse] = await Promise.all([
+              api.querySearchAnalytics({ ...baseRequest, dimensions: ['page'], dimensionFilterGroups, rowLimit: 5000 }),
+              api.querySearchAnalytics({ ...baseRequest, dimensions: ['query'], dimensionFilterGroups, rowLimit: params.limit }),
+            ]);
+            return {
+              type,
+              row: typeRow,
+              uplift: computeAppearanceUplift(pageResponse.rows, pageTotalsResponse.rows),
+              queries: queryResponse.rows,
+              responses: [pageResponse, queryResponse],
+            };
+          }),
+        );
+
+        const formatUplift = (uplift: number | null): string =>
+          uplift === null ? 'N/A' : `${uplift >= 0 ? '+' : ''}${uplift.toFixed(1)}%`;
+
+        const parts = [
+          '| Appearance | Clicks | Impressions | CTR | Avg Position | Pages | CTR Without | CTR Uplift |',
+          '| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+          ...details.map((d) =>
+            `| ${appearanceLabel(d.type)} | ${formatNumber(d.row.clicks)} | ${formatNumber(d.row.impressions)} | ${formatPercent(d.row.ctr)} | ${formatPosition(d.row.position)} | ${formatNumber(d.uplift.pages.length)} | ${d.uplift.otherCtr === null ? 'N/A' : formatPercent(d.uplift.otherCtr)} | ${formatUplift(d.uplift.upliftPercent)} |`,
+          ),
+        ];
+
+        for (const d of details) {
+          parts.push('', `### ${appearanceLabel(d.type)} (\`${d.type}\`)`, '');
+          if (d.uplift.pages.length > 0) {
+            parts.push(
+              '| Page | Clicks | Impressions | CTR | CTR Without |',
+              '| --- | ---: | ---: | ---: | ---: |',
+              ...d.uplift.pages.slice(0, params.limit).map((p) => {
+                const ctr = p.impressions > 0 ? p.clicks / p.impressions : 0;
+                const otherCtr = p.otherImpressions > 0 ? formatPercent(p.otherClicks / p.otherImpressions) : 'N/A';
+                return `| ${p.page} | ${formatNumber(p.clicks)} | ${formatNumber(p.impressions)} | ${formatPercent(ctr)} | ${otherCtr} |`;
+              }),
+              '',
+            );
+          }
+          if (d.queries.length > 0) {
+            parts.push(
+              '| Query | Clicks | Impressions | CTR | Avg Position |',
+              '| --- | ---: | ---: | ---: | ---: |',
+              ...d.queries.map((q) =>
+                `| ${q.keys[0] ?? ''} | ${formatNumber(q.clicks)} | ${formatNumber(q.impressions)} | ${formatPercent(q.ctr)} | ${formatPosition(q.position)} |`,
+              ),
+            );
+          }
+        }
+
+        const totalClicks = types.reduce((s, r) => s + r.clicks, 0);
+        const summary = [
+          `${params.siteUrl} appeared with ${types.length} search appearance type(s) during ${params.period}, earning ${formatNumber(totalClicks)} clicks.`,
+          `The largest is ${appearanceLabel(types[0]!.keys[0] ?? '')} with ${formatNumber(types[0]!.impressions)} impressions.`,
+        ].join(' ');
+
+        const recommendations: string[] = [];
+        for (const d of details) {
+          const uplift = d.uplift.upliftPercent;
+          if (uplift === null) continue;
+          if (uplift >= 20) {
+            recommendations.push(
+              `${appearanceLabel(d.type)} lifts CTR ${formatUplift(uplift)} on the pages that earn it. Add the same structured data to similar pages that do not show it yet.`,
+            );
+          } else if (uplift <= -20) {
+            recommendations.push(
+              `${appearanceLabel(d.type)} impressions have ${formatUplift(uplift)} CTR compared to the same pages without it. Check that the rich result shows compelling details (ratings, prices, answers) rather than satisfying the searcher on the results page.`,
+            );
+          }
+        }
+        if (recommendations.length === 0) {
+          recommendations.push('No appearance type moves CTR sharply either way. Keep structured data valid and monitor the Enhancements reports for errors.');
+        }
+
+        const limitations = [
+          'CTR uplift compares impressions with and without the appearance on the same pages; query mix and position can differ between the two, so treat it as indicative rather than causal.',
+          'A page can carry several appearances at once, so its impressions without one appearance may still include others.',
+          ...(types.length > drilled.length
+            ? [`Only the ${drilled.length} largest of ${types.length} appearance types were drilled into. Increase maxTypes to see more.`]
+            : []),
+          ...collectNotices(typesResponse, pageTotalsResponse, ...details.flatMap((d) => d.responses)),
+        ];
+
+        const text = formatToolResponse(createToolResponse(parts.join('\n'), summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
 }
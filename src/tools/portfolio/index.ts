@@ -0,0 +1,232 @@
+/**
+ * Portfolio tools.
+ *
+ * Provides one tool:
+ *   - get_portfolio_overview: Performance, period-over-period change and health grade for every accessible property, most urgent first
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { GscApiClient } from '../../api/client.js';
+import type { SiteInfo } from '../../api/types.js';
+import { resolveSiteUrl } from '../../api/site-resolver.js';
+import { periodSchema, searchTypeSchema, createToolResponse, formatToolResponse, collectNotices } from '../schemas.js';
+import { runHealthCheck } from '../reports/index.js';
+import { rankPortfolio, type PropertySnapshot } from '../../analysis/portfolio.js';
+import { hasRankingPosition } from '../../analysis/ctr-benchmarks.js';
+import { AuthorizationError, GscError, QuotaExceededError } from '../../errors/gsc-error.js';
+import { getDateRange, getPreviousPeriod } from '../../utils/date-helpers.js';
+import { formatChange, formatNumber, formatPercent, formatPosition, formatPositionChange } from '../../utils/formatting.js';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+import { withPriority } from '../../utils/rate-limiter.js';
+
+/**
+ * Properties worked on at once. Every request still passes through the
+ * rate limiter; this only bounds how many properties are in flight.
+ */
+const PORTFOLIO_CONCURRENCY = 4;
+
+/**
+ * Format an error into an MCP tool error response.
+ */
+function errorResponse(error: unknown) {
+  const message =
+    error instanceof GscError
+      ? `${error.message}${error.recoveryHint ? `\n\nHint: ${error.recoveryHint}` : ''}`
+      : error instanceof Error
+        ? error.message
+        : 'An unexpected error occurred.';
+
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true,
+  };
+}
+
+/** Short reason a property could not be analyzed. */
+function describeFailure(error: unknown): string {
+  if (error instanceof AuthorizationError) return 'No access (403)';
+  if (error instanceof QuotaExceededError) return 'Quota exceeded';
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+type PropertyResult =
+  | { ok: true; snapshot: PropertySnapshot; notices: string[] }
+  | { ok: false; siteUrl: string; error: string };
+
+export function registerPortfolioTools(server: McpServer, api: GscApiClient): void {
+  // ── get_portfolio_overview ───────────────────────────────────────────
+  server.tool(
+    'get_portfolio_overview',
+    'Dashboard across every accessible property (or a filtered subset): clicks, impressions, CTR, position, period-over-period change and seo_health_check grade, with properties needing attention listed first',
+    {
+      period: periodSchema.optional().default('last28d'),
+      searchType: searchTypeSchema.optional().default('web'),
+      siteFilter: z.string().optional().describe('Only include properties whose URL contains this text (case-insensitive)'),
+      siteUrls: z.array(z.string()).optional().describe('Only include these properties (hostnames and page URLs are matched to their property)'),
+      includeHealthGrade: z.boolean().optional().default(true).describe('Run seo_health_check for each property (about 4 extra API calls per property)'),
+    },
+    async (params) => {
+      try {
+        const currentRange = getDateRange(params.period);
+        const previousRange = getPreviousPeriod(currentRange.startDate, currentRange.endDate);
+        const ranked = hasRankingPosition(params.searchType);
+
+        const allSites = await api.listSites();
+        const filter = params.siteFilter?.toLowerCase();
+
+        // An entry no property covers is reported as unavailable rather
+        // than failing the whole overview.
+        const unmatched: string[] = [];
+        let requested: Set<string> | undefined;
+        if (params.siteUrls) {
+          requested = new Set();
+          for (const input of params.siteUrls) {
+            const match = resolveSiteUrl(input, allSites)?.siteUrl ?? allSites.find((site) => site.siteUrl === input)?.siteUrl;
+            if (match) {
+              requested.add(match);
+            } else {
+              unmatched.push(input);
+            }
+          }
+        }
+        const selected = allSites.filter((site) =>
+          (!filter || site.siteUrl.toLowerCase().includes(filter))
+          && (!requested || requested.has(site.siteUrl)),
+        );
+        const unverified = selected.filter((site) => site.permissionLevel === 'siteUnverifiedUser');
+        const sites = selected.filter((site) => site.permissionLevel !== 'siteUnverifiedUser');
+
+        if (sites.length === 0) {
+          const text = formatToolResponse(createToolResponse(
+            '_No matching properties._',
+            `None of the ${allSites.length} accessible properties matched.${unmatched.length > 0 ? ` No property covers ${unmatched.join(', ')}.` : ''}`,
+            ['Run list_sites to see the exact property URLs, then adjust siteFilter or siteUrls.'],
+            [],
+          ));
+          return { content: [{ type: 'text' as const, text }] };
+        }
+
+        // One property failing (403, quota, ...) is recorded and the rest
+        // continue. The portfolio is bulk work, so it yields to interactive
+        // calls.
+        const results = await withPriority('normal', () =>
+          mapWithConcurrency(sites, PORTFOLIO_CONCURRENCY, async (site: SiteInfo): Promise<PropertyResult> => {
+            try {
+              const base = { siteUrl: site.siteUrl, searchType: params.searchType, dataState: 'all' as const };
+              const [current, previous] = await Promise.all([
+                api.querySearchAnalytics({ ...base, ...currentRange }),
+                api.querySearchAnalytics({ ...base, ...previousRange }),
+              ]);
+              const now = current.rows[0];
+              const before = previous.rows[0];
+
+              const health = params.includeHealthGrade
+                ? await runHealthCheck(api, site.siteUrl, params.searchType)
+                : undefined;
+
+              return {
+                ok: true,
+                snapshot: {
+                  siteUrl: site.siteUrl,
+                  clicks: now?.clicks ?? 0,
+                  impressions: now?.impressions ?? 0,
+                  ctr: now?.ctr ?? 0,
+                  position: ranked ? now?.position ?? 0 : 0,
+                  previousClicks: before?.clicks ?? 0,
+                  previousImpressions: before?.impressions ?? 0,
+                  previousPosition: ranked ? before?.position ?? 0 : 0,
+                  grade: health?.grade,
+                  healthScore: health?.overallScore,
+                },
+                notices: collectNotices(current, previous),
+              };
+            } catch (error) {
+              return { ok: false, siteUrl: site.siteUrl, error: describeFailure(error) };
+            }
+          }),
+        );
+
+        const entries = rankPortfolio(results.flatMap((r) => (r.ok ? [r.snapshot] : [])));
+        const failures = [
+          ...unmatched.map((siteUrl) => ({ siteUrl, error: 'No accessible property covers it' })),
+          ...results.flatMap((r) => (r.ok ? [] : [r])),
+        ];
+        const flagged = entries.filter((e) => e.urgency > 0);
+
+        const parts: string[] = [];
+
+        if (flagged.length > 0) {
+          parts.push(
+            '## Needs Attention\n',
+            '| Property | Grade | Clicks | Change | Why |',
+            '| --- | :---: | ---: | ---: | --- |',
+            ...flagged.map((e) =>
+              `| ${e.siteUrl} | ${e.grade ?? '-'} | ${formatNumber(e.clicks)} | ${formatChange(e.clicks, e.previousClicks)} | ${e.reasons.join('; ')} |`,
+            ),
+            '',
+          );
+        }
+
+        parts.push(
+          '## All Properties\n',
+          `| Property | Clicks | Change | Impressions | Change | CTR |${ranked ? ' Position | Change |' : ''} Grade |`,
+          `| --- | ---: | ---: | ---: | ---: | ---: |${ranked ? ' ---: | ---: |' : ''} :---: |`,
+          ...entries.map((e) => {
+            const position = ranked
+              ? ` ${formatPosition(e.position)} | ${formatPositionChange(e.position, e.previousPosition)} |`
+              : '';
+            const grade = e.grade ? `${e.grade} (${e.healthScore})` : '-';
+            return `| ${e.siteUrl} | ${formatNumber(e.clicks)} | ${formatChange(e.clicks, e.previousClicks)} | ${formatNumber(e.impressions)} | ${formatChange(e.impressions, e.previousImpressions)} | ${formatPercent(e.ctr)} |${position} ${grade} |`;
+          }),
+          '',
+          `*Current period: ${currentRange.startDate} to ${currentRange.endDate}*`,
+          `*Previous period: ${previousRange.startDate} to ${previousRange.endDate}*`,
+        );
+
+        if (failures.length > 0) {
+          parts.push(
+            '',
+            '## Unavailable\n',
+            '| Property | Reason |',
+            '| --- | --- |',
+            ...failures.map((f) => `| ${f.siteUrl} | ${f.error} |`),
+          );
+        }
+
+        const totalClicks = entries.reduce((s, e) => s + e.clicks, 0);
+        const previousClicks = entries.reduce((s, e) => s + e.previousClicks, 0);
+        const summary = [
+          `Analyzed ${entries.length} of ${sites.length} properties for ${params.period}: ${formatNumber(totalClicks)} clicks in total (${formatChange(totalClicks, previousClicks)} vs the previous period).`,
+          flagged.length > 0
+            ? `${flagged.length} need attention, led by ${flagged[0]!.siteUrl} (${flagged[0]!.reasons[0]}).`
+            : 'No property was flagged.',
+          failures.length > 0 ? `${failures.length} could not be analyzed.` : '',
+        ].filter((s) => s.length > 0).join(' ');
+
+        const recommendations: string[] = [];
+        for (const e of flagged.slice(0, 5)) {
+          recommendations.push(`${e.siteUrl}: ${e.reasons.join('; ')}. Run seo_health_check and get_performance_summary on it for details.`);
+        }
+        if (failures.some((f) => f.error === 'No access (403)')) {
+          recommendations.push('Some properties returned 403. Check that the authenticated account still has access to them in Search Console.');
+        }
+        if (recommendations.length === 0) {
+          recommendations.push('All properties look stable. Re-run after the next period to catch changes early.');
+        }
+
+        const limitations = [
+          'Totals are property-level and include anonymized queries.',
+          ...(params.includeHealthGrade ? ['Health grades cover the last 28 days regardless of the period chosen.'] : []),
+          ...(unverified.length > 0 ? [`${unverified.length} unverified propert${unverified.length === 1 ? 'y was' : 'ies were'} skipped.`] : []),
+          ...[...new Set(results.flatMap((r) => (r.ok ? r.notices : [])))],
+        ];
+
+        const text = formatToolResponse(createToolResponse(parts.join('\n'), summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+}
@@ -27,6 +27,7 @@ import {
   siteUrlSchema,
   periodSchema,
   searchTypeSchema,
+  collectNotices,
 } from '../schemas.js';
 
 // ---------------------------------------------------------------------------
@@ -89,6 +90,7 @@ export function registerQueryTools(server: McpServer, api: GscApiClient): void {
     },
     async ({ siteUrl, period, searchType, minImpressions }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
         const { startDate, endDate } = getDateRange(period);
 
         const response = await api.querySearchAnalytics({
@@ -268,6 +270,9 @@ export function registerQueryTools(server: McpServer, api: GscApiClient): void {
         for (const lim of LIMITATIONS) {
           parts.push(`- ${lim}`);
         }
+        for (const notice of collectNotices(response)) {
+          parts.push(`- ${notice}`);
+        }
         parts.push('');
 
         const infoPctVal = formatPercent(infoPct, 1);
@@ -306,6 +311,7 @@ export function registerQueryTools(server: McpServer, api: GscApiClient): void {
     },
     async ({ siteUrl, period, searchType, minImpressions }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
         const currentRange = getDateRange(period);
         const previousRange = getPreviousPeriod(
           currentRange.startDate,
@@ -495,6 +501,9 @@ export function registerQueryTools(server: McpServer, api: GscApiClient): void {
         for (const lim of LIMITATIONS) {
           parts.push(`- ${lim}`);
         }
+        for (const notice of collectNotices(currentRes, previousRes)) {
+          parts.push(`- ${notice}`);
+        }
         parts.push(
           '- "New" means not present in the sampled data for the previous period; the query may have existed at very low volumes.',
         );
@@ -534,6 +543,7 @@ export function registerQueryTools(server: McpServer, api: GscApiClient): void {
     },
     async ({ siteUrl, period, searchType, minImpressions }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
         const { startDate, endDate } = getDateRange(period);
 
         const response = await api.querySearchAnalytics({
@@ -759,6 +769,9 @@ export function registerQueryTools(server: McpServer, api: GscApiClient): void {
         for (const lim of LIMITATIONS) {
           parts.push(`- ${lim}`);
         }
+        for (const notice of collectNotices(response)) {
+          parts.push(`- ${notice}`);
+        }
         parts.push(
           '- Cannibalization detection is based on multiple pages appearing for the same query in GSC data. Some cases may be intentional (e.g., site links, different page types).',
         );
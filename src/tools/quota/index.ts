@@ -0,0 +1,99 @@
+/**
+ * Quota tracking tools.
+ *
+ * Provides one tool:
+ *   - get_quota_usage: Today's API calls and remaining budget per property
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { GscApiClient } from '../../api/client.js';
+import { siteUrlSchema, createToolResponse, formatToolResponse } from '../schemas.js';
+import { GscError, ValidationError } from '../../errors/gsc-error.js';
+import type { QuotaLedger } from '../../utils/quota-ledger.js';
+import { formatNumber } from '../../utils/formatting.js';
+
+/**
+ * Format an error into an MCP tool error response.
+ */
+function errorResponse(error: unknown) {
+  const message =
+    error instanceof GscError
+      ? `${error.message}${error.recoveryHint ? `\n\nHint: ${error.recoveryHint}` : ''}`
+      : error instanceof Error
+        ? error.message
+        : 'An unexpected error occurred.';
+
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true,
+  };
+}
+
+function requireQuota(api: GscApiClient): QuotaLedger {
+  if (!api.quota) {
+    throw new ValidationError('Quota tracking is not enabled on this server.', {
+      recoveryHint: 'Start the server without GSC_QUOTA_TRACKING=false to count API calls per property.',
+    });
+  }
+  return api.quota;
+}
+
+export function registerQuotaTools(server: McpServer, api: GscApiClient): void {
+  // ── get_quota_usage ──────────────────────────────────────────────────
+  server.tool(
+    'get_quota_usage',
+    'Show how many Search Analytics and URL Inspection calls each property has used today and how many remain before the daily limit, to plan large inspection runs',
+    {
+      siteUrl: siteUrlSchema.optional().describe('Limit to one property. Omit to list every property that has made calls today.'),
+    },
+    async ({ siteUrl }) => {
+      try {
+        if (siteUrl !== undefined) {
+          siteUrl = await api.resolveSiteUrl(siteUrl);
+        }
+        const quota = requireQuota(api);
+        const usage = quota.usage(siteUrl);
+
+        if (usage.length === 0) {
+          const text = formatToolResponse(createToolResponse(
+            '_No API calls have been counted today._',
+            'No property has used any tracked quota today.',
+            [],
+            ['Quota days follow Google\'s reset at midnight Pacific Time.'],
+          ));
+          return { content: [{ type: 'text' as const, text }] };
+        }
+
+        const header = '| Property | API | Used | Daily Limit | Remaining |';
+        const separator = '| --- | --- | ---: | ---: | ---: |';
+        const rows = usage.map((u) =>
+          `| ${u.siteUrl} | ${u.api} | ${formatNumber(u.used)} | ${u.limit === undefined ? 'not capped' : formatNumber(u.limit)} | ${u.remaining === undefined ? '—' : formatNumber(u.remaining)} |`,
+        );
+        const data = [`**Quota day:** ${usage[0]!.date} (Pacific Time)`, '', header, separator, ...rows].join('\n');
+
+        const properties = new Set(usage.map((u) => u.siteUrl)).size;
+        const summary = `${properties} propert${properties === 1 ? 'y has' : 'ies have'} used tracked quota today.`;
+
+        const recommendations: string[] = [];
+        for (const u of usage) {
+          if (u.limit !== undefined && u.remaining !== undefined && u.remaining < u.limit * 0.1) {
+            recommendations.push(
+              `${u.siteUrl} has ${formatNumber(u.remaining)} ${u.api} call(s) left today. Defer large runs until the reset or rely on cached results.`,
+            );
+          }
+        }
+
+        const limitations = [
+          'Only calls made through this server are counted; other tools sharing the same property or project also spend Google\'s quota.',
+          'Quota days follow Google\'s reset at midnight Pacific Time.',
+          'Cached responses do not use quota.',
+        ];
+
+        const text = formatToolResponse(createToolResponse(data, summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+}
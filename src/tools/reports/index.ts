@@ -20,11 +20,12 @@ import { siteUrlSchema, searchTypeSchema } from '../schemas.js';
 import { GscError } from '../../errors/gsc-error.js';
 
 // Analysis modules
-import { getExpectedCtr, analyzeCtr } from '../../analysis/ctr-benchmarks.js';
-import { detectTrend, type TrendPoint } from '../../analysis/trend-detector.js';
+import { getExpectedCtr, analyzeCtr, hasRankingPosition } from '../../analysis/ctr-benchmarks.js';
+import { detectTrend, type TrendAnalysis, type TrendPoint } from '../../analysis/trend-detector.js';
 import { classifyQueries, getIntentDistribution } from '../../analysis/query-classifier.js';
 import { scoreOpportunity } from '../../analysis/opportunity-scorer.js';
 import { generateRecommendations } from '../../analysis/recommendation-engine.js';
+import { analyzeSitemapTrends, type SitemapTrend } from '../../analysis/sitemap-trends.js';
 
 // Utility modules
 import { getDateRange, getPreviousPeriod, formatDate, daysBetween } from '../../utils/date-helpers.js';
@@ -79,13 +80,15 @@ function aggregateRows(rows: SearchAnalyticsRow[]): PerformanceTotals {
   return { clicks: totalClicks, impressions: totalImpressions, ctr, position };
 }
 
+type SectionResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
 /**
  * Safely execute a report section, returning the markdown or a failure note.
  */
 async function safeSection<T>(
   sectionName: string,
   fn: () => Promise<T>,
-): Promise<{ ok: true; data: T } | { ok: false; error: string }> {
+): Promise<SectionResult<T>> {
   try {
     const data = await fn();
     return { ok: true, data };
@@ -119,6 +122,375 @@ function buildRequest(
   };
 }
 
+/**
+ * The search analytics requests weekly_seo_report and seo_health_check issue
+ * for a property, built exactly as the tools build them so that pre-warming
+ * the cache with these produces the same cache keys.
+ */
+export function buildReportRequests(siteUrl: string, searchType: SearchType): SearchAnalyticsRequest[] {
+  const currentRange = getDateRange('last7d');
+  const previousRange = getPreviousPeriod(currentRange.startDate, currentRange.endDate);
+  const dateRange28d = getDateRange('last28d');
+
+  // Discover and Google News have no query dimension or ranking position;
+  // both reports work from page rows and skip positions.
+  if (!hasRankingPosition(searchType)) {
+    return [
+      // weekly_seo_report
+      buildRequest(siteUrl, currentRange.startDate, currentRange.endDate, searchType),
+      buildRequest(siteUrl, previousRange.startDate, previousRange.endDate, searchType),
+      buildRequest(siteUrl, currentRange.startDate, currentRange.endDate, searchType, ['page'], 5000),
+      buildRequest(siteUrl, previousRange.startDate, previousRange.endDate, searchType, ['page'], 5000),
+      // seo_health_check
+      buildRequest(siteUrl, dateRange28d.startDate, dateRange28d.endDate, searchType, ['date'], 28),
+      buildRequest(siteUrl, dateRange28d.startDate, dateRange28d.endDate, searchType, ['page'], 100),
+    ];
+  }
+
+  return [
+    // weekly_seo_report
+    buildRequest(siteUrl, currentRange.startDate, currentRange.endDate, searchType),
+    buildRequest(siteUrl, previousRange.startDate, previousRange.endDate, searchType),
+    buildRequest(siteUrl, currentRange.startDate, currentRange.endDate, searchType, ['query'], 5000),
+    buildRequest(siteUrl, previousRange.startDate, previousRange.endDate, searchType, ['query'], 5000),
+    // seo_health_check
+    buildRequest(siteUrl, dateRange28d.startDate, dateRange28d.endDate, searchType, ['date'], 28),
+    buildRequest(siteUrl, dateRange28d.startDate, dateRange28d.endDate, searchType, ['query'], 100),
+    buildRequest(siteUrl, dateRange28d.startDate, dateRange28d.endDate, searchType, ['query'], 5000),
+  ];
+}
+
+/** A seo_health_check letter grade. */
+export type HealthGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface HealthIssue {
+  severity: 'critical' | 'high' | 'medium' | 'low';
+  message: string;
+}
+
+/**
+ * Scores and findings behind a seo_health_check grade, along with the raw
+ * section results the report is written from.
+ */
+export interface HealthCheck {
+  /** False for search types without ranking positions; the position score is then left out. */
+  ranked: boolean;
+  dateRange28d: { startDate: string; endDate: string };
+  trafficScore: number;
+  ctrScore: number;
+  positionScore: number;
+  sitemapScore: number;
+  overallScore: number;
+  grade: HealthGrade;
+  issues: HealthIssue[];
+  trafficResult: SectionResult<TrendAnalysis>;
+  ctrResult: SectionResult<SearchAnalyticsRow[]>;
+  positionResult: SectionResult<SearchAnalyticsRow[]>;
+  sitemapResult: SectionResult<SitemapInfo[]>;
+  /** Changes since earlier snapshots of the current sitemaps; empty without a sitemap history. */
+  sitemapTrends: SitemapTrend[];
+}
+
+/**
+ * Gather the data for a property's health check and grade it. Sections that
+ * fail keep a neutral score and add an issue rather than failing the check.
+ */
+export async function runHealthCheck(api: GscApiClient, siteUrl: string, type: SearchType): Promise<HealthCheck> {
+  const issues: HealthIssue[] = [];
+
+  const dateRange28d = getDateRange('last28d');
+
+  // Discover and Google News report neither queries nor positions:
+  // CTR is rated per page against a feed benchmark and the position
+  // score is left out of the grade.
+  const ranked = hasRankingPosition(type);
+
+  // ── Score 1: Traffic Trend (0-100, weight: 30%) ─────────────────
+  let trafficScore = 50; // default if section fails
+  const trafficResult = await safeSection('Traffic Trend', async () => {
+    const res = await api.querySearchAnalytics(buildRequest(
+      siteUrl, dateRange28d.startDate, dateRange28d.endDate, type, ['date'], 28,
+    ));
+
+    const trendPoints: TrendPoint[] = res.rows.map((row) => ({
+      date: row.keys[0]!,
+      value: row.clicks,
+    }));
+
+    const trend = detectTrend(trendPoints);
+    return trend;
+  });
+
+  if (trafficResult.ok) {
+    const trend = trafficResult.data;
+    const pctChange = trend.percentChange;
+
+    if (pctChange > 5) {
+      trafficScore = 100;
+    } else if (pctChange >= -2 && pctChange <= 5) {
+      trafficScore = 80;
+    } else if (pctChange >= -10 && pctChange < -2) {
+      trafficScore = 60;
+    } else if (pctChange >= -25 && pctChange < -10) {
+      trafficScore = 40;
+    } else {
+      trafficScore = 20;
+    }
+
+    if (trafficScore <= 60) {
+      issues.push({
+        severity: trafficScore <= 40 ? 'critical' : 'high',
+        message: `Traffic is ${trend.direction} (${pctChange >= 0 ? '+' : ''}${pctChange.toFixed(1)}% over 28 days). ${trend.summary}`,
+      });
+    }
+    if (trend.breakpoints.length > 0) {
+      const bp = trend.breakpoints[0]!;
+      issues.push({
+        severity: 'medium',
+        message: `Sudden traffic ${bp.direction === 'up' ? 'spike' : 'drop'} detected on ${bp.date} (${bp.changePercent.toFixed(1)}% change). Investigate potential algorithm update or site change.`,
+      });
+    }
+  } else {
+    issues.push({
+      severity: 'medium',
+      message: 'Could not analyze traffic trends. Ensure search analytics data is available for the last 28 days.',
+    });
+  }
+
+  // ── Score 2: CTR Efficiency (0-100, weight: 25%) ────────────────
+  let ctrScore = 50; // default
+  const ctrResult = await safeSection('CTR Efficiency', async () => {
+    const res = await api.querySearchAnalytics(buildRequest(
+      siteUrl, dateRange28d.startDate, dateRange28d.endDate, type, [ranked ? 'query' : 'page'], 100,
+    ));
+    return res.rows;
+  });
+
+  if (ctrResult.ok) {
+    const queryRows = ctrResult.data;
+    if (queryRows.length > 0) {
+      let atOrAboveBenchmark = 0;
+      let belowBenchmarkBadly = 0;
+
+      for (const row of queryRows) {
+        const analysis = analyzeCtr(row.position, row.ctr, type);
+        if (analysis.ctrRatio >= 0.8) {
+          atOrAboveBenchmark++;
+        }
+        if (analysis.performance === 'poor') {
+          belowBenchmarkBadly++;
+        }
+      }
+
+      ctrScore = Math.round((atOrAboveBenchmark / queryRows.length) * 100);
+
+      if (belowBenchmarkBadly > queryRows.length * 0.3) {
+        issues.push({
+          severity: 'high',
+          message: ranked
+            ? `${belowBenchmarkBadly} of your top ${queryRows.length} queries have CTR significantly below benchmark. Consider improving title tags and meta descriptions.`
+            : `${belowBenchmarkBadly} of your top ${queryRows.length} pages have CTR significantly below the ${type} benchmark. Consider stronger headlines and large, compelling images.`,
+        });
+      } else if (ctrScore < 50) {
+        issues.push({
+          severity: 'medium',
+          message: ranked
+            ? `CTR efficiency is at ${ctrScore}%. Many queries underperform their position benchmarks.`
+            : `CTR efficiency is at ${ctrScore}%. Many pages underperform the ${type} benchmark.`,
+        });
+      }
+    }
+  } else {
+    issues.push({
+      severity: 'medium',
+      message: `Could not analyze CTR efficiency. Ensure ${ranked ? 'query' : 'page'} data is available.`,
+    });
+  }
+
+  // ── Score 3: Position Distribution (0-100, weight: 25%) ─────────
+  let positionScore = 50; // default
+  const positionResult = await safeSection('Position Distribution', async () => {
+    if (!ranked) return [];
+    const res = await api.querySearchAnalytics(buildRequest(
+      siteUrl, dateRange28d.startDate, dateRange28d.endDate, type, ['query'], 5000,
+    ));
+    return res.rows;
+  });
+
+  if (positionResult.ok) {
+    const allRows = positionResult.data;
+    if (allRows.length > 0) {
+      const total = allRows.length;
+      const pos1to3 = allRows.filter((r) => r.position <= 3).length;
+      const pos4to10 = allRows.filter((r) => r.position > 3 && r.position <= 10).length;
+      const pos11to20 = allRows.filter((r) => r.position > 10 && r.position <= 20).length;
+      const pos20plus = allRows.filter((r) => r.position > 20).length;
+
+      // Weighted: pos 1-3 = 100 pts, pos 4-10 = 70 pts, pos 11-20 = 30 pts, 20+ = 0 pts
+      positionScore = Math.round(
+        ((pos1to3 * 100 + pos4to10 * 70 + pos11to20 * 30 + pos20plus * 0) / total),
+      );
+
+      if (pos20plus > total * 0.5) {
+        issues.push({
+          severity: 'high',
+          message: `${formatPercent(pos20plus / total, 0)} of queries rank beyond position 20. Focus content improvement efforts on these buried pages.`,
+        });
+      }
+      if (pos1to3 < total * 0.05) {
+        issues.push({
+          severity: 'medium',
+          message: `Only ${formatPercent(pos1to3 / total, 0)} of queries rank in positions 1-3. Work on improving top-ranking content authority.`,
+        });
+      }
+    }
+  } else {
+    issues.push({
+      severity: 'medium',
+      message: 'Could not analyze position distribution. Ensure query data is available.',
+    });
+  }
+
+  // ── Score 4: Sitemap Health (0-100, weight: 20%) ────────────────
+  let sitemapScore = 50; // default
+  let sitemapTrends: SitemapTrend[] = [];
+  const sitemapResult = await safeSection('Sitemap Health', async () => {
+    const sitemaps = await api.listSitemaps(siteUrl);
+    return sitemaps;
+  });
+
+  if (sitemapResult.ok) {
+    const sitemaps = sitemapResult.data;
+
+    if (sitemaps.length === 0) {
+      sitemapScore = 0;
+      issues.push({
+        severity: 'critical',
+        message: 'No sitemaps submitted. Submit a sitemap to help Google discover and crawl your pages efficiently.',
+      });
+    } else {
+      sitemapScore = 100;
+
+      const errorSitemaps = sitemaps.filter((s) => s.errors);
+      const warningSitemaps = sitemaps.filter((s) => s.warnings);
+      const pendingSitemaps = sitemaps.filter((s) => s.isPending);
+
+      // Deduct for errors (most severe)
+      if (errorSitemaps.length > 0) {
+        sitemapScore -= Math.min(40, errorSitemaps.length * 20);
+        issues.push({
+          severity: 'critical',
+          message: `${errorSitemaps.length} sitemap${errorSitemaps.length > 1 ? 's' : ''} ha${errorSitemaps.length > 1 ? 've' : 's'} errors: ${errorSitemaps.map((s) => s.path).join(', ')}`,
+        });
+      }
+
+      // Deduct for warnings
+      if (warningSitemaps.length > 0) {
+        sitemapScore -= Math.min(20, warningSitemaps.length * 10);
+        issues.push({
+          severity: 'high',
+          message: `${warningSitemaps.length} sitemap${warningSitemaps.length > 1 ? 's' : ''} ha${warningSitemaps.length > 1 ? 've' : 's'} warnings: ${warningSitemaps.map((s) => s.path).join(', ')}`,
+        });
+      }
+
+      // Deduct for pending
+      if (pendingSitemaps.length > 0) {
+        sitemapScore -= Math.min(10, pendingSitemaps.length * 5);
+      }
+
+      // Check recency of submission
+      const hasRecentSubmission = sitemaps.some((s) => {
+        if (!s.lastSubmitted) return false;
+        try {
+          return daysBetween(s.lastSubmitted.split('T')[0]!, formatDate(new Date())) <= 30;
+        } catch {
+          return false;
+        }
+      });
+
+      if (!hasRecentSubmission) {
+        sitemapScore -= 15;
+        issues.push({
+          severity: 'low',
+          message: 'No sitemaps have been submitted in the last 30 days. Consider resubmitting to signal fresh content.',
+        });
+      }
+
+      // Compare with earlier snapshots, when the history is kept
+      const history = await api.sitemapHistory?.forSite(siteUrl);
+      sitemapTrends = history
+        ? analyzeSitemapTrends(history).filter((t) => sitemaps.some((s) => s.path === t.path))
+        : [];
+
+      // Deduct for shrinking indexed counts
+      let trendPenalty = 0;
+      for (const trend of sitemapTrends) {
+        const change = trend.indexedChangePercent;
+        // A few URLs either way is noise for small sitemaps
+        if (change === null || change > -10 || !trend.baseline || trend.indexed - trend.indexedChange < 50) continue;
+        trendPenalty += change <= -20 ? 20 : 10;
+        issues.push({
+          severity: change <= -20 ? 'high' : 'medium',
+          message: `Indexed URLs in ${trend.path} fell ${Math.abs(change).toFixed(0)}% since ${trend.baseline.takenAt.slice(0, 10)} (${formatNumber(trend.indexed - trend.indexedChange)} → ${formatNumber(trend.indexed)}).`,
+        });
+      }
+      sitemapScore -= Math.min(30, trendPenalty);
+
+      // Point out errors and warnings that are new since the last snapshot
+      for (const trend of sitemapTrends) {
+        if (!trend.previous || (trend.newErrors === 0 && trend.newWarnings === 0)) continue;
+        const added = [
+          trend.newErrors > 0 ? `${trend.newErrors} error${trend.newErrors > 1 ? 's' : ''}` : '',
+          trend.newWarnings > 0 ? `${trend.newWarnings} warning${trend.newWarnings > 1 ? 's' : ''}` : '',
+        ].filter((p) => p.length > 0).join(' and ');
+        issues.push({
+          severity: trend.newErrors > 0 ? 'high' : 'medium',
+          message: `${trend.path} has ${added} more than on ${trend.previous.takenAt.slice(0, 10)}.`,
+        });
+      }
+
+      sitemapScore = Math.max(0, sitemapScore);
+    }
+  } else {
+    issues.push({
+      severity: 'medium',
+      message: 'Could not check sitemap health.',
+    });
+  }
+
+  // ── Overall Grade Calculation ───────────────────────────────────
+  const positionWeight = ranked ? 0.25 : 0;
+  const overallScore = Math.round(
+    (trafficScore * 0.30 +
+    ctrScore * 0.25 +
+    positionScore * positionWeight +
+    sitemapScore * 0.20) / (0.75 + positionWeight),
+  );
+
+  const grade: HealthGrade =
+    overallScore >= 90 ? 'A' :
+    overallScore >= 75 ? 'B' :
+    overallScore >= 60 ? 'C' :
+    overallScore >= 40 ? 'D' : 'F';
+
+  return {
+    ranked,
+    dateRange28d,
+    trafficScore,
+    ctrScore,
+    positionScore,
+    sitemapScore,
+    overallScore,
+    grade,
+    issues,
+    trafficResult,
+    ctrResult,
+    positionResult,
+    sitemapResult,
+    sitemapTrends,
+  };
+}
+
 /**
  * Format a report generation timestamp.
  */
@@ -153,9 +525,17 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
     },
     async ({ siteUrl, searchType }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
         const type = (searchType ?? 'web') as SearchType;
         const sections: string[] = [];
 
+        // Discover and Google News have neither queries nor positions, so
+        // growers, decliners and quick wins are worked out per page.
+        const ranked = hasRankingPosition(type);
+        const keyDimension = ranked ? 'query' : 'page';
+        const keyLabel = ranked ? 'Query' : 'Page';
+        const keyPlural = ranked ? 'queries' : 'pages';
+
         // Date ranges
         const currentRange = getDateRange('last7d');
         const previousRange = getPreviousPeriod(currentRange.startDate, currentRange.endDate);
@@ -191,7 +571,9 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
           sections.push(`| **Clicks** | ${formatNumber(current.clicks)} | ${formatNumber(previous.clicks)} | ${formatChange(current.clicks, previous.clicks)} |`);
           sections.push(`| **Impressions** | ${formatNumber(current.impressions)} | ${formatNumber(previous.impressions)} | ${formatChange(current.impressions, previous.impressions)} |`);
           sections.push(`| **CTR** | ${formatPercent(current.ctr)} | ${formatPercent(previous.ctr)} | ${formatChange(current.ctr, previous.ctr)} |`);
-          sections.push(`| **Avg Position** | ${formatPosition(current.position)} | ${formatPosition(previous.position)} | ${formatChange(previous.position, current.position)} |`);
+          if (ranked) {
+            sections.push(`| **Avg Position** | ${formatPosition(current.position)} | ${formatPosition(previous.position)} | ${formatChange(previous.position, current.position)} |`);
+          }
           sections.push('');
         } else {
           sections.push(`## Performance vs Last Week`);
@@ -200,13 +582,13 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
         }
 
         // ── Fetch query-level data for growers / decliners ──────────────
-        const queryDataResult = await safeSection('Query Analysis', async () => {
+        const queryDataResult = await safeSection(`${keyLabel} Analysis`, async () => {
           const [currentQueryRes, previousQueryRes] = await Promise.all([
             api.querySearchAnalytics(buildRequest(
-              siteUrl, currentRange.startDate, currentRange.endDate, type, ['query'], 5000,
+              siteUrl, currentRange.startDate, currentRange.endDate, type, [keyDimension], 5000,
             )),
             api.querySearchAnalytics(buildRequest(
-              siteUrl, previousRange.startDate, previousRange.endDate, type, ['query'], 5000,
+              siteUrl, previousRange.startDate, previousRange.endDate, type, [keyDimension], 5000,
             )),
           ]);
 
@@ -271,7 +653,7 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
           sections.push(`## Top Growers`);
           if (growers.length > 0) {
             sections.push('');
-            sections.push('| # | Query | Clicks (Now) | Clicks (Prev) | Change |');
+            sections.push(`| # | ${keyLabel} | Clicks (Now) | Clicks (Prev) | Change |`);
             sections.push('| ---: | --- | ---: | ---: | ---: |');
             growers.forEach((g, i) => {
               const sign = g.clickChange > 0 ? '+' : '';
@@ -280,7 +662,7 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
               );
             });
           } else {
-            sections.push('_No queries with increasing clicks this week._');
+            sections.push(`_No ${keyPlural} with increasing clicks this week._`);
           }
           sections.push('');
         } else {
@@ -300,7 +682,7 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
           sections.push(`## Top Decliners`);
           if (decliners.length > 0) {
             sections.push('');
-            sections.push('| # | Query | Clicks (Now) | Clicks (Prev) | Change |');
+            sections.push(`| # | ${keyLabel} | Clicks (Now) | Clicks (Prev) | Change |`);
             sections.push('| ---: | --- | ---: | ---: | ---: |');
             decliners.forEach((d, i) => {
               sections.push(
@@ -308,7 +690,7 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
               );
             });
           } else {
-            sections.push('_No queries with declining clicks this week._');
+            sections.push(`_No ${keyPlural} with declining clicks this week._`);
           }
           sections.push('');
         } else {
@@ -325,7 +707,7 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
             queryRows = queryDataResult.data.currentQueryRows;
           } else {
             const res = await api.querySearchAnalytics(buildRequest(
-              siteUrl, currentRange.startDate, currentRange.endDate, type, ['query'], 5000,
+              siteUrl, currentRange.startDate, currentRange.endDate, type, [keyDimension], 5000,
             ));
             queryRows = res.rows;
           }
@@ -342,7 +724,30 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
           for (const row of queryRows) {
             const query = row.keys[0]!;
             const pos = row.position;
-            const expected = getExpectedCtr(pos);
+            const expected = getExpectedCtr(pos, type);
+
+            // Feed surfaces: only a CTR well below the surface's benchmark.
+            if (!ranked) {
+              if (row.ctr < expected * 0.6 && row.impressions >= 50) {
+                const oppScore = scoreOpportunity({
+                  impressions: row.impressions,
+                  clicks: row.clicks,
+                  ctr: row.ctr,
+                  position: pos,
+                  expectedCtr: expected,
+                  hasPosition: false,
+                });
+                quickWins.push({
+                  query,
+                  reason: `CTR ${formatPercent(row.ctr)} with ${formatNumber(row.impressions)} impressions (typical ${formatPercent(expected)}) -- improve the title and image`,
+                  impressions: row.impressions,
+                  position: pos,
+                  ctr: row.ctr,
+                  score: oppScore.score,
+                });
+              }
+              continue;
+            }
 
             // Opportunity 1: Position 4-10 with high impressions (almost top 3)
             if (pos >= 4 && pos <= 10 && row.impressions >= 50) {
@@ -352,6 +757,7 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
                 ctr: row.ctr,
                 position: pos,
                 expectedCtr: expected,
+                hasPosition: true,
               });
               quickWins.push({
                 query,
@@ -371,6 +777,7 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
                 ctr: row.ctr,
                 position: pos,
                 expectedCtr: expected,
+                hasPosition: true,
               });
               quickWins.push({
                 query,
@@ -390,6 +797,7 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
                 ctr: row.ctr,
                 position: pos,
                 expectedCtr: expected,
+                hasPosition: true,
               });
               quickWins.push({
                 query,
@@ -423,7 +831,11 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
             sections.push('');
             wins.forEach((win, i) => {
               sections.push(`**${i + 1}. "${win.query}"**  `);
-              sections.push(`Position: ${formatPosition(win.position)} | CTR: ${formatPercent(win.ctr)} | Impressions: ${formatNumber(win.impressions)}  `);
+              sections.push(
+                ranked
+                  ? `Position: ${formatPosition(win.position)} | CTR: ${formatPercent(win.ctr)} | Impressions: ${formatNumber(win.impressions)}  `
+                  : `CTR: ${formatPercent(win.ctr)} | Impressions: ${formatNumber(win.impressions)}  `,
+              );
               sections.push(`Opportunity: ${win.reason}  `);
               sections.push('');
             });
@@ -507,12 +919,14 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
             `Impressions were ${impressionDirection} at ${formatNumber(current.impressions)} (${formatChange(current.impressions, previous.impressions)}).`,
           );
 
-          if (current.position < previous.position) {
-            summaryParts.push(`Average position improved to ${formatPosition(current.position)}.`);
-          } else if (current.position > previous.position) {
-            summaryParts.push(`Average position slipped to ${formatPosition(current.position)}.`);
-          } else {
-            summaryParts.push(`Average position held steady at ${formatPosition(current.position)}.`);
+          if (ranked) {
+            if (current.position < previous.position) {
+              summaryParts.push(`Average position improved to ${formatPosition(current.position)}.`);
+            } else if (current.position > previous.position) {
+              summaryParts.push(`Average position slipped to ${formatPosition(current.position)}.`);
+            } else {
+              summaryParts.push(`Average position held steady at ${formatPosition(current.position)}.`);
+            }
           }
         }
 
@@ -553,7 +967,8 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
             reportData.currentTotals = perfResult.data.current;
             reportData.previousTotals = perfResult.data.previous;
           }
-          if (queryDataResult.ok) {
+          // The query rules are position-based; feed surfaces only have page rows.
+          if (queryDataResult.ok && ranked) {
             reportData.queryRows = queryDataResult.data.currentQueryRows;
           }
           if (sitemapResult.ok) {
@@ -619,239 +1034,17 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
     },
     async ({ siteUrl, searchType }) => {
       try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
         const type = (searchType ?? 'web') as SearchType;
         const sections: string[] = [];
-        const issues: Array<{ severity: 'critical' | 'high' | 'medium' | 'low'; message: string }> = [];
-
-        const dateRange28d = getDateRange('last28d');
-
-        // ── Score 1: Traffic Trend (0-100, weight: 30%) ─────────────────
-        let trafficScore = 50; // default if section fails
-        const trafficResult = await safeSection('Traffic Trend', async () => {
-          const res = await api.querySearchAnalytics(buildRequest(
-            siteUrl, dateRange28d.startDate, dateRange28d.endDate, type, ['date'], 28,
-          ));
-
-          const trendPoints: TrendPoint[] = res.rows.map((row) => ({
-            date: row.keys[0]!,
-            value: row.clicks,
-          }));
-
-          const trend = detectTrend(trendPoints);
-          return trend;
-        });
-
-        if (trafficResult.ok) {
-          const trend = trafficResult.data;
-          const pctChange = trend.percentChange;
-
-          if (pctChange > 5) {
-            trafficScore = 100;
-          } else if (pctChange >= -2 && pctChange <= 5) {
-            trafficScore = 80;
-          } else if (pctChange >= -10 && pctChange < -2) {
-            trafficScore = 60;
-          } else if (pctChange >= -25 && pctChange < -10) {
-            trafficScore = 40;
-          } else {
-            trafficScore = 20;
-          }
-
-          if (trafficScore <= 60) {
-            issues.push({
-              severity: trafficScore <= 40 ? 'critical' : 'high',
-              message: `Traffic is ${trend.direction} (${pctChange >= 0 ? '+' : ''}${pctChange.toFixed(1)}% over 28 days). ${trend.summary}`,
-            });
-          }
-          if (trend.breakpoints.length > 0) {
-            const bp = trend.breakpoints[0]!;
-            issues.push({
-              severity: 'medium',
-              message: `Sudden traffic ${bp.direction === 'up' ? 'spike' : 'drop'} detected on ${bp.date} (${bp.changePercent.toFixed(1)}% change). Investigate potential algorithm update or site change.`,
-            });
-          }
-        } else {
-          issues.push({
-            severity: 'medium',
-            message: 'Could not analyze traffic trends. Ensure search analytics data is available for the last 28 days.',
-          });
-        }
-
-        // ── Score 2: CTR Efficiency (0-100, weight: 25%) ────────────────
-        let ctrScore = 50; // default
-        const ctrResult = await safeSection('CTR Efficiency', async () => {
-          const res = await api.querySearchAnalytics(buildRequest(
-            siteUrl, dateRange28d.startDate, dateRange28d.endDate, type, ['query'], 100,
-          ));
-          return res.rows;
-        });
-
-        if (ctrResult.ok) {
-          const queryRows = ctrResult.data;
-          if (queryRows.length > 0) {
-            let atOrAboveBenchmark = 0;
-            let belowBenchmarkBadly = 0;
-
-            for (const row of queryRows) {
-              const analysis = analyzeCtr(row.position, row.ctr);
-              if (analysis.ctrRatio >= 0.8) {
-                atOrAboveBenchmark++;
-              }
-              if (analysis.performance === 'poor') {
-                belowBenchmarkBadly++;
-              }
-            }
-
-            ctrScore = Math.round((atOrAboveBenchmark / queryRows.length) * 100);
-
-            if (belowBenchmarkBadly > queryRows.length * 0.3) {
-              issues.push({
-                severity: 'high',
-                message: `${belowBenchmarkBadly} of your top ${queryRows.length} queries have CTR significantly below benchmark. Consider improving title tags and meta descriptions.`,
-              });
-            } else if (ctrScore < 50) {
-              issues.push({
-                severity: 'medium',
-                message: `CTR efficiency is at ${ctrScore}%. Many queries underperform their position benchmarks.`,
-              });
-            }
-          }
-        } else {
-          issues.push({
-            severity: 'medium',
-            message: 'Could not analyze CTR efficiency. Ensure query data is available.',
-          });
-        }
-
-        // ── Score 3: Position Distribution (0-100, weight: 25%) ─────────
-        let positionScore = 50; // default
-        const positionResult = await safeSection('Position Distribution', async () => {
-          const res = await api.querySearchAnalytics(buildRequest(
-            siteUrl, dateRange28d.startDate, dateRange28d.endDate, type, ['query'], 5000,
-          ));
-          return res.rows;
-        });
-
-        if (positionResult.ok) {
-          const allRows = positionResult.data;
-          if (allRows.length > 0) {
-            const total = allRows.length;
-            const pos1to3 = allRows.filter((r) => r.position <= 3).length;
-            const pos4to10 = allRows.filter((r) => r.position > 3 && r.position <= 10).length;
-            const pos11to20 = allRows.filter((r) => r.position > 10 && r.position <= 20).length;
-            const pos20plus = allRows.filter((r) => r.position > 20).length;
-
-            // Weighted: pos 1-3 = 100 pts, pos 4-10 = 70 pts, pos 11-20 = 30 pts, 20+ = 0 pts
-            positionScore = Math.round(
-              ((pos1to3 * 100 + pos4to10 * 70 + pos11to20 * 30 + pos20plus * 0) / total),
-            );
-
-            if (pos20plus > total * 0.5) {
-              issues.push({
-                severity: 'high',
-                message: `${formatPercent(pos20plus / total, 0)} of queries rank beyond position 20. Focus content improvement efforts on these buried pages.`,
-              });
-            }
-            if (pos1to3 < total * 0.05) {
-              issues.push({
-                severity: 'medium',
-                message: `Only ${formatPercent(pos1to3 / total, 0)} of queries rank in positions 1-3. Work on improving top-ranking content authority.`,
-              });
-            }
-          }
-        } else {
-          issues.push({
-            severity: 'medium',
-            message: 'Could not analyze position distribution. Ensure query data is available.',
-          });
-        }
-
-        // ── Score 4: Sitemap Health (0-100, weight: 20%) ────────────────
-        let sitemapScore = 50; // default
-        const sitemapResult = await safeSection('Sitemap Health', async () => {
-          const sitemaps = await api.listSitemaps(siteUrl);
-          return sitemaps;
-        });
-
-        if (sitemapResult.ok) {
-          const sitemaps = sitemapResult.data;
-
-          if (sitemaps.length === 0) {
-            sitemapScore = 0;
-            issues.push({
-              severity: 'critical',
-              message: 'No sitemaps submitted. Submit a sitemap to help Google discover and crawl your pages efficiently.',
-            });
-          } else {
-            sitemapScore = 100;
-
-            const errorSitemaps = sitemaps.filter((s) => s.errors);
-            const warningSitemaps = sitemaps.filter((s) => s.warnings);
-            const pendingSitemaps = sitemaps.filter((s) => s.isPending);
-
-            // Deduct for errors (most severe)
-            if (errorSitemaps.length > 0) {
-              sitemapScore -= Math.min(40, errorSitemaps.length * 20);
-              issues.push({
-                severity: 'critical',
-                message: `${errorSitemaps.length} sitemap${errorSitemaps.length > 1 ? 's' : ''} ha${errorSitemaps.length > 1 ? 've' : 's'} errors: ${errorSitemaps.map((s) => s.path).join(', ')}`,
-              });
-            }
-
-            // Deduct for warnings
-            if (warningSitemaps.length > 0) {
-              sitemapScore -= Math.min(20, warningSitemaps.length * 10);
-              issues.push({
-                severity: 'high',
-                message: `${warningSitemaps.length} sitemap${warningSitemaps.length > 1 ? 's' : ''} ha${warningSitemaps.length > 1 ? 've' : 's'} warnings: ${warningSitemaps.map((s) => s.path).join(', ')}`,
-              });
-            }
-
-            // Deduct for pending
-            if (pendingSitemaps.length > 0) {
-              sitemapScore -= Math.min(10, pendingSitemaps.length * 5);
-            }
-
-            // Check recency of submission
-            const hasRecentSubmission = sitemaps.some((s) => {
-              if (!s.lastSubmitted) return false;
-              try {
-                return daysBetween(s.lastSubmitted.split('T')[0]!, formatDate(new Date())) <= 30;
-              } catch {
-                return false;
-              }
-            });
-
-            if (!hasRecentSubmission) {
-              sitemapScore -= 15;
-              issues.push({
-                severity: 'low',
-                message: 'No sitemaps have been submitted in the last 30 days. Consider resubmitting to signal fresh content.',
-              });
-            }
-
-            sitemapScore = Math.max(0, sitemapScore);
-          }
-        } else {
-          issues.push({
-            severity: 'medium',
-            message: 'Could not check sitemap health.',
-          });
-        }
-
-        // ── Overall Grade Calculation ───────────────────────────────────
-        const overallScore = Math.round(
-          trafficScore * 0.30 +
-          ctrScore * 0.25 +
-          positionScore * 0.25 +
-          sitemapScore * 0.20,
-        );
-
-        const grade =
-          overallScore >= 90 ? 'A' :
-          overallScore >= 75 ? 'B' :
-          overallScore >= 60 ? 'C' :
-          overallScore >= 40 ? 'D' : 'F';
+        const {
+          ranked, dateRange28d, issues, overallScore, grade,
+          trafficScore, ctrScore, positionScore, sitemapScore,
+          trafficResult, ctrResult, positionResult, sitemapResult, sitemapTrends,
+        } = await runHealthCheck(api, siteUrl, type);
+        const ctrUnit = ranked ? 'queries' : 'pages';
+        const positionWeight = ranked ? 0.25 : 0;
+        const weightLabel = (weight: number): string => `${Math.round((weight / (0.75 + positionWeight)) * 100)}%`;
 
         const gradeDescription: Record<string, string> = {
           A: 'Excellent -- Your site is performing very well across all SEO dimensions.',
@@ -899,10 +1092,14 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
           return `${score} ✗`;
         };
 
-        sections.push(`| **Traffic Trend** | ${scoreIndicator(trafficScore)} | 30% | ${scoreStatus(trafficScore)} |`);
-        sections.push(`| **CTR Efficiency** | ${scoreIndicator(ctrScore)} | 25% | ${scoreStatus(ctrScore)} |`);
-        sections.push(`| **Position Distribution** | ${scoreIndicator(positionScore)} | 25% | ${scoreStatus(positionScore)} |`);
-        sections.push(`| **Sitemap Health** | ${scoreIndicator(sitemapScore)} | 20% | ${scoreStatus(sitemapScore)} |`);
+        sections.push(`| **Traffic Trend** | ${scoreIndicator(trafficScore)} | ${weightLabel(0.30)} | ${scoreStatus(trafficScore)} |`);
+        sections.push(`| **CTR Efficiency** | ${scoreIndicator(ctrScore)} | ${weightLabel(0.25)} | ${scoreStatus(ctrScore)} |`);
+        if (ranked) {
+          sections.push(`| **Position Distribution** | ${scoreIndicator(positionScore)} | ${weightLabel(0.25)} | ${scoreStatus(positionScore)} |`);
+        } else {
+          sections.push(`| **Position Distribution** | n/a | 0% | Not reported for ${type} |`);
+        }
+        sections.push(`| **Sitemap Health** | ${scoreIndicator(sitemapScore)} | ${weightLabel(0.20)} | ${scoreStatus(sitemapScore)} |`);
         sections.push('');
 
         // ── Detailed Findings ───────────────────────────────────────────
@@ -931,14 +1128,14 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
         sections.push(`#### CTR Efficiency (Score: ${ctrScore}/100)`);
         if (ctrResult.ok && ctrResult.data.length > 0) {
           const rows = ctrResult.data;
-          const analyses = rows.map((r) => analyzeCtr(r.position, r.ctr));
+          const analyses = rows.map((r) => analyzeCtr(r.position, r.ctr, type));
           const excellent = analyses.filter((a) => a.performance === 'excellent').length;
           const good = analyses.filter((a) => a.performance === 'good').length;
           const avg = analyses.filter((a) => a.performance === 'average').length;
           const belowAvg = analyses.filter((a) => a.performance === 'below_average').length;
           const poor = analyses.filter((a) => a.performance === 'poor').length;
 
-          sections.push(`- Analyzed top ${rows.length} queries against CTR benchmarks:`);
+          sections.push(`- Analyzed top ${rows.length} ${ctrUnit} against ${ranked ? 'CTR benchmarks' : `the ${type} CTR benchmark`}:`);
           sections.push(`  - Excellent (>150% of benchmark): ${excellent}`);
           sections.push(`  - Good (>110%): ${good}`);
           sections.push(`  - Average (>80%): ${avg}`);
@@ -955,19 +1152,21 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
           if (underperformers.length > 0) {
             sections.push(`- Top CTR underperformers (high-impression, poor CTR):`);
             for (const u of underperformers) {
-              sections.push(`  - "${u.query}": CTR ${formatPercent(u.actualCtr)} vs expected ${formatPercent(u.expectedCtr)} at pos ${formatPosition(u.position)}`);
+              sections.push(`  - "${u.query}": CTR ${formatPercent(u.actualCtr)} vs expected ${formatPercent(u.expectedCtr)}${ranked ? ` at pos ${formatPosition(u.position)}` : ''}`);
             }
           }
         } else if (ctrResult.ok) {
-          sections.push('- No query data available for CTR analysis.');
+          sections.push(`- No ${ranked ? 'query' : 'page'} data available for CTR analysis.`);
         } else {
           sections.push(`- ${ctrResult.error}`);
         }
         sections.push('');
 
         // Position Distribution details
-        sections.push(`#### Position Distribution (Score: ${positionScore}/100)`);
-        if (positionResult.ok && positionResult.data.length > 0) {
+        sections.push(ranked ? `#### Position Distribution (Score: ${positionScore}/100)` : '#### Position Distribution (not scored)');
+        if (!ranked) {
+          sections.push(`- ${type} results are cards in a feed with no ranking position, so this score is left out of the grade.`);
+        } else if (positionResult.ok && positionResult.data.length > 0) {
           const allRows = positionResult.data;
           const total = allRows.length;
           const pos1to3 = allRows.filter((r) => r.position <= 3).length;
@@ -1006,6 +1205,14 @@ export function registerReportTools(server: McpServer, api: GscApiClient): void
             if (errorCount > 0) sections.push(`- ${errorCount} sitemap${errorCount > 1 ? 's' : ''} with errors`);
             if (warningCount > 0) sections.push(`- ${warningCount} sitemap${warningCount > 1 ? 's' : ''} with warnings`);
             if (errorCount === 0 && warningCount === 0) sections.push('- No errors or warnings detected');
+
+            for (const trend of sitemapTrends) {
+              if (trend.indexedChangePercent === null || !trend.baseline) continue;
+              sections.push(`- ${trend.path}: ${formatNumber(trend.indexed)} indexed (${formatChange(trend.indexed, trend.indexed - trend.indexedChange, 1)} since ${trend.baseline.takenAt.slice(0, 10)})`);
+            }
+            if (api.sitemapHistory && sitemapTrends.every((t) => !t.baseline)) {
+              sections.push('- Indexed-count trends will appear once sitemap snapshots from more than one day are recorded');
+            }
           }
         } else {
           sections.push(`- ${sitemapResult.error}`);
@@ -1,9 +1,11 @@
 import { z } from 'zod';
+import type { FilterGroup } from '../api/filter-compiler.js';
+import type { TablePage } from '../cache/result-cursors.js';
 
 // Shared schemas used across multiple tool groups
 
 export const siteUrlSchema = z.string().describe(
-  'The site URL exactly as it appears in Google Search Console (e.g., "https://example.com/" or "sc-domain:example.com")'
+  'The Search Console property (e.g., "https://example.com/" or "sc-domain:example.com"). A hostname or page URL also works and is matched to the most specific accessible property'
 );
 
 export const dateRangeSchema = z.object({
@@ -24,8 +26,8 @@ export const deviceSchema = z.enum([
 ]).describe('Device type filter');
 
 export const dimensionSchema = z.enum([
-  'date', 'query', 'page', 'country', 'device', 'searchAppearance',
-]).describe('Dimension to group results by');
+  'date', 'hour', 'query', 'page', 'country', 'device', 'searchAppearance',
+]).describe('Dimension to group results by ("hour" is only available for the last few days)');
 
 export const filterOperatorSchema = z.enum([
   'contains', 'equals', 'notContains', 'notEquals', 'includingRegex', 'excludingRegex',
@@ -37,8 +39,21 @@ export const dimensionFilterSchema = z.object({
   expression: z.string().describe('Filter expression value'),
 });
 
-export const dataStateSchema = z.enum(['all', 'final']).default('all').describe(
-  '"final" = only finalized data (3+ days old), "all" = includes fresh data'
+export const filterGroupSchema: z.ZodType<FilterGroup, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.object({
+    groupType: z.enum(['and', 'or']).describe('Whether all ("and") or any ("or") of the filters must match'),
+    negate: z.boolean().optional().describe('Match rows that do NOT satisfy this group'),
+    filters: z.array(z.union([filterGroupSchema, dimensionFilterSchema])).min(1)
+      .describe('Dimension filters and nested groups'),
+  }),
+);
+
+export const filterGroupsSchema = z.array(filterGroupSchema).describe(
+  'Filter groups with AND/OR logic, nesting and negation, ANDed with each other and with filters. E.g. page contains /blog/ OR page contains /guides/: [{"groupType":"or","filters":[{"dimension":"page","operator":"contains","expression":"/blog/"},{"dimension":"page","operator":"contains","expression":"/guides/"}]}]'
+);
+
+export const dataStateSchema = z.enum(['all', 'final', 'hourly_all']).default('all').describe(
+  '"final" = only finalized data (3+ days old), "all" = includes fresh data, "hourly_all" = fresh data in hourly buckets (required with the hour dimension)'
 );
 
 export const rowLimitSchema = z.number().min(1).max(25000).default(1000).describe(
@@ -47,6 +62,14 @@ export const rowLimitSchema = z.number().min(1).max(25000).default(1000).describ
 
 export const aggregationTypeSchema = z.enum(['auto', 'byPage', 'byProperty']).default('auto');
 
+export const pageSizeSchema = z.number().int().min(1).max(1000).describe(
+  'Rows to show per page (1-1000); a cursor is returned when more rows remain'
+);
+
+export const cursorSchema = z.string().describe(
+  'Cursor from a previous paged result; returns the next page of that result'
+);
+
 // Common response wrapper
 export interface ToolResponse<T = unknown> {
   data: T;
@@ -85,3 +108,41 @@ export function formatToolResponse<T>(response: ToolResponse<T>): string {
 
   return parts.join('\n');
 }
+
+/**
+ * Render one page of a paged table, with a pointer to the next page when
+ * rows remain.
+ */
+export function formatTablePage(page: TablePage): string {
+  const parts = [page.title, '', ...page.lines];
+  if (page.total > page.end - page.start) {
+    parts.push('', `_Rows ${page.start + 1}-${page.end} of ${page.total}._`);
+  }
+  if (page.cursor) {
+    parts.push(`**More rows:** call \`get_next_page\` with \`cursor: "${page.cursor}"\`.`);
+  }
+  return parts.join('\n');
+}
+
+/** Full tool response text for a page reached through a cursor. */
+export function formatCursorPage(page: TablePage): string {
+  return formatToolResponse(createToolResponse(
+    formatTablePage(page),
+    `Rows ${page.start + 1}-${page.end} of ${page.total} from an earlier result${page.cursor ? '.' : '; this is the last page.'}`,
+  ));
+}
+
+/**
+ * Gather the caveats API responses carry about how they were produced
+ * (warehouse reads, stale cache entries, ...) for a tool's limitations.
+ * Identical notices from several responses are listed once.
+ */
+export function collectNotices(...responses: Array<{ notices?: string[] } | undefined>): string[] {
+  const notices = new Set<string>();
+  for (const response of responses) {
+    for (const notice of response?.notices ?? []) {
+      notices.add(notice);
+    }
+  }
+  return [...notices];
+}
@@ -1,9 +1,16 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { GscApiClient } from '../../api/client.js';
-import { siteUrlSchema, createToolResponse, formatToolResponse } from '../schemas.js';
-import { GscError } from '../../errors/gsc-error.js';
-import { formatNumber } from '../../utils/formatting.js';
+import { siteUrlSchema, periodSchema, createToolResponse, formatToolResponse, collectNotices } from '../schemas.js';
+import { GscError, ValidationError } from '../../errors/gsc-error.js';
+import { auditSitemapCoverage } from '../../analysis/sitemap-coverage.js';
+import { analyzeSitemapTrends } from '../../analysis/sitemap-trends.js';
+import type { SitemapHistory } from '../../sitemaps/sitemap-history.js';
+import { collectSitemapUrls } from '../../sitemaps/sitemap-reader.js';
+import { formatDate, getDateRange } from '../../utils/date-helpers.js';
+import { formatChange, formatNumber, formatPercent, truncate } from '../../utils/formatting.js';
+import { withPriority } from '../../utils/rate-limiter.js';
+import { collectRetryNotices } from '../../api/retry-policy.js';
 
 /**
  * Format an error into an MCP tool error response.
@@ -22,6 +29,27 @@ function errorResponse(error: unknown) {
   };
 }
 
+function requireHistory(api: GscApiClient): SitemapHistory {
+  if (!api.sitemapHistory) {
+    throw new ValidationError('Sitemap history is not enabled on this server.', {
+      recoveryHint: 'Start the server without GSC_SITEMAP_HISTORY=false to keep sitemap snapshots.',
+    });
+  }
+  return api.sitemapHistory;
+}
+
+/** Hosts a property covers, for deciding which child sitemaps to follow. */
+function propertyHosts(siteUrl: string): string[] {
+  if (siteUrl.startsWith('sc-domain:')) {
+    return [siteUrl.slice('sc-domain:'.length)];
+  }
+  try {
+    return [new URL(siteUrl).hostname];
+  } catch {
+    return [];
+  }
+}
+
 const feedpathSchema = z.string().describe(
   'The URL of the sitemap (e.g., "https://example.com/sitemap.xml")',
 );
@@ -34,7 +62,8 @@ export function registerSitemapTools(server: McpServer, api: GscApiClient): void
     { siteUrl: siteUrlSchema },
     async ({ siteUrl }) => {
       try {
-        const sitemaps = await api.listSitemaps(siteUrl);
+        siteUrl = await api.resolveSiteUrl(siteUrl);
+        const { result: sitemaps, notices } = await collectRetryNotices(() => api.listSitemaps(siteUrl));
 
         if (sitemaps.length === 0) {
           const text = formatToolResponse(createToolResponse(
@@ -80,6 +109,7 @@ export function registerSitemapTools(server: McpServer, api: GscApiClient): void
         const limitations = [
           'URL counts reflect submitted URLs, not necessarily indexed URLs.',
           'Sitemap data may be cached and not reflect the most recent crawl.',
+          ...notices,
         ];
 
         const text = formatToolResponse(createToolResponse(data, summary, recommendations, limitations));
@@ -97,7 +127,8 @@ export function registerSitemapTools(server: McpServer, api: GscApiClient): void
     { siteUrl: siteUrlSchema, feedpath: feedpathSchema },
     async ({ siteUrl, feedpath }) => {
       try {
-        const sm = await api.getSitemap(siteUrl, feedpath);
+        siteUrl = await api.resolveSiteUrl(siteUrl);
+        const { result: sm, notices } = await collectRetryNotices(() => api.getSitemap(siteUrl, feedpath));
 
         const status = sm.isPending ? 'Pending' : (sm.errors ? 'Error' : 'Success');
 
@@ -156,6 +187,7 @@ export function registerSitemapTools(server: McpServer, api: GscApiClient): void
         const limitations = [
           'Indexed counts may lag behind actual indexing status.',
           'Error details are summarized; check Search Console UI for full diagnostics.',
+          ...notices,
         ];
 
         const text = formatToolResponse(createToolResponse(data, summary, recommendations, limitations));
@@ -173,7 +205,8 @@ export function registerSitemapTools(server: McpServer, api: GscApiClient): void
     { siteUrl: siteUrlSchema, feedpath: feedpathSchema },
     async ({ siteUrl, feedpath }) => {
       try {
-        await api.submitSitemap(siteUrl, feedpath);
+        siteUrl = await api.resolveSiteUrl(siteUrl);
+        const { notices } = await collectRetryNotices(() => api.submitSitemap(siteUrl, feedpath));
 
         const summary = `Successfully submitted sitemap ${feedpath} for ${siteUrl}.`;
 
@@ -186,6 +219,7 @@ export function registerSitemapTools(server: McpServer, api: GscApiClient): void
         const limitations = [
           'Submitting a sitemap does not guarantee all URLs will be crawled or indexed.',
           'Google processes sitemaps on its own schedule.',
+          ...notices,
         ];
 
         const text = formatToolResponse(createToolResponse(
@@ -208,7 +242,8 @@ export function registerSitemapTools(server: McpServer, api: GscApiClient): void
     { siteUrl: siteUrlSchema, feedpath: feedpathSchema },
     async ({ siteUrl, feedpath }) => {
       try {
-        await api.deleteSitemap(siteUrl, feedpath);
+        siteUrl = await api.resolveSiteUrl(siteUrl);
+        const { notices } = await collectRetryNotices(() => api.deleteSitemap(siteUrl, feedpath));
 
         const summary = `Successfully removed sitemap ${feedpath} from ${siteUrl}.`;
 
@@ -219,6 +254,7 @@ export function registerSitemapTools(server: McpServer, api: GscApiClient): void
 
         const limitations = [
           'Google may continue to crawl URLs that were in the sitemap if they are linked from other pages.',
+          ...notices,
         ];
 
         const text = formatToolResponse(createToolResponse(
@@ -233,4 +269,301 @@ export function registerSitemapTools(server: McpServer, api: GscApiClient): void
       }
     },
   );
+
+  // ── audit_sitemap_coverage ───────────────────────────────────────────
+  server.tool(
+    'audit_sitemap_coverage',
+    'Read the URLs inside a sitemap or sitemap index (following child sitemaps) and compare them with search traffic: sitemap URLs with no impressions, pages with traffic missing from every sitemap, and stale lastmod dates',
+    {
+      siteUrl: siteUrlSchema,
+      sitemap: z.string().optional().describe('Sitemap or sitemap index URL, or a local file path. Omit to audit every sitemap submitted for the property'),
+      period: periodSchema.optional().default('last3m'),
+      staleDays: z.number().int().min(1).optional().default(365).describe('A lastmod older than this many days counts as stale'),
+      limit: z.number().int().min(1).max(500).optional().default(25).describe('Rows to list per table'),
+    },
+    async (params) => {
+      try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
+        const { result: sources, notices } = await collectRetryNotices(async () =>
+          params.sitemap
+            ? [params.sitemap]
+            : (await api.listSitemaps(params.siteUrl)).map((sm) => sm.path),
+        );
+
+        if (sources.length === 0) {
+          const text = formatToolResponse(createToolResponse(
+            '_No sitemaps found for this property._',
+            `No sitemaps are submitted for ${params.siteUrl}, so there is nothing to audit.`,
+            ['Pass a sitemap URL or file with the sitemap parameter, or submit one with submit_sitemap.'],
+            [],
+          ));
+          return { content: [{ type: 'text' as const, text }] };
+        }
+
+        const dateRange = getDateRange(params.period);
+        const [collected, pages] = await Promise.all([
+          collectSitemapUrls(sources, { followHosts: propertyHosts(params.siteUrl) }),
+          withPriority('normal', () =>
+            api.querySearchAnalyticsAllRows({
+              siteUrl: params.siteUrl,
+              startDate: dateRange.startDate,
+              endDate: dateRange.endDate,
+              dimensions: ['page'],
+              dataState: 'all',
+            }),
+          ),
+        ]);
+
+        const failedFiles = collected.files.filter((f) => f.error);
+        if (collected.urls.size === 0) {
+          const text = formatToolResponse(createToolResponse(
+            [
+              '| Sitemap | Result |',
+              '| --- | --- |',
+              ...collected.files.map((f) => `| ${f.source} | ${f.error ?? `${f.kind}, ${formatNumber(f.entries)} entries`} |`),
+            ].join('\n'),
+            `No page URLs could be read from ${sources.length === 1 ? sources[0] : `${sources.length} sitemaps`}.`,
+            failedFiles.length > 0
+              ? ['Check that the sitemap is reachable without authentication and returns valid sitemap XML.']
+              : ['The sitemap has no <url> entries. Add the pages you want crawled.'],
+            [],
+          ));
+          return { content: [{ type: 'text' as const, text }] };
+        }
+
+        const coverage = auditSitemapCoverage(collected.urls.values(), pages.rows, {
+          today: formatDate(new Date()),
+          staleDays: params.staleDays,
+        });
+        const limit = params.limit;
+
+        const parts = [
+          '## Coverage\n',
+          '| Metric | Value |',
+          '| --- | ---: |',
+          `| Sitemap files read | ${formatNumber(collected.files.length - failedFiles.length)} of ${formatNumber(collected.files.length)} |`,
+          `| URLs in sitemaps | ${formatNumber(coverage.sitemapUrls)} |`,
+          `| With impressions | ${formatNumber(coverage.withImpressions)} |`,
+          `| Without impressions | ${formatNumber(coverage.zeroImpressions.length)} |`,
+          `| Pages with clicks missing from sitemaps | ${formatNumber(coverage.missing.length)} |`,
+          `| Stale lastmod (over ${params.staleDays} days) | ${formatNumber(coverage.stale.length)} |`,
+          `| Invalid or future lastmod | ${formatNumber(coverage.invalidLastmod.length)} |`,
+          '',
+          `*Traffic period: ${dateRange.startDate} to ${dateRange.endDate}*`,
+        ];
+
+        if (coverage.missing.length > 0) {
+          parts.push(
+            '',
+            '## Pages With Traffic Missing From Sitemaps\n',
+            '| Page | Clicks | Impressions |',
+            '| --- | ---: | ---: |',
+            ...coverage.missing.slice(0, limit).map((row) =>
+              `| ${truncate(row.keys[0] ?? '', 100)} | ${formatNumber(row.clicks)} | ${formatNumber(row.impressions)} |`,
+            ),
+          );
+        }
+
+        if (coverage.zeroImpressions.length > 0) {
+          parts.push(
+            '',
+            '## Sitemap URLs Without Impressions\n',
+            '| URL | Lastmod |',
+            '| --- | --- |',
+            ...coverage.zeroImpressions.slice(0, limit).map((e) => `| ${truncate(e.loc, 100)} | ${e.lastmod ?? '-'} |`),
+          );
+        }
+
+        if (coverage.stale.length > 0) {
+          parts.push(
+            '',
+            '## Stale Lastmod\n',
+            '| URL | Lastmod | Age | Impressions |',
+            '| --- | --- | ---: | ---: |',
+            ...coverage.stale.slice(0, limit).map((e) =>
+              `| ${truncate(e.loc, 100)} | ${e.lastmod} | ${formatNumber(e.ageDays)}d | ${formatNumber(e.impressions)} |`,
+            ),
+          );
+        }
+
+        if (coverage.invalidLastmod.length > 0) {
+          parts.push(
+            '',
+            '## Invalid Lastmod\n',
+            '| URL | Lastmod |',
+            '| --- | --- |',
+            ...coverage.invalidLastmod.slice(0, limit).map((e) => `| ${truncate(e.loc, 100)} | ${e.lastmod} |`),
+          );
+        }
+
+        if (failedFiles.length > 0) {
+          parts.push(
+            '',
+            '## Unreadable Sitemaps\n',
+            '| Sitemap | Error |',
+            '| --- | --- |',
+            ...failedFiles.map((f) => `| ${f.source} | ${f.error} |`),
+          );
+        }
+
+        const zeroShare = coverage.zeroImpressions.length / coverage.sitemapUrls;
+        const summary = [
+          `${formatNumber(coverage.sitemapUrls)} sitemap URL(s) across ${collected.files.length - failedFiles.length} file(s); ${formatNumber(coverage.withImpressions)} had impressions during ${params.period}.`,
+          coverage.missing.length > 0 ? `${formatNumber(coverage.missing.length)} page(s) with clicks are not in any sitemap.` : '',
+          coverage.stale.length > 0 ? `${formatNumber(coverage.stale.length)} URL(s) have a lastmod older than ${params.staleDays} days.` : '',
+        ].filter((s) => s.length > 0).join(' ');
+
+        const recommendations: string[] = [];
+        if (coverage.missing.length > 0) {
+          recommendations.push(`Add the ${formatNumber(coverage.missing.length)} page(s) that get clicks but are missing from your sitemaps, or check whether they should be canonicalized to a listed URL.`);
+        }
+        if (zeroShare >= 0.3) {
+          recommendations.push(`${formatPercent(zeroShare, 0)} of sitemap URLs had no impressions. Check their index status with batch_inspect_urls; remove URLs that redirect, are noindexed or are not canonical.`);
+        } else if (coverage.zeroImpressions.length > 0) {
+          recommendations.push('Spot-check sitemap URLs without impressions with inspect_url to see whether they are indexed.');
+        }
+        if (coverage.uniformLastmod) {
+          recommendations.push(`Nearly every URL has lastmod ${coverage.uniformLastmod}, which suggests it is the sitemap generation time. Set lastmod to when each page's content last changed, or Google will learn to ignore it.`);
+        } else if (coverage.stale.length > 0) {
+          recommendations.push('Review pages with stale lastmod values: refresh content that is out of date, and make sure lastmod is updated when pages change.');
+        }
+        if (coverage.invalidLastmod.length > 0) {
+          recommendations.push('Fix lastmod values that are not W3C dates or lie in the future.');
+        }
+        if (failedFiles.length > 0) {
+          recommendations.push('Some sitemap files could not be read. Make sure they are reachable without authentication and return valid XML.');
+        }
+        if (recommendations.length === 0) {
+          recommendations.push('Sitemaps and search traffic line up well. Re-run after large site changes.');
+        }
+
+        const limitations = [
+          'A URL with no impressions may still be indexed; it just was not shown in search during the period.',
+          'URLs are matched exactly apart from the fragment and letter case of the host, so http/https or trailing-slash variants count as different pages.',
+          'Search Console omits some low-traffic pages from page-level data.',
+          ...(collected.truncated ? [`Only the first ${collected.files.length} sitemap files were read.`] : []),
+          ...collectNotices(pages),
+          ...notices,
+        ];
+
+        const text = formatToolResponse(createToolResponse(parts.join('\n'), summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+
+  // ── get_sitemap_history ──────────────────────────────────────────────
+  server.tool(
+    'get_sitemap_history',
+    'Show how submitted and indexed URL counts changed over time for each sitemap and content type, and flag errors or warnings that are new since the last snapshot',
+    {
+      siteUrl: siteUrlSchema,
+      feedpath: feedpathSchema.optional().describe('Only show this sitemap. Omit for every sitemap of the property'),
+      windowDays: z.number().int().min(1).max(400).optional().default(28).describe('Measure changes over this many days'),
+      limit: z.number().int().min(1).max(400).optional().default(30).describe('Snapshots to list per sitemap, newest first'),
+    },
+    async (params) => {
+      try {
+        params = { ...params, siteUrl: await api.resolveSiteUrl(params.siteUrl) };
+        const history = requireHistory(api);
+
+        // Reading the sitemaps records today's snapshot.
+        const { result: current, notices } = await collectRetryNotices(async () =>
+          params.feedpath
+            ? [await api.getSitemap(params.siteUrl, params.feedpath)]
+            : api.listSitemaps(params.siteUrl),
+        );
+
+        // Sitemaps removed from Search Console keep their snapshots but are
+        // no longer reported, as in seo_health_check.
+        const recorded = await history.forSite(params.siteUrl);
+        const currentPaths = new Set(current.map((sm) => sm.path));
+        const removed = params.feedpath ? [] : [...recorded.keys()].filter((path) => !currentPaths.has(path));
+        for (const path of [...recorded.keys()]) {
+          if (!currentPaths.has(path)) recorded.delete(path);
+        }
+        const trends = analyzeSitemapTrends(recorded, params.windowDays);
+
+        if (trends.length === 0) {
+          const text = formatToolResponse(createToolResponse(
+            '_No sitemap snapshots recorded yet._',
+            `No sitemaps are submitted for ${params.siteUrl}, so there is no history to show.`,
+            ['Submit a sitemap with submit_sitemap; its state is recorded each time it is read.'],
+            [],
+          ));
+          return { content: [{ type: 'text' as const, text }] };
+        }
+
+        const parts: string[] = [];
+        for (const trend of trends) {
+          const since = trend.baseline ? ` since ${trend.baseline.takenAt.slice(0, 10)}` : '';
+          parts.push(
+            `## ${trend.path}\n`,
+            trend.baseline
+              ? `Submitted: ${formatNumber(trend.submitted)} (${trend.submittedChange >= 0 ? '+' : ''}${formatNumber(trend.submittedChange)}${since}). Indexed: ${formatNumber(trend.indexed)} (${trend.indexedChange >= 0 ? '+' : ''}${formatNumber(trend.indexedChange)}${trend.indexedChangePercent !== null ? `, ${formatChange(trend.indexed, trend.indexed - trend.indexedChange, 1)}` : ''}${since}).`
+              : `Submitted: ${formatNumber(trend.submitted)}. Indexed: ${formatNumber(trend.indexed)}. Only one snapshot so far.`,
+          );
+          if (trend.previous && (trend.newErrors > 0 || trend.newWarnings > 0)) {
+            parts.push(`\n**New since ${trend.previous.takenAt.slice(0, 10)}:** ${trend.newErrors} error(s), ${trend.newWarnings} warning(s).`);
+          }
+
+          const types = trend.contentTypes.map((c) => c.type);
+          const snapshots = recorded.get(trend.path)!.slice(-params.limit).reverse();
+          parts.push(
+            '',
+            `| Date |${types.map((t) => ` ${t} Submitted | ${t} Indexed |`).join('')} Errors | Warnings |`,
+            `| --- |${types.map(() => ' ---: | ---: |').join('')} ---: | ---: |`,
+            ...snapshots.map((snap) => {
+              const counts = types.map((type) => {
+                const c = snap.contents.find((content) => content.type === type);
+                return c ? ` ${formatNumber(c.submitted)} | ${formatNumber(c.indexed)} |` : ' - | - |';
+              });
+              return `| ${snap.takenAt.slice(0, 10)} |${counts.join('')} ${snap.errors} | ${snap.warnings} |`;
+            }),
+            '',
+          );
+        }
+
+        const shrinking = trends.filter((t) => t.indexedChangePercent !== null && t.indexedChangePercent <= -10);
+        const newlyBroken = trends.filter((t) => t.newErrors > 0 || t.newWarnings > 0);
+        const totalIndexed = trends.reduce((sum, t) => sum + t.indexed, 0);
+        const summary = [
+          `${trends.length} sitemap(s) with ${formatNumber(totalIndexed)} indexed URL(s) in the latest snapshots.`,
+          shrinking.length > 0 ? `Indexed counts fell by 10% or more in ${shrinking.length} of them over the last ${params.windowDays} days.` : '',
+          newlyBroken.length > 0 ? `${newlyBroken.length} reported new errors or warnings since the previous snapshot.` : '',
+        ].filter((p) => p.length > 0).join(' ');
+
+        const recommendations: string[] = [];
+        for (const trend of shrinking) {
+          recommendations.push(`Indexed URLs in ${trend.path} fell ${Math.abs(trend.indexedChangePercent!).toFixed(0)}%. Run audit_sitemap_coverage and batch_inspect_urls on a sample of its URLs to find out why.`);
+        }
+        for (const trend of newlyBroken) {
+          recommendations.push(`${trend.path} has new ${trend.newErrors > 0 ? 'errors' : 'warnings'}. Use get_sitemap_details for the current state and fix the file before resubmitting.`);
+        }
+        if (trends.every((t) => !t.baseline)) {
+          recommendations.push('History builds up as sitemaps are read. Check again on a later day to see trends.');
+        }
+        if (recommendations.length === 0) {
+          recommendations.push('Sitemap counts are stable and no new errors appeared.');
+        }
+
+        const limitations = [
+          'Snapshots are only taken when this server reads a sitemap from the API, and one per sitemap per day is kept, so gaps mean no read that day.',
+          'Sitemap reads are cached for 15 minutes; changes made in Search Console since then show up in the next snapshot.',
+          'Google does not report indexed counts for every sitemap; a count of 0 may mean the number is unavailable.',
+          ...(removed.length > 0
+            ? [`${removed.length} sitemap(s) with recorded history are no longer submitted and are not shown: ${removed.join(', ')}.`]
+            : []),
+          ...notices,
+        ];
+
+        const text = formatToolResponse(createToolResponse(parts.join('\n'), summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
 }
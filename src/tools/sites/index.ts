@@ -3,6 +3,15 @@ import { z } from 'zod';
 import { GscApiClient } from '../../api/client.js';
 import { siteUrlSchema, createToolResponse, formatToolResponse } from '../schemas.js';
 import { GscError } from '../../errors/gsc-error.js';
+import { collectRetryNotices } from '../../api/retry-policy.js';
+
+/**
+ * Properties being added or removed are not resolved against the account's
+ * existing ones, so they must be given exactly.
+ */
+const exactSiteUrlSchema = z.string().describe(
+  'The property exactly as Search Console names it: "https://example.com/" for a URL-prefix property or "sc-domain:example.com" for a domain property'
+);
 
 /**
  * Determine whether a GSC site URL represents a domain property or a URL-prefix property.
@@ -36,7 +45,7 @@ export function registerSiteTools(server: McpServer, api: GscApiClient): void {
     {},
     async () => {
       try {
-        const sites = await api.listSites();
+        const { result: sites, notices } = await collectRetryNotices(() => api.listSites());
 
         const domainCount = sites.filter((s) => s.siteUrl.startsWith('sc-domain:')).length;
         const urlPrefixCount = sites.length - domainCount;
@@ -56,6 +65,7 @@ export function registerSiteTools(server: McpServer, api: GscApiClient): void {
 
         const limitations = [
           'Only properties accessible to the authenticated account are listed.',
+          ...notices,
         ];
 
         const text = formatToolResponse(createToolResponse(data, summary, recommendations, limitations));
@@ -73,7 +83,8 @@ export function registerSiteTools(server: McpServer, api: GscApiClient): void {
     { siteUrl: siteUrlSchema },
     async ({ siteUrl }) => {
       try {
-        const site = await api.getSite(siteUrl);
+        siteUrl = await api.resolveSiteUrl(siteUrl);
+        const { result: site, notices } = await collectRetryNotices(() => api.getSite(siteUrl));
 
         const propertyType = getPropertyType(site.siteUrl);
         const isVerified = site.permissionLevel !== 'siteUnverifiedUser';
@@ -102,6 +113,7 @@ export function registerSiteTools(server: McpServer, api: GscApiClient): void {
 
         const limitations = [
           'Detailed verification method info is not available through the API.',
+          ...notices,
         ];
 
         const text = formatToolResponse(createToolResponse(data, summary, recommendations, limitations));
@@ -116,10 +128,10 @@ export function registerSiteTools(server: McpServer, api: GscApiClient): void {
   server.tool(
     'add_property',
     'Add a new site property to Google Search Console',
-    { siteUrl: siteUrlSchema },
+    { siteUrl: exactSiteUrlSchema },
     async ({ siteUrl }) => {
       try {
-        await api.addSite(siteUrl);
+        const { notices } = await collectRetryNotices(() => api.addSite(siteUrl));
 
         const propertyType = getPropertyType(siteUrl);
         const summary = `Successfully added ${siteUrl} as a ${propertyType.toLowerCase()}.`;
@@ -134,6 +146,7 @@ export function registerSiteTools(server: McpServer, api: GscApiClient): void {
         const limitations = [
           'Adding a property does not automatically verify ownership.',
           'Data will only be available after verification is complete.',
+          ...notices,
         ];
 
         const text = formatToolResponse(createToolResponse(
@@ -153,10 +166,10 @@ export function registerSiteTools(server: McpServer, api: GscApiClient): void {
   server.tool(
     'delete_property',
     'Remove a site property from Google Search Console (permanent)',
-    { siteUrl: siteUrlSchema },
+    { siteUrl: exactSiteUrlSchema },
     async ({ siteUrl }) => {
       try {
-        await api.deleteSite(siteUrl);
+        const { notices } = await collectRetryNotices(() => api.deleteSite(siteUrl));
 
         const summary = `Successfully removed ${siteUrl} from Google Search Console.`;
 
@@ -167,6 +180,7 @@ export function registerSiteTools(server: McpServer, api: GscApiClient): void {
         const limitations = [
           'This action is permanent. Historical data for this property may no longer be accessible.',
           'Other users who had access to this property will also lose access.',
+          ...notices,
         ];
 
         const text = formatToolResponse(createToolResponse(
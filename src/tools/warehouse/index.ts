@@ -0,0 +1,141 @@
+/**
+ * Historical warehouse tools.
+ *
+ * Provides two tools:
+ *   - sync_search_analytics: Pull finalized daily rows into the local warehouse
+ *   - get_warehouse_status: Show which properties and date ranges are stored locally
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { GscApiClient } from '../../api/client.js';
+import { siteUrlSchema, searchTypeSchema, createToolResponse, formatToolResponse } from '../schemas.js';
+import { GscError, ValidationError } from '../../errors/gsc-error.js';
+import { syncProperty, DEFAULT_MAX_DAYS_PER_SYNC } from '../../warehouse/sync.js';
+import type { WarehouseStore } from '../../warehouse/warehouse-store.js';
+import { formatNumber } from '../../utils/formatting.js';
+import { withPriority } from '../../utils/rate-limiter.js';
+
+/**
+ * Format an error into an MCP tool error response.
+ */
+function errorResponse(error: unknown) {
+  const message =
+    error instanceof GscError
+      ? `${error.message}${error.recoveryHint ? `\n\nHint: ${error.recoveryHint}` : ''}`
+      : error instanceof Error
+        ? error.message
+        : 'An unexpected error occurred.';
+
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true,
+  };
+}
+
+function requireWarehouse(api: GscApiClient): WarehouseStore {
+  if (!api.warehouse) {
+    throw new ValidationError('The historical warehouse is not enabled on this server.', {
+      recoveryHint: 'Start the server without GSC_WAREHOUSE=false to enable the local warehouse.',
+    });
+  }
+  return api.warehouse;
+}
+
+export function registerWarehouseTools(server: McpServer, api: GscApiClient): void {
+  // ── sync_search_analytics ────────────────────────────────────────────
+  server.tool(
+    'sync_search_analytics',
+    'Copy finalized daily search analytics (date × query × page × country × device) into the local warehouse so history older than 16 months stays queryable',
+    {
+      siteUrl: siteUrlSchema,
+      searchType: searchTypeSchema.optional().default('web'),
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('First day to fetch on the initial sync (YYYY-MM-DD). Defaults to 16 months ago; earlier days no longer exist in the API and are skipped. Ignored once the property has been synced.'),
+      maxDays: z.number().int().min(1).max(120).default(DEFAULT_MAX_DAYS_PER_SYNC).describe('Maximum number of days to fetch in this call'),
+    },
+    async ({ siteUrl, searchType, startDate, maxDays }) => {
+      try {
+        siteUrl = await api.resolveSiteUrl(siteUrl);
+        const warehouse = requireWarehouse(api);
+        const result = await withPriority('background', () =>
+          syncProperty(api, warehouse, siteUrl, { searchType, startDate, maxDays }),
+        );
+
+        const coverage = result.coverage;
+        const lines = [
+          `| Field | Value |`,
+          `| --- | --- |`,
+          `| **Days synced this run** | ${result.syncedDays.length} |`,
+          `| **Rows stored this run** | ${formatNumber(result.rowsFetched)} |`,
+          `| **Coverage** | ${coverage ? `${coverage.firstDate} to ${coverage.lastDate}` : '—'} |`,
+          `| **Total rows stored** | ${coverage ? formatNumber(coverage.rowCount) : '0'} |`,
+          `| **Days remaining** | ${result.remainingDays} |`,
+        ];
+        const data = lines.join('\n');
+
+        const summary = result.syncedDays.length > 0
+          ? `Synced ${result.syncedDays.length} day(s) for ${siteUrl} (${searchType}): ${result.syncedDays[0]} to ${result.syncedDays[result.syncedDays.length - 1]}.`
+          : `${siteUrl} (${searchType}) is already up to date in the warehouse.`;
+
+        const recommendations: string[] = [];
+        if (result.remainingDays > 0) {
+          recommendations.push(`${result.remainingDays} finalized day(s) are still pending. Run sync_search_analytics again to continue.`);
+        } else {
+          recommendations.push('The warehouse is current. Set GSC_WAREHOUSE_SYNC_HOURS to keep it updated automatically.');
+        }
+
+        const limitations = [
+          'Only finalized data (about 3 days old) is synced; the most recent days are fetched on a later run.',
+          'Anonymized queries are not returned by the API at this granularity, so stored totals are lower than property totals.',
+          'searchAppearance is not stored and cannot be queried from the warehouse.',
+        ];
+
+        const text = formatToolResponse(createToolResponse(data, summary, recommendations, limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+
+  // ── get_warehouse_status ─────────────────────────────────────────────
+  server.tool(
+    'get_warehouse_status',
+    'Show which properties are stored in the local historical warehouse, their date coverage, and sync watermarks',
+    {},
+    async () => {
+      try {
+        const warehouse = requireWarehouse(api);
+        const coverage = await warehouse.listCoverage();
+
+        if (coverage.length === 0) {
+          const text = formatToolResponse(createToolResponse(
+            '_The warehouse is empty._',
+            'No properties have been synced into the local warehouse yet.',
+            ['Run sync_search_analytics for a property to start building history.'],
+            [],
+          ));
+          return { content: [{ type: 'text' as const, text }] };
+        }
+
+        const header = '| Property | Search Type | First Day | Watermark | Rows | Last Sync |';
+        const separator = '| --- | --- | --- | --- | ---: | --- |';
+        const rows = coverage.map((c) =>
+          `| ${c.siteUrl} | ${c.searchType} | ${c.firstDate} | ${c.lastDate} | ${formatNumber(c.rowCount)} | ${c.updatedAt} |`,
+        );
+        const data = [header, separator, ...rows].join('\n');
+
+        const summary = `The warehouse holds ${coverage.length} propert${coverage.length === 1 ? 'y' : 'ies'}.`;
+
+        const limitations = [
+          'Ranges older than 16 months are answered from these rows by get_search_analytics and compare_periods.',
+        ];
+
+        const text = formatToolResponse(createToolResponse(data, summary, [], limitations));
+        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * Bounded-concurrency helpers.
+ */
+
+/**
+ * Map `items` through `fn` with at most `concurrency` calls in flight.
+ * Results keep the order of `items`. A rejection from `fn` rejects the
+ * whole map, so callers that want partial results should catch inside `fn`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  if (concurrency < 1) {
+    throw new RangeError('concurrency must be at least 1');
+  }
+
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
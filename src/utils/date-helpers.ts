@@ -74,6 +74,27 @@ export function daysBetween(start: string, end: string): number {
   return Math.round(Math.abs(endMs - startMs) / 86_400_000);
 }
 
+/**
+ * Shift a `YYYY-MM-DD` string by `days` (negative values go backwards).
+ */
+export function addDays(dateStr: string, days: number): string {
+  const date = parseDate(dateStr);
+  date.setDate(date.getDate() + days);
+  return formatDate(date);
+}
+
+/**
+ * List every date from `start` to `end` inclusive, in ascending order.
+ * Returns an empty array when `start` is after `end`.
+ */
+export function enumerateDates(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let d = start; d <= end; d = addDays(d, 1)) {
+    dates.push(d);
+  }
+  return dates;
+}
+
 /**
  * Check whether `dateStr` falls within `daysThreshold` days of today
  * (inclusive, looking backwards).
@@ -88,6 +109,20 @@ export function isDateFresh(dateStr: string, daysThreshold: number): boolean {
   return diffDays >= 0 && diffDays <= daysThreshold;
 }
 
+/**
+ * The current date in Pacific Time as `YYYY-MM-DD`. Search Console reports
+ * hourly data and resets daily quotas on the Pacific calendar.
+ */
+export function getPacificDate(now: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD.
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/Los_Angeles",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
 // ---------------------------------------------------------------------------
 // Range builders
 // ---------------------------------------------------------------------------
@@ -98,8 +133,7 @@ export function isDateFresh(dateStr: string, daysThreshold: number): boolean {
  * `endDate` is always **yesterday** (GSC data is typically delayed by ~2 days,
  * but yesterday is the latest date the API accepts for queries).
  */
-export function getDateRange(period: DatePeriod): DateRange {
-  const now = new Date();
+export function getDateRange(period: DatePeriod, now: Date = new Date()): DateRange {
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
   // End date = yesterday.
@@ -59,6 +59,28 @@ export function formatChange(
   return `${sign}${change.toFixed(decimals)}%`;
 }
 
+/**
+ * Format the change in average position as a signed difference. Lower
+ * positions are better, so a rise is marked worse and a fall better.
+ * If `previous` is `0` (no ranking data), returns `"N/A"`.
+ *
+ * @example formatPositionChange(5.5, 4.2) // "+1.3 (worse)"
+ * @example formatPositionChange(3.1, 4.2) // "-1.1 (better)"
+ */
+export function formatPositionChange(current: number, previous: number): string {
+  if (previous === 0) {
+    return "N/A";
+  }
+
+  const change = current - previous;
+  if (Math.abs(change) < 0.05) {
+    return "0.0";
+  }
+  return change > 0
+    ? `+${formatPosition(change)} (worse)`
+    : `${formatPosition(change)} (better)`;
+}
+
 /**
  * Truncate a string to `maxLen` characters, appending an ellipsis if
  * truncation occurs.
@@ -71,3 +93,14 @@ export function truncate(str: string, maxLen: number): string {
   }
   return str.slice(0, maxLen) + "...";
 }
+
+/**
+ * Format a byte count with a binary unit.
+ *
+ * @example formatBytes(1536) // "1.5 KB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
@@ -0,0 +1,247 @@
+/**
+ * Daily quota ledger.
+ *
+ * Counts API calls per property, API and quota day, and refuses a call that
+ * would take a property past its daily budget -- before Google rejects it.
+ * The {@link RateLimiter} only smooths bursts; this tracks the daily totals
+ * Google enforces (URL Inspection allows about 2,000 calls per property per
+ * day).
+ *
+ * Google resets daily quotas at midnight Pacific Time, so quota days are
+ * Pacific calendar dates. Counts are written to a small JSON file after
+ * every change so a restarted server does not forget what it has spent.
+ * Several servers may share the file: it is re-read before every check and
+ * merged with this process's counts, so each sees the others' calls.
+ */
+
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { QuotaExceededError } from '../errors/gsc-error.js';
+import { getPacificDate } from './date-helpers.js';
+
+/** Default on-disk location, next to the OAuth token and cache. */
+export const DEFAULT_QUOTA_PATH = join(homedir(), '.awesome-gsc-mcp', 'quota.json');
+
+/** APIs whose calls are counted against a per-property daily budget. */
+export const QUOTA_APIS = ['searchAnalytics', 'urlInspection'] as const;
+
+export type QuotaApi = (typeof QUOTA_APIS)[number];
+
+/**
+ * Default daily budgets per property. URL Inspection matches Google's
+ * published limit; Search Analytics is only throttled per minute by Google,
+ * so it is counted but not capped unless a limit is configured.
+ */
+export const DEFAULT_QUOTA_LIMITS: Partial<Record<QuotaApi, number>> = {
+  urlInspection: 2_000,
+};
+
+/** Days of history kept in the ledger file. */
+const RETAINED_DAYS = 7;
+
+const QUOTA_RESET = 'midnight Pacific Time';
+
+export interface QuotaLedgerOptions {
+  /** JSON file the counts are persisted to. Omit to keep them in memory only. */
+  path?: string;
+  /** Daily budget per property for each API. APIs without a limit are counted but never refused. */
+  limits?: Partial<Record<QuotaApi, number>>;
+}
+
+export interface QuotaUsage {
+  siteUrl: string;
+  api: QuotaApi;
+  /** Quota day (YYYY-MM-DD, Pacific Time). */
+  date: string;
+  used: number;
+  /** Daily budget, or `undefined` when the API is not capped. */
+  limit: number | undefined;
+  /** Calls left today, or `undefined` when the API is not capped. */
+  remaining: number | undefined;
+}
+
+/** `date → siteUrl → api → calls` */
+type LedgerData = Record<string, Record<string, Partial<Record<QuotaApi, number>>>>;
+
+export class QuotaLedger {
+  private readonly path: string | undefined;
+  private readonly limits: Partial<Record<QuotaApi, number>>;
+  private data: LedgerData = {};
+
+  /** Set once an I/O failure disables persistence for this process. */
+  private disabled = false;
+
+  constructor(options: QuotaLedgerOptions = {}) {
+    this.path = options.path;
+    this.limits = { ...DEFAULT_QUOTA_LIMITS, ...options.limits };
+
+    for (const [api, limit] of Object.entries(this.limits)) {
+      if (limit !== undefined && !(limit >= 0)) {
+        throw new RangeError(`Quota limit for ${api} must be zero or more`);
+      }
+    }
+
+    this.load();
+  }
+
+  /**
+   * Throw if `units` more calls would take `siteUrl` past today's budget for
+   * `api`. Nothing is recorded; use this to refuse a batch up front.
+   *
+   * @throws {QuotaExceededError}
+   */
+  assertAvailable(siteUrl: string, api: QuotaApi, units: number = 1): void {
+    const limit = this.limits[api];
+    if (limit === undefined) {
+      return;
+    }
+
+    const used = this.used(siteUrl, api);
+    if (used + units > limit) {
+      const remaining = Math.max(0, limit - used);
+      throw new QuotaExceededError(
+        `Daily ${api} quota for ${siteUrl} would be exceeded: ${used} of ${limit} calls used today, ${units} more requested.`,
+        {
+          recoveryHint:
+            remaining > 0
+              ? `Only ${remaining} ${api} call(s) remain today. Reduce the batch or wait until ${QUOTA_RESET}.`
+              : `The budget resets at ${QUOTA_RESET}. Cached results can still be served.`,
+        },
+      );
+    }
+  }
+
+  /**
+   * Record `units` calls for `siteUrl`, refusing them if they would exceed
+   * today's budget.
+   *
+   * @throws {QuotaExceededError}
+   */
+  consume(siteUrl: string, api: QuotaApi, units: number = 1): void {
+    // Checked against the file just re-read and saved in the same tick, so
+    // no other process's count is lost in between.
+    this.assertAvailable(siteUrl, api, units);
+
+    const date = quotaDay();
+    this.prune(date);
+    const site = ((this.data[date] ??= {})[siteUrl] ??= {});
+    site[api] = (site[api] ?? 0) + units;
+    this.save();
+  }
+
+  /** Calls made today for `siteUrl` and `api`. */
+  used(siteUrl: string, api: QuotaApi): number {
+    this.load();
+    return this.data[quotaDay()]?.[siteUrl]?.[api] ?? 0;
+  }
+
+  /** Calls left today, or `undefined` when `api` is not capped. */
+  remaining(siteUrl: string, api: QuotaApi): number | undefined {
+    const limit = this.limits[api];
+    return limit === undefined ? undefined : Math.max(0, limit - this.used(siteUrl, api));
+  }
+
+  /**
+   * Today's usage, one entry per property and API. A `siteUrl` always gets
+   * an entry for every API, even ones it has not called yet.
+   */
+  usage(siteUrl?: string): QuotaUsage[] {
+    this.load();
+    const date = quotaDay();
+    const today = this.data[date] ?? {};
+    const sites = siteUrl !== undefined ? [siteUrl] : Object.keys(today).sort();
+
+    const usage: QuotaUsage[] = [];
+    for (const site of sites) {
+      for (const api of QUOTA_APIS) {
+        const used = today[site]?.[api] ?? 0;
+        if (siteUrl === undefined && used === 0) {
+          continue;
+        }
+        const limit = this.limits[api];
+        usage.push({
+          siteUrl: site,
+          api,
+          date,
+          used,
+          limit,
+          remaining: limit === undefined ? undefined : Math.max(0, limit - used),
+        });
+      }
+    }
+    return usage;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  /** Drop days older than the retention window. */
+  private prune(today: string): void {
+    const dates = Object.keys(this.data).sort();
+    const cutoff = dates.length > RETAINED_DAYS ? dates[dates.length - RETAINED_DAYS] : undefined;
+    for (const date of dates) {
+      if (date > today || (cutoff !== undefined && date < cutoff)) {
+        delete this.data[date];
+      }
+    }
+  }
+
+  /**
+   * Merge the ledger file into the in-memory counts. Counts only grow within
+   * a day, so the larger of the two is kept: the file brings in other
+   * processes' calls, and this process's own calls survive a missing or
+   * unreadable file.
+   */
+  private load(): void {
+    if (this.path === undefined || this.disabled) {
+      return;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(this.path, 'utf-8'));
+    } catch {
+      // Missing or corrupted ledger -- keep the counts already held.
+      return;
+    }
+    if (typeof parsed !== 'object' || parsed === null) {
+      return;
+    }
+
+    for (const [date, sites] of Object.entries(parsed as LedgerData)) {
+      for (const [siteUrl, apis] of Object.entries(sites ?? {})) {
+        const site = ((this.data[date] ??= {})[siteUrl] ??= {});
+        for (const api of QUOTA_APIS) {
+          const calls = apis?.[api];
+          if (typeof calls === 'number' && calls > (site[api] ?? 0)) {
+            site[api] = calls;
+          }
+        }
+      }
+    }
+  }
+
+  private save(): void {
+    if (this.path === undefined || this.disabled) {
+      return;
+    }
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tmpPath = `${this.path}.${process.pid}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify(this.data), 'utf-8');
+      renameSync(tmpPath, this.path);
+    } catch (error) {
+      this.disabled = true;
+      console.error(
+        `[awesome-gsc-mcp] Quota ledger persistence disabled after write failure in ${this.path}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+}
+
+/** The current quota day (YYYY-MM-DD in Pacific Time). */
+export function quotaDay(now: Date = new Date()): string {
+  return getPacificDate(now);
+}
@@ -1,10 +1,50 @@
 /**
- * Token-bucket rate limiter.
+ * Token-bucket rate limiter with priority lanes.
  *
  * The bucket starts full and refills at a steady rate. Each `acquire()` call
  * consumes one token. If no tokens are available the call awaits until a
  * token becomes available.
+ *
+ * Waiting callers queue in one of three lanes -- interactive, normal and
+ * background -- and freed tokens are shared between non-empty lanes by
+ * weighted round-robin, so a long background run cannot starve a user's
+ * request but still makes progress while one is waiting. Within a lane,
+ * callers are served FIFO.
+ *
+ * A caller's lane comes from the `priority` argument or, when omitted, from
+ * the surrounding {@link withPriority} scope, so bulk jobs can mark every API
+ * call they make without threading a parameter through each layer.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const REQUEST_PRIORITIES = ['interactive', 'normal', 'background'] as const;
+
+export type RequestPriority = (typeof REQUEST_PRIORITIES)[number];
+
+/** Share of freed tokens each lane receives while several are waiting. */
+const LANE_WEIGHTS: Record<RequestPriority, number> = {
+  interactive: 6,
+  normal: 3,
+  background: 1,
+};
+
+/** Priority used outside any {@link withPriority} scope: a user's own request. */
+const DEFAULT_PRIORITY: RequestPriority = 'interactive';
+
+const priorityScope = new AsyncLocalStorage<RequestPriority>();
+
+/**
+ * Run `fn` with every rate-limited call inside it queued at `priority`.
  */
+export function withPriority<T>(priority: RequestPriority, fn: () => Promise<T>): Promise<T> {
+  return priorityScope.run(priority, fn);
+}
+
+/** The priority of the current {@link withPriority} scope. */
+export function currentPriority(): RequestPriority {
+  return priorityScope.getStore() ?? DEFAULT_PRIORITY;
+}
 
 export class RateLimiter {
   private tokens: number;
@@ -13,10 +53,24 @@ export class RateLimiter {
   private lastRefillTime: number;
 
   /**
-   * Pending waiters, ordered FIFO.  Each entry holds the `resolve` function
-   * of a promise that will be settled once a token is available.
+   * Pending waiters per lane, each ordered FIFO. Each entry holds the
+   * `resolve` function of a promise that will be settled once a token is
+   * available.
    */
-  private readonly queue: Array<() => void> = [];
+  private readonly lanes: Record<RequestPriority, Array<() => void>> = {
+    interactive: [],
+    normal: [],
+    background: [],
+  };
+
+  /** Smooth weighted round-robin state: each lane's running credit. */
+  private readonly credits: Record<RequestPriority, number> = {
+    interactive: 0,
+    normal: 0,
+    background: 0,
+  };
+
+  private drainTimer: ReturnType<typeof setTimeout> | undefined;
 
   /**
    * @param tokensPerSecond  Steady-state refill rate.
@@ -39,24 +93,36 @@ export class RateLimiter {
   /**
    * Acquire a single token.
    *
-   * Resolves immediately if a token is available; otherwise the returned
-   * promise resolves once a token has been replenished.
+   * Resolves immediately if a token is available and nobody is waiting;
+   * otherwise the returned promise resolves once the scheduler hands this
+   * lane a replenished token.
+   *
+   * @param priority  Lane to wait in. Defaults to the current
+   *                  {@link withPriority} scope.
    */
-  async acquire(): Promise<void> {
+  async acquire(priority: RequestPriority = currentPriority()): Promise<void> {
     this.refill();
 
-    if (this.tokens >= 1) {
+    if (this.tokens >= 1 && this.waiting() === 0) {
       this.tokens -= 1;
       return;
     }
 
-    // No tokens available – enqueue and wait.
+    // No tokens available (or others are ahead) – enqueue and wait.
     return new Promise<void>((resolve) => {
-      this.queue.push(resolve);
+      this.lanes[priority].push(resolve);
       this.scheduleRelease();
     });
   }
 
+  /** Number of callers waiting, in one lane or across all of them. */
+  waiting(priority?: RequestPriority): number {
+    if (priority !== undefined) {
+      return this.lanes[priority].length;
+    }
+    return REQUEST_PRIORITIES.reduce((sum, p) => sum + this.lanes[p].length, 0);
+  }
+
   // ---------------------------------------------------------------------------
   // Internals
   // ---------------------------------------------------------------------------
@@ -73,40 +139,97 @@ export class RateLimiter {
 
   /**
    * Schedule a `setTimeout` that fires once enough time has passed for a
-   * single token to become available, then drains the wait queue.
+   * single token to become available, then drains the wait queues. Only
+   * one timer runs at a time; it re-arms itself while callers remain.
    */
   private scheduleRelease(): void {
-    // Only schedule if exactly one waiter triggered this; additional waiters
-    // will be drained by the same timeout cascade.
-    if (this.queue.length !== 1) {
+    if (this.drainTimer !== undefined) {
       return;
     }
 
     const drainNext = (): void => {
+      this.drainTimer = undefined;
       this.refill();
 
-      if (this.queue.length === 0) {
-        return;
-      }
-
-      if (this.tokens >= 1) {
+      while (this.tokens >= 1 && this.waiting() > 0) {
         this.tokens -= 1;
-        const next = this.queue.shift();
+        const next = this.lanes[this.pickLane()].shift();
         next?.();
+      }
 
-        // If more waiters remain, continue draining.
-        if (this.queue.length > 0) {
-          const delayMs = (1 / this.tokensPerSecond) * 1_000;
-          setTimeout(drainNext, delayMs);
-        }
-      } else {
-        // Should not happen after a well-calculated delay, but be safe.
-        const delayMs = (1 / this.tokensPerSecond) * 1_000;
-        setTimeout(drainNext, delayMs);
+      // If more waiters remain, continue draining.
+      if (this.waiting() > 0) {
+        this.drainTimer = setTimeout(drainNext, this.msUntilNextToken());
       }
     };
 
-    const delayMs = (1 / this.tokensPerSecond) * 1_000;
-    setTimeout(drainNext, delayMs);
+    this.drainTimer = setTimeout(drainNext, this.msUntilNextToken());
+  }
+
+  private msUntilNextToken(): number {
+    return Math.max(0, ((1 - this.tokens) / this.tokensPerSecond) * 1_000);
+  }
+
+  /**
+   * Smooth weighted round-robin over the non-empty lanes: every lane gains
+   * its weight in credit, the richest lane is served and pays back the
+   * total. Over time each lane is served in proportion to its weight.
+   */
+  private pickLane(): RequestPriority {
+    let best: RequestPriority | undefined;
+    let total = 0;
+
+    for (const priority of REQUEST_PRIORITIES) {
+      if (this.lanes[priority].length === 0) {
+        this.credits[priority] = 0;
+        continue;
+      }
+      this.credits[priority] += LANE_WEIGHTS[priority];
+      total += LANE_WEIGHTS[priority];
+      if (best === undefined || this.credits[priority] > this.credits[best]) {
+        best = priority;
+      }
+    }
+
+    this.credits[best!] -= total;
+    return best!;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Per-API buckets
+// ---------------------------------------------------------------------------
+
+/** Upstream APIs that are throttled independently. */
+export const RATE_LIMITED_APIS = ['searchAnalytics', 'urlInspection', 'sites', 'sitemaps'] as const;
+
+export type RateLimitedApi = (typeof RATE_LIMITED_APIS)[number];
+
+export type ApiRateLimiters = Record<RateLimitedApi, RateLimiter>;
+
+/**
+ * Default `[tokensPerSecond, maxBurst]` per API. URL Inspection is held to
+ * Google's 600 queries per minute; the others share the webmasters API's
+ * per-minute limits comfortably at 20 req/s.
+ */
+const DEFAULT_API_RATES: Record<RateLimitedApi, [number, number]> = {
+  searchAnalytics: [20, 30],
+  urlInspection: [10, 10],
+  sites: [20, 30],
+  sitemaps: [20, 30],
+};
+
+/**
+ * Create one bucket per upstream API so a long inspection run does not eat
+ * into Search Analytics throughput (and vice versa).
+ *
+ * @param overrides  Buckets to use instead of the defaults for some APIs.
+ */
+export function createApiRateLimiters(overrides: Partial<ApiRateLimiters> = {}): ApiRateLimiters {
+  const limiters = {} as ApiRateLimiters;
+  for (const api of RATE_LIMITED_APIS) {
+    const [tokensPerSecond, maxBurst] = DEFAULT_API_RATES[api];
+    limiters[api] = overrides[api] ?? new RateLimiter(tokensPerSecond, maxBurst);
   }
+  return limiters;
 }
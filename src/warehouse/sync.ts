@@ -0,0 +1,191 @@
+/**
+ * Warehouse sync: pulls finalized daily Search Analytics rows into the
+ * local {@link WarehouseStore}.
+ *
+ * Each property / search type has a watermark (the last synced day). A sync
+ * only fetches the days after it, one API pull per day, so repeated runs are
+ * cheap. {@link WarehouseSyncScheduler} re-runs the sync on an interval for
+ * every property that has been synced at least once.
+ */
+
+import type { GscApiClient } from '../api/client.js';
+import type { SearchAnalyticsRequest, SearchAnalyticsRow } from '../api/types.js';
+import { addDays, enumerateDates, formatDate, getDateRange } from '../utils/date-helpers.js';
+import { withPriority } from '../utils/rate-limiter.js';
+import {
+  WAREHOUSE_DIMENSIONS,
+  type WarehouseCoverage,
+  type WarehouseStore,
+} from './warehouse-store.js';
+
+type SearchType = NonNullable<SearchAnalyticsRequest['searchType']>;
+
+/** Days between a date and Google finalizing its data. */
+const FINAL_DATA_LAG_DAYS = 3;
+
+/** Default cap on days fetched per sync call, to keep one run bounded. */
+export const DEFAULT_MAX_DAYS_PER_SYNC = 31;
+
+export interface SyncOptions {
+  searchType?: SearchType;
+  /** First day to fetch on the initial sync. Defaults to the start of the 16-month window. */
+  startDate?: string;
+  /** Maximum number of days to fetch in this run. */
+  maxDays?: number;
+}
+
+export interface SyncResult {
+  siteUrl: string;
+  searchType: SearchType;
+  /** Days fetched and stored by this run, in order. */
+  syncedDays: string[];
+  /** Rows stored by this run. */
+  rowsFetched: number;
+  /** Finalized days still waiting to be fetched after this run. */
+  remainingDays: number;
+  /** Coverage after the run, or `undefined` if nothing has been stored yet. */
+  coverage: WarehouseCoverage | undefined;
+}
+
+/** The most recent day whose data Google has finalized. */
+export function latestFinalDate(): string {
+  return addDays(formatDate(new Date()), -FINAL_DATA_LAG_DAYS);
+}
+
+/**
+ * Fetch every finalized day after the property's watermark (up to
+ * `maxDays`) and store it in the warehouse.
+ *
+ * Days are written one at a time, so a failure part-way keeps the days
+ * already stored and the next run resumes from there. Rows are streamed
+ * from the API page by page straight into the warehouse, bypassing the
+ * response cache, so a backfill neither duplicates them on disk nor
+ * evicts useful cache entries.
+ */
+export async function syncProperty(
+  api: GscApiClient,
+  warehouse: WarehouseStore,
+  siteUrl: string,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const searchType = options.searchType ?? 'web';
+  const maxDays = options.maxDays ?? DEFAULT_MAX_DAYS_PER_SYNC;
+
+  const existing = await warehouse.getCoverage(siteUrl, searchType);
+  const windowStart = getDateRange('last16m').startDate;
+  const requestedDay = existing
+    ? addDays(existing.lastDate, 1)
+    : options.startDate ?? windowStart;
+  // Days before the API window no longer exist upstream.
+  const firstDay = requestedDay < windowStart ? windowStart : requestedDay;
+
+  const pending = enumerateDates(firstDay, latestFinalDate());
+  const batch = pending.slice(0, maxDays);
+
+  const syncedDays: string[] = [];
+  let rowsFetched = 0;
+
+  for (const date of batch) {
+    let dayRows = 0;
+    const rows = async function* (): AsyncGenerator<SearchAnalyticsRow> {
+      for await (const page of api.streamSearchAnalytics({
+        siteUrl,
+        startDate: date,
+        endDate: date,
+        dimensions: [...WAREHOUSE_DIMENSIONS],
+        searchType,
+        dataState: 'final',
+      })) {
+        dayRows += page.rows.length;
+        yield* page.rows;
+      }
+    };
+
+    await warehouse.writeDay(siteUrl, searchType, date, rows());
+    syncedDays.push(date);
+    rowsFetched += dayRows;
+  }
+
+  return {
+    siteUrl,
+    searchType,
+    syncedDays,
+    rowsFetched,
+    remainingDays: pending.length - batch.length,
+    coverage: await warehouse.getCoverage(siteUrl, searchType),
+  };
+}
+
+/**
+ * Periodically syncs every property already present in the warehouse.
+ * Properties are enrolled by syncing them once on demand.
+ */
+export class WarehouseSyncScheduler {
+  private readonly api: GscApiClient;
+  private readonly warehouse: WarehouseStore;
+  private readonly intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private running = false;
+
+  constructor(api: GscApiClient, warehouse: WarehouseStore, intervalMs: number) {
+    if (intervalMs <= 0) {
+      throw new RangeError('intervalMs must be positive');
+    }
+    this.api = api;
+    this.warehouse = warehouse;
+    this.intervalMs = intervalMs;
+  }
+
+  /** Start the interval. The timer does not keep the process alive. */
+  start(): void {
+    if (this.timer !== undefined) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Sync every enrolled property once. Overlapping runs are skipped, and a
+   * failing property is logged without stopping the others. Calls queue in
+   * the background lane behind interactive requests.
+   */
+  async runOnce(): Promise<SyncResult[]> {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+
+    const results: SyncResult[] = [];
+    try {
+      for (const coverage of await this.warehouse.listCoverage()) {
+        try {
+          results.push(
+            await withPriority('background', () =>
+              syncProperty(this.api, this.warehouse, coverage.siteUrl, {
+                searchType: coverage.searchType,
+              }),
+            ),
+          );
+        } catch (error) {
+          console.error(
+            `[awesome-gsc-mcp] Warehouse sync failed for ${coverage.siteUrl}:`,
+            error instanceof Error ? error.message : error,
+          );
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+    return results;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Routes Search Analytics requests that reach back past the API's 16-month
+ * window to the local warehouse.
+ *
+ * Days the warehouse holds are answered locally; days after its watermark
+ * are fetched live and merged in, so a range that straddles the window edge
+ * still comes back as one response.
+ */
+
+import type {
+  SearchAnalyticsRequest,
+  SearchAnalyticsResponse,
+} from '../api/types.js';
+import { rollUpRows, sortAndPage } from '../api/row-utils.js';
+import { addDays, getDateRange } from '../utils/date-helpers.js';
+import type { WarehouseStore } from './warehouse-store.js';
+
+/** Google API maximum rows per single request. */
+const API_MAX_ROW_LIMIT = 25_000;
+
+/** API default when a request omits `rowLimit`. */
+const DEFAULT_ROW_LIMIT = 1_000;
+
+/**
+ * Answer `request` from the warehouse when it starts before the API window
+ * and the warehouse has data for it.
+ *
+ * @param fetchLive  Fetches the in-window remainder from the API.
+ * @returns The merged response, or `undefined` when the request should go
+ *          straight to the API.
+ */
+export async function queryWithWarehouse(
+  warehouse: WarehouseStore,
+  request: SearchAnalyticsRequest,
+  fetchLive: (request: SearchAnalyticsRequest) => Promise<SearchAnalyticsResponse>,
+): Promise<SearchAnalyticsResponse | undefined> {
+  const apiWindowStart = getDateRange('last16m').startDate;
+  if (request.startDate >= apiWindowStart || !warehouse.canServe(request)) {
+    return undefined;
+  }
+
+  const coverage = await warehouse.getCoverage(request.siteUrl, request.searchType ?? 'web');
+  if (!coverage || coverage.firstDate > request.endDate) {
+    return undefined;
+  }
+
+  const localEnd = request.endDate < coverage.lastDate ? request.endDate : coverage.lastDate;
+  let rows = await warehouse.query(request, request.startDate, localEnd);
+
+  const notices = [
+    `Data from ${request.startDate} to ${localEnd} was read from the local warehouse (outside Google's 16-month window).`,
+    'Warehouse rows exclude anonymized queries, so totals can be lower than the Search Console UI.',
+  ];
+
+  if (coverage.firstDate > request.startDate) {
+    notices.push(`The warehouse has no data before ${coverage.firstDate}.`);
+  }
+
+  if (request.endDate > coverage.lastDate) {
+    const liveStart = addDays(coverage.lastDate, 1);
+    const live = await fetchLive({
+      ...request,
+      startDate: liveStart,
+      rowLimit: API_MAX_ROW_LIMIT,
+      startRow: 0,
+    });
+    rows = rollUpRows([...rows, ...live.rows]);
+    notices.push(`Data from ${liveStart} to ${request.endDate} was fetched live and merged with warehouse rows.`);
+  }
+
+  return {
+    rows: sortAndPage(rows, request.rowLimit ?? DEFAULT_ROW_LIMIT, request.startRow ?? 0),
+    responseAggregationType: 'byPage',
+    notices,
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Local historical store for Search Analytics data.
+ *
+ * Google only keeps 16 months of Search Analytics data. The warehouse keeps
+ * finalized daily `date × query × page × country × device` rows on disk so
+ * older ranges stay queryable after they fall out of the API window.
+ *
+ * Layout on disk (one directory per property and search type):
+ *
+ *   <dir>/<hash>/meta.json          coverage + sync watermark
+ *   <dir>/<hash>/days/<date>.json   compact rows for a single day
+ */
+
+import { createHash } from 'crypto';
+import { createWriteStream } from 'fs';
+import { once } from 'events';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import type {
+  DimensionFilter,
+  SearchAnalyticsRequest,
+  SearchAnalyticsRow,
+} from '../api/types.js';
+import { compileDimensionFilter, rollUpRows } from '../api/row-utils.js';
+import { enumerateDates } from '../utils/date-helpers.js';
+
+/** Default on-disk location, next to the OAuth token and cache. */
+export const DEFAULT_WAREHOUSE_DIR = join(homedir(), '.awesome-gsc-mcp', 'warehouse');
+
+/** Dimensions stored for every row, in storage order (date is the file). */
+export const WAREHOUSE_DIMENSIONS = ['date', 'query', 'page', 'country', 'device'] as const;
+
+type WarehouseDimension = (typeof WAREHOUSE_DIMENSIONS)[number];
+type SearchType = NonNullable<SearchAnalyticsRequest['searchType']>;
+
+/** `[query, page, country, device, clicks, impressions, position]` */
+type StoredRow = [string, string, string, string, number, number, number];
+
+/** Coverage and sync watermark for one property / search type. */
+export interface WarehouseCoverage {
+  siteUrl: string;
+  searchType: SearchType;
+  /** Earliest day held locally (YYYY-MM-DD). */
+  firstDate: string;
+  /** Watermark: the latest day synced (YYYY-MM-DD). Later days are fetched next. */
+  lastDate: string;
+  /** Number of rows stored across all days. */
+  rowCount: number;
+  /** ISO timestamp of the last successful sync. */
+  updatedAt: string;
+}
+
+export class WarehouseStore {
+  private readonly dir: string;
+
+  constructor(dir: string = DEFAULT_WAREHOUSE_DIR) {
+    this.dir = dir;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Coverage / watermarks
+  // ---------------------------------------------------------------------------
+
+  /** Coverage for a property, or `undefined` if it has never been synced. */
+  async getCoverage(
+    siteUrl: string,
+    searchType: SearchType = 'web',
+  ): Promise<WarehouseCoverage | undefined> {
+    try {
+      const raw = await readFile(join(this.propertyDir(siteUrl, searchType), 'meta.json'), 'utf-8');
+      return JSON.parse(raw) as WarehouseCoverage;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Coverage for every property the warehouse holds. */
+  async listCoverage(): Promise<WarehouseCoverage[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const coverage: WarehouseCoverage[] = [];
+    for (const entry of entries) {
+      try {
+        const raw = await readFile(join(this.dir, entry, 'meta.json'), 'utf-8');
+        coverage.push(JSON.parse(raw) as WarehouseCoverage);
+      } catch {
+        // Not a property directory (or a half-written one) -- skip.
+      }
+    }
+    return coverage.sort((a, b) => a.siteUrl.localeCompare(b.siteUrl));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Writes
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Persist one day of rows and advance the watermark to `date`. An async
+   * iterable is written as it yields, so a day fetched page by page is
+   * never held in memory whole.
+   *
+   * @param rows  Rows returned for {@link WAREHOUSE_DIMENSIONS}; the first key
+   *              (the date) is dropped because the file already encodes it.
+   */
+  async writeDay(
+    siteUrl: string,
+    searchType: SearchType,
+    date: string,
+    rows: Iterable<SearchAnalyticsRow> | AsyncIterable<SearchAnalyticsRow>,
+  ): Promise<void> {
+    const propertyDir = this.propertyDir(siteUrl, searchType);
+    const dayPath = join(propertyDir, 'days', `${date}.json`);
+    await mkdir(join(propertyDir, 'days'), { recursive: true });
+
+    // Re-syncing a day replaces its rows rather than adding to them.
+    let replacedRows = 0;
+    try {
+      replacedRows = (JSON.parse(await readFile(dayPath, 'utf-8')) as StoredRow[]).length;
+    } catch {
+      // First write for this day.
+    }
+
+    const storedRows = await writeDayFile(dayPath, rows);
+
+    const previous = await this.getCoverage(siteUrl, searchType);
+    const coverage: WarehouseCoverage = {
+      siteUrl,
+      searchType,
+      firstDate: previous && previous.firstDate < date ? previous.firstDate : date,
+      lastDate: previous && previous.lastDate > date ? previous.lastDate : date,
+      rowCount: (previous?.rowCount ?? 0) - replacedRows + storedRows,
+      updatedAt: new Date().toISOString(),
+    };
+    await writeAtomic(join(propertyDir, 'meta.json'), JSON.stringify(coverage, null, 2));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Reads
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Whether a request only uses dimensions the warehouse stores.
+   * `searchAppearance` is not part of the daily pull and cannot be answered.
+   */
+  canServe(request: SearchAnalyticsRequest): boolean {
+    const stored = new Set<string>(WAREHOUSE_DIMENSIONS);
+    const dims = request.dimensions ?? [];
+    const filters = (request.dimensionFilterGroups ?? []).flatMap((g) => g.filters);
+    return dims.every((d) => stored.has(d)) && filters.every((f) => stored.has(f.dimension));
+  }
+
+  /**
+   * Answer a request for `[startDate, endDate]` from stored rows, grouped by
+   * the request's dimensions. Rows are returned unsorted and unpaged.
+   */
+  async query(
+    request: SearchAnalyticsRequest,
+    startDate: string,
+    endDate: string,
+  ): Promise<SearchAnalyticsRow[]> {
+    const searchType = request.searchType ?? 'web';
+    const dims = (request.dimensions ?? []) as WarehouseDimension[];
+    const filters: DimensionFilter[] = (request.dimensionFilterGroups ?? []).flatMap((g) => g.filters);
+    const predicates = filters.map((f) => ({
+      dimension: f.dimension as WarehouseDimension,
+      matches: compileDimensionFilter(f),
+    }));
+    const daysDir = join(this.propertyDir(request.siteUrl, searchType), 'days');
+
+    const matched: SearchAnalyticsRow[] = [];
+
+    for (const date of enumerateDates(startDate, endDate)) {
+      let stored: StoredRow[];
+      try {
+        stored = JSON.parse(await readFile(join(daysDir, `${date}.json`), 'utf-8')) as StoredRow[];
+      } catch {
+        continue; // Day not synced.
+      }
+
+      const dayRows: SearchAnalyticsRow[] = [];
+      for (const [query, page, country, device, clicks, impressions, position] of stored) {
+        const values: Record<WarehouseDimension, string> = { date, query, page, country, device };
+        const passes = predicates.every((p) => p.matches(values[p.dimension] ?? ''));
+        if (!passes) continue;
+
+        dayRows.push({
+          keys: dims.map((d) => values[d]),
+          clicks,
+          impressions,
+          ctr: impressions > 0 ? clicks / impressions : 0,
+          position,
+        });
+      }
+
+      // Roll up per day so coarse requests over long ranges stay small.
+      for (const row of rollUpRows(dayRows)) {
+        matched.push(row);
+      }
+    }
+
+    return rollUpRows(matched).filter((row) => row.impressions > 0);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private propertyDir(siteUrl: string, searchType: SearchType): string {
+    const hash = createHash('sha1').update(`${siteUrl}|${searchType}`).digest('hex').slice(0, 16);
+    return join(this.dir, hash);
+  }
+}
+
+/**
+ * Stream rows to a day file as a JSON array of {@link StoredRow}s, through a
+ * temporary file renamed into place. Returns the number of rows written.
+ */
+async function writeDayFile(
+  path: string,
+  rows: Iterable<SearchAnalyticsRow> | AsyncIterable<SearchAnalyticsRow>,
+): Promise<number> {
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  const out = createWriteStream(tmpPath, { encoding: 'utf-8' });
+  const write = async (chunk: string): Promise<void> => {
+    if (!out.write(chunk)) {
+      await once(out, 'drain');
+    }
+  };
+
+  let count = 0;
+  try {
+    await write('[');
+    for await (const row of rows) {
+      const stored: StoredRow = [
+        row.keys[1] ?? '',
+        row.keys[2] ?? '',
+        row.keys[3] ?? '',
+        row.keys[4] ?? '',
+        row.clicks,
+        row.impressions,
+        row.position,
+      ];
+      await write((count > 0 ? ',' : '') + JSON.stringify(stored));
+      count++;
+    }
+    await write(']');
+    out.end();
+    await once(out, 'finish');
+    await rename(tmpPath, path);
+  } catch (error) {
+    if (!out.closed) {
+      out.destroy();
+      await once(out, 'close');
+    }
+    await rm(tmpPath, { force: true });
+    throw error;
+  }
+  return count;
+}
+
+async function writeAtomic(path: string, contents: string): Promise<void> {
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tmpPath, contents, 'utf-8');
+  await rename(tmpPath, path);
+}
@@ -128,6 +128,20 @@ describe('CacheManager', () => {
     });
   });
 
+  describe('has', () => {
+    it('reports live keys without counting hits or misses', () => {
+      const cache = new CacheManager();
+      cache.set('a', 1, 1000);
+
+      expect(cache.has('a')).toBe(true);
+      expect(cache.has('b')).toBe(false);
+      expect(cache.stats()).toMatchObject({ hits: 0, misses: 0 });
+
+      vi.advanceTimersByTime(1000);
+      expect(cache.has('a')).toBe(false);
+    });
+  });
+
   describe('invalidatePrefix', () => {
     it('removes all keys starting with the given prefix', () => {
       const cache = new CacheManager();
@@ -150,6 +164,43 @@ describe('CacheManager', () => {
       cache.invalidatePrefix('nomatch');
       expect(cache.get('key')).toBe('value');
     });
+
+    it('returns the number of keys removed', () => {
+      const cache = new CacheManager();
+      cache.set('inspection|a|1', 1, 60_000);
+      cache.set('inspection|a|2', 2, 60_000);
+      cache.set('sitemaps|a|__all__', 3, 60_000);
+
+      expect(cache.invalidatePrefix('inspection|a|')).toBe(2);
+      expect(cache.invalidatePrefix('inspection|a|')).toBe(0);
+    });
+  });
+
+  describe('namespaceStats', () => {
+    it('breaks entries and hit rates down by key namespace', () => {
+      const cache = new CacheManager();
+      cache.set('analytics|a|{}', 1, 60_000);
+      cache.set('analytics|b|{}', 2, 60_000);
+      cache.set('sitemaps|a|__all__', 3, 60_000);
+
+      cache.get('analytics|a|{}'); // hit
+      cache.get('analytics|c|{}'); // miss
+      cache.get('inspection|a|x'); // miss
+
+      expect(cache.namespaceStats()).toEqual([
+        { namespace: 'analytics', entries: 2, bytes: expect.any(Number), persisted: 0, hits: 1, misses: 1 },
+        { namespace: 'inspection', entries: 0, bytes: expect.any(Number), persisted: 0, hits: 0, misses: 1 },
+        { namespace: 'sitemaps', entries: 1, bytes: expect.any(Number), persisted: 0, hits: 0, misses: 0 },
+      ]);
+    });
+
+    it('ignores expired entries', () => {
+      const cache = new CacheManager();
+      cache.set('sites|__all__', [], 100);
+      vi.advanceTimersByTime(100);
+
+      expect(cache.namespaceStats()).toEqual([]);
+    });
   });
 
   describe('clear', () => {
@@ -207,6 +258,140 @@ describe('CacheManager', () => {
     });
   });
 
+  describe('coalesce', () => {
+    it('shares one pending load between concurrent callers', async () => {
+      const cache = new CacheManager();
+      let resolve!: (value: string) => void;
+      const load = vi.fn(() => new Promise<string>((r) => { resolve = r; }));
+
+      const first = cache.coalesce('key', load);
+      const second = cache.coalesce('key', load);
+      expect(cache.stats().inFlight).toBe(1);
+
+      resolve('value');
+      await expect(Promise.all([first, second])).resolves.toEqual(['value', 'value']);
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(cache.stats().coalesced).toBe(1);
+      expect(cache.stats().inFlight).toBe(0);
+    });
+
+    it('does not reuse a rejected load', async () => {
+      const cache = new CacheManager();
+      const load = vi.fn()
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValueOnce('ok');
+
+      await expect(cache.coalesce('key', load)).rejects.toThrow('boom');
+      await expect(cache.coalesce('key', load)).resolves.toBe('ok');
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('starts a new load after the key is invalidated', async () => {
+      const cache = new CacheManager();
+      const load = vi.fn(() => new Promise<string>(() => {}));
+
+      void cache.coalesce('analytics|a', load);
+      cache.invalidatePrefix('analytics|');
+      void cache.coalesce('analytics|a', load);
+
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(cache.stats().coalesced).toBe(0);
+    });
+  });
+
+  describe('byte budget', () => {
+    it('tracks the estimated size of entries', () => {
+      const cache = new CacheManager();
+      cache.set('k', { rows: ['abc'] }, 60_000);
+
+      const expected = 'k'.length + JSON.stringify({ rows: ['abc'] }).length;
+      expect(cache.stats().bytes).toBe(expected);
+
+      cache.delete('k');
+      expect(cache.stats().bytes).toBe(0);
+    });
+
+    it('evicts least-recently-used entries to stay within maxBytes', () => {
+      const cache = new CacheManager(100, { maxBytes: 250 });
+      cache.set('a', 'x'.repeat(100), 60_000);
+      cache.set('b', 'x'.repeat(100), 60_000);
+      cache.get('a'); // 'b' is now the LRU
+
+      cache.set('c', 'x'.repeat(100), 60_000);
+
+      expect(cache.get('a')).toBeDefined();
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.get('c')).toBeDefined();
+      expect(cache.stats().bytes).toBeLessThanOrEqual(250);
+    });
+
+    it('does not hold a value larger than the whole budget in memory', () => {
+      const cache = new CacheManager(100, { maxBytes: 50 });
+      cache.set('small', 'x', 60_000);
+      cache.set('huge', 'x'.repeat(100), 60_000);
+
+      expect(cache.get('huge')).toBeUndefined();
+      expect(cache.get('small')).toBe('x');
+    });
+
+    it('releases the bytes of a replaced value', () => {
+      const cache = new CacheManager();
+      cache.set('k', 'x'.repeat(100), 60_000);
+      cache.set('k', 'x', 60_000);
+
+      expect(cache.stats().bytes).toBe('k'.length + JSON.stringify('x').length);
+    });
+
+    it('reports the largest entries first', () => {
+      const cache = new CacheManager();
+      cache.set('small', 'x', 60_000);
+      cache.set('large', 'x'.repeat(500), 60_000);
+      cache.set('medium', 'x'.repeat(50), 60_000);
+
+      expect(cache.stats().largestEntries.map((e) => e.key)).toEqual(['large', 'medium', 'small']);
+    });
+
+    it('throws if maxBytes is less than 1', () => {
+      expect(() => new CacheManager(undefined, { maxBytes: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    it('serves expired entries within the namespace window', () => {
+      const cache = new CacheManager(undefined, { staleWhileRevalidate: { analytics: 1000 } });
+      cache.set('analytics|a|{}', 'old', 100);
+
+      vi.advanceTimersByTime(400);
+      expect(cache.get('analytics|a|{}')).toBeUndefined();
+      expect(cache.getStale('analytics|a|{}')).toEqual({ value: 'old', staleForMs: 300 });
+      expect(cache.stats().staleServed).toBe(1);
+    });
+
+    it('drops entries once the window has passed', () => {
+      const cache = new CacheManager(undefined, { staleWhileRevalidate: { analytics: 1000 } });
+      cache.set('analytics|a|{}', 'old', 100);
+
+      vi.advanceTimersByTime(1100);
+      expect(cache.get('analytics|a|{}')).toBeUndefined();
+      expect(cache.getStale('analytics|a|{}')).toBeUndefined();
+    });
+
+    it('leaves other namespaces to expire normally', () => {
+      const cache = new CacheManager(undefined, { staleWhileRevalidate: { analytics: 1000 } });
+      cache.set('sitemaps|a|__all__', 'old', 100);
+
+      vi.advanceTimersByTime(200);
+      expect(cache.get('sitemaps|a|__all__')).toBeUndefined();
+      expect(cache.getStale('sitemaps|a|__all__')).toBeUndefined();
+    });
+
+    it('does not return live entries as stale', () => {
+      const cache = new CacheManager(undefined, { staleWhileRevalidate: { analytics: 1000 } });
+      cache.set('analytics|a|{}', 'fresh', 100);
+      expect(cache.getStale('analytics|a|{}')).toBeUndefined();
+    });
+  });
+
   describe('constructor validation', () => {
     it('throws if maxEntries is less than 1', () => {
       expect(() => new CacheManager(0)).toThrow(RangeError);
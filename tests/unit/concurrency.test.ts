@@ -0,0 +1,31 @@
+import { mapWithConcurrency } from '../../src/utils/concurrency.js';
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in input order', async () => {
+    const delays = [30, 10, 20, 0];
+    const results = await mapWithConcurrency(delays, 2, (ms, i) =>
+      new Promise<number>((resolve) => setTimeout(() => resolve(i), ms)),
+    );
+    expect(results).toEqual([0, 1, 2, 3]);
+  });
+
+  it('never runs more than the limit at once', async () => {
+    let active = 0;
+    let peak = 0;
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active--;
+    });
+    expect(peak).toBe(3);
+  });
+
+  it('handles an empty list', async () => {
+    await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+  });
+
+  it('throws if concurrency is less than 1', async () => {
+    await expect(mapWithConcurrency([1], 0, async () => 1)).rejects.toThrow(RangeError);
+  });
+});
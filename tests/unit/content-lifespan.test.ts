@@ -0,0 +1,111 @@
+import { median, pageSection, profileArticles, summarizeSections } from '../../src/analysis/content-lifespan.js';
+import type { SearchAnalyticsRow } from '../../src/api/types.js';
+import { addDays } from '../../src/utils/date-helpers.js';
+
+const START = '2025-03-01';
+const END = '2025-03-28';
+
+/** Rows for one page from a list of daily impressions starting at `start`. */
+function series(page: string, daily: number[], start: string = START): SearchAnalyticsRow[] {
+  return daily.map((impressions, i) => ({
+    keys: [page, addDays(start, i)],
+    clicks: Math.round(impressions / 10),
+    impressions,
+    ctr: 0,
+    position: 0,
+  }));
+}
+
+describe('content-lifespan', () => {
+  describe('profileArticles', () => {
+    it('measures reach, lifespan and decay after the peak', () => {
+      const [profile] = profileArticles(series('https://example.com/news/a', [400, 1000, 700, 300, 80, 20]), END);
+
+      expect(profile).toMatchObject({
+        page: 'https://example.com/news/a',
+        impressions: 2500,
+        clicks: 250,
+        firstSeen: '2025-03-01',
+        lastSeen: '2025-03-06',
+        lifespanDays: 6,
+        activeDays: 6,
+        peakDate: '2025-03-02',
+        peakImpressions: 1000,
+        halfLifeDays: 2,
+        decayDays: 3,
+        profile: 'standard',
+      });
+      expect(profile!.ctr).toBeCloseTo(0.1);
+    });
+
+    it('classifies a single-day burst as a flash', () => {
+      const [profile] = profileArticles(series('/flash', [900, 60, 40]), END);
+
+      expect(profile!.profile).toBe('flash');
+      expect(profile!.peakShare).toBeCloseTo(0.9);
+    });
+
+    it('flags pages picked up again after fading', () => {
+      const [profile] = profileArticles(series('/again', [500, 300, 20, 0, 0, 400, 100]), END);
+
+      expect(profile!.profile).toBe('resurfacing');
+      expect(profile!.activeDays).toBe(5);
+    });
+
+    it('classifies steady pages as evergreen', () => {
+      const [profile] = profileArticles(series('/guide', new Array(28).fill(100)), END);
+
+      expect(profile!.profile).toBe('evergreen');
+      expect(profile!.halfLifeDays).toBeNull();
+      expect(profile!.decayDays).toBeNull();
+    });
+
+    it('treats missing days as zero impressions', () => {
+      const rows = [...series('/gap', [1000]), ...series('/gap', [900], '2025-03-03')];
+
+      const [profile] = profileArticles(rows, END);
+
+      expect(profile!.halfLifeDays).toBe(1);
+      expect(profile!.lifespanDays).toBe(3);
+      expect(profile!.activeDays).toBe(2);
+    });
+
+    it('orders pages by impressions', () => {
+      const rows = [...series('/small', [10]), ...series('/big', [500])];
+
+      expect(profileArticles(rows, END).map((p) => p.page)).toEqual(['/big', '/small']);
+    });
+  });
+
+  describe('pageSection', () => {
+    it('takes leading path segments, excluding the page itself', () => {
+      expect(pageSection('https://example.com/news/world/story')).toBe('/news/');
+      expect(pageSection('https://example.com/news/world/story', 2)).toBe('/news/world/');
+      expect(pageSection('https://example.com/story')).toBe('/');
+      expect(pageSection('https://example.com/')).toBe('/');
+    });
+  });
+
+  describe('summarizeSections', () => {
+    it('rolls pages up by section', () => {
+      const profiles = profileArticles([
+        ...series('https://example.com/news/a', [100, 100]),
+        ...series('https://example.com/news/b', [300]),
+        ...series('https://example.com/sport/c', [50]),
+      ], END);
+
+      const [news, sport] = summarizeSections(profiles);
+
+      expect(news).toMatchObject({ section: '/news/', pages: 2, impressions: 500, clicks: 50, medianLifespanDays: 1.5 });
+      expect(sport).toMatchObject({ section: '/sport/', pages: 1, impressions: 50 });
+    });
+  });
+
+  describe('median', () => {
+    it('handles odd, even and empty inputs', () => {
+      expect(median([3, 1, 2])).toBe(2);
+      expect(median([4, 1, 3, 2])).toBe(2.5);
+      expect(median([])).toBe(0);
+    });
+  });
+});
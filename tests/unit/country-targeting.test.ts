@@ -0,0 +1,113 @@
+import { countryName, detectPageLocale, findTargetingMismatches } from '../../src/analysis/country-targeting.js';
+import type { SearchAnalyticsRow } from '../../src/api/types.js';
+
+function row(page: string, country: string, impressions: number, clicks = 0): SearchAnalyticsRow {
+  return { keys: [page, country], clicks, impressions, ctr: 0, position: 5 };
+}
+
+describe('country-targeting', () => {
+  describe('countryName', () => {
+    it('names lower-case alpha-3 codes as the API reports them', () => {
+      expect(countryName('deu')).toBe('Germany');
+      expect(countryName('USA')).toBe('United States');
+    });
+
+    it('labels the unknown-region code and upper-cases anything else', () => {
+      expect(countryName('zzz')).toBe('Unknown region');
+      expect(countryName('abc')).toBe('ABC');
+    });
+  });
+
+  describe('detectPageLocale', () => {
+    it('reads a language folder as the countries that language targets', () => {
+      expect(detectPageLocale('https://example.com/de/produkte/')).toEqual({
+        code: 'de',
+        countries: ['deu', 'aut', 'che', 'lie', 'lux'],
+      });
+    });
+
+    it('uses the region of a language-region locale', () => {
+      expect(detectPageLocale('https://example.com/en-gb/pricing')).toEqual({ code: 'en-gb', countries: ['gbr'] });
+      expect(detectPageLocale('https://example.com/de_AT/')).toEqual({ code: 'de-at', countries: ['aut'] });
+    });
+
+    it('treats a uk folder as the United Kingdom', () => {
+      expect(detectPageLocale('https://example.com/uk/')?.countries).toEqual(['gbr']);
+    });
+
+    it('falls back to the leftmost subdomain', () => {
+      expect(detectPageLocale('https://fr.example.com/page')?.countries).toContain('fra');
+    });
+
+    it('ignores bare English, words that look like country codes, and unlocalized URLs', () => {
+      expect(detectPageLocale('https://example.com/en/about')).toBeUndefined();
+      expect(detectPageLocale('https://example.com/ai/tools')).toBeUndefined();
+      expect(detectPageLocale('https://www.example.com/blog/post')).toBeUndefined();
+      expect(detectPageLocale('not a url')).toBeUndefined();
+    });
+  });
+
+  describe('findTargetingMismatches', () => {
+    it('flags a page seen mostly outside its target countries', () => {
+      const rows = [
+        row('https://example.com/de/a', 'usa', 700, 7),
+        row('https://example.com/de/a', 'deu', 200, 10),
+        row('https://example.com/de/a', 'aut', 100, 3),
+      ];
+
+      const [mismatch, ...rest] = findTargetingMismatches(rows);
+
+      expect(rest).toHaveLength(0);
+      expect(mismatch).toMatchObject({
+        page: 'https://example.com/de/a',
+        clicks: 20,
+        impressions: 1000,
+        topCountry: 'usa',
+      });
+      expect(mismatch!.targetedShare).toBeCloseTo(0.3);
+      expect(mismatch!.topCountryShare).toBeCloseTo(0.7);
+    });
+
+    it('leaves pages that are seen mainly where they target', () => {
+      const rows = [
+        row('https://example.com/de/a', 'deu', 600),
+        row('https://example.com/de/a', 'usa', 400),
+      ];
+
+      expect(findTargetingMismatches(rows)).toEqual([]);
+    });
+
+    it('skips low-impression and unlocalized pages', () => {
+      const rows = [
+        row('https://example.com/de/a', 'usa', 50),
+        row('https://example.com/blog/b', 'usa', 5000),
+      ];
+
+      expect(findTargetingMismatches(rows)).toEqual([]);
+      expect(findTargetingMismatches(rows, { minImpressions: 10 })).toHaveLength(1);
+    });
+
+    it('does not flag a page whose top country is targeted even when spread thin', () => {
+      const rows = [
+        row('https://example.com/de/a', 'deu', 300),
+        row('https://example.com/de/a', 'usa', 250),
+        row('https://example.com/de/a', 'gbr', 250),
+        row('https://example.com/de/a', 'fra', 200),
+      ];
+
+      expect(findTargetingMismatches(rows)).toEqual([]);
+    });
+
+    it('orders mismatches by impressions', () => {
+      const rows = [
+        row('https://example.com/fr/a', 'usa', 200),
+        row('https://example.com/uk/b', 'usa', 900),
+      ];
+
+      expect(findTargetingMismatches(rows).map((m) => m.page)).toEqual([
+        'https://example.com/uk/b',
+        'https://example.com/fr/a',
+      ]);
+    });
+  });
+});
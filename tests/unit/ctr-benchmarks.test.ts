@@ -3,6 +3,7 @@ import {
   analyzeCtr,
   batchAnalyzeCtr,
   getCtrPerformanceLabel,
+  hasRankingPosition,
 } from '../../src/analysis/ctr-benchmarks.js';
 
 describe('ctr-benchmarks', () => {
@@ -112,4 +113,27 @@ describe('ctr-benchmarks', () => {
       expect(batchAnalyzeCtr([])).toEqual([]);
     });
   });
+
+  describe('search types without ranking positions', () => {
+    it('reports which search types have positions', () => {
+      expect(hasRankingPosition()).toBe(true);
+      expect(hasRankingPosition('web')).toBe(true);
+      expect(hasRankingPosition('news')).toBe(true);
+      expect(hasRankingPosition('discover')).toBe(false);
+      expect(hasRankingPosition('googleNews')).toBe(false);
+    });
+
+    it('ignores the position and uses a flat feed benchmark', () => {
+      expect(getExpectedCtr(1, 'discover')).toBe(getExpectedCtr(40, 'discover'));
+      expect(getExpectedCtr(0, 'discover')).toBeLessThan(getExpectedCtr(1));
+    });
+
+    it('analyzes CTR against the feed benchmark', () => {
+      const expected = getExpectedCtr(0, 'googleNews');
+      const result = analyzeCtr(0, expected * 2, 'googleNews');
+
+      expect(result.expectedCtr).toBe(expected);
+      expect(result.performance).toBe('excellent');
+    });
+  });
 });
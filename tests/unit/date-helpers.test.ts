@@ -2,9 +2,12 @@ import {
   formatDate,
   parseDate,
   daysBetween,
+  addDays,
+  enumerateDates,
   isDateFresh,
   getDateRange,
   getPreviousPeriod,
+  getPacificDate,
 } from '../../src/utils/date-helpers.js';
 import type { DatePeriod } from '../../src/utils/date-helpers.js';
 
@@ -61,6 +64,27 @@ describe('date-helpers', () => {
     });
   });
 
+  describe('addDays', () => {
+    it('moves forward and backward across month boundaries', () => {
+      expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    });
+  });
+
+  describe('enumerateDates', () => {
+    it('lists every day inclusive', () => {
+      expect(enumerateDates('2024-02-28', '2024-03-01')).toEqual([
+        '2024-02-28',
+        '2024-02-29',
+        '2024-03-01',
+      ]);
+    });
+
+    it('returns an empty list when start is after end', () => {
+      expect(enumerateDates('2024-03-02', '2024-03-01')).toEqual([]);
+    });
+  });
+
   describe('isDateFresh', () => {
     beforeEach(() => {
       vi.useFakeTimers();
@@ -174,4 +198,15 @@ describe('date-helpers', () => {
       expect(prev.endDate).toBe('2024-01-31');
     });
   });
+
+  describe('getPacificDate', () => {
+    it('returns the Pacific calendar date, which lags UTC in the evening', () => {
+      // 2024-07-02 03:00 UTC is 2024-07-01 20:00 PDT
+      expect(getPacificDate(new Date('2024-07-02T03:00:00Z'))).toBe('2024-07-01');
+    });
+
+    it('matches UTC once Pacific midnight has passed', () => {
+      expect(getPacificDate(new Date('2024-01-15T09:00:00Z'))).toBe('2024-01-15');
+    });
+  });
 });
@@ -0,0 +1,162 @@
+import { mkdtempSync, rmSync, writeFileSync, readdirSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCacheStore } from '../../src/cache/file-cache-store.js';
+import { CacheManager, CACHE_TTL } from '../../src/cache/cache-manager.js';
+
+describe('FileCacheStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gsc-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores and retrieves entries', () => {
+    const store = new FileCacheStore(dir);
+    store.set('analytics|a', { value: { rows: [1, 2] }, expiresAt: Date.now() + 60_000 });
+    expect(store.get('analytics|a')?.value).toEqual({ rows: [1, 2] });
+    expect(store.keys()).toEqual(['analytics|a']);
+  });
+
+  it('survives being reopened', () => {
+    const first = new FileCacheStore(dir);
+    first.set('sites|__all__', { value: ['x'], expiresAt: Date.now() + 60_000 });
+
+    const second = new FileCacheStore(dir);
+    expect(second.get('sites|__all__')?.value).toEqual(['x']);
+  });
+
+  it('prunes expired entries when opened', () => {
+    const first = new FileCacheStore(dir);
+    first.set('old', { value: 1, expiresAt: Date.now() - 1 });
+    first.set('live', { value: 2, expiresAt: Date.now() + 60_000 });
+
+    const second = new FileCacheStore(dir);
+    expect(second.keys()).toEqual(['live']);
+    expect(readdirSync(join(dir, 'entries'))).toHaveLength(1);
+  });
+
+  it('deletes entries and clears everything', () => {
+    const store = new FileCacheStore(dir);
+    store.set('a', { value: 1, expiresAt: Date.now() + 60_000 });
+    store.set('b', { value: 2, expiresAt: Date.now() + 60_000 });
+
+    store.delete('a');
+    expect(store.get('a')).toBeUndefined();
+    expect(store.keys()).toEqual(['b']);
+
+    store.clear();
+    expect(store.keys()).toEqual([]);
+    expect(new FileCacheStore(dir).keys()).toEqual([]);
+  });
+
+  it('ignores and removes corrupted entry files', () => {
+    const store = new FileCacheStore(dir);
+    store.set('a', { value: 1, expiresAt: Date.now() + 60_000 });
+    const [name] = readdirSync(join(dir, 'entries'));
+    writeFileSync(join(dir, 'entries', name!), '{not json', 'utf-8');
+
+    expect(store.get('a')).toBeUndefined();
+    const reopened = new FileCacheStore(dir);
+    expect(reopened.keys()).toEqual([]);
+    expect(readdirSync(join(dir, 'entries'))).toHaveLength(0);
+  });
+
+  it('shares entries between stores opened on the same directory', () => {
+    const first = new FileCacheStore(dir);
+    const second = new FileCacheStore(dir);
+    first.set('a', { value: 1, expiresAt: Date.now() + 60_000 });
+    second.set('b', { value: 2, expiresAt: Date.now() + 60_000 });
+
+    expect(first.get('b')?.value).toBe(2);
+    expect(second.get('a')?.value).toBe(1);
+    expect(new FileCacheStore(dir).keys().sort()).toEqual(['a', 'b']);
+
+    second.delete('a');
+    expect(first.get('a')).toBeUndefined();
+  });
+
+  it('evicts expired and then the oldest entries over the byte budget', () => {
+    const store = new FileCacheStore(dir, { maxBytes: 400 });
+    const value = 'x'.repeat(100);
+    store.set('expired', { value, expiresAt: Date.now() - 1 });
+    store.set('old', { value, expiresAt: Date.now() + 60_000 });
+    const entries = join(dir, 'entries');
+    for (const name of readdirSync(entries)) {
+      utimesSync(join(entries, name), new Date(0), new Date(0));
+    }
+    store.set('new', { value, expiresAt: Date.now() + 60_000 });
+    store.set('newer', { value, expiresAt: Date.now() + 60_000 });
+
+    expect(store.keys().sort()).toEqual(['new', 'newer']);
+    expect(store.get('newer')?.value).toBe(value);
+  });
+
+  it('does not persist an entry larger than the budget', () => {
+    const store = new FileCacheStore(dir, { maxBytes: 100 });
+    store.set('big', { value: 'x'.repeat(200), expiresAt: Date.now() + 60_000 });
+    expect(store.get('big')).toBeUndefined();
+    expect(store.keys()).toEqual([]);
+  });
+});
+
+describe('CacheManager with a persistent store', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gsc-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves persisted entries after a restart', () => {
+    const before = new CacheManager(undefined, { store: new FileCacheStore(dir) });
+    before.set('analytics|site|q', { rows: [] }, 60_000);
+
+    const after = new CacheManager(undefined, { store: new FileCacheStore(dir) });
+    expect(after.get('analytics|site|q')).toEqual({ rows: [] });
+    expect(after.stats().hits).toBe(1);
+  });
+
+  it('reads through to the store after LRU eviction', () => {
+    const cache = new CacheManager(1, { store: new FileCacheStore(dir) });
+    cache.set('a', 1, 60_000);
+    cache.set('b', 2, 60_000);
+
+    expect(cache.get('a')).toBe(1);
+  });
+
+  it('keeps finalized data in the store beyond the in-memory TTL', () => {
+    vi.useFakeTimers();
+    try {
+      const cache = new CacheManager(undefined, { store: new FileCacheStore(dir) });
+      cache.set('final', 'v', CACHE_TTL.ANALYTICS_FINAL, CACHE_TTL.ANALYTICS_FINAL_PERSISTED);
+
+      vi.advanceTimersByTime(CACHE_TTL.ANALYTICS_FINAL + 1);
+      expect(cache.get('final')).toBe('v');
+
+      vi.advanceTimersByTime(CACHE_TTL.ANALYTICS_FINAL_PERSISTED);
+      expect(cache.get('final')).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('invalidates persisted keys by prefix', () => {
+    const cache = new CacheManager(undefined, { store: new FileCacheStore(dir) });
+    cache.set('inspection|site|a', 1, 60_000);
+    cache.set('sitemaps|site|__all__', 2, 60_000);
+
+    cache.invalidatePrefix('inspection|');
+
+    const reopened = new CacheManager(undefined, { store: new FileCacheStore(dir) });
+    expect(reopened.get('inspection|site|a')).toBeUndefined();
+    expect(reopened.get('sitemaps|site|__all__')).toBe(2);
+  });
+});
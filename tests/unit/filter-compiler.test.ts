@@ -0,0 +1,147 @@
+import { compileFilterGroups, mergeFilterResults, MAX_FILTER_REQUESTS } from '../../src/api/filter-compiler.js';
+import type { FilterGroup } from '../../src/api/filter-compiler.js';
+import type { DimensionFilter, SearchAnalyticsRow } from '../../src/api/types.js';
+import { matchesDimensionFilter } from '../../src/api/row-utils.js';
+import { ValidationError } from '../../src/errors/gsc-error.js';
+
+function f(dimension: string, operator: DimensionFilter['operator'], expression: string): DimensionFilter {
+  return { dimension, operator, expression };
+}
+
+function row(keys: string[], clicks: number, impressions: number, position = 1): SearchAnalyticsRow {
+  return { keys, clicks, impressions, ctr: impressions > 0 ? clicks / impressions : 0, position };
+}
+
+/** Whether a page/query pair matches every filter of one request. */
+function matchesRequest(values: Record<string, string>, filters: DimensionFilter[]): boolean {
+  return filters.every((filter) => matchesDimensionFilter(values[filter.dimension]!, filter));
+}
+
+describe('compileFilterGroups', () => {
+  it('passes plain AND filters through as one group', () => {
+    const plan = compileFilterGroups([
+      { groupType: 'and', filters: [f('page', 'contains', '/blog/'), f('query', 'notContains', 'brand')] },
+    ]);
+    expect(plan.requests).toEqual([
+      [{ groupType: 'and', filters: [f('page', 'contains', '/blog/'), f('query', 'notContains', 'brand')] }],
+    ]);
+  });
+
+  it('returns a single unfiltered request for no groups', () => {
+    expect(compileFilterGroups([]).requests).toEqual([[]]);
+  });
+
+  it('collapses an OR on one dimension into a single regex filter', () => {
+    const plan = compileFilterGroups([
+      { groupType: 'or', filters: [f('page', 'contains', '/blog/'), f('page', 'equals', 'https://x.com/a.b')] },
+    ]);
+    expect(plan.requests).toHaveLength(1);
+    const filter = plan.requests[0]![0]!.filters[0]!;
+    expect(filter).toEqual(f('page', 'includingRegex', '/[bB][lL][oO][gG]/|^https://x\\.com/a\\.b$'));
+    expect(matchesDimensionFilter('https://x.com/BLOG/post', filter)).toBe(true);
+    expect(matchesDimensionFilter('https://x.com/a.b', filter)).toBe(true);
+    expect(matchesDimensionFilter('https://x.com/aXb', filter)).toBe(false);
+  });
+
+  it('keeps a regex with leading inline flags out of the collapsed regex', () => {
+    const plan = compileFilterGroups(
+      [{ groupType: 'or', filters: [f('query', 'includingRegex', '(?i)shoes'), f('query', 'contains', 'boots')] }],
+      ['query'],
+    );
+    expect(plan.requests).toHaveLength(2);
+    const filters = plan.requests.map((groups) => groups[0]!.filters[0]!);
+    expect(filters).toEqual([f('query', 'contains', 'boots'), f('query', 'includingRegex', '(?i)shoes')]);
+    for (const filter of filters) {
+      expect(() => matchesDimensionFilter('Red Shoes', filter)).not.toThrow();
+    }
+    expect(matchesDimensionFilter('Red Shoes', filters[1]!)).toBe(true);
+  });
+
+  it('pushes negation down to the filters', () => {
+    const plan = compileFilterGroups([
+      { groupType: 'or', negate: true, filters: [f('query', 'contains', 'a'), f('page', 'equals', '/b')] },
+    ]);
+    expect(plan.requests).toEqual([
+      [{ groupType: 'and', filters: [f('query', 'notContains', 'a'), f('page', 'notEquals', '/b')] }],
+    ]);
+  });
+
+  it('splits an OR across dimensions into requests merged by key when grouped by them', () => {
+    const plan = compileFilterGroups(
+      [{ groupType: 'or', filters: [f('query', 'contains', 'shoes'), f('page', 'contains', '/sale/')] }],
+      ['query', 'page'],
+    );
+    expect(plan.merge).toBe('dedupe');
+    expect(plan.requests).toHaveLength(2);
+  });
+
+  it('makes branches disjoint when the filtered dimensions are not grouped by', () => {
+    const group: FilterGroup = {
+      groupType: 'or',
+      filters: [
+        { groupType: 'and', filters: [f('query', 'contains', 'shoes'), f('country', 'equals', 'usa')] },
+        f('page', 'contains', '/sale/'),
+      ],
+    };
+    const plan = compileFilterGroups([group], ['date']);
+    expect(plan.merge).toBe('sum');
+
+    // Every combination of values matches at most one request, and matches
+    // one exactly when it satisfies the original filter.
+    const options = {
+      query: ['red shoes', 'hats'],
+      country: ['usa', 'gbr'],
+      page: ['/sale/a', '/home'],
+    };
+    for (const query of options.query) {
+      for (const country of options.country) {
+        for (const page of options.page) {
+          const values = { query, country, page };
+          const expected = (query.includes('shoes') && country === 'usa') || page.includes('/sale/');
+          const matched = plan.requests.filter((groups) => matchesRequest(values, groups[0]!.filters)).length;
+          expect(matched).toBe(expected ? 1 : 0);
+        }
+      }
+    }
+  });
+
+  it('drops branches that contradict themselves', () => {
+    const plan = compileFilterGroups([
+      { groupType: 'and', filters: [f('page', 'contains', '/a/')] },
+      { groupType: 'or', filters: [f('page', 'notContains', '/a/'), f('query', 'equals', 'x')] },
+    ]);
+    expect(plan.requests).toEqual([
+      [{ groupType: 'and', filters: [f('page', 'contains', '/a/'), f('query', 'equals', 'x')] }],
+    ]);
+  });
+
+  it('refuses filters that expand into too many requests', () => {
+    const or = (dim: string): FilterGroup => ({
+      groupType: 'or',
+      filters: [f(dim, 'notContains', 'a'), f('query', 'notContains', `${dim}-b`)],
+    });
+    const groups = ['page', 'country', 'device', 'searchAppearance'].map(or);
+    expect(2 ** groups.length).toBeGreaterThan(MAX_FILTER_REQUESTS);
+    expect(() => compileFilterGroups(groups)).toThrow(ValidationError);
+  });
+});
+
+describe('mergeFilterResults', () => {
+  it('keeps rows repeated across requests once when deduping', () => {
+    const rows = mergeFilterResults(
+      { requests: [[], []], merge: 'dedupe' },
+      [[row(['a'], 5, 50), row(['b'], 1, 10)], [row(['a'], 5, 50), row(['c'], 9, 90)]],
+      10,
+    );
+    expect(rows.map((r) => [r.keys[0], r.clicks])).toEqual([['c', 9], ['a', 5], ['b', 1]]);
+  });
+
+  it('sums disjoint rows with impression-weighted position and applies the row limit', () => {
+    const rows = mergeFilterResults(
+      { requests: [[], []], merge: 'sum' },
+      [[row(['2025-01-01'], 10, 100, 2), row(['2025-01-02'], 1, 10)], [row(['2025-01-01'], 5, 300, 6)]],
+      1,
+    );
+    expect(rows).toEqual([{ keys: ['2025-01-01'], clicks: 15, impressions: 400, ctr: 15 / 400, position: 5 }]);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  checkDimensionFilter,
+  validateFilterInput,
+  validateRequestFilters,
+  MAX_FILTER_EXPRESSION_LENGTH,
+} from '../../src/api/filter-validation.js';
+import type { DimensionFilter } from '../../src/api/types.js';
+import { ValidationError } from '../../src/errors/gsc-error.js';
+
+function regex(expression: string, operator: DimensionFilter['operator'] = 'includingRegex'): DimensionFilter {
+  return { dimension: 'query', operator, expression };
+}
+
+describe('checkDimensionFilter', () => {
+  it('accepts valid filters and RE2 patterns', () => {
+    expect(checkDimensionFilter({ dimension: 'page', operator: 'contains', expression: '/blog/' }, 'f')).toEqual([]);
+    expect(checkDimensionFilter(regex('(?i)^(buy|best) [a-z]+\\b'), 'f')).toEqual([]);
+    expect(checkDimensionFilter(regex('[(?=]\\(\\?!'), 'f')).toEqual([]);
+  });
+
+  it('suggests the right name for an unknown dimension', () => {
+    const [issue] = checkDimensionFilter({ dimension: 'Keywords', operator: 'contains', expression: 'x' }, 'filters[0]');
+    expect(issue!.field).toBe('filters[0].dimension');
+    expect(issue!.suggestion).toEqual({ dimension: 'query', operator: 'contains', expression: 'x' });
+  });
+
+  it('rejects over-long expressions', () => {
+    const [issue] = checkDimensionFilter(regex('a'.repeat(MAX_FILTER_EXPRESSION_LENGTH + 1)), 'f');
+    expect(issue!.field).toBe('f.expression');
+  });
+
+  it('rewrites an anchored negative lookahead as the opposite operator', () => {
+    const [issue] = checkDimensionFilter(regex('^(?!.*brand).*$'), 'f');
+    expect(issue!.suggestion).toEqual(regex('brand', 'excludingRegex'));
+  });
+
+  it('flags lookarounds and backreferences without a suggestion', () => {
+    const issues = checkDimensionFilter(regex('(?=.*a)(\\w)\\1(?<!x)'), 'f');
+    expect(issues.map((i) => i.message)).toEqual([
+      expect.stringContaining('Lookahead (?=...)'),
+      expect.stringContaining('Backreference \\1'),
+      expect.stringContaining('Lookbehind (?<!...)'),
+    ]);
+    expect(issues.every((i) => i.suggestion === undefined)).toBe(true);
+  });
+
+  it('fixes atomic groups, possessive quantifiers and \\Z', () => {
+    const issues = checkDimensionFilter(regex('(?>ab)++c*+\\Z'), 'f');
+    expect(issues).toHaveLength(4);
+    expect(issues[0]!.suggestion).toEqual(regex('(?:ab)+c*$'));
+  });
+
+  it('strips JavaScript regex delimiters', () => {
+    const [issue] = checkDimensionFilter(regex('/shoes?/i'), 'f');
+    expect(issue!.suggestion).toEqual(regex('[sS][hH][oO][eE][sS]?'));
+  });
+
+  it('spells out the i flag so the suggestion also runs as a JavaScript RegExp', () => {
+    const [issue] = checkDimensionFilter(regex('/^best [a-z]{2,}\\s\\w+/i'), 'f');
+    const expression = issue!.suggestion!.expression;
+    expect(expression).toBe('^[bB][eE][sS][tT] [a-zA-Z]{2,}\\s\\w+');
+    expect(new RegExp(expression).test('BEST Shoes ever')).toBe(true);
+  });
+
+  it('only checks regex syntax for regex operators', () => {
+    expect(checkDimensionFilter(regex('(?=x)', 'contains'), 'f')).toEqual([]);
+  });
+});
+
+describe('validateFilterInput', () => {
+  it('reports every problem keyed by input path', () => {
+    let error: unknown;
+    try {
+      validateFilterInput(
+        [{ dimension: 'url', operator: 'contains', expression: '/a/' }],
+        [{ groupType: 'or', filters: [regex('x'), { groupType: 'and', filters: [regex('(?!y)z')] }] }],
+      );
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ValidationError);
+    const v = error as ValidationError;
+    expect(Object.keys(v.fieldErrors)).toEqual([
+      'filters[0].dimension',
+      'filterGroups[0].filters[1].filters[0].expression',
+    ]);
+    expect(v.recoveryHint).toContain('"dimension":"page"');
+  });
+
+  it('passes when there are no filters', () => {
+    expect(() => validateFilterInput()).not.toThrow();
+  });
+});
+
+describe('validateRequestFilters', () => {
+  it('checks every filter group of a request', () => {
+    expect(() =>
+      validateRequestFilters({
+        siteUrl: 'https://example.com/',
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        dimensionFilterGroups: [{ filters: [regex('a')] }, { filters: [regex('a(?=b)')] }],
+      }),
+    ).toThrow(expect.objectContaining({ fieldErrors: { 'dimensionFilterGroups[1].filters[0].expression': [expect.any(String)] } }));
+  });
+});
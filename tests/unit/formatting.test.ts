@@ -3,7 +3,9 @@ import {
   formatPercent,
   formatPosition,
   formatChange,
+  formatPositionChange,
   truncate,
+  formatBytes,
 } from '../../src/utils/formatting.js';
 
 describe('formatting', () => {
@@ -65,6 +67,21 @@ describe('formatting', () => {
     });
   });
 
+  describe('formatPositionChange', () => {
+    it('shows a higher position as worse', () => {
+      expect(formatPositionChange(5.5, 4.2)).toBe('+1.3 (worse)');
+    });
+
+    it('shows a lower position as better', () => {
+      expect(formatPositionChange(3.1, 4.2)).toBe('-1.1 (better)');
+    });
+
+    it('shows no change and missing previous data', () => {
+      expect(formatPositionChange(4.21, 4.2)).toBe('0.0');
+      expect(formatPositionChange(4.2, 0)).toBe('N/A');
+    });
+  });
+
   describe('truncate', () => {
     it('does not truncate strings shorter than maxLen', () => {
       expect(truncate('hello', 10)).toBe('hello');
@@ -82,4 +99,12 @@ describe('formatting', () => {
       expect(truncate('', 5)).toBe('');
     });
   });
+
+  describe('formatBytes', () => {
+    it('picks a unit by size', () => {
+      expect(formatBytes(512)).toBe('512 B');
+      expect(formatBytes(1536)).toBe('1.5 KB');
+      expect(formatBytes(3 * 1024 * 1024)).toBe('3.0 MB');
+    });
+  });
 });
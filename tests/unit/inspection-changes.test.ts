@@ -0,0 +1,91 @@
+import { buildInspectionTimeline, diffInspections } from '../../src/analysis/inspection-changes.js';
+import type { InspectionRecord, UrlInspectionHistory } from '../../src/inspection/inspection-history.js';
+
+function record(
+  inspectedAt: string,
+  verdict: string,
+  coverageState: string,
+  extra: { googleCanonical?: string; lastCrawlTime?: string } = {},
+): InspectionRecord {
+  return {
+    inspectedAt,
+    siteUrl: 'https://example.com/',
+    result: {
+      inspectionResultLink: 'https://search.google.com/search-console/inspect',
+      indexStatusResult: {
+        verdict,
+        coverageState,
+        robotsTxtState: 'ALLOWED',
+        indexingState: 'INDEXING_ALLOWED',
+        pageFetchState: 'SUCCESSFUL',
+        ...extra,
+      },
+    },
+  };
+}
+
+function history(url: string, records: InspectionRecord[]): UrlInspectionHistory {
+  return { url, records };
+}
+
+describe('buildInspectionTimeline', () => {
+  it('reports verdict, coverage and canonical changes and recrawls between inspections', () => {
+    const timeline = buildInspectionTimeline([
+      record('2025-05-01T00:00:00Z', 'PASS', 'Submitted and indexed', { googleCanonical: 'https://example.com/a', lastCrawlTime: '2025-04-28T00:00:00Z' }),
+      record('2025-05-08T00:00:00Z', 'PASS', 'Submitted and indexed', { googleCanonical: 'https://example.com/a', lastCrawlTime: '2025-04-28T00:00:00Z' }),
+      record('2025-05-15T00:00:00Z', 'NEUTRAL', 'Duplicate, Google chose different canonical than user', { googleCanonical: 'https://example.com/b', lastCrawlTime: '2025-05-12T00:00:00Z' }),
+    ]);
+
+    expect(timeline).toHaveLength(3);
+    expect(timeline[0]).toMatchObject({ verdict: 'PASS', changes: [], recrawled: false });
+    expect(timeline[1]).toMatchObject({ changes: [], recrawled: false });
+    expect(timeline[2]!.recrawled).toBe(true);
+    expect(timeline[2]!.changes).toEqual([
+      { field: 'verdict', from: 'PASS', to: 'NEUTRAL' },
+      { field: 'coverageState', from: 'Submitted and indexed', to: 'Duplicate, Google chose different canonical than user' },
+      { field: 'googleCanonical', from: 'https://example.com/a', to: 'https://example.com/b' },
+    ]);
+  });
+
+  it('records a field that appears or disappears without a from or to', () => {
+    const timeline = buildInspectionTimeline([
+      record('2025-05-01T00:00:00Z', 'NEUTRAL', 'URL is unknown to Google'),
+      record('2025-05-08T00:00:00Z', 'PASS', 'Submitted and indexed', { googleCanonical: 'https://example.com/a' }),
+    ]);
+
+    expect(timeline[1]!.changes).toContainEqual({ field: 'googleCanonical', to: 'https://example.com/a' });
+  });
+});
+
+describe('diffInspections', () => {
+  const histories = [
+    history('https://example.com/a', [
+      record('2025-05-01T00:00:00Z', 'PASS', 'Submitted and indexed'),
+      record('2025-05-08T00:00:00Z', 'NEUTRAL', 'Crawled - currently not indexed'),
+      record('2025-05-15T00:00:00Z', 'NEUTRAL', 'Crawled - currently not indexed'),
+    ]),
+    history('https://example.com/b', [
+      record('2025-05-01T00:00:00Z', 'NEUTRAL', 'Discovered - currently not indexed'),
+      record('2025-05-15T00:00:00Z', 'PASS', 'Submitted and indexed'),
+    ]),
+    history('https://example.com/c', [record('2025-05-15T00:00:00Z', 'PASS', 'Submitted and indexed')]),
+  ];
+
+  it('compares each URL\'s last two inspections by default', () => {
+    const diffs = diffInspections(histories);
+    expect(diffs.map((d) => d.url)).toEqual(['https://example.com/b']);
+    expect(diffs[0]!.changes[0]).toEqual({ field: 'verdict', from: 'NEUTRAL', to: 'PASS' });
+  });
+
+  it('compares with the last inspection before since', () => {
+    const diffs = diffInspections(histories, '2025-05-05');
+    expect(diffs.map((d) => [d.url, d.before.inspectedAt, d.after.inspectedAt])).toEqual([
+      ['https://example.com/a', '2025-05-01T00:00:00Z', '2025-05-15T00:00:00Z'],
+      ['https://example.com/b', '2025-05-01T00:00:00Z', '2025-05-15T00:00:00Z'],
+    ]);
+  });
+
+  it('skips URLs not inspected again since the cutoff', () => {
+    expect(diffInspections(histories, '2025-05-20')).toEqual([]);
+  });
+});
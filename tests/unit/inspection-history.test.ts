@@ -0,0 +1,80 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InspectionHistory } from '../../src/inspection/inspection-history.js';
+import type { InspectionResult } from '../../src/api/types.js';
+
+const SITE = 'https://example.com/';
+
+function result(verdict: string, coverageState: string): InspectionResult {
+  return {
+    inspectionResultLink: 'https://search.google.com/search-console/inspect',
+    indexStatusResult: {
+      verdict,
+      coverageState,
+      robotsTxtState: 'ALLOWED',
+      indexingState: 'INDEXING_ALLOWED',
+      pageFetchState: 'SUCCESSFUL',
+    },
+  };
+}
+
+describe('InspectionHistory', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gsc-inspection-history-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends every result with its timestamp and reloads it from disk', async () => {
+    const history = new InspectionHistory(dir);
+    await history.record(SITE, 'https://example.com/a', result('PASS', 'Submitted and indexed'), new Date('2025-05-01T08:00:00Z'));
+    await history.record(SITE, 'https://example.com/a', result('NEUTRAL', 'Crawled - currently not indexed'), new Date('2025-05-01T20:00:00Z'));
+
+    const reloaded = await new InspectionHistory(dir).history('https://example.com/a');
+    expect(reloaded?.url).toBe('https://example.com/a');
+    expect(reloaded?.records.map((r) => [r.inspectedAt, r.result.indexStatusResult?.verdict])).toEqual([
+      ['2025-05-01T08:00:00.000Z', 'PASS'],
+      ['2025-05-01T20:00:00.000Z', 'NEUTRAL'],
+    ]);
+  });
+
+  it('returns undefined for a URL that was never inspected', async () => {
+    expect(await new InspectionHistory(dir).history('https://example.com/none')).toBeUndefined();
+  });
+
+  it('lists the histories of URLs a property covers in URL order', async () => {
+    const history = new InspectionHistory(dir);
+    await history.record(SITE, 'https://example.com/b', result('PASS', 'Submitted and indexed'));
+    await history.record('https://example.com/blog/', 'https://example.com/blog/a', result('PASS', 'Submitted and indexed'));
+    await history.record('https://other.com/', 'https://other.com/a', result('PASS', 'Submitted and indexed'));
+
+    const histories = await history.listHistories('sc-domain:example.com');
+    expect(histories.map((h) => h.url)).toEqual(['https://example.com/b', 'https://example.com/blog/a']);
+    expect(await history.listHistories('https://missing.com/')).toEqual([]);
+  });
+
+  it('keeps one history per URL whichever property inspected it', async () => {
+    const history = new InspectionHistory(dir);
+    await history.record('sc-domain:example.com', 'https://example.com/blog/a', result('PASS', 'Submitted and indexed'));
+    await history.record('https://example.com/blog/', 'https://example.com/blog/a', result('NEUTRAL', 'Crawled - currently not indexed'));
+
+    const records = (await history.history('https://example.com/blog/a'))!.records;
+    expect(records.map((r) => r.siteUrl)).toEqual(['sc-domain:example.com', 'https://example.com/blog/']);
+  });
+
+  it('keeps only the most recent 200 records per URL', async () => {
+    const history = new InspectionHistory(dir);
+    for (let i = 0; i < 205; i++) {
+      await history.record(SITE, 'https://example.com/a', result('PASS', 'Submitted and indexed'), new Date(Date.UTC(2025, 0, 1) + i * 3_600_000));
+    }
+
+    const records = (await history.history('https://example.com/a'))!.records;
+    expect(records).toHaveLength(200);
+    expect(records[0]!.inspectedAt).toBe('2025-01-01T05:00:00.000Z');
+  });
+});
@@ -0,0 +1,88 @@
+import { parseHourKey, compareHourly, findHourlyAnomalies } from '../../src/analysis/intraday.js';
+import type { SearchAnalyticsRow } from '../../src/api/types.js';
+
+function hourRow(date: string, hour: number, clicks: number, impressions = clicks * 10): SearchAnalyticsRow {
+  const hh = String(hour).padStart(2, '0');
+  return { keys: [`${date}T${hh}:00:00-07:00`], clicks, impressions, ctr: 0, position: 0 };
+}
+
+describe('intraday', () => {
+  describe('parseHourKey', () => {
+    it('splits an hour key into date and hour', () => {
+      expect(parseHourKey('2025-04-07T14:00:00-07:00')).toEqual({ date: '2025-04-07', hour: 14 });
+    });
+
+    it('returns undefined for a non-hour key', () => {
+      expect(parseHourKey('2025-04-07')).toBeUndefined();
+    });
+  });
+
+  describe('compareHourly', () => {
+    it('lines up each reported hour with the same hour a week earlier', () => {
+      const rows = [
+        hourRow('2025-04-07', 0, 20),
+        hourRow('2025-04-07', 1, 30),
+        hourRow('2025-04-14', 0, 25),
+        hourRow('2025-04-14', 1, 15),
+        hourRow('2025-04-13', 0, 99), // neither day
+      ];
+
+      const result = compareHourly(rows, '2025-04-14');
+
+      expect(result.baselineDate).toBe('2025-04-07');
+      expect(result.hours.map((h) => [h.hour, h.clicks, h.baselineClicks])).toEqual([
+        [0, 25, 20],
+        [1, 15, 30],
+      ]);
+      expect(result.hours[1]!.changePercent).toBe(-50);
+      expect(result.clicks).toBe(40);
+      expect(result.baselineClicks).toBe(50);
+      expect(result.changePercent).toBe(-20);
+    });
+
+    it('only totals the baseline hours reported so far today', () => {
+      const rows = [
+        hourRow('2025-04-07', 0, 10),
+        hourRow('2025-04-07', 23, 500),
+        hourRow('2025-04-14', 0, 10),
+      ];
+
+      const result = compareHourly(rows, '2025-04-14');
+
+      expect(result.baselineClicks).toBe(10);
+      expect(result.changePercent).toBe(0);
+    });
+
+    it('reports a null change when last week had no clicks', () => {
+      const result = compareHourly([hourRow('2025-04-14', 5, 12)], '2025-04-14');
+      expect(result.hours[0]!.baselineClicks).toBe(0);
+      expect(result.hours[0]!.changePercent).toBeNull();
+      expect(result.changePercent).toBeNull();
+    });
+  });
+
+  describe('findHourlyAnomalies', () => {
+    it('flags sharp drops and spikes', () => {
+      const rows = [
+        hourRow('2025-04-07', 9, 100),
+        hourRow('2025-04-07', 10, 100),
+        hourRow('2025-04-07', 11, 100),
+        hourRow('2025-04-14', 9, 40),
+        hourRow('2025-04-14', 10, 90),
+        hourRow('2025-04-14', 11, 250),
+      ];
+
+      const anomalies = findHourlyAnomalies(compareHourly(rows, '2025-04-14'));
+
+      expect(anomalies).toEqual([
+        { date: '2025-04-14', hour: 9, kind: 'drop', changePercent: -60 },
+        { date: '2025-04-14', hour: 11, kind: 'spike', changePercent: 150 },
+      ]);
+    });
+
+    it('ignores hours with too few clicks last week', () => {
+      const rows = [hourRow('2025-04-07', 3, 4), hourRow('2025-04-14', 3, 40)];
+      expect(findHourlyAnomalies(compareHourly(rows, '2025-04-14'))).toEqual([]);
+    });
+  });
+});
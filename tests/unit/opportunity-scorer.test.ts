@@ -135,6 +135,34 @@ describe('opportunity-scorer', () => {
       const sumContributions = result.factors.reduce((sum, f) => sum + f.contribution, 0);
       expect(result.score).toBeCloseTo(sumContributions, 0);
     });
+
+    it('gives position no weight when the surface has no positions', () => {
+      const result = scoreOpportunity({
+        impressions: 5000,
+        clicks: 100,
+        ctr: 0.02,
+        position: 0,
+        expectedCtr: 0.05,
+        hasPosition: false,
+      });
+
+      const position = result.factors.find((f) => f.name === 'position')!;
+      expect(position.weight).toBe(0);
+      expect(position.contribution).toBe(0);
+      expect(result.factors.reduce((sum, f) => sum + f.weight, 0)).toBeCloseTo(1);
+    });
+
+    it('does not score a CTR gap without a position or expected CTR', () => {
+      const result = scoreOpportunity({
+        impressions: 5000,
+        clicks: 10,
+        ctr: 0.002,
+        position: 0,
+        hasPosition: false,
+      });
+
+      expect(result.factors.find((f) => f.name === 'ctrGap')!.value).toBe(0);
+    });
   });
 
   describe('getPriority', () => {
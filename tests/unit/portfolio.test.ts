@@ -0,0 +1,63 @@
+import { assessProperty, rankPortfolio, type PropertySnapshot } from '../../src/analysis/portfolio.js';
+
+function snapshot(overrides: Partial<PropertySnapshot>): PropertySnapshot {
+  return {
+    siteUrl: 'https://example.com/',
+    clicks: 1000,
+    impressions: 20000,
+    ctr: 0.05,
+    position: 8,
+    previousClicks: 1000,
+    previousImpressions: 20000,
+    previousPosition: 8,
+    ...overrides,
+  };
+}
+
+describe('portfolio', () => {
+  describe('assessProperty', () => {
+    it('does not flag a stable property', () => {
+      expect(assessProperty(snapshot({ grade: 'B' }))).toEqual({ reasons: [], urgency: 0 });
+    });
+
+    it('flags traffic drops by severity', () => {
+      expect(assessProperty(snapshot({ clicks: 850 })).urgency).toBe(1);
+      const steep = assessProperty(snapshot({ clicks: 600, impressions: 12000, position: 11 }));
+      expect(steep.reasons).toEqual(['Clicks down 40%', 'Impressions down 40%', 'Average position worsened by 3.0']);
+      expect(steep.urgency).toBe(4);
+    });
+
+    it('ignores drops on very small properties', () => {
+      expect(assessProperty(snapshot({ clicks: 5, previousClicks: 20, impressions: 100, previousImpressions: 300 })).urgency).toBe(0);
+    });
+
+    it('flags properties that lost all impressions', () => {
+      const result = assessProperty(snapshot({ clicks: 0, impressions: 0, ctr: 0, position: 0 }));
+      expect(result.reasons).toEqual(['No impressions this period (there were some last period)']);
+      expect(result.urgency).toBe(3);
+    });
+
+    it('flags failing health grades', () => {
+      expect(assessProperty(snapshot({ grade: 'D' })).urgency).toBe(2);
+      expect(assessProperty(snapshot({ grade: 'F' })).reasons).toEqual(['Health check grade F']);
+    });
+
+    it('skips the position check when there is no previous position', () => {
+      expect(assessProperty(snapshot({ position: 0, previousPosition: 0 })).urgency).toBe(0);
+    });
+  });
+
+  describe('rankPortfolio', () => {
+    it('orders by urgency, then click loss, then clicks', () => {
+      const ranked = rankPortfolio([
+        snapshot({ siteUrl: 'stable-small', clicks: 100, previousClicks: 100 }),
+        snapshot({ siteUrl: 'stable-large', clicks: 5000, previousClicks: 5000 }),
+        snapshot({ siteUrl: 'failing', grade: 'F' }),
+        snapshot({ siteUrl: 'dropping-a', clicks: 800 }),
+        snapshot({ siteUrl: 'dropping-b', clicks: 1600, previousClicks: 2000 }),
+      ]);
+
+      expect(ranked.map((e) => e.siteUrl)).toEqual(['failing', 'dropping-b', 'dropping-a', 'stable-large', 'stable-small']);
+    });
+  });
+});
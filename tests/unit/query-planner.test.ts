@@ -0,0 +1,89 @@
+import { QueryPlanner } from '../../src/api/query-planner.js';
+import { CacheManager } from '../../src/cache/cache-manager.js';
+import type { SearchAnalyticsRequest, SearchAnalyticsResponse } from '../../src/api/types.js';
+
+const SITE = 'https://example.com/';
+
+const series: SearchAnalyticsResponse = {
+  rows: [
+    { keys: ['2024-03-01'], clicks: 10, impressions: 100, ctr: 0.1, position: 2 },
+    { keys: ['2024-03-02'], clicks: 20, impressions: 300, ctr: 0.0667, position: 6 },
+    { keys: ['2024-03-03'], clicks: 30, impressions: 100, ctr: 0.3, position: 4 },
+  ],
+  responseAggregationType: 'byProperty',
+};
+
+const seriesRequest: SearchAnalyticsRequest = {
+  siteUrl: SITE,
+  startDate: '2024-03-01',
+  endDate: '2024-03-03',
+  dimensions: ['date'],
+  searchType: 'web',
+  rowLimit: 28,
+};
+
+function setup() {
+  const cache = new CacheManager();
+  const planner = new QueryPlanner(cache);
+  cache.set('series-key', series, 60_000);
+  planner.record(seriesRequest, 'series-key');
+  return { cache, planner };
+}
+
+describe('QueryPlanner', () => {
+  it('derives totals for a sub-range from a cached date series', () => {
+    const { planner } = setup();
+    const result = planner.derive({ siteUrl: SITE, startDate: '2024-03-01', endDate: '2024-03-02', searchType: 'web' });
+
+    expect(result?.rows).toHaveLength(1);
+    expect(result?.rows[0]).toMatchObject({ keys: [], clicks: 30, impressions: 400 });
+    expect(result?.rows[0]!.position).toBeCloseTo(5);
+    expect(result?.rows[0]!.ctr).toBeCloseTo(0.075);
+    expect(planner.stats().derived).toBe(1);
+  });
+
+  it('derives daily rows for a sub-range', () => {
+    const { planner } = setup();
+    const result = planner.derive({ ...seriesRequest, startDate: '2024-03-02' });
+    expect(result?.rows.map((r) => r.keys[0])).toEqual(['2024-03-02', '2024-03-03']);
+  });
+
+  it('treats omitted searchType, dataState and aggregationType as their defaults', () => {
+    const { planner } = setup();
+    expect(planner.derive({ siteUrl: SITE, startDate: '2024-03-01', endDate: '2024-03-03' })).toBeDefined();
+  });
+
+  it('does not derive query rows, which exclude anonymized queries', () => {
+    const { planner } = setup();
+    expect(planner.derive({ ...seriesRequest, dimensions: ['query'] })).toBeUndefined();
+  });
+
+  it('does not derive outside the cached range or with different filters', () => {
+    const { planner } = setup();
+    expect(planner.derive({ siteUrl: SITE, startDate: '2024-02-28', endDate: '2024-03-02' })).toBeUndefined();
+    expect(planner.derive({
+      siteUrl: SITE,
+      startDate: '2024-03-01',
+      endDate: '2024-03-02',
+      dimensionFilterGroups: [{ filters: [{ dimension: 'device', operator: 'equals', expression: 'MOBILE' }] }],
+    })).toBeUndefined();
+    expect(planner.derive({ siteUrl: SITE, startDate: '2024-03-01', endDate: '2024-03-02', dataState: 'final' })).toBeUndefined();
+  });
+
+  it('ignores series that may have been truncated by rowLimit', () => {
+    const cache = new CacheManager();
+    const planner = new QueryPlanner(cache);
+    cache.set('short', series, 60_000);
+    planner.record({ ...seriesRequest, rowLimit: 2 }, 'short');
+
+    expect(planner.stats().series).toBe(0);
+  });
+
+  it('forgets series that have left the cache', () => {
+    const { cache, planner } = setup();
+    cache.delete('series-key');
+
+    expect(planner.derive({ siteUrl: SITE, startDate: '2024-03-01', endDate: '2024-03-02' })).toBeUndefined();
+    expect(planner.stats().series).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { QuotaLedger, quotaDay } from '../../src/utils/quota-ledger.js';
+import { QuotaExceededError } from '../../src/errors/gsc-error.js';
+
+const SITE = 'https://example.com/';
+const OTHER = 'sc-domain:other.com';
+
+describe('QuotaLedger', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gsc-quota-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('counts calls per property and API', () => {
+    const ledger = new QuotaLedger();
+    ledger.consume(SITE, 'urlInspection');
+    ledger.consume(SITE, 'urlInspection');
+    ledger.consume(SITE, 'searchAnalytics');
+    ledger.consume(OTHER, 'urlInspection');
+
+    expect(ledger.used(SITE, 'urlInspection')).toBe(2);
+    expect(ledger.used(SITE, 'searchAnalytics')).toBe(1);
+    expect(ledger.used(OTHER, 'urlInspection')).toBe(1);
+    expect(ledger.remaining(SITE, 'urlInspection')).toBe(1_998);
+    expect(ledger.remaining(SITE, 'searchAnalytics')).toBeUndefined();
+  });
+
+  it('refuses a call that would exceed the daily limit without recording it', () => {
+    const ledger = new QuotaLedger({ limits: { urlInspection: 2 } });
+    ledger.consume(SITE, 'urlInspection', 2);
+
+    expect(() => ledger.consume(SITE, 'urlInspection')).toThrow(QuotaExceededError);
+    expect(ledger.used(SITE, 'urlInspection')).toBe(2);
+    // Other properties have their own budget.
+    expect(() => ledger.consume(OTHER, 'urlInspection')).not.toThrow();
+  });
+
+  it('refuses a batch up front when it does not fit', () => {
+    const ledger = new QuotaLedger({ limits: { urlInspection: 10 } });
+    ledger.consume(SITE, 'urlInspection', 8);
+
+    expect(() => ledger.assertAvailable(SITE, 'urlInspection', 3)).toThrow(
+      expect.objectContaining({ recoveryHint: expect.stringContaining('Only 2 urlInspection call(s) remain') }),
+    );
+    expect(() => ledger.assertAvailable(SITE, 'urlInspection', 2)).not.toThrow();
+  });
+
+  it('never refuses APIs without a limit', () => {
+    const ledger = new QuotaLedger();
+    expect(() => ledger.consume(SITE, 'searchAnalytics', 1_000_000)).not.toThrow();
+  });
+
+  it('starts a new count on the next Pacific Time day', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-01T07:59:00Z')); // 23:59 PST
+    const ledger = new QuotaLedger({ limits: { urlInspection: 1 } });
+    ledger.consume(SITE, 'urlInspection');
+    expect(() => ledger.consume(SITE, 'urlInspection')).toThrow(QuotaExceededError);
+
+    vi.setSystemTime(new Date('2024-03-01T08:00:00Z')); // 00:00 PST
+    expect(ledger.used(SITE, 'urlInspection')).toBe(0);
+    expect(() => ledger.consume(SITE, 'urlInspection')).not.toThrow();
+  });
+
+  it('persists counts across instances', () => {
+    const path = join(dir, 'quota.json');
+    new QuotaLedger({ path }).consume(SITE, 'urlInspection', 5);
+
+    const reopened = new QuotaLedger({ path });
+    expect(reopened.used(SITE, 'urlInspection')).toBe(5);
+    expect(JSON.parse(readFileSync(path, 'utf-8'))).toEqual({
+      [quotaDay()]: { [SITE]: { urlInspection: 5 } },
+    });
+  });
+
+  it('shares counts between instances using the same file', () => {
+    const path = join(dir, 'quota.json');
+    const first = new QuotaLedger({ path, limits: { urlInspection: 10 } });
+    const second = new QuotaLedger({ path, limits: { urlInspection: 10 } });
+
+    first.consume(SITE, 'urlInspection', 4);
+    second.consume(SITE, 'urlInspection', 4);
+    first.consume(SITE, 'urlInspection', 1);
+
+    expect(second.used(SITE, 'urlInspection')).toBe(9);
+    expect(() => second.consume(SITE, 'urlInspection', 2)).toThrow(QuotaExceededError);
+    expect(JSON.parse(readFileSync(path, 'utf-8'))).toEqual({
+      [quotaDay()]: { [SITE]: { urlInspection: 9 } },
+    });
+  });
+
+  it('reports every API for a requested property and only active ones otherwise', () => {
+    const ledger = new QuotaLedger();
+    ledger.consume(SITE, 'urlInspection');
+
+    expect(ledger.usage(SITE).map((u) => u.api)).toEqual(['searchAnalytics', 'urlInspection']);
+    expect(ledger.usage()).toEqual([
+      { siteUrl: SITE, api: 'urlInspection', date: quotaDay(), used: 1, limit: 2_000, remaining: 1_999 },
+    ]);
+  });
+
+  it('formats quota days in Pacific Time', () => {
+    expect(quotaDay(new Date('2024-07-04T06:00:00Z'))).toBe('2024-07-03');
+    expect(quotaDay(new Date('2024-07-04T08:00:00Z'))).toBe('2024-07-04');
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  RateLimiter,
+  createApiRateLimiters,
+  currentPriority,
+  withPriority,
+} from '../../src/utils/rate-limiter.js';
+import type { RequestPriority } from '../../src/utils/rate-limiter.js';
+import { GscApiClient } from '../../src/api/client.js';
+import type { AuthClient } from '../../src/auth/client-factory.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves immediately while burst tokens remain', async () => {
+    const limiter = new RateLimiter(1, 3);
+    await limiter.acquire();
+    await limiter.acquire();
+    await limiter.acquire();
+    expect(limiter.waiting()).toBe(0);
+  });
+
+  it('queues once the bucket is empty and releases as tokens refill', async () => {
+    const limiter = new RateLimiter(10, 1);
+    await limiter.acquire();
+
+    let released = false;
+    const pending = limiter.acquire().then(() => { released = true; });
+    expect(limiter.waiting()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(released).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(released).toBe(true);
+  });
+
+  it('serves interactive callers ahead of queued background work', async () => {
+    const limiter = new RateLimiter(10, 1);
+    await limiter.acquire();
+
+    const order: RequestPriority[] = [];
+    const waiters = [
+      ...Array.from({ length: 3 }, () => limiter.acquire('background').then(() => order.push('background'))),
+      limiter.acquire('interactive').then(() => order.push('interactive')),
+    ];
+
+    await vi.advanceTimersByTimeAsync(400);
+    await Promise.all(waiters);
+    expect(order[0]).toBe('interactive');
+  });
+
+  it('shares tokens between lanes by weight without starving background work', async () => {
+    const limiter = new RateLimiter(100, 1);
+    await limiter.acquire();
+
+    const order: RequestPriority[] = [];
+    const waiters: Promise<unknown>[] = [];
+    for (let i = 0; i < 20; i++) {
+      for (const priority of ['interactive', 'normal', 'background'] as const) {
+        waiters.push(limiter.acquire(priority).then(() => order.push(priority)));
+      }
+    }
+
+    await vi.advanceTimersByTimeAsync(100);
+    const firstTen = order.slice(0, 10);
+    expect(firstTen.filter((p) => p === 'interactive')).toHaveLength(6);
+    expect(firstTen.filter((p) => p === 'normal')).toHaveLength(3);
+    expect(firstTen.filter((p) => p === 'background')).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await Promise.all(waiters);
+  });
+
+  it('takes the priority from the surrounding withPriority scope', async () => {
+    expect(currentPriority()).toBe('interactive');
+
+    const limiter = new RateLimiter(10, 1);
+    await limiter.acquire();
+
+    const seen = await withPriority('background', async () => {
+      const pending = limiter.acquire();
+      const waiting = limiter.waiting('background');
+      await vi.advanceTimersByTimeAsync(100);
+      await pending;
+      return { waiting, priority: currentPriority() };
+    });
+
+    expect(seen).toEqual({ waiting: 1, priority: 'background' });
+  });
+
+  it('rejects invalid configuration', () => {
+    expect(() => new RateLimiter(0, 1)).toThrow(RangeError);
+    expect(() => new RateLimiter(1, 0)).toThrow(RangeError);
+  });
+});
+
+describe('createApiRateLimiters', () => {
+  it('creates an independent bucket per API', () => {
+    const limiters = createApiRateLimiters();
+    expect(limiters.searchAnalytics).not.toBe(limiters.urlInspection);
+    expect(limiters.sites).not.toBe(limiters.sitemaps);
+  });
+
+  it('uses the given buckets for some APIs', () => {
+    const shared = new RateLimiter(1, 1);
+    const limiters = createApiRateLimiters({ urlInspection: shared });
+    expect(limiters.urlInspection).toBe(shared);
+    expect(limiters.searchAnalytics).not.toBe(shared);
+  });
+});
+
+describe('GscApiClient.rateLimiter', () => {
+  it('still points at the Search Analytics bucket', () => {
+    const api = new GscApiClient({} as AuthClient);
+    expect(api.rateLimiter).toBe(api.rateLimiters.searchAnalytics);
+  });
+});
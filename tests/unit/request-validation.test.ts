@@ -0,0 +1,88 @@
+import { validateSearchAnalyticsRequest } from '../../src/api/request-validation.js';
+import type { SearchAnalyticsRequest } from '../../src/api/types.js';
+import { ValidationError } from '../../src/errors/gsc-error.js';
+
+// 2025-06-15 12:00 in California
+const NOW = new Date('2025-06-15T19:00:00Z');
+
+function request(overrides: Partial<SearchAnalyticsRequest> = {}): SearchAnalyticsRequest {
+  return { siteUrl: 'https://example.com/', startDate: '2025-05-01', endDate: '2025-05-31', ...overrides };
+}
+
+function errorFor(req: SearchAnalyticsRequest): ValidationError {
+  try {
+    validateSearchAnalyticsRequest(req, NOW);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return error as ValidationError;
+  }
+  throw new Error('expected a ValidationError');
+}
+
+describe('validateSearchAnalyticsRequest', () => {
+  it('accepts a valid request without notices', () => {
+    expect(validateSearchAnalyticsRequest(request({ dimensions: ['query', 'page'] }), NOW)).toEqual([]);
+  });
+
+  it('rejects dates that are not real days', () => {
+    expect(Object.keys(errorFor(request({ startDate: '2025-02-30' })).fieldErrors)).toEqual(['startDate']);
+  });
+
+  it('rejects a start date after the end date', () => {
+    const error = errorFor(request({ startDate: '2025-06-01', endDate: '2025-05-01' }));
+    expect(error.fieldErrors['startDate']).toEqual([expect.stringContaining('is after endDate')]);
+    expect(error.recoveryHint).toContain('Swap');
+  });
+
+  it('rejects future dates but allows today', () => {
+    expect(errorFor(request({ endDate: '2025-06-16' })).fieldErrors['endDate']).toEqual([
+      expect.stringContaining('in the future'),
+    ]);
+    expect(() =>
+      validateSearchAnalyticsRequest(request({ endDate: '2025-06-15', dimensions: ['hour'], dataState: 'hourly_all' }), NOW),
+    ).not.toThrow();
+  });
+
+  it('rejects ranges entirely before the 16-month window', () => {
+    const error = errorFor(request({ startDate: '2023-01-01', endDate: '2023-01-31' }));
+    expect(error.fieldErrors['endDate']).toEqual([expect.stringContaining('16 months')]);
+    expect(error.recoveryHint).toContain('sync_search_analytics');
+  });
+
+  it('returns a notice for ranges that straddle the window edge', () => {
+    const notices = validateSearchAnalyticsRequest(request({ startDate: '2024-01-01' }), NOW);
+    expect(notices).toEqual([expect.stringContaining('2024-01-01')]);
+  });
+
+  it('requires hourly_all for the hour dimension', () => {
+    expect(Object.keys(errorFor(request({ dimensions: ['hour'] })).fieldErrors)).toEqual(['dataState']);
+  });
+
+  it('rejects searchAppearance grouped with other dimensions', () => {
+    expect(Object.keys(errorFor(request({ dimensions: ['searchAppearance', 'page'] })).fieldErrors)).toEqual(['dimensions']);
+    expect(() => validateSearchAnalyticsRequest(request({ dimensions: ['searchAppearance'] }), NOW)).not.toThrow();
+  });
+
+  it('rejects the query dimension and query filters for Discover', () => {
+    const error = errorFor(request({
+      searchType: 'discover',
+      dimensions: ['query'],
+      dimensionFilterGroups: [{ filters: [{ dimension: 'query', operator: 'contains', expression: 'x' }] }],
+    }));
+    expect(Object.keys(error.fieldErrors).sort()).toEqual(['dimensionFilterGroups', 'dimensions']);
+    expect(error.message).toContain('and 1 more problem');
+  });
+
+  it('rejects byProperty aggregation with pages', () => {
+    expect(Object.keys(errorFor(request({ aggregationType: 'byProperty', dimensions: ['page'] })).fieldErrors)).toEqual([
+      'aggregationType',
+    ]);
+  });
+
+  it('runs the filter checks too', () => {
+    const error = errorFor(request({
+      dimensionFilterGroups: [{ filters: [{ dimension: 'query', operator: 'includingRegex', expression: 'a(?=b)' }] }],
+    }));
+    expect(Object.keys(error.fieldErrors)).toEqual(['dimensionFilterGroups[0].filters[0].expression']);
+  });
+});
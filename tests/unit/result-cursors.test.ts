@@ -0,0 +1,106 @@
+import { CacheManager } from '../../src/cache/cache-manager.js';
+import { ResultCursors, CURSOR_TTL_MS } from '../../src/cache/result-cursors.js';
+import type { PagedTable } from '../../src/cache/result-cursors.js';
+import type { CacheEntry, CacheStore } from '../../src/cache/cache-store.js';
+import { buildNamespacePrefix } from '../../src/cache/cache-keys.js';
+import { ValidationError } from '../../src/errors/gsc-error.js';
+
+const SITE = 'https://example.com/';
+
+function table(rows: number): PagedTable {
+  return {
+    siteUrl: SITE,
+    title: 'Top queries',
+    header: ['| Query |', '| --- |'],
+    rows: Array.from({ length: rows }, (_, i) => `| q${i} |`),
+  };
+}
+
+describe('ResultCursors', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns small results whole without a cursor or cache entry', () => {
+    const cache = new CacheManager();
+    const page = new ResultCursors(cache).paginate(table(3), 5);
+
+    expect(page.lines).toEqual(['| Query |', '| --- |', '| q0 |', '| q1 |', '| q2 |']);
+    expect(page.cursor).toBeUndefined();
+    expect(cache.stats().size).toBe(0);
+  });
+
+  it('walks a large result page by page', () => {
+    const cursors = new ResultCursors(new CacheManager());
+
+    const first = cursors.paginate(table(5), 2);
+    expect([first.start, first.end, first.total]).toEqual([0, 2, 5]);
+
+    const second = cursors.next(first.cursor!);
+    expect(second.lines.slice(2)).toEqual(['| q2 |', '| q3 |']);
+    expect(second.title).toBe('Top queries');
+
+    const last = cursors.next(second.cursor!);
+    expect(last.lines.slice(2)).toEqual(['| q4 |']);
+    expect(last.cursor).toBeUndefined();
+  });
+
+  it('changes the page size when following a cursor', () => {
+    const cursors = new ResultCursors(new CacheManager());
+    const first = cursors.paginate(table(10), 2);
+
+    const second = cursors.next(first.cursor!, 5);
+    expect([second.start, second.end]).toEqual([2, 7]);
+
+    const last = cursors.next(second.cursor!);
+    expect([last.start, last.end]).toEqual([7, 10]);
+  });
+
+  it('can follow the same cursor twice', () => {
+    const cursors = new ResultCursors(new CacheManager());
+    const first = cursors.paginate(table(4), 2);
+    expect(cursors.next(first.cursor!)).toEqual(cursors.next(first.cursor!));
+  });
+
+  it('rejects an expired cursor', () => {
+    const cursors = new ResultCursors(new CacheManager());
+    const first = cursors.paginate(table(4), 2);
+
+    vi.advanceTimersByTime(CURSOR_TTL_MS + 1);
+    expect(() => cursors.next(first.cursor!)).toThrow(ValidationError);
+  });
+
+  it('drops cursors when the property cache is invalidated', () => {
+    const cache = new CacheManager();
+    const cursors = new ResultCursors(cache);
+    const first = cursors.paginate(table(4), 2);
+
+    cache.invalidatePrefix(buildNamespacePrefix('cursors', SITE));
+    expect(() => cursors.next(first.cursor!)).toThrow('expired');
+  });
+
+  it('keeps cursor tables out of the persistent store', () => {
+    const persisted = new Map<string, CacheEntry>();
+    const store: CacheStore = {
+      get: (key) => persisted.get(key),
+      set: (key, entry) => void persisted.set(key, entry),
+      delete: (key) => void persisted.delete(key),
+      keys: () => [...persisted.keys()],
+      clear: () => persisted.clear(),
+    };
+    const cursors = new ResultCursors(new CacheManager(undefined, { store }));
+    const first = cursors.paginate(table(4), 2);
+
+    expect(persisted.size).toBe(0);
+    expect(cursors.next(first.cursor!).lines).toContain('| q2 |');
+  });
+
+  it('rejects a malformed cursor', () => {
+    const cursors = new ResultCursors(new CacheManager());
+    expect(() => cursors.next('not-a-cursor')).toThrow('not a valid cursor');
+  });
+});
@@ -0,0 +1,168 @@
+import { withRetry, isRetryable, parseRetryAfter, collectRetryNotices } from '../../src/api/retry-policy.js';
+import type { RetryAttempt } from '../../src/api/retry-policy.js';
+import {
+  ApiError,
+  NotFoundError,
+  QuotaExceededError,
+  ValidationError,
+} from '../../src/errors/gsc-error.js';
+
+/** Shape of a Google API (gaxios) error. */
+function apiError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { code: status, response: { status, headers } });
+}
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures until the call succeeds', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(apiError(429))
+      .mockResolvedValue('ok');
+    const retries: RetryAttempt[] = [];
+
+    const promise = withRetry(fn, { onRetry: (r) => retries.push(r) });
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(retries.map((r) => r.error.code)).toEqual(['API_ERROR', 'QUOTA_EXCEEDED']);
+  });
+
+  it('gives up after maxAttempts and rethrows the last error', async () => {
+    const fn = vi.fn().mockRejectedValue(apiError(500));
+
+    const promise = withRetry(fn, { maxAttempts: 3 });
+    const assertion = expect(promise).rejects.toMatchObject({ code: 500 });
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry permanent errors or errors raised locally', async () => {
+    const notFound = vi.fn().mockRejectedValue(apiError(404));
+    await expect(withRetry(notFound)).rejects.toMatchObject({ code: 404 });
+    expect(notFound).toHaveBeenCalledTimes(1);
+
+    const ledger = vi.fn().mockRejectedValue(new QuotaExceededError('Daily quota reached.'));
+    await expect(withRetry(ledger)).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(ledger).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries unsafe calls only after a rate-limit refusal', async () => {
+    const serverError = vi.fn().mockRejectedValue(apiError(503));
+    await expect(withRetry(serverError, { safe: false })).rejects.toMatchObject({ code: 503 });
+    expect(serverError).toHaveBeenCalledTimes(1);
+
+    const rateLimited = vi.fn().mockRejectedValueOnce(apiError(429)).mockResolvedValue(undefined);
+    const promise = withRetry(rateLimited, { safe: false });
+    await vi.runAllTimersAsync();
+    await promise;
+    expect(rateLimited).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for Retry-After instead of the backoff delay', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(apiError(429, { 'retry-after': '7' })).mockResolvedValue('ok');
+    const retries: RetryAttempt[] = [];
+
+    const promise = withRetry(fn, { onRetry: (r) => retries.push(r) });
+    await vi.advanceTimersByTimeAsync(6_999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(promise).resolves.toBe('ok');
+    expect(retries[0]!.delayMs).toBe(7_000);
+  });
+
+  it('reports retries of labelled calls to the enclosing scope', async () => {
+    const flaky = vi.fn().mockRejectedValueOnce(apiError(503)).mockResolvedValue('ok');
+    const steady = vi.fn().mockResolvedValue('ok');
+
+    const promise = collectRetryNotices(async () => {
+      await withRetry(flaky, { label: 'Inspecting https://example.com/' });
+      await withRetry(steady, { label: 'Listing properties' });
+      return 'done';
+    });
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual({
+      result: 'done',
+      notices: ['Inspecting https://example.com/ succeeded after 1 retry (last error: 503 API_ERROR).'],
+    });
+  });
+
+  it('stops when Retry-After asks for longer than maxDelayMs', async () => {
+    const fn = vi.fn().mockRejectedValue(apiError(429, { 'retry-after': '3600' }));
+    await expect(withRetry(fn)).rejects.toMatchObject({ code: 429 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps backoff delays within the exponential ceiling', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const fn = vi.fn()
+      .mockRejectedValueOnce(apiError(500))
+      .mockRejectedValueOnce(apiError(500))
+      .mockRejectedValueOnce(apiError(500))
+      .mockResolvedValue('ok');
+    const retries: RetryAttempt[] = [];
+
+    const promise = withRetry(fn, { baseDelayMs: 100, maxDelayMs: 300, onRetry: (r) => retries.push(r) });
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(retries.map((r) => r.delayMs)).toEqual([100, 200, 300]);
+  });
+});
+
+describe('isRetryable', () => {
+  it('retries rate limits and transient server errors', () => {
+    expect(isRetryable(new QuotaExceededError(), true)).toBe(true);
+    expect(isRetryable(new ApiError('x', { statusCode: 503 }), true)).toBe(true);
+    expect(isRetryable(new ApiError('x', { statusCode: 400 }), true)).toBe(false);
+    expect(isRetryable(new NotFoundError(), true)).toBe(false);
+    expect(isRetryable(new ValidationError(), true)).toBe(false);
+  });
+
+  it('does not retry an exhausted daily limit', () => {
+    const quotaError = (status: number, reason: string, message = 'Quota exceeded.') =>
+      new QuotaExceededError(message, {
+        cause: { code: status, response: { status, data: { error: { errors: [{ reason }] } } } },
+      });
+
+    expect(isRetryable(quotaError(403, 'rateLimitExceeded'), true)).toBe(true);
+    expect(isRetryable(quotaError(403, 'userRateLimitExceeded'), false)).toBe(true);
+    expect(isRetryable(quotaError(403, 'quotaExceeded'), true)).toBe(false);
+    expect(isRetryable(quotaError(403, 'dailyLimitExceeded'), true)).toBe(false);
+    expect(isRetryable(quotaError(429, 'dailyLimitExceeded'), true)).toBe(false);
+    expect(isRetryable(quotaError(429, 'rateLimitExceeded', 'Queries per day limit reached.'), true)).toBe(false);
+  });
+
+  it('only retries rate limits for unsafe calls', () => {
+    expect(isRetryable(new QuotaExceededError(), false)).toBe(true);
+    expect(isRetryable(new ApiError('x', { statusCode: 503 }), false)).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds and HTTP-date forms', () => {
+    const now = Date.parse('2024-03-01T00:00:00Z');
+    expect(parseRetryAfter(apiError(429, { 'retry-after': '2' }), now)).toBe(2_000);
+    expect(parseRetryAfter(apiError(429, { 'retry-after': 'Fri, 01 Mar 2024 00:00:05 GMT' }), now)).toBe(5_000);
+  });
+
+  it('returns undefined without a usable header', () => {
+    expect(parseRetryAfter(apiError(429))).toBeUndefined();
+    expect(parseRetryAfter(new Error('boom'))).toBeUndefined();
+    expect(parseRetryAfter(apiError(429, { 'retry-after': 'soon' }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { exportFileName, writeRowsToFile } from '../../src/export/row-export.js';
+import type { SearchAnalyticsRow } from '../../src/api/types.js';
+
+const ROWS: SearchAnalyticsRow[] = [
+  { keys: ['shoes, "red"', 'https://example.com/a'], clicks: 10, impressions: 100, ctr: 0.1, position: 2.5 },
+  { keys: ['tab\there', 'https://example.com/b'], clicks: 1, impressions: 50, ctr: 0.02, position: 8 },
+];
+
+describe('row export', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gsc-export-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes CSV with a header and quoted fields', async () => {
+    const path = join(dir, 'out.csv');
+    const result = await writeRowsToFile(path, 'csv', ['query', 'page'], ROWS);
+
+    const text = readFileSync(path, 'utf-8');
+    expect(text.split('\n')).toEqual([
+      'query,page,clicks,impressions,ctr,position',
+      '"shoes, ""red""",https://example.com/a,10,100,0.1,2.5',
+      'tab\there,https://example.com/b,1,50,0.02,8',
+      '',
+    ]);
+    expect(result).toEqual({ path, rows: 2, bytes: Buffer.byteLength(text) });
+    expect(existsSync(`${path}.partial`)).toBe(false);
+  });
+
+  it('writes TSV with tabs inside values replaced', async () => {
+    const path = join(dir, 'out.tsv');
+    await writeRowsToFile(path, 'tsv', ['query', 'page'], ROWS);
+    const lines = readFileSync(path, 'utf-8').trim().split('\n');
+    expect(lines[2]).toBe('tab here\thttps://example.com/b\t1\t50\t0.02\t8');
+  });
+
+  it('writes one JSON object per row for JSONL', async () => {
+    const path = join(dir, 'nested', 'out.jsonl');
+    await writeRowsToFile(path, 'jsonl', ['query', 'page'], ROWS);
+    const objects = readFileSync(path, 'utf-8').trim().split('\n').map((l) => JSON.parse(l));
+    expect(objects[0]).toEqual({
+      query: 'shoes, "red"',
+      page: 'https://example.com/a',
+      clicks: 10,
+      impressions: 100,
+      ctr: 0.1,
+      position: 2.5,
+    });
+  });
+
+  it('writes rows from an async iterable as they arrive', async () => {
+    async function* pages() {
+      yield ROWS[0]!;
+      yield ROWS[1]!;
+    }
+    const path = join(dir, 'out.csv');
+    const result = await writeRowsToFile(path, 'csv', ['query', 'page'], pages());
+    expect(result.rows).toBe(2);
+    expect(readFileSync(path, 'utf-8').trim().split('\n')).toHaveLength(3);
+  });
+
+  it('removes the partial file when the source fails', async () => {
+    async function* failing() {
+      yield ROWS[0]!;
+      throw new Error('quota exceeded');
+    }
+    const path = join(dir, 'out.csv');
+    await expect(writeRowsToFile(path, 'csv', ['query', 'page'], failing())).rejects.toThrow('quota exceeded');
+    expect(existsSync(path)).toBe(false);
+    expect(existsSync(`${path}.partial`)).toBe(false);
+  });
+
+  it('builds a file-system-safe name', () => {
+    const now = new Date('2025-02-01T10:15:00.123Z');
+    expect(exportFileName('https://example.com/blog/', '2025-01-01', '2025-01-31', 'csv', now))
+      .toBe('example.com_blog_2025-01-01_2025-01-31_20250201T101500.csv');
+    expect(exportFileName('sc-domain:example.com', '2025-01-01', '2025-01-31', 'jsonl', now))
+      .toBe('example.com_2025-01-01_2025-01-31_20250201T101500.jsonl');
+  });
+});
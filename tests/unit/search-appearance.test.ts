@@ -0,0 +1,56 @@
+import { appearanceLabel, computeAppearanceUplift } from '../../src/analysis/search-appearance.js';
+import type { SearchAnalyticsRow } from '../../src/api/types.js';
+
+function pageRow(page: string, clicks: number, impressions: number): SearchAnalyticsRow {
+  return { keys: [page], clicks, impressions, ctr: impressions > 0 ? clicks / impressions : 0, position: 4 };
+}
+
+describe('search-appearance', () => {
+  describe('appearanceLabel', () => {
+    it('names known appearance types', () => {
+      expect(appearanceLabel('REVIEW_SNIPPET')).toBe('Review snippet');
+      expect(appearanceLabel('faq_rich_result')).toBe('FAQ rich result');
+    });
+
+    it('derives a label for unknown types', () => {
+      expect(appearanceLabel('SOME_NEW_FEATURE')).toBe('Some new feature');
+    });
+  });
+
+  describe('computeAppearanceUplift', () => {
+    it('compares CTR with the appearance to the same pages without it', () => {
+      const withAppearance = [pageRow('/a', 10, 100), pageRow('/b', 30, 200)];
+      const totals = [pageRow('/a', 15, 200), pageRow('/b', 40, 400), pageRow('/c', 500, 1000)];
+
+      const result = computeAppearanceUplift(withAppearance, totals);
+
+      expect(result.pages.map((p) => p.page)).toEqual(['/b', '/a']);
+      expect(result.pages[0]).toMatchObject({ otherClicks: 10, otherImpressions: 200 });
+      expect(result.ctr).toBeCloseTo(40 / 300);
+      expect(result.otherCtr).toBeCloseTo(15 / 300);
+      expect(result.upliftPercent).toBeCloseTo(((40 / 300) / (15 / 300) - 1) * 100);
+    });
+
+    it('clamps remainders when a page carries overlapping appearances', () => {
+      const result = computeAppearanceUplift([pageRow('/a', 20, 100)], [pageRow('/a', 18, 90)]);
+
+      expect(result.pages[0]).toMatchObject({ otherClicks: 0, otherImpressions: 0 });
+      expect(result.otherCtr).toBeNull();
+      expect(result.upliftPercent).toBeNull();
+    });
+
+    it('treats pages missing from the totals as having no other impressions', () => {
+      const result = computeAppearanceUplift([pageRow('/a', 5, 50)], []);
+
+      expect(result.pages[0]).toMatchObject({ otherClicks: 0, otherImpressions: 0 });
+      expect(result.upliftPercent).toBeNull();
+    });
+
+    it('returns no uplift when the baseline CTR is zero', () => {
+      const result = computeAppearanceUplift([pageRow('/a', 5, 50)], [pageRow('/a', 5, 150)]);
+
+      expect(result.otherCtr).toBe(0);
+      expect(result.upliftPercent).toBeNull();
+    });
+  });
+});
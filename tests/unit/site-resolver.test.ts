@@ -0,0 +1,99 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { GscApiClient } from '../../src/api/client.js';
+import { resolveSiteUrl } from '../../src/api/site-resolver.js';
+import type { SiteInfo } from '../../src/api/types.js';
+import type { AuthClient } from '../../src/auth/client-factory.js';
+import { NotFoundError } from '../../src/errors/gsc-error.js';
+import { registerSitemapTools } from '../../src/tools/sitemaps/index.js';
+
+const sites: SiteInfo[] = [
+  { siteUrl: 'sc-domain:example.com', permissionLevel: 'siteOwner' },
+  { siteUrl: 'https://www.example.com/', permissionLevel: 'siteFullUser' },
+  { siteUrl: 'https://www.example.com/blog/', permissionLevel: 'siteRestrictedUser' },
+  { siteUrl: 'http://legacy.example.org/', permissionLevel: 'siteOwner' },
+  { siteUrl: 'https://unverified.example.net/', permissionLevel: 'siteUnverifiedUser' },
+];
+
+describe('resolveSiteUrl', () => {
+  it('returns listed properties unchanged', () => {
+    expect(resolveSiteUrl('sc-domain:example.com', sites)).toEqual({ siteUrl: 'sc-domain:example.com', matchedBy: 'exact' });
+    expect(resolveSiteUrl('https://www.example.com/', sites)?.matchedBy).toBe('exact');
+  });
+
+  it('prefers the most specific URL-prefix property', () => {
+    expect(resolveSiteUrl('https://www.example.com/blog/post-1', sites))
+      .toEqual({ siteUrl: 'https://www.example.com/blog/', matchedBy: 'url-prefix' });
+    expect(resolveSiteUrl('https://www.example.com/about', sites)?.siteUrl).toBe('https://www.example.com/');
+  });
+
+  it('falls back to the domain property', () => {
+    expect(resolveSiteUrl('https://shop.example.com/cart', sites))
+      .toEqual({ siteUrl: 'sc-domain:example.com', matchedBy: 'domain' });
+    expect(resolveSiteUrl('http://www.example.com/blog/', sites)?.siteUrl).toBe('sc-domain:example.com');
+  });
+
+  it('resolves bare hostnames, trying the www form', () => {
+    expect(resolveSiteUrl('www.example.com', sites)?.siteUrl).toBe('https://www.example.com/');
+    expect(resolveSiteUrl('example.com', sites)?.siteUrl).toBe('https://www.example.com/');
+    expect(resolveSiteUrl('legacy.example.org', sites)?.siteUrl).toBe('http://legacy.example.org/');
+    expect(resolveSiteUrl('WWW.Example.com/blog/x', sites)?.siteUrl).toBe('https://www.example.com/blog/');
+  });
+
+  it('prefers the closest domain property', () => {
+    const withSub = [...sites, { siteUrl: 'sc-domain:shop.example.com', permissionLevel: 'siteOwner' }];
+    expect(resolveSiteUrl('shop.example.com/cart', withSub)?.siteUrl).toBe('sc-domain:shop.example.com');
+  });
+
+  it('never picks unverified properties', () => {
+    expect(resolveSiteUrl('https://unverified.example.net/', sites)).toBeUndefined();
+    expect(resolveSiteUrl('unverified.example.net/page', sites)).toBeUndefined();
+  });
+
+  it('returns undefined when nothing covers the input', () => {
+    expect(resolveSiteUrl('https://other.com/', sites)).toBeUndefined();
+    expect(resolveSiteUrl('https://example.com.evil.io/', sites)).toBeUndefined();
+    expect(resolveSiteUrl('not a url', sites)).toBeUndefined();
+  });
+});
+
+describe('GscApiClient.resolveSiteUrl', () => {
+  function client(listSites: () => Promise<SiteInfo[]>): GscApiClient {
+    const api = new GscApiClient({} as AuthClient);
+    vi.spyOn(api, 'listSites').mockImplementation(listSites);
+    return api;
+  }
+
+  it('passes domain properties through without listing properties', async () => {
+    const api = client(async () => sites);
+    expect(await api.resolveSiteUrl('sc-domain:example.com')).toBe('sc-domain:example.com');
+    expect(api.listSites).not.toHaveBeenCalled();
+  });
+
+  it('passes URL-prefix properties through when the property list cannot be fetched', async () => {
+    const api = client(async () => {
+      throw new Error('quota exceeded');
+    });
+    expect(await api.resolveSiteUrl('https://www.example.com/')).toBe('https://www.example.com/');
+    await expect(api.resolveSiteUrl('example.com')).rejects.toThrow('quota exceeded');
+  });
+
+  it('names the accessible properties when none covers the input', async () => {
+    const api = client(async () => sites);
+    await expect(api.resolveSiteUrl('https://other.com/')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe('tool registration', () => {
+  it('hands the resolved property to the API', async () => {
+    const api = new GscApiClient({} as AuthClient);
+    vi.spyOn(api, 'listSites').mockResolvedValue(sites);
+    const listSitemaps = vi.spyOn(api, 'listSitemaps').mockResolvedValue([]);
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerSitemapTools(server, api);
+
+    const tools = (server as unknown as { _registeredTools: Record<string, { handler: (args: unknown, extra: unknown) => Promise<unknown> }> })._registeredTools;
+    await tools['list_sitemaps']!.handler({ siteUrl: 'https://www.example.com/blog/post' }, {});
+
+    expect(listSitemaps).toHaveBeenCalledWith('https://www.example.com/blog/');
+  });
+});
@@ -0,0 +1,64 @@
+import { auditSitemapCoverage } from '../../src/analysis/sitemap-coverage.js';
+import type { SearchAnalyticsRow } from '../../src/api/types.js';
+
+function pageRow(page: string, clicks: number, impressions: number): SearchAnalyticsRow {
+  return { keys: [page], clicks, impressions, ctr: impressions > 0 ? clicks / impressions : 0, position: 5 };
+}
+
+describe('sitemap-coverage', () => {
+  it('finds sitemap URLs without impressions and trafficked pages missing from sitemaps', () => {
+    const result = auditSitemapCoverage(
+      [
+        { loc: 'https://example.com/a' },
+        { loc: 'https://EXAMPLE.com/b' },
+        { loc: 'https://example.com/c' },
+      ],
+      [
+        pageRow('https://example.com/a', 5, 100),
+        pageRow('https://example.com/b#section', 0, 40),
+        pageRow('https://example.com/d', 2, 30),
+        pageRow('https://example.com/e', 9, 80),
+        pageRow('https://example.com/f', 0, 10),
+      ],
+      { today: '2025-06-01' },
+    );
+
+    expect(result.sitemapUrls).toBe(3);
+    expect(result.withImpressions).toBe(2);
+    expect(result.zeroImpressions).toEqual([{ loc: 'https://example.com/c' }]);
+    expect(result.missing.map((r) => r.keys[0])).toEqual(['https://example.com/e', 'https://example.com/d']);
+  });
+
+  it('flags stale, invalid and future lastmod values', () => {
+    const result = auditSitemapCoverage(
+      [
+        { loc: 'https://example.com/old', lastmod: '2022-01-15T08:00:00+00:00' },
+        { loc: 'https://example.com/older', lastmod: '2021-03' },
+        { loc: 'https://example.com/fresh', lastmod: '2025-05-20' },
+        { loc: 'https://example.com/future', lastmod: '2026-01-01' },
+        { loc: 'https://example.com/garbage', lastmod: 'yesterday' },
+        { loc: 'https://example.com/bad-day', lastmod: '2024-02-31' },
+      ],
+      [pageRow('https://example.com/old', 1, 50)],
+      { today: '2025-06-01', staleDays: 365 },
+    );
+
+    expect(result.stale.map((e) => e.loc)).toEqual(['https://example.com/old', 'https://example.com/older']);
+    expect(result.stale[0]).toMatchObject({ ageDays: 1233, impressions: 50 });
+    expect(result.invalidLastmod.map((e) => e.loc)).toEqual([
+      'https://example.com/future',
+      'https://example.com/garbage',
+      'https://example.com/bad-day',
+    ]);
+    expect(result.uniformLastmod).toBeUndefined();
+  });
+
+  it('detects a lastmod shared by nearly every URL', () => {
+    const entries = Array.from({ length: 25 }, (_, i) => ({
+      loc: `https://example.com/${i}`,
+      lastmod: i === 0 ? '2025-01-01' : '2025-05-31T23:00:00Z',
+    }));
+
+    expect(auditSitemapCoverage(entries, [], { today: '2025-06-01' }).uniformLastmod).toBe('2025-05-31');
+  });
+});
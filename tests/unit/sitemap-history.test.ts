@@ -0,0 +1,75 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SitemapHistory } from '../../src/sitemaps/sitemap-history.js';
+import type { SitemapInfo } from '../../src/api/types.js';
+
+const SITE = 'https://example.com/';
+
+function sitemap(indexed: string, errors?: string): SitemapInfo {
+  return {
+    path: 'https://example.com/sitemap.xml',
+    isPending: false,
+    isSitemapsIndex: false,
+    type: 'sitemap',
+    lastDownloaded: '2025-05-01T00:00:00Z',
+    ...(errors ? { errors } : {}),
+    contents: [{ type: 'web', submitted: '120', indexed }],
+  };
+}
+
+describe('SitemapHistory', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gsc-sitemap-history-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records one snapshot per sitemap per day, latest fetch winning', async () => {
+    const history = new SitemapHistory();
+    await history.record(SITE, [sitemap('100')], new Date('2025-05-01T08:00:00Z'));
+    await history.record(SITE, [sitemap('98', '2')], new Date('2025-05-01T20:00:00Z'));
+    await history.record(SITE, [sitemap('90')], new Date('2025-05-02T08:00:00Z'));
+
+    const snapshots = await history.snapshots(SITE, 'https://example.com/sitemap.xml');
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots[0]).toEqual({
+      takenAt: '2025-05-01T20:00:00.000Z',
+      lastDownloaded: '2025-05-01T00:00:00Z',
+      isPending: false,
+      errors: 2,
+      warnings: 0,
+      contents: [{ type: 'web', submitted: 120, indexed: 98 }],
+    });
+    expect(snapshots[1]!.contents[0]!.indexed).toBe(90);
+  });
+
+  it('keeps sites apart', async () => {
+    const history = new SitemapHistory();
+    await history.record(SITE, [sitemap('100')]);
+
+    expect((await history.forSite(SITE)).size).toBe(1);
+    expect((await history.forSite('sc-domain:other.com')).size).toBe(0);
+  });
+
+  it('persists snapshots across instances, one file per property', async () => {
+    const history = new SitemapHistory({ dir });
+    await Promise.all([
+      history.record(SITE, [sitemap('100')], new Date('2025-05-01T08:00:00Z')),
+      history.record(SITE, [{ ...sitemap('5'), path: 'https://example.com/news.xml' }], new Date('2025-05-01T08:00:00Z')),
+      history.record('sc-domain:other.com', [sitemap('7')], new Date('2025-05-01T08:00:00Z')),
+    ]);
+
+    expect(readdirSync(dir).filter((f) => f.endsWith('.json'))).toHaveLength(2);
+    const reloaded = new SitemapHistory({ dir });
+    expect([...(await reloaded.forSite(SITE)).keys()].sort()).toEqual([
+      'https://example.com/news.xml',
+      'https://example.com/sitemap.xml',
+    ]);
+    expect(await reloaded.snapshots('sc-domain:other.com', 'https://example.com/sitemap.xml')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { collectSitemapUrls, parseSitemapXml, readSitemapSource, MAX_SITEMAP_BYTES } from '../../src/sitemaps/sitemap-reader.js';
+
+const URLSET = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+  <!-- <url><loc>https://example.com/commented-out</loc></url> -->
+  <url>
+    <image:image><image:loc>https://example.com/img.png</image:loc></image:image>
+    <loc>https://example.com/a?x=1&amp;y=2</loc>
+    <lastmod>2024-05-01</lastmod>
+  </url>
+  <url><loc><![CDATA[https://example.com/b]]></loc></url>
+  <url><lastmod>2024-01-01</lastmod></url>
+</urlset>`;
+
+function index(...locs: string[]): string {
+  return `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${locs.map((loc) => `<sitemap><loc>${loc}</loc></sitemap>`).join('')}</sitemapindex>`;
+}
+
+function urlset(...entries: Array<[string, string?]>): string {
+  return `<urlset>${entries.map(([loc, lastmod]) => `<url><loc>${loc}</loc>${lastmod ? `<lastmod>${lastmod}</lastmod>` : ''}</url>`).join('')}</urlset>`;
+}
+
+describe('sitemap reader', () => {
+  describe('parseSitemapXml', () => {
+    it('reads loc and lastmod from a urlset', () => {
+      expect(parseSitemapXml(URLSET)).toEqual({
+        kind: 'urlset',
+        entries: [
+          { loc: 'https://example.com/a?x=1&y=2', lastmod: '2024-05-01' },
+          { loc: 'https://example.com/b' },
+        ],
+      });
+    });
+
+    it('reads child sitemaps from an index', () => {
+      expect(parseSitemapXml(index('https://example.com/s1.xml'))).toEqual({
+        kind: 'sitemapindex',
+        entries: [{ loc: 'https://example.com/s1.xml' }],
+      });
+    });
+
+    it('rejects documents that are not sitemaps', () => {
+      expect(() => parseSitemapXml('<html><body>Not found</body></html>')).toThrow(/Not a sitemap/);
+    });
+  });
+
+  describe('collectSitemapUrls', () => {
+    const at = (name: string) => `https://example.com/${name}.xml`;
+
+    it('follows indexes recursively and records failures', async () => {
+      const files = new Map([
+        [at('root'), index(at('child-1'), at('nested'), at('broken'))],
+        [at('nested'), index(at('child-2'), at('child-1'))],
+        [at('child-1'), urlset(['https://example.com/a', '2024-01-01'], ['https://example.com/b'])],
+        [at('child-2'), urlset(['https://example.com/a', '2024-06-01'], ['https://example.com/c', '2023-01-01'])],
+      ]);
+      const read = async (source: string) => {
+        const xml = files.get(source);
+        if (!xml) throw new Error('HTTP 404 Not Found');
+        return xml;
+      };
+
+      const result = await collectSitemapUrls([at('root')], { read });
+
+      expect([...result.urls.keys()].sort()).toEqual(['https://example.com/a', 'https://example.com/b', 'https://example.com/c']);
+      expect(result.urls.get('https://example.com/a')?.lastmod).toBe('2024-06-01');
+      expect(result.files.map((f) => f.source)).toEqual([at('root'), at('child-1'), at('nested'), at('broken'), at('child-2')]);
+      expect(result.files.find((f) => f.source === at('broken'))?.error).toBe('HTTP 404 Not Found');
+      expect(result.truncated).toBe(false);
+    });
+
+    it('only follows http(s) children on the index host or the allowed hosts', async () => {
+      const read = vi.fn(async (source: string) =>
+        source === at('root')
+          ? index('/etc/passwd', 'file:///etc/passwd', 'http://169.254.169.254/latest', 'https://cdn.example.org/s.xml', 'https://blog.example.net/s.xml', at('ok'))
+          : urlset([source]),
+      );
+
+      const result = await collectSitemapUrls([at('root')], { read, followHosts: ['example.net'] });
+
+      expect(read.mock.calls.map(([source]) => source)).toEqual([at('root'), 'https://blog.example.net/s.xml', at('ok')]);
+      expect(result.files.filter((f) => f.error?.startsWith('Skipped')).map((f) => f.source)).toEqual([
+        '/etc/passwd',
+        'file:///etc/passwd',
+        'http://169.254.169.254/latest',
+        'https://cdn.example.org/s.xml',
+      ]);
+    });
+
+    it('stops after maxFiles', async () => {
+      const read = async (source: string) => (source === at('root') ? index(at('a'), at('b'), at('c')) : urlset([source]));
+
+      const result = await collectSitemapUrls([at('root')], { read, maxFiles: 2 });
+
+      expect(result.files).toHaveLength(2);
+      expect(result.truncated).toBe(true);
+    });
+  });
+
+  describe('readSitemapSource', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'gsc-sitemap-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reads plain and gzipped local files', async () => {
+      const xml = urlset(['https://example.com/a']);
+      writeFileSync(join(dir, 'sitemap.xml'), xml);
+      writeFileSync(join(dir, 'sitemap.xml.gz'), gzipSync(xml));
+
+      expect(await readSitemapSource(join(dir, 'sitemap.xml'))).toBe(xml);
+      expect(await readSitemapSource(join(dir, 'sitemap.xml.gz'))).toBe(xml);
+    });
+
+    it('refuses gzipped files that expand past the size limit', async () => {
+      writeFileSync(join(dir, 'bomb.xml.gz'), gzipSync(Buffer.alloc(MAX_SITEMAP_BYTES + 1)));
+
+      await expect(readSitemapSource(join(dir, 'bomb.xml.gz'))).rejects.toThrow(/larger than the 50 MB limit/);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { analyzeSitemapTrend, analyzeSitemapTrends } from '../../src/analysis/sitemap-trends.js';
+import type { SitemapSnapshot } from '../../src/sitemaps/sitemap-history.js';
+
+function snapshot(date: string, web: [number, number], extra: Partial<SitemapSnapshot> = {}): SitemapSnapshot {
+  return {
+    takenAt: `${date}T12:00:00.000Z`,
+    isPending: false,
+    errors: 0,
+    warnings: 0,
+    contents: [{ type: 'web', submitted: web[0], indexed: web[1] }],
+    ...extra,
+  };
+}
+
+describe('sitemap-trends', () => {
+  it('measures changes from the oldest snapshot in the window', () => {
+    const trend = analyzeSitemapTrend('/sitemap.xml', [
+      snapshot('2025-03-01', [100, 90]),
+      snapshot('2025-05-10', [110, 100]),
+      snapshot('2025-05-20', [115, 95]),
+      snapshot('2025-06-01', [120, 80], { errors: 2, warnings: 1 }),
+    ])!;
+
+    expect(trend.baseline?.takenAt.slice(0, 10)).toBe('2025-05-10');
+    expect(trend.previous?.takenAt.slice(0, 10)).toBe('2025-05-20');
+    expect(trend).toMatchObject({ submitted: 120, indexed: 80, submittedChange: 10, indexedChange: -20, newErrors: 2, newWarnings: 1 });
+    expect(trend.indexedChangePercent).toBeCloseTo(-20);
+  });
+
+  it('falls back to the previous snapshot when none is in the window', () => {
+    const trend = analyzeSitemapTrend('/sitemap.xml', [
+      snapshot('2025-01-01', [100, 100], { errors: 3 }),
+      snapshot('2025-06-01', [100, 50], { errors: 1 }),
+    ])!;
+
+    expect(trend.baseline?.takenAt.slice(0, 10)).toBe('2025-01-01');
+    expect(trend.indexedChangePercent).toBeCloseTo(-50);
+    expect(trend.newErrors).toBe(0);
+  });
+
+  it('tracks content types that appear or disappear', () => {
+    const trend = analyzeSitemapTrend('/sitemap.xml', [
+      snapshot('2025-05-30', [10, 10], { contents: [{ type: 'web', submitted: 10, indexed: 10 }, { type: 'image', submitted: 5, indexed: 4 }] }),
+      snapshot('2025-06-01', [12, 11]),
+    ])!;
+
+    expect(trend.contentTypes).toEqual([
+      { type: 'web', submitted: 12, indexed: 11, submittedChange: 2, indexedChange: 1 },
+      { type: 'image', submitted: 0, indexed: 0, submittedChange: -5, indexedChange: -4 },
+    ]);
+  });
+
+  it('reports no changes with a single snapshot', () => {
+    const trend = analyzeSitemapTrend('/sitemap.xml', [snapshot('2025-06-01', [10, 0], { errors: 4 })])!;
+
+    expect(trend.baseline).toBeUndefined();
+    expect(trend).toMatchObject({ indexedChange: 0, indexedChangePercent: null, newErrors: 0 });
+  });
+
+  it('summarizes every sitemap in path order', () => {
+    const trends = analyzeSitemapTrends(new Map([
+      ['/b.xml', [snapshot('2025-06-01', [1, 1])]],
+      ['/a.xml', [snapshot('2025-06-01', [1, 1])]],
+      ['/empty.xml', []],
+    ]));
+
+    expect(trends.map((t) => t.path)).toEqual(['/a.xml', '/b.xml']);
+  });
+});
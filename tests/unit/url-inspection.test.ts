@@ -0,0 +1,57 @@
+import type { searchconsole_v1 } from 'googleapis';
+import { batchInspectUrls } from '../../src/api/url-inspection.js';
+import { CacheManager } from '../../src/cache/cache-manager.js';
+import { RateLimiter } from '../../src/utils/rate-limiter.js';
+import { QuotaLedger } from '../../src/utils/quota-ledger.js';
+import { QuotaExceededError } from '../../src/errors/gsc-error.js';
+
+const SITE = 'https://example.com/';
+
+/** A client whose inspections pass, except for URLs in `failing` (404). */
+function fakeClient(failing: ReadonlySet<string> = new Set()): searchconsole_v1.Searchconsole {
+  const inspect = async ({ requestBody }: { requestBody: { inspectionUrl: string } }) => {
+    if (failing.has(requestBody.inspectionUrl)) {
+      throw Object.assign(new Error('Requested entity was not found.'), { response: { status: 404 }, code: 404 });
+    }
+    return { data: { inspectionResult: { inspectionResultLink: '', indexStatusResult: { verdict: 'PASS' } } } };
+  };
+  return { urlInspection: { index: { inspect } } } as unknown as searchconsole_v1.Searchconsole;
+}
+
+describe('batchInspectUrls', () => {
+  const limiter = new RateLimiter(1_000, 1_000);
+
+  it('returns a result for every URL, in order, when some fail', async () => {
+    const urls = ['https://example.com/a', 'https://example.com/b', 'https://example.com/c'];
+    const results = await batchInspectUrls(fakeClient(new Set([urls[1]!])), SITE, urls, new CacheManager(), limiter);
+
+    expect(results.map((r) => [r.url, r.ok])).toEqual([
+      [urls[0], true],
+      [urls[1], false],
+      [urls[2], true],
+    ]);
+    const failed = results[1]!;
+    expect(!failed.ok && failed.error.statusCode).toBe(404);
+  });
+
+  it('refuses a batch that would exceed the remaining quota before inspecting anything', async () => {
+    const quota = new QuotaLedger({ limits: { urlInspection: 2 } });
+    const urls = ['https://example.com/a', 'https://example.com/b', 'https://example.com/c'];
+
+    await expect(batchInspectUrls(fakeClient(), SITE, urls, new CacheManager(), limiter, quota)).rejects.toBeInstanceOf(
+      QuotaExceededError,
+    );
+    expect(quota.used(SITE, 'urlInspection')).toBe(0);
+  });
+
+  it('does not count cached URLs against the quota', async () => {
+    const quota = new QuotaLedger({ limits: { urlInspection: 2 } });
+    const cache = new CacheManager();
+    const urls = ['https://example.com/a', 'https://example.com/b'];
+    await batchInspectUrls(fakeClient(), SITE, urls, cache, limiter, quota);
+
+    const results = await batchInspectUrls(fakeClient(), SITE, urls, cache, limiter, quota);
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(quota.used(SITE, 'urlInspection')).toBe(2);
+  });
+});
@@ -0,0 +1,178 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WarehouseStore } from '../../src/warehouse/warehouse-store.js';
+import { queryWithWarehouse } from '../../src/warehouse/warehouse-query.js';
+import { rollUpRows, sortAndPage, matchesDimensionFilter } from '../../src/api/row-utils.js';
+import { ValidationError } from '../../src/errors/gsc-error.js';
+import type { SearchAnalyticsRequest, SearchAnalyticsRow } from '../../src/api/types.js';
+
+function row(keys: string[], clicks: number, impressions: number, position: number): SearchAnalyticsRow {
+  return { keys, clicks, impressions, ctr: impressions > 0 ? clicks / impressions : 0, position };
+}
+
+const SITE = 'https://example.com/';
+
+describe('row utils', () => {
+  it('rolls up rows with impression-weighted position', () => {
+    const rolled = rollUpRows([row(['a'], 10, 100, 2), row(['a'], 0, 300, 6), row(['b'], 1, 10, 1)]);
+    const a = rolled.find((r) => r.keys[0] === 'a')!;
+    expect(a.clicks).toBe(10);
+    expect(a.impressions).toBe(400);
+    expect(a.position).toBeCloseTo(5);
+    expect(a.ctr).toBeCloseTo(0.025);
+  });
+
+  it('sorts by clicks then impressions and pages', () => {
+    const rows = [row(['a'], 1, 5, 1), row(['b'], 3, 1, 1), row(['c'], 1, 9, 1)];
+    expect(sortAndPage(rows, 2).map((r) => r.keys[0])).toEqual(['b', 'c']);
+    expect(sortAndPage(rows, 2, 2).map((r) => r.keys[0])).toEqual(['a']);
+  });
+
+  it('matches filters the way the API does', () => {
+    expect(matchesDimensionFilter('Best Shoes', { dimension: 'query', operator: 'contains', expression: 'shoes' })).toBe(true);
+    expect(matchesDimensionFilter('usa', { dimension: 'country', operator: 'equals', expression: 'USA' })).toBe(true);
+    expect(matchesDimensionFilter('/blog/x', { dimension: 'page', operator: 'includingRegex', expression: '^/blog/' })).toBe(true);
+    expect(matchesDimensionFilter('/blog/x', { dimension: 'page', operator: 'excludingRegex', expression: '^/blog/' })).toBe(false);
+  });
+
+  it('translates RE2-only regex syntax before matching', () => {
+    const regex = (expression: string) => ({ dimension: 'query', operator: 'includingRegex', expression }) as const;
+    expect(matchesDimensionFilter('Best Shoes', regex('(?i)^best shoes\\z'))).toBe(true);
+    expect(matchesDimensionFilter('best shoesz', regex('shoes\\z'))).toBe(false);
+    expect(matchesDimensionFilter('size 42', regex('(?P<n>[[:digit:]]+)$'))).toBe(true);
+    expect(matchesDimensionFilter('a.b', regex('\\Qa.b\\E'))).toBe(true);
+    expect(matchesDimensionFilter('axb', regex('\\Qa.b\\E'))).toBe(false);
+  });
+
+  it('rejects regexes that cannot be evaluated locally', () => {
+    const regex = (expression: string) => ({ dimension: 'query', operator: 'includingRegex', expression }) as const;
+    expect(() => matchesDimensionFilter('x', regex('a(?i)b'))).toThrow(ValidationError);
+    expect(() => matchesDimensionFilter('x', regex('\\C'))).toThrow(ValidationError);
+  });
+});
+
+describe('WarehouseStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gsc-warehouse-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('tracks coverage and the watermark as days are written', async () => {
+    const store = new WarehouseStore(dir);
+    expect(await store.getCoverage(SITE)).toBeUndefined();
+
+    await store.writeDay(SITE, 'web', '2020-01-02', [row(['2020-01-02', 'q', '/a', 'usa', 'MOBILE'], 1, 10, 3)]);
+    await store.writeDay(SITE, 'web', '2020-01-01', [row(['2020-01-01', 'q', '/a', 'usa', 'MOBILE'], 2, 20, 4)]);
+
+    const coverage = await store.getCoverage(SITE);
+    expect(coverage).toMatchObject({ firstDate: '2020-01-01', lastDate: '2020-01-02', rowCount: 2 });
+    expect(await store.listCoverage()).toHaveLength(1);
+  });
+
+  it('replaces a day on rewrite instead of double counting', async () => {
+    const store = new WarehouseStore(dir);
+    const day = [row(['2020-01-01', 'q', '/a', 'usa', 'MOBILE'], 2, 20, 4)];
+    await store.writeDay(SITE, 'web', '2020-01-01', day);
+    await store.writeDay(SITE, 'web', '2020-01-01', day);
+
+    expect((await store.getCoverage(SITE))?.rowCount).toBe(1);
+  });
+
+  it('writes rows from an async iterable and keeps the old day if it fails', async () => {
+    const store = new WarehouseStore(dir);
+    async function* pages(fail: boolean): AsyncGenerator<SearchAnalyticsRow> {
+      yield row(['2020-01-01', 'a', '/a', 'usa', 'MOBILE'], 1, 10, 2);
+      if (fail) throw new Error('page 2 failed');
+      yield row(['2020-01-01', 'b', '/b', 'usa', 'MOBILE'], 2, 20, 3);
+    }
+
+    await store.writeDay(SITE, 'web', '2020-01-01', pages(false));
+    await expect(store.writeDay(SITE, 'web', '2020-01-01', pages(true))).rejects.toThrow('page 2 failed');
+
+    expect((await store.getCoverage(SITE))?.rowCount).toBe(2);
+    const request: SearchAnalyticsRequest = {
+      siteUrl: SITE,
+      startDate: '2020-01-01',
+      endDate: '2020-01-01',
+      dimensions: ['query'],
+    };
+    expect(await store.query(request, request.startDate, request.endDate)).toHaveLength(2);
+  });
+
+  it('groups stored rows by the requested dimensions and applies filters', async () => {
+    const store = new WarehouseStore(dir);
+    await store.writeDay(SITE, 'web', '2020-01-01', [
+      row(['2020-01-01', 'shoes', '/a', 'usa', 'MOBILE'], 5, 50, 2),
+      row(['2020-01-01', 'boots', '/a', 'gbr', 'DESKTOP'], 1, 50, 4),
+    ]);
+    await store.writeDay(SITE, 'web', '2020-01-02', [
+      row(['2020-01-02', 'shoes', '/b', 'usa', 'MOBILE'], 3, 30, 1),
+    ]);
+
+    const request: SearchAnalyticsRequest = {
+      siteUrl: SITE,
+      startDate: '2020-01-01',
+      endDate: '2020-01-02',
+      dimensions: ['query'],
+      dimensionFilterGroups: [{ filters: [{ dimension: 'country', operator: 'equals', expression: 'usa' }] }],
+    };
+    const rows = await store.query(request, request.startDate, request.endDate);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ keys: ['shoes'], clicks: 8, impressions: 80 });
+  });
+
+  it('cannot serve searchAppearance', () => {
+    const store = new WarehouseStore(dir);
+    expect(store.canServe({ siteUrl: SITE, startDate: '2020-01-01', endDate: '2020-01-02', dimensions: ['searchAppearance'] })).toBe(false);
+    expect(store.canServe({ siteUrl: SITE, startDate: '2020-01-01', endDate: '2020-01-02', dimensions: ['page', 'date'] })).toBe(true);
+  });
+});
+
+describe('queryWithWarehouse', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gsc-warehouse-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('leaves in-window requests to the API', async () => {
+    const store = new WarehouseStore(dir);
+    const fetchLive = vi.fn();
+    const today = new Date().toISOString().slice(0, 10);
+    const result = await queryWithWarehouse(store, { siteUrl: SITE, startDate: today, endDate: today }, fetchLive);
+    expect(result).toBeUndefined();
+    expect(fetchLive).not.toHaveBeenCalled();
+  });
+
+  it('answers old ranges locally and merges live data after the watermark', async () => {
+    const store = new WarehouseStore(dir);
+    await store.writeDay(SITE, 'web', '2020-01-01', [row(['2020-01-01', 'shoes', '/a', 'usa', 'MOBILE'], 5, 50, 2)]);
+
+    const fetchLive = vi.fn().mockResolvedValue({
+      rows: [row(['shoes'], 1, 50, 4)],
+      responseAggregationType: 'byPage',
+    });
+
+    const result = await queryWithWarehouse(
+      store,
+      { siteUrl: SITE, startDate: '2020-01-01', endDate: '2020-01-05', dimensions: ['query'] },
+      fetchLive,
+    );
+
+    expect(fetchLive).toHaveBeenCalledWith(expect.objectContaining({ startDate: '2020-01-02', endDate: '2020-01-05' }));
+    expect(result?.rows).toHaveLength(1);
+    expect(result?.rows[0]).toMatchObject({ keys: ['shoes'], clicks: 6, impressions: 100 });
+    expect(result?.rows[0].position).toBeCloseTo(3);
+    expect(result?.notices?.some((n) => n.includes('local warehouse'))).toBe(true);
+  });
+});